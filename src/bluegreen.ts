@@ -0,0 +1,300 @@
+import * as core from "@actions/core";
+import type { ComposeSpec } from "./compose.js";
+import {
+  listServices,
+  type ServiceWithMetadata,
+  stackNamespaceLabel,
+  updateServiceEnvironment,
+  updateServiceLabels,
+} from "./engine.js";
+import type { Settings } from "./settings.js";
+import { teardownStack } from "./teardown.js";
+
+/**
+ * Label recording the color of the services of a blue/green deployment
+ */
+export const colorLabel = "com.matchory.deployment.color";
+
+export type Color = "blue" | "green";
+
+export const colors: Color[] = ["blue", "green"];
+
+/**
+ * Colors of a blue/green deployment, as found on the cluster
+ */
+export interface BlueGreenDeployment {
+  /**
+   * Color that receives traffic, if any
+   */
+  active?: Color;
+
+  /**
+   * Color to deploy the new version as
+   */
+  next: Color;
+
+  /**
+   * Stacks to remove once the new color receives traffic
+   */
+  retired: string[];
+}
+
+type ColoredService = {
+  ports?: Array<string | number | { published?: unknown }>;
+  deploy?: { labels?: Record<string, string> | string[] };
+};
+
+/**
+ * Name of the stack a color is deployed as
+ *
+ * @param stack Name of the stack
+ * @param color Color of the deployment
+ */
+export function colorStack(stack: string, color: Color) {
+  return `${stack}-${color}`;
+}
+
+/**
+ * Find the active color of a stack, and the color to deploy next
+ *
+ * The active color is the one whose services carry the routing label, so it
+ * is read from the cluster rather than from the state of a workflow: a rerun
+ * of a deployment that failed, or was cancelled, before switching deploys the
+ * same color again. A stack deployed without blue/green under the plain name
+ * is retired along with the previous color.
+ *
+ * @param settings Deployment settings
+ */
+export async function resolveColors({
+  routingLabel,
+  stack,
+}: Pick<Readonly<Settings>, "routingLabel" | "stack">) {
+  const [blue, green, plain] = await Promise.all([
+    listServices(
+      { labels: { [stackNamespaceLabel]: colorStack(stack, "blue") } },
+      true,
+    ),
+    listServices(
+      { labels: { [stackNamespaceLabel]: colorStack(stack, "green") } },
+      true,
+    ),
+    listServices({ labels: { [stackNamespaceLabel]: stack } }),
+  ]);
+  const deployed = { blue, green };
+
+  // Both colors only carry the routing label if a switch was interrupted
+  // before the old color was removed; the one labelled last is the newer one.
+  const active = colors
+    .filter((color) =>
+      deployed[color].some(
+        ({ Spec }) => Spec?.Labels?.[routingLabel] === "true",
+      ),
+    )
+    .sort((a, b) => latestVersion(deployed[b]) - latestVersion(deployed[a]))[0];
+  const next: Color = active === "blue" ? "green" : "blue";
+  const retired = [
+    ...colors
+      .filter((color) => color !== next && deployed[color].length > 0)
+      .map((color) => colorStack(stack, color)),
+    ...(plain.length > 0 ? [stack] : []),
+  ];
+
+  core.info(
+    active
+      ? `Stack "${stack}" is live as "${colorStack(stack, active)}"; ` +
+          `deploying the new version as "${colorStack(stack, next)}"`
+      : `Stack "${stack}" has no live color yet; deploying it as ` +
+          `"${colorStack(stack, next)}"`,
+  );
+
+  return { active, next, retired } satisfies BlueGreenDeployment;
+}
+
+/**
+ * Settings to deploy a color with
+ *
+ * The color is deployed as a stack of its own, and available for
+ * interpolation as `MATCHORY_DEPLOYMENT_COLOR`, so services can use it to
+ * keep router names apart, for example.
+ *
+ * @param settings Deployment settings
+ * @param color Color to deploy
+ */
+export function colorSettings<T extends Pick<Settings, "stack" | "variables">>(
+  settings: T,
+  color: Color,
+): T {
+  return {
+    ...settings,
+    stack: colorStack(settings.stack, color),
+    variables: new Map([
+      ...settings.variables,
+      ["MATCHORY_DEPLOYMENT_COLOR", color],
+    ]),
+  };
+}
+
+/**
+ * Label every service with its color, and keep traffic away from it
+ *
+ * The routing label is set to `false` regardless of its value in the Compose
+ * file, so the new color only receives traffic once `switchColor` turns it on.
+ * Published ports are rejected: both colors run at the same time, and two
+ * stacks cannot publish the same port.
+ *
+ * @param spec The final Compose specification
+ * @param color Color to deploy
+ * @param settings Deployment settings
+ * @throws {Error} If a service publishes a port
+ */
+export function labelColor(
+  spec: ComposeSpec,
+  color: Color,
+  { routingLabel }: Pick<Readonly<Settings>, "routingLabel">,
+) {
+  const publishing = Object.entries(
+    spec.services as Record<string, ColoredService>,
+  )
+    .filter(([, service]) => service.ports?.some(isPublished))
+    .map(([name]) => `"${name}"`);
+
+  if (publishing.length > 0) {
+    throw new Error(
+      `Service(s) ${publishing.join(", ")} publish ports, which the old and ` +
+        "the new color of a blue/green deployment cannot both bind. Route " +
+        "traffic to them with the routing label or an ingress service instead.",
+    );
+  }
+
+  const labelled = structuredClone(spec);
+  const added: Record<string, string> = {
+    [colorLabel]: color,
+    [routingLabel]: "false",
+  };
+
+  for (const service of Object.values(labelled.services) as ColoredService[]) {
+    const labels = service.deploy?.labels;
+
+    service.deploy = {
+      ...service.deploy,
+      labels: Array.isArray(labels)
+        ? [
+            ...labels.filter((label) => !(label.split("=")[0] in added)),
+            ...Object.entries(added).map(([key, value]) => `${key}=${value}`),
+          ]
+        : { ...labels, ...added },
+    };
+  }
+
+  return labelled;
+}
+
+/**
+ * Route traffic to the new color, and remove the previous one
+ *
+ * This sets the routing label of every service of the new color to `true`,
+ * and, if an ingress service is configured, points it to the stack of the new
+ * color via the `MATCHORY_DEPLOYMENT_STACK` and `MATCHORY_DEPLOYMENT_COLOR`
+ * environment variables. Changing the environment restarts the tasks of the
+ * ingress service, following its update config. The retired stacks are torn
+ * down last, so there is no moment without a color receiving traffic.
+ *
+ * @param deployment The colors of the deployment
+ * @param settings Deployment settings
+ */
+export async function switchColor(
+  { next, retired }: BlueGreenDeployment,
+  settings: Pick<
+    Readonly<Settings>,
+    | "ingressService"
+    | "monitorInterval"
+    | "monitorTimeout"
+    | "routingLabel"
+    | "stack"
+  >,
+) {
+  const stack = colorStack(settings.stack, next);
+
+  core.startGroup(`Switching stack "${settings.stack}" to "${stack}"`);
+
+  try {
+    const services = await listServices({
+      labels: { [stackNamespaceLabel]: stack },
+    });
+
+    for (const { ID, Name } of services) {
+      await updateServiceLabels(ID, { [settings.routingLabel]: "true" });
+      core.info(`Routing traffic to service "${Name}"`);
+    }
+
+    if (settings.ingressService) {
+      await updateServiceEnvironment(settings.ingressService, {
+        MATCHORY_DEPLOYMENT_STACK: stack,
+        MATCHORY_DEPLOYMENT_COLOR: next,
+      });
+      core.info(
+        `Pointed ingress service "${settings.ingressService}" to "${stack}", ` +
+          "restarting its tasks",
+      );
+    }
+
+    // The new color is live at this point, so failing to clean up after the
+    // previous one must not fail the deployment.
+    for (const retiredStack of retired) {
+      try {
+        await teardownStack({ ...settings, stack: retiredStack });
+      } catch (error) {
+        core.warning(`Failed to remove stack "${retiredStack}": ${error}`);
+      }
+    }
+  } finally {
+    core.endGroup();
+  }
+}
+
+/**
+ * Remove a color that failed, leaving the active one in place
+ *
+ * @param settings Settings the color was deployed with
+ * @param cause The error that failed the deployment
+ */
+export async function discardColor(
+  settings: Pick<
+    Readonly<Settings>,
+    "monitorInterval" | "monitorTimeout" | "stack"
+  >,
+  cause: unknown,
+): Promise<never> {
+  const reason = cause instanceof Error ? cause.message : String(cause);
+
+  try {
+    await teardownStack(settings);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    throw new Error(
+      `Deployment failed (${reason}), and removing "${settings.stack}" ` +
+        `failed as well: ${message}. It does not receive traffic, and is ` +
+        "replaced by the next deployment.",
+      { cause },
+    );
+  }
+
+  throw new Error(
+    `Deployment failed, and "${settings.stack}" was removed without ` +
+      `receiving traffic: ${reason}`,
+    { cause },
+  );
+}
+
+// The short syntax is "[host:]published:target[/protocol]"; a target alone is
+// published on a free port Swarm assigns
+function isPublished(port: string | number | { published?: unknown }) {
+  return typeof port === "object"
+    ? port.published !== undefined
+    : String(port).includes(":");
+}
+
+function latestVersion(services: ServiceWithMetadata[]) {
+  return Math.max(0, ...services.map(({ Version }) => Version?.Index ?? 0));
+}
@@ -0,0 +1,392 @@
+import * as core from "@actions/core";
+import type { ComposeSpec } from "./compose.js";
+import { diffStack } from "./diff.js";
+import {
+  listServices,
+  listServiceTasks,
+  rollbackService,
+  stackNamespaceLabel,
+  type TaskStatus,
+  updateServiceRollout,
+} from "./engine.js";
+import { findServiceHealthCheck } from "./healthcheck.js";
+import { buildFailureReport, monitorRollback } from "./monitoring.js";
+import type { Settings } from "./settings.js";
+import { sleep } from "./utils.js";
+
+/**
+ * Time in seconds to observe a canary for, unless configured otherwise
+ */
+const defaultSoak = 60;
+
+/**
+ * Canary rollout of a service
+ */
+export interface Canary {
+  service: string;
+  id: string;
+
+  /**
+   * Number of tasks to update before the rollout is held
+   */
+  tasks: number;
+
+  /**
+   * Time in seconds to observe the canary tasks for
+   */
+  soak: number;
+
+  /**
+   * How the service rolls out its remaining tasks once the canary is promoted
+   */
+  rollout: { parallelism: number; delay: string };
+
+  /**
+   * IDs of the tasks of the service before the deployment
+   */
+  baseline: Set<string>;
+}
+
+type CanaryService = {
+  "x-canary"?: unknown;
+  deploy?: {
+    mode?: string;
+    replicas?: number | string;
+    update_config?: {
+      parallelism?: number | string;
+      delay?: string;
+      [key: string]: unknown;
+    };
+    [key: string]: unknown;
+  };
+};
+
+interface CanaryOutcome {
+  canary: Canary;
+  tasks: TaskStatus[];
+  failure?: string;
+}
+
+/**
+ * Prepare the canary rollout of services with an `x-canary` extension
+ *
+ * Swarm updates the tasks of a service in batches of its `parallelism`,
+ * waiting for its `delay` in between. For every service with an `x-canary`
+ * extension that the deployment changes, this sets the first batch to the
+ * canary tasks, and holds the rollout after it for the soak period and the
+ * monitoring timeout, leaving time to observe the canary before promoting or
+ * rolling it back with `promoteCanaries`. The extension accepts the number of
+ * canary `replicas`, or a `percentage` of the replicas, rounded up, and the
+ * `soak` period in seconds:
+ *
+ * ```yaml
+ * x-canary:
+ *   percentage: 10
+ *   soak: 120
+ * ```
+ *
+ * Services that are created, or only scaled, by the deployment roll out
+ * nothing, so they are deployed as usual. So are services that later waves of
+ * a staged deployment wait for: their held rollout would not complete before
+ * the canaries are promoted, which only happens once all waves are deployed.
+ *
+ * @param spec The final Compose specification
+ * @param settings Deployment settings
+ * @param [awaited] Services that later waves of a staged deployment wait for
+ * @returns The specification to deploy, and the canaries to observe
+ */
+export async function prepareCanaries(
+  spec: ComposeSpec,
+  settings: Pick<Readonly<Settings>, "monitorTimeout" | "prune" | "stack">,
+  awaited: ReadonlySet<string> = new Set(),
+): Promise<{ spec: ComposeSpec; canaries: Canary[] }> {
+  const configured = Object.entries(spec.services)
+    .filter(([, service]) => "x-canary" in (service as CanaryService))
+    .map(([name]) => name);
+
+  if (configured.length === 0) {
+    return { spec, canaries: [] };
+  }
+
+  const prepared = structuredClone(spec);
+  const [diffs, running] = await Promise.all([
+    diffStack(spec, settings),
+    listServices({ labels: { [stackNamespaceLabel]: settings.stack } }, true),
+  ]);
+  const canaries: Canary[] = [];
+
+  for (const name of configured) {
+    const service = prepared.services[name] as CanaryService;
+    const { replicas, percentage, soak } = parseCanary(
+      name,
+      service["x-canary"],
+    );
+    const diff = diffs.find((diff) => diff.service === name);
+    const id = running.find(
+      (service) =>
+        (service.Spec?.Name ?? service.Name) === `${settings.stack}_${name}`,
+    )?.ID;
+
+    delete service["x-canary"];
+
+    if (
+      !id ||
+      diff?.status !== "update" ||
+      diff.changes.every(({ field }) => field === "replicas")
+    ) {
+      core.info(
+        `Service "${name}" has no tasks to roll out, so it is deployed ` +
+          "without a canary",
+      );
+
+      continue;
+    }
+
+    if (awaited.has(name)) {
+      core.warning(
+        `Later waves of the staged deployment wait for service "${name}", ` +
+          "which they could not while its rollout is held for the canary, " +
+          "so it is deployed without a canary.",
+      );
+
+      continue;
+    }
+
+    if (service.deploy?.mode === "global") {
+      core.warning(
+        `Service "${name}" runs in global mode, which does not support ` +
+          "canary rollouts, so it is deployed without a canary.",
+      );
+
+      continue;
+    }
+
+    const total = Number(service.deploy?.replicas ?? 1);
+    const tasks =
+      replicas ?? Math.max(1, Math.ceil((total * (percentage ?? 0)) / 100));
+
+    if (tasks >= total) {
+      core.warning(
+        `The canary of service "${name}" would update all of its ${total} ` +
+          "replica(s) at once, so it is deployed without a canary.",
+      );
+
+      continue;
+    }
+
+    const updateConfig = service.deploy?.update_config;
+
+    canaries.push({
+      service: name,
+      id,
+      tasks,
+      soak,
+      rollout: {
+        parallelism: Number(updateConfig?.parallelism ?? 1),
+        delay: String(updateConfig?.delay ?? "0s"),
+      },
+      baseline: new Set((await listServiceTasks(id)).map(({ ID }) => ID)),
+    });
+
+    service.deploy = {
+      ...service.deploy,
+      update_config: {
+        ...updateConfig,
+        parallelism: tasks,
+        delay: `${soak + settings.monitorTimeout}s`,
+      },
+    };
+
+    core.info(
+      `Service "${name}" is rolled out to ${tasks} of ${total} task(s) ` +
+        `first, which are observed for ${soak}s before the rollout continues`,
+    );
+  }
+
+  return { spec: prepared, canaries };
+}
+
+/**
+ * Observe the canaries, and promote or roll them back
+ *
+ * Once the canary tasks of a service are running, they are watched for its
+ * soak period. If all canaries survive it, the held rollouts continue as the
+ * services originally configured. If a canary task fails, or restarts, which
+ * leaves a failed task behind, a failure report is built for it, and all
+ * canary services are rolled back to their previous spec.
+ *
+ * @param canaries The canaries to observe
+ * @param settings Deployment settings
+ * @param spec The final Compose specification, to look up health checks
+ */
+export async function promoteCanaries(
+  canaries: Canary[],
+  settings: Pick<
+    Readonly<Settings>,
+    "monitorInterval" | "monitorTimeout" | "stack"
+  >,
+  spec?: ComposeSpec,
+) {
+  if (canaries.length === 0) {
+    return;
+  }
+
+  const startTime = new Date();
+  const outcomes = await Promise.all(
+    canaries.map((canary) => observeCanary(canary, settings)),
+  );
+  const failures = outcomes.filter(({ failure }) => failure !== undefined);
+
+  if (failures.length === 0) {
+    for (const { service, id, rollout } of canaries) {
+      await updateServiceRollout(id, rollout);
+      core.info(`The canary of service "${service}" has been promoted`);
+    }
+
+    return;
+  }
+
+  // Reports are built one after another, so the summary does not interleave
+  for (const { canary, tasks } of failures) {
+    await buildFailureReport(
+      canary.id,
+      canary.service,
+      startTime,
+      tasks,
+      findServiceHealthCheck(spec, canary.service),
+    );
+  }
+
+  for (const { id } of canaries) {
+    await rollbackService(id);
+  }
+
+  const rollbacks = await monitorRollback(
+    settings,
+    canaries.map(({ id }) => id),
+  );
+  const unresolved = canaries.filter(
+    ({ id }) => rollbacks.get(id) !== undefined,
+  );
+
+  throw new Error(
+    `The canary of ${failures
+      .map(({ canary, failure }) => `service "${canary.service}" ${failure}`)
+      .join("; ")}. ` +
+      (unresolved.length > 0
+        ? `Rolling back ${unresolved.map(({ service }) => `"${service}"`).join(", ")} ` +
+          `did not converge: ${unresolved.map(({ id }) => rollbacks.get(id)).join("; ")}.`
+        : `${canaries.length} canary service(s) have been rolled back to ` +
+          "their previous spec."),
+  );
+}
+
+async function observeCanary(
+  canary: Canary,
+  {
+    monitorInterval,
+    monitorTimeout,
+  }: Pick<Readonly<Settings>, "monitorInterval" | "monitorTimeout">,
+): Promise<CanaryOutcome> {
+  const start = Date.now();
+  let soakStart: number | undefined;
+
+  while (true) {
+    const tasks = (await listServiceTasks(canary.id)).filter(
+      ({ ID }) => !canary.baseline.has(ID),
+    );
+    const failed = tasks.find(
+      ({ CurrentState }) =>
+        CurrentState.startsWith("Failed") ||
+        CurrentState.startsWith("Rejected"),
+    );
+
+    if (failed) {
+      return {
+        canary,
+        tasks,
+        failure:
+          `failed: task "${failed.Name}" is ${failed.CurrentState}` +
+          (failed.Error ? ` (${failed.Error})` : ""),
+      };
+    }
+
+    if (soakStart === undefined) {
+      const running = tasks.filter(
+        ({ DesiredState, CurrentState }) =>
+          DesiredState === "Running" && CurrentState.startsWith("Running"),
+      );
+
+      if (running.length >= canary.tasks) {
+        soakStart = Date.now();
+        core.info(
+          `The canary of service "${canary.service}" is running; observing ` +
+            `it for ${canary.soak}s`,
+        );
+      } else if (Date.now() - start >= monitorTimeout * 1_000) {
+        return {
+          canary,
+          tasks,
+          failure:
+            `did not start: ${running.length} of its ${canary.tasks} ` +
+            `task(s) were running after ${monitorTimeout}s`,
+        };
+      }
+    } else if (Date.now() - soakStart >= canary.soak * 1_000) {
+      return { canary, tasks };
+    }
+
+    await sleep(monitorInterval * 1_000);
+  }
+}
+
+function parseCanary(name: string, value: unknown) {
+  const options = value === true || value === null ? {} : value;
+
+  if (typeof options !== "object" || options === undefined) {
+    throw new Error(
+      `The "x-canary" extension of service "${name}" must be a mapping with ` +
+        'the "replicas" or "percentage" of canary tasks, and the "soak" ' +
+        "period in seconds.",
+    );
+  }
+
+  const { replicas, percentage, soak } = options as Record<string, unknown>;
+
+  if (replicas !== undefined && percentage !== undefined) {
+    throw new Error(
+      `The "x-canary" extension of service "${name}" sets both "replicas" ` +
+        'and "percentage"; choose one of them.',
+    );
+  }
+
+  for (const [key, option, max] of [
+    ["replicas", replicas, Number.POSITIVE_INFINITY],
+    ["percentage", percentage, 100],
+    ["soak", soak, Number.POSITIVE_INFINITY],
+  ] as const) {
+    if (
+      option !== undefined &&
+      (!Number.isInteger(Number(option)) ||
+        Number(option) <= 0 ||
+        Number(option) > max)
+    ) {
+      throw new Error(
+        `The "${key}" of the "x-canary" extension of service "${name}" must ` +
+          `be a positive whole number${max === 100 ? " up to 100" : ""}, ` +
+          `but is "${option}".`,
+      );
+    }
+  }
+
+  return {
+    replicas:
+      replicas === undefined
+        ? percentage === undefined
+          ? 1
+          : undefined
+        : Number(replicas),
+    percentage: percentage === undefined ? undefined : Number(percentage),
+    soak: soak === undefined ? defaultSoak : Number(soak),
+  };
+}
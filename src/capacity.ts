@@ -0,0 +1,336 @@
+import * as core from "@actions/core";
+import type { ComposeSpec } from "./compose.js";
+import {
+  listNodes,
+  listRunningTasks,
+  listServices,
+  type Node,
+  stackNamespaceLabel,
+} from "./engine.js";
+import {
+  type Constraint,
+  isAvailable,
+  matchConstraint,
+  parseConstraint,
+} from "./placement.js";
+import type { Settings } from "./settings.js";
+
+/**
+ * Multipliers of the units Docker accepts in memory sizes
+ */
+const memoryUnits: Record<string, number> = {
+  "": 1,
+  k: 1024,
+  m: 1024 ** 2,
+  g: 1024 ** 3,
+  t: 1024 ** 4,
+  p: 1024 ** 5,
+};
+
+/**
+ * Resources reserved by a task, or free on a node
+ */
+interface Resources {
+  nanoCpus: number;
+  memory: number;
+}
+
+type CapacityService = {
+  deploy?: {
+    mode?: string;
+    replicas?: number | string;
+    placement?: {
+      constraints?: string[];
+      max_replicas_per_node?: number | string;
+    };
+    resources?: {
+      reservations?: { cpus?: number | string; memory?: number | string };
+    };
+    update_config?: { order?: string; parallelism?: number | string };
+  };
+};
+
+/**
+ * Tasks of a service to fit onto the nodes
+ */
+interface Demand {
+  service: string;
+  reservation: Resources;
+  nodes: Node[];
+  tasks: number;
+  extra: number;
+  maxPerNode: number;
+  global: boolean;
+}
+
+/**
+ * Check that the resource reservations of the stack fit onto the Swarm
+ *
+ * Swarm only schedules a task on a node with enough unreserved CPU and memory
+ * left. If there is none, the task stays pending, and the deployment hangs
+ * until monitoring times out. This fits the reservations of every task of the
+ * new spec onto the nodes each service may run on, after subtracting what the
+ * tasks of other stacks reserve already. The tasks of the stack itself are not
+ * subtracted, as the deployment replaces them; except while services using
+ * `update_config.order: start-first` roll out, when the old and new tasks run
+ * side by side, which is accounted for with one extra task per batch.
+ *
+ * Tasks are placed largest first onto the node with the most free memory,
+ * approximating the spread strategy of the Swarm scheduler. Services without
+ * reservations are not checked, as they fit anywhere.
+ *
+ * @param spec The final Compose specification
+ * @param settings Deployment settings
+ */
+export async function checkCapacity(
+  spec: ComposeSpec,
+  { checkCapacity, stack }: Pick<Readonly<Settings>, "checkCapacity" | "stack">,
+) {
+  const [nodes, tasks, services] = await Promise.all([
+    listNodes(),
+    listRunningTasks(),
+    listServices({}, true),
+  ]);
+  const available = nodes.filter(isAvailable);
+  const free = new Map(
+    available.map((node) => [
+      node.ID,
+      {
+        nanoCpus: node.Description.Resources?.NanoCPUs ?? 0,
+        memory: node.Description.Resources?.MemoryBytes ?? 0,
+      },
+    ]),
+  );
+
+  // Tasks only name their node by hostname, and their service by name
+  const hostnames = new Map(
+    available.map((node) => [node.Description.Hostname, node.ID]),
+  );
+  const reservations = new Map(
+    services
+      .filter(({ Spec }) => Spec?.Labels?.[stackNamespaceLabel] !== stack)
+      .map(({ Spec }) => [
+        Spec?.Name,
+        {
+          nanoCpus: Spec?.TaskTemplate.Resources?.Reservations?.NanoCPUs ?? 0,
+          memory: Spec?.TaskTemplate.Resources?.Reservations?.MemoryBytes ?? 0,
+        },
+      ]),
+  );
+
+  for (const task of tasks) {
+    const reservation = reservations.get(
+      task.Name.slice(0, task.Name.lastIndexOf(".")),
+    );
+    const node = free.get(hostnames.get(task.Node) ?? "");
+
+    if (reservation && node) {
+      node.nanoCpus -= reservation.nanoCpus;
+      node.memory -= reservation.memory;
+    }
+  }
+
+  // A reservation that cannot be parsed only fails the check if it would fail
+  // on any other problem, too; otherwise, the service is left out of it.
+  const demands = Object.entries(spec.services).flatMap(([name, service]) => {
+    try {
+      return resolveDemand(name, service as CapacityService, available);
+    } catch (cause) {
+      const message = cause instanceof Error ? cause.message : String(cause);
+
+      if (checkCapacity === "warn") {
+        core.warning(
+          `Skipping the capacity check of service "${name}": ${message}`,
+        );
+
+        return [];
+      }
+
+      throw new Error(
+        `Failed to check the capacity for service "${name}": ${message}`,
+        { cause },
+      );
+    }
+  });
+  // Global services go first, as their tasks cannot move to another node
+  demands.sort(
+    (a, b) =>
+      Number(b.global) - Number(a.global) ||
+      b.reservation.memory - a.reservation.memory ||
+      b.reservation.nanoCpus - a.reservation.nanoCpus,
+  );
+
+  const problems = demands.flatMap((demand) => placeDemand(demand, free));
+
+  if (problems.length === 0) {
+    core.info(
+      `The resource reservations of ${demands.length} service(s) fit onto ` +
+        `the ${available.length} available node(s)`,
+    );
+
+    return;
+  }
+
+  if (checkCapacity === "warn") {
+    for (const problem of problems) {
+      core.warning(problem);
+    }
+
+    return;
+  }
+
+  throw new Error(
+    `${problems.length} service(s) do not fit onto the Swarm: ` +
+      `${problems.join(" ")} Nothing has been deployed. Lower the ` +
+      "reservations or replicas, or add capacity to the cluster.",
+  );
+}
+
+function resolveDemand(
+  name: string,
+  { deploy }: CapacityService,
+  nodes: Node[],
+): Demand[] {
+  const reservation = {
+    nanoCpus: Math.round(
+      Number(deploy?.resources?.reservations?.cpus ?? 0) * 1e9,
+    ),
+    memory: parseMemory(deploy?.resources?.reservations?.memory),
+  };
+
+  if (reservation.nanoCpus <= 0 && reservation.memory <= 0) {
+    return [];
+  }
+
+  const constraints = (deploy?.placement?.constraints ?? []).map(
+    parseConstraint,
+  );
+
+  // Invalid constraints are reported by the placement check
+  if (constraints.some((constraint) => typeof constraint === "string")) {
+    return [];
+  }
+
+  const eligible = nodes.filter((node) =>
+    (constraints as Constraint[]).every((constraint) =>
+      matchConstraint(constraint, node),
+    ),
+  );
+  const global = deploy?.mode === "global";
+  const tasks = global ? eligible.length : Number(deploy?.replicas ?? 1);
+  const parallelism = Number(deploy?.update_config?.parallelism ?? 1);
+  const startFirst = deploy?.update_config?.order === "start-first";
+  const extra = !startFirst
+    ? 0
+    : global
+      ? eligible.length
+      : parallelism === 0
+        ? tasks
+        : Math.min(parallelism, tasks);
+
+  return [
+    {
+      service: name,
+      reservation,
+      nodes: eligible,
+      tasks,
+      extra,
+      maxPerNode: Number(deploy?.placement?.max_replicas_per_node ?? 0),
+      global,
+    },
+  ];
+}
+
+function placeDemand(
+  { service, reservation, nodes, tasks, extra, maxPerNode, global }: Demand,
+  free: Map<string, Resources>,
+) {
+  const placed = new Map<string, number>();
+  let unplaced = 0;
+
+  for (let index = 0; index < tasks + extra; index++) {
+    // Global services run one task per node, and the extra start-first task
+    // of each on the same node
+    const candidates = global
+      ? [nodes[index % nodes.length]]
+      : nodes.filter(
+          ({ ID }) =>
+            index >= tasks ||
+            maxPerNode <= 0 ||
+            (placed.get(ID) ?? 0) < maxPerNode,
+        );
+    const node = candidates
+      .filter(({ ID }) => fits(reservation, free.get(ID)))
+      .sort(
+        (a, b) => (free.get(b.ID)?.memory ?? 0) - (free.get(a.ID)?.memory ?? 0),
+      )[0];
+
+    if (!node) {
+      unplaced++;
+
+      continue;
+    }
+
+    const resources = free.get(node.ID) as Resources;
+
+    resources.nanoCpus -= reservation.nanoCpus;
+    resources.memory -= reservation.memory;
+    placed.set(node.ID, (placed.get(node.ID) ?? 0) + 1);
+  }
+
+  if (unplaced === 0) {
+    return [];
+  }
+
+  return [
+    `Service "${service}" reserves ${describeResources(reservation)} per ` +
+      `task, but ${unplaced} of its ${tasks + extra} task(s)` +
+      (extra > 0
+        ? `, including ${extra} extra for the start-first update,`
+        : "") +
+      ` fit on none of its ${nodes.length} eligible node(s).`,
+  ];
+}
+
+function fits(reservation: Resources, free: Resources | undefined) {
+  return (
+    free !== undefined &&
+    reservation.nanoCpus <= free.nanoCpus &&
+    reservation.memory <= free.memory
+  );
+}
+
+/**
+ * Parse a memory size as Docker does, e.g. `512M` or `1.5g`, into bytes
+ *
+ * @param value The memory size; plain numbers are bytes
+ */
+export function parseMemory(value: number | string | undefined) {
+  if (value === undefined || value === "") {
+    return 0;
+  }
+
+  const match = String(value)
+    .trim()
+    .match(/^(\d+(?:\.\d+)?)\s*([kmgtp]?)i?b?$/i);
+
+  if (!match) {
+    throw new Error(
+      `Invalid memory reservation "${value}": expected a size like "512M" ` +
+        'or "1g".',
+    );
+  }
+
+  return Math.round(
+    Number(match[1]) * (memoryUnits[match[2].toLowerCase()] ?? 1),
+  );
+}
+
+function describeResources({ nanoCpus, memory }: Resources) {
+  return [
+    nanoCpus > 0 ? `${nanoCpus / 1e9} CPU(s)` : undefined,
+    memory > 0 ? `${Math.round(memory / 1024 ** 2)} MiB of memory` : undefined,
+  ]
+    .filter(Boolean)
+    .join(" and ");
+}
@@ -1,7 +1,6 @@
 import { randomUUID } from "node:crypto";
 import { readFile, unlink, writeFile } from "node:fs/promises";
-import { dirname, join, resolve } from "node:path";
-import { debug } from "node:util";
+import { basename, dirname, join, resolve } from "node:path";
 import * as core from "@actions/core";
 import { CORE_SCHEMA, dump, load, mergeTag } from "js-yaml";
 import {
@@ -9,6 +8,13 @@ import {
   mergeComposeFiles,
   normalizeStackSpecification,
 } from "./engine";
+import { resolveExtends } from "./extends.js";
+import { expandIncludes } from "./include.js";
+import {
+  describeUndefinedVariables,
+  escapeLiteralValues,
+  interpolateTemplate,
+} from "./interpolation.js";
 import {
   containsOverrideTag,
   findOverrideTag,
@@ -17,12 +23,7 @@ import {
 } from "./override-tags.js";
 import { reconcileSwarmCompatibility } from "./reconcile.js";
 import type { Settings } from "./settings.js";
-import {
-  exists,
-  findFirstExistingFile,
-  interpolateString,
-  mapStrings,
-} from "./utils.js";
+import { exists, findFirstExistingFile, isMapping } from "./utils.js";
 import { processVariable, type Variable } from "./variables.js";
 
 export const schemaVersion = "3.9";
@@ -66,6 +67,14 @@ export const defaultVariants = [
   join("docker", "docker-compose.yml"),
 ] as const;
 
+/**
+ * Default variants that do not belong to a specific environment, and serve as
+ * the base file of environment overlays
+ */
+const baseVariants = defaultVariants.filter(
+  (variant) => !/\.(production|prod)\.ya?ml$/.test(variant),
+);
+
 /**
  * Resolves the Docker Compose File path
  *
@@ -73,6 +82,8 @@ export const defaultVariants = [
  * in the settings. If so, it checks if those files exist and are readable.
  * If any of the specified files are missing, it throws an error and aborts
  * the deployment.
+ * If an environment is specified instead, it picks a base file and the
+ * overlays of the environment, see `resolveEnvironmentFiles`.
  * If no Compose Files are specified, it checks common default locations
  * for the Compose File to deploy, using the first one it finds.
  * If neither the specified nor the default Compose Files are found, it throws
@@ -81,7 +92,7 @@ export const defaultVariants = [
 export async function resolveComposeFiles(
   settings: Readonly<Settings>,
 ): Promise<readonly [string, ...string[]]> {
-  debug(`Resolving Compose File from ${settings.composeFiles}`);
+  core.debug(`Resolving Compose File from ${settings.composeFiles}`);
 
   // If the user has specified any Compose Files explicitly, we check those and
   // bail if any is missing. This avoids accidentally deploying a stack with
@@ -93,25 +104,7 @@ export async function resolveComposeFiles(
   // So instead, we check if the files exist and are readable, and if not, we
   // throw an error and abort the deployment.
   if (settings.composeFiles && settings.composeFiles.length > 0) {
-    // Validate that all specified paths resolve within the workspace to
-    // prevent path traversal attacks (e.g., "../../etc/passwd").
-    const workspace = process.env.GITHUB_WORKSPACE || process.cwd();
-    const resolvedWorkspace = resolve(workspace);
-    const prefix = resolvedWorkspace.endsWith("/")
-      ? resolvedWorkspace
-      : `${resolvedWorkspace}/`;
-    const escapedPaths = settings.composeFiles.filter(
-      (path) =>
-        resolve(path) !== resolvedWorkspace &&
-        !resolve(path).startsWith(prefix),
-    );
-
-    if (escapedPaths.length > 0) {
-      throw new Error(
-        `One or more Compose Files resolve outside the workspace ` +
-          `directory: ${escapedPaths.join(", ")}`,
-      );
-    }
+    assertWithinWorkspace(settings.composeFiles);
 
     const files = await Promise.all(
       settings.composeFiles.map((path) => exists(path)),
@@ -135,6 +128,10 @@ export async function resolveComposeFiles(
     return settings.composeFiles as [string, ...string[]];
   }
 
+  if (settings.environment) {
+    return resolveEnvironmentFiles(settings.environment);
+  }
+
   // If no Compose Files are specified, we check several default locations for
   // the Compose File to deploy, using the first one we find. This allows users
   // to use the action without having to specify a Compose File, as long as they
@@ -157,6 +154,105 @@ export async function resolveComposeFiles(
   );
 }
 
+/**
+ * Resolve the Compose Files of an environment
+ *
+ * The base file is the first environment-independent default variant found,
+ * like `compose.yaml` or `docker/docker-compose.yml`. Next to it, the overlays
+ * of the environment are looked up, named after the base file:
+ *  1. `compose.<environment>.yaml`
+ *  2. `compose.override.<environment>.yaml`
+ * Both are used if present, in this order, so the override overlay has the
+ * final say. As with explicitly specified files, the deployment is aborted if
+ * there is no overlay at all: a misspelled environment must not deploy the
+ * base file on its own.
+ *
+ * @param environment Name of the environment to deploy
+ */
+async function resolveEnvironmentFiles(
+  environment: string,
+): Promise<readonly [string, ...string[]]> {
+  const base = await findFirstExistingFile(baseVariants);
+
+  if (!base) {
+    throw new Error(
+      `Could not find a base Compose file for environment "${environment}". ` +
+        `None of the default locations contain one (e.g. compose.yaml, ` +
+        `docker-compose.yaml, .docker/compose.yaml, docker/compose.yaml). ` +
+        `Add a Compose file at one of those paths, or set the "compose-file" ` +
+        `input instead of "environment".`,
+    );
+  }
+
+  core.info(`Found base Compose File at "${base}"`);
+
+  const directory = dirname(base);
+  const prefix = basename(base).replace(/\.ya?ml$/, "");
+  const overlays: string[] = [];
+  const candidates: string[] = [];
+
+  for (const name of [
+    `${prefix}.${environment}`,
+    `${prefix}.override.${environment}`,
+  ]) {
+    const variants = [`${name}.yaml`, `${name}.yml`].map((file) =>
+      join(directory, file),
+    );
+    const overlay = await findFirstExistingFile(variants);
+
+    candidates.push(...variants);
+
+    if (overlay) {
+      core.info(
+        `Found overlay for environment "${environment}" at "${overlay}"`,
+      );
+      overlays.push(overlay);
+    } else {
+      core.debug(`No overlay for environment ${environment} at ${variants}`);
+    }
+  }
+
+  if (overlays.length === 0) {
+    throw new Error(
+      `Could not find a Compose file for environment "${environment}" next ` +
+        `to the base file "${base}". Looked for: ${candidates.join(", ")}. ` +
+        `Check the "environment" input for typos, or add an overlay for the ` +
+        `environment.`,
+    );
+  }
+
+  const files = [base, ...overlays] as const;
+
+  assertWithinWorkspace(files);
+  core.info(
+    `Deploying environment "${environment}" with ${files.join(", ")}, ` +
+      `applied in this order`,
+  );
+
+  return files;
+}
+
+// Validate that all paths resolve within the workspace to prevent path
+// traversal attacks (e.g., "../../etc/passwd").
+function assertWithinWorkspace(paths: readonly string[]) {
+  const workspace = process.env.GITHUB_WORKSPACE || process.cwd();
+  const resolvedWorkspace = resolve(workspace);
+  const prefix = resolvedWorkspace.endsWith("/")
+    ? resolvedWorkspace
+    : `${resolvedWorkspace}/`;
+  const escapedPaths = paths.filter(
+    (path) =>
+      resolve(path) !== resolvedWorkspace && !resolve(path).startsWith(prefix),
+  );
+
+  if (escapedPaths.length > 0) {
+    throw new Error(
+      `One or more Compose Files resolve outside the workspace ` +
+        `directory: ${escapedPaths.join(", ")}`,
+    );
+  }
+}
+
 /**
  * Loads and normalizes the Compose specification
  *
@@ -180,17 +276,40 @@ export async function loadComposeSpecs(
 }
 
 async function loadComposeSpec(filename: string, settings: Settings) {
-  const content = await readFile(filename, "utf8");
-  const parsedContent = load(content, {
+  const parsedContent = await expandIncludes(
+    await readExtendedComposeFile(filename),
     filename,
-    schema: composeSchema,
-  }) as ComposeSpec;
+    settings,
+    readExtendedComposeFile,
+    checkInterpolation,
+  );
+
+  checkInterpolation(parsedContent, filename, settings);
 
   const spec = await prepareSpec(parsedContent, settings, filename);
 
   return { spec, baseDir: dirname(filename) };
 }
 
+// Extended services are resolved per file, as `extends` refers to services
+// relative to the file that uses it.
+async function readExtendedComposeFile(filename: string) {
+  return resolveExtends(
+    await readComposeFile(filename),
+    filename,
+    readComposeFile,
+  );
+}
+
+async function readComposeFile(filename: string) {
+  const content = await readFile(filename, "utf8");
+
+  return load(content, {
+    filename,
+    schema: composeSchema,
+  }) as ComposeSpec;
+}
+
 /**
  * Prepare a parsed Compose spec for merging: normalize top-level shape and
  * convert `content:`/`environment:` secrets and configs to files. This is the
@@ -442,30 +561,206 @@ function assertServicesRemain(spec: ComposeSpec) {
  * This means that `$FOO: $BAR` will be replaced with `foo: bar` if enabled,
  * while it would remain as `$FOO: bar` if disabled, leaving the key untouched.
  *
+ * Problems, like required variables without a value, are collected across
+ * the entire specification and reported at once, each with its YAML path.
+ * With the `strictInterpolation` setting, malformed references and references
+ * to undefined variables are reported, too; otherwise, malformed references
+ * are kept as they are, and undefined variables resolve to an empty string.
+ *
  * @param composeSpec The Compose specification to interpolate
- * @param keyInterpolation Whether to interpolate variables in keys
- * @param variables The variables to use for interpolation
+ * @param settings The variables to use for interpolation, and whether to
+ *                 interpolate keys and reject undefined variables
  */
 export function interpolateSpec(
+  composeSpec: ComposeSpec,
+  settings: Pick<
+    Readonly<Settings>,
+    "variables" | "literalValues" | "keyInterpolation" | "strictInterpolation"
+  >,
+) {
+  const result = interpolateValues(composeSpec, settings);
+
+  assertInterpolated(result, settings, "the Compose specification");
+
+  return result.spec;
+}
+
+/**
+ * Check the interpolation of a single Compose file
+ *
+ * The specification is only interpolated once all files have been merged, at
+ * which point the file a value came from is lost. Checking each file as it is
+ * loaded lets the action report problems along with the file they are in.
+ * Undefined variables and malformed references are reported as a warning,
+ * unless `strictInterpolation` is enabled, in which case they fail the
+ * deployment.
+ *
+ * @param composeSpec The parsed specification of the file
+ * @param filename Path of the Compose file
+ * @param settings Deployment settings
+ * @returns The interpolated specification
+ */
+export function checkInterpolation(
+  composeSpec: ComposeSpec,
+  filename: string,
+  settings: Pick<
+    Readonly<Settings>,
+    "variables" | "literalValues" | "keyInterpolation" | "strictInterpolation"
+  >,
+) {
+  const result = interpolateValues(composeSpec, settings);
+  const { malformed, undefinedVariables } = result;
+
+  assertInterpolated(result, settings, `Compose file "${filename}"`);
+
+  if (malformed.length > 0) {
+    core.warning(
+      `Compose file "${filename}" has malformed variable references, which ` +
+        `are kept as they are: ${malformed.join("; ")} Escape dollar signs ` +
+        `meant literally as "$$", or set "strict-interpolation: true" to ` +
+        `fail the deployment instead.`,
+    );
+  }
+
+  if (!settings.strictInterpolation && undefinedVariables.size > 0) {
+    core.warning(
+      `Compose file "${filename}" uses variables that are not defined, and ` +
+        `resolve to an empty string: ` +
+        [...undefinedVariables]
+          .map(([name, paths]) => `"${name}" at ${paths.join(", ")}`)
+          .join("; ") +
+        `. Set "strict-interpolation: true" to fail the deployment instead.`,
+    );
+  }
+
+  return result.spec;
+}
+
+interface Interpolation {
+  spec: ComposeSpec;
+  problems: string[];
+  // Malformed references kept as they are, with the paths they are at
+  malformed: string[];
+  // Names of undefined variables, and the paths they are used at
+  undefinedVariables: Map<string, string[]>;
+}
+
+function interpolateValues(
   composeSpec: ComposeSpec,
   {
     keyInterpolation,
-    variables,
-  }: Pick<Readonly<Settings>, "variables" | "keyInterpolation">,
+    literalValues,
+    strictInterpolation,
+    variables: values,
+  }: Pick<
+    Readonly<Settings>,
+    "variables" | "literalValues" | "keyInterpolation" | "strictInterpolation"
+  >,
+): Interpolation {
+  const variables = escapeLiteralValues(values, literalValues);
+  const problems: string[] = [];
+  const malformed: string[] = [];
+  const undefinedVariables = new Map<string, string[]>();
+
+  const interpolate = (value: string, path: Array<string | number>) => {
+    const names = new Set<string>();
+    const references = strictInterpolation ? undefined : [];
+
+    try {
+      return interpolateTemplate(value, variables, names, references);
+    } catch (error) {
+      problems.push(`${formatPath(path)}: ${(error as Error).message}`);
+
+      return value;
+    } finally {
+      for (const problem of references ?? []) {
+        malformed.push(`${formatPath(path)}: ${problem}`);
+      }
+
+      for (const name of names) {
+        undefinedVariables.set(name, [
+          ...(undefinedVariables.get(name) ?? []),
+          formatPath(path),
+        ]);
+      }
+    }
+  };
+
+  const walk = (value: unknown, path: Array<string | number>): unknown => {
+    if (typeof value === "string") {
+      return interpolate(value, path);
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item, index) => walk(item, [...path, index]));
+    }
+
+    if (!isMapping(value)) {
+      return value;
+    }
+
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        keyInterpolation ? interpolate(key, [...path, key]) : key,
+        walk(item, [...path, key]),
+      ]),
+    );
+  };
+
+  return {
+    spec: walk(composeSpec, []) as ComposeSpec,
+    problems,
+    malformed,
+    undefinedVariables,
+  };
+}
+
+function assertInterpolated(
+  { problems, undefinedVariables }: Interpolation,
+  { strictInterpolation }: Pick<Readonly<Settings>, "strictInterpolation">,
+  source: string,
 ) {
-  // Interpolating keys means interpolating the serialized JSON as one string,
-  // which the per-string walk cannot express.
-  if (keyInterpolation) {
-    return JSON.parse(
-      interpolateString(JSON.stringify(composeSpec), variables),
-    ) as ComposeSpec;
+  const undefinedProblems = strictInterpolation
+    ? [...undefinedVariables].map(
+        ([name, paths]) =>
+          `${paths.join(", ")}: ${describeUndefinedVariables([name])}`,
+      )
+    : [];
+
+  if (problems.length === 0 && undefinedProblems.length === 0) {
+    return;
   }
 
-  return mapStrings(composeSpec, (value) =>
-    interpolateString(value, variables),
+  throw new Error(
+    `Failed to interpolate ${source}:\n` +
+      [...problems, ...undefinedProblems]
+        .map((problem) => `  - ${problem}`)
+        .join("\n") +
+      (undefinedProblems.length > 0
+        ? `\nSet the undefined variables via the "variables" or "secrets" ` +
+          `input, an env-file, or in the workflow environment, or give them ` +
+          `a default, like "\${NAME:-}".`
+        : ""),
   );
 }
 
+// Renders a path like `services.web.labels["com.example.team"]`
+function formatPath(path: Array<string | number>) {
+  return path
+    .map((segment, index) => {
+      if (typeof segment === "number") {
+        return `[${segment}]`;
+      }
+
+      if (!/^[a-zA-Z0-9_-]+$/.test(segment)) {
+        return `[${JSON.stringify(segment)}]`;
+      }
+
+      return index === 0 ? segment : `.${segment}`;
+    })
+    .join("");
+}
+
 export function defineComposeSpec<T extends ComposeSpec>(spec: T) {
   return spec;
 }
@@ -0,0 +1,238 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import * as core from "@actions/core";
+import { exec } from "@actions/exec";
+import {
+  createContext,
+  removeContext,
+  useDockerEnvironment,
+} from "./engine.js";
+import type { Settings } from "./settings.js";
+
+type RemoteSettings = Pick<
+  Readonly<Settings>,
+  | "dockerHost"
+  | "sshKey"
+  | "sshKnownHosts"
+  | "stack"
+  | "tlsCaCert"
+  | "tlsCert"
+  | "tlsKey"
+>;
+
+/**
+ * Connection to a remote Docker engine
+ *
+ * Holds everything that was set up on the runner to reach the engine, so it
+ * can be torn down again once the deployment has finished.
+ */
+export interface RemoteConnection {
+  context: string;
+  directory: string;
+  agentPid?: string;
+}
+
+/**
+ * Connect to the remote Docker engine configured in the settings
+ *
+ * Creates a temporary Docker context for the engine and routes every
+ * subsequent engine call through it. For SSH hosts, the key is loaded into a
+ * dedicated SSH agent, so it never touches the disk, and the known hosts are
+ * written to a temporary file the SSH client of the Docker CLI is pointed at.
+ * For TCP hosts, the TLS material is
+ * written to a private temporary directory the context refers to.
+ * Returns `undefined` if no remote host is configured, in which case the
+ * runner's own Docker context is used.
+ *
+ * @param settings Deployment settings
+ */
+export async function connect(
+  settings: RemoteSettings,
+): Promise<RemoteConnection | undefined> {
+  const { dockerHost } = settings;
+
+  if (!dockerHost) {
+    return undefined;
+  }
+
+  const connection: RemoteConnection = {
+    context: `deployment-${settings.stack}-${randomUUID().slice(0, 8)}`,
+    directory: await mkdtemp(
+      join(process.env.RUNNER_TEMP || tmpdir(), "docker-deployment-"),
+    ),
+  };
+  const env: Record<string, string> = { DOCKER_CONTEXT: connection.context };
+
+  core.startGroup(`Connecting to remote Docker engine at ${dockerHost}`);
+
+  try {
+    if (dockerHost.startsWith("ssh://")) {
+      Object.assign(env, await prepareSsh(settings, connection));
+      await createContext(connection.context, { host: dockerHost });
+    } else {
+      await createContext(connection.context, {
+        host: dockerHost,
+        ...(await prepareTls(settings, connection)),
+      });
+    }
+  } catch (error) {
+    await disconnect(connection);
+
+    throw error;
+  } finally {
+    core.endGroup();
+  }
+
+  useDockerEnvironment(env);
+  core.info(`Using temporary Docker context "${connection.context}"`);
+
+  return connection;
+}
+
+/**
+ * Tear down a connection to a remote Docker engine
+ *
+ * Removes the temporary context, stops the SSH agent, and deletes the key
+ * material and known hosts. Failures are reported as
+ * warnings, so that cleaning up never masks the outcome of the deployment.
+ *
+ * @param connection The connection to tear down
+ */
+export async function disconnect(connection: RemoteConnection | undefined) {
+  if (!connection) {
+    return;
+  }
+
+  useDockerEnvironment(undefined);
+
+  await Promise.all([
+    quietly("remove the temporary Docker context", () =>
+      removeContext(connection.context),
+    ),
+    connection.agentPid &&
+      quietly("stop the SSH agent", () =>
+        exec("ssh-agent", ["-k"], {
+          env: { ...process.env, SSH_AGENT_PID: connection.agentPid ?? "" },
+          silent: true,
+        }),
+      ),
+  ]);
+
+  await quietly("remove the temporary key material", () =>
+    rm(connection.directory, { recursive: true, force: true }),
+  );
+}
+
+// region SSH
+async function prepareSsh(
+  { sshKey, sshKnownHosts }: RemoteSettings,
+  connection: RemoteConnection,
+) {
+  const env: Record<string, string> = {};
+
+  if (sshKey) {
+    const socket = join(connection.directory, "agent.sock");
+    let output = "";
+
+    await exec("ssh-agent", ["-s", "-a", socket], {
+      silent: true,
+      listeners: {
+        stdout: (data) => {
+          output += data.toString();
+        },
+      },
+    });
+
+    connection.agentPid = output.match(/SSH_AGENT_PID=(\d+)/)?.[1];
+    env.SSH_AUTH_SOCK = socket;
+
+    try {
+      await exec("ssh-add", ["-q", "-"], {
+        // Keys pasted into a secret commonly lose their trailing newline,
+        // which OpenSSH refuses to load the key without.
+        input: Buffer.from(`${sshKey.trim()}\n`),
+        env: { ...process.env, SSH_AUTH_SOCK: socket } as Record<
+          string,
+          string
+        >,
+        silent: true,
+      });
+    } catch (cause) {
+      throw new Error(
+        `Failed to load the SSH key: ${cause}. Make sure the "ssh-key" ` +
+          "input holds an unencrypted private key in OpenSSH or PEM format.",
+        { cause },
+      );
+    }
+  }
+
+  if (sshKnownHosts) {
+    env.PATH = await trustKnownHosts(sshKnownHosts, connection);
+  } else {
+    core.warning(
+      'No "ssh-known-hosts" were given. The host key of the remote engine ' +
+        "must already be trusted by the runner, or the connection will fail.",
+    );
+  }
+
+  return env;
+}
+
+// The Docker CLI runs `ssh` from the PATH, without a way to pass it options,
+// so a wrapper placed in front of it on the PATH adds the temporary known
+// hosts file. The runner's own `~/.ssh/known_hosts` is never modified, so
+// nothing is left behind if the job is cancelled before cleaning up.
+async function trustKnownHosts(
+  sshKnownHosts: string,
+  { directory }: RemoteConnection,
+) {
+  const knownHosts = join(directory, "known_hosts");
+  const bin = join(directory, "bin");
+
+  await writeFile(knownHosts, `${sshKnownHosts.trim()}\n`, { mode: 0o600 });
+  await mkdir(bin, { mode: 0o700 });
+  await writeFile(
+    join(bin, "ssh"),
+    "#!/bin/sh\n" +
+      `PATH="\${PATH#${bin}:}" exec ssh ` +
+      `-o "UserKnownHostsFile=${knownHosts} ~/.ssh/known_hosts" "$@"\n`,
+    { mode: 0o700 },
+  );
+
+  return `${bin}:${process.env.PATH ?? ""}`;
+}
+
+// endregion
+
+// region TLS
+async function prepareTls(
+  { tlsCaCert, tlsCert, tlsKey }: RemoteSettings,
+  { directory }: RemoteConnection,
+) {
+  const files: { ca?: string; cert?: string; key?: string } = {};
+
+  for (const [name, content] of [
+    ["ca", tlsCaCert],
+    ["cert", tlsCert],
+    ["key", tlsKey],
+  ] as const) {
+    if (content) {
+      files[name] = join(directory, `${name}.pem`);
+      await writeFile(files[name], content, { mode: 0o600 });
+    }
+  }
+
+  return files;
+}
+
+// endregion
+
+async function quietly(description: string, action: () => Promise<unknown>) {
+  try {
+    await action();
+  } catch (error) {
+    core.warning(`Failed to ${description}: ${error}`);
+  }
+}
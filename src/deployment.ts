@@ -1,3 +1,13 @@
+import * as core from "@actions/core";
+import {
+  colorSettings,
+  discardColor,
+  labelColor,
+  resolveColors,
+  switchColor,
+} from "./bluegreen.js";
+import { type Canary, prepareCanaries, promoteCanaries } from "./canary.js";
+import { checkCapacity } from "./capacity.js";
 import {
   type ComposeSpec,
   interpolateSpec,
@@ -5,36 +15,202 @@ import {
   normalizeSpec,
   resolveComposeFiles,
 } from "./compose.js";
+import { diffStack, reportDiff } from "./diff.js";
+import { pinImageDigests, reportImageDigests } from "./digests.js";
 import { deployStack } from "./engine.js";
 import { validateHealthChecks } from "./healthcheck.js";
+import { recordDeployment } from "./history.js";
 import { monitorDeployment } from "./monitoring.js";
+import { checkPlacement } from "./placement.js";
+import {
+  type DeployFlags,
+  describeDeployFlags,
+  planDeployment,
+  reportPlan,
+} from "./plan.js";
+import { checkImages } from "./preflight.js";
+import { rewriteForPreview } from "./preview.js";
+import { loginToRegistries, removeRegistryConfig } from "./registries.js";
+import {
+  rollbackDeployment,
+  type StackSnapshot,
+  snapshotStack,
+} from "./rollback.js";
 import type { Settings } from "./settings.js";
+import {
+  deployInWaves,
+  reportWaves,
+  resolveWaves,
+  type Wave,
+} from "./staging.js";
+import { publishSummary } from "./utils.js";
 import { pruneVariables, removeGeneratedVariableFiles } from "./variables.js";
 
 /**
  * Main deployment function
  */
-export async function deploy(settings: Readonly<Settings>) {
+export async function deploy(input: Readonly<Settings>) {
+  // A blue/green deployment deploys the new version as a stack of its own, so
+  // everything up to the switch works on the stack of the new color.
+  const blueGreen =
+    input.strategy === "blue-green" ? await resolveColors(input) : undefined;
+  const settings = blueGreen ? colorSettings(input, blueGreen.next) : input;
   let finalSpec: ComposeSpec;
+  let snapshot: StackSnapshot | undefined;
+  let registryConfig: string | undefined;
+  let canaries: Canary[] = [];
 
   try {
+    registryConfig = await loginToRegistries(settings);
+
     const composeFiles = await resolveComposeFiles(settings);
     const composeSpecs = await loadComposeSpecs(composeFiles, settings);
     const composeSpec = await normalizeSpec(composeSpecs, settings);
-    finalSpec = interpolateSpec(composeSpec, settings);
+    finalSpec = rewriteForPreview(
+      interpolateSpec(composeSpec, settings),
+      settings,
+    );
+
+    if (blueGreen) {
+      finalSpec = labelColor(finalSpec, blueGreen.next, settings);
+    }
 
     validateHealthChecks(finalSpec, settings);
 
-    await deployStack(finalSpec, settings);
+    let waves: Wave[] | undefined;
+
+    if (settings.stagedDeployment) {
+      ({ spec: finalSpec, waves } = resolveWaves(finalSpec));
+      reportWaves(waves);
+    }
+
+    if (
+      settings.checkPlacement === "warn" ||
+      settings.checkPlacement === "fail"
+    ) {
+      await checkPlacement(finalSpec, settings);
+    }
+
+    if (
+      settings.checkCapacity === "warn" ||
+      settings.checkCapacity === "fail"
+    ) {
+      await checkCapacity(finalSpec, settings);
+    }
+
+    const digests = settings.checkImages
+      ? await checkImages(finalSpec)
+      : undefined;
+
+    if (settings.pinImageDigests) {
+      const pinned = await pinImageDigests(finalSpec, digests);
+
+      finalSpec = pinned.spec;
+      await reportImageDigests(pinned.images);
+    }
+
+    if (settings.diff || settings.dryRun) {
+      await reportDiff(await diffStack(finalSpec, settings), settings.stack);
+    }
+
+    // A dry run stops here: everything up to this point only reads from the
+    // cluster, while everything after it changes it.
+    if (settings.dryRun) {
+      await reportPlan(await planDeployment(finalSpec, settings));
+
+      return finalSpec;
+    }
+
+    if (settings.monitor && settings.rollbackOnFailure && !blueGreen) {
+      snapshot = await snapshotStack(settings);
+    }
+
+    // Canaries are promoted by observing them, which is part of monitoring
+    if (settings.monitor) {
+      ({ spec: finalSpec, canaries } = await prepareCanaries(
+        finalSpec,
+        settings,
+        new Set(waves?.flatMap(({ conditions }) => [...conditions.keys()])),
+      ));
+    }
+
+    // A failed wave leaves the stack half-updated, and so may a failed stack
+    // deployment; both are undone like a rollout that failed monitoring.
+    try {
+      if (waves && waves.length > 1) {
+        await deployInWaves(finalSpec, waves, settings);
+      } else {
+        await deployStack(finalSpec, settings);
+      }
+    } catch (error) {
+      await undoDeployment(settings, error, blueGreen !== undefined, snapshot);
+
+      throw error;
+    }
+
+    await reportDeployFlags(settings);
   } finally {
     await removeGeneratedVariableFiles();
+    await removeRegistryConfig(registryConfig);
   }
 
   if (settings.monitor) {
-    await monitorDeployment(settings, finalSpec);
+    try {
+      await promoteCanaries(canaries, settings, finalSpec);
+      await monitorDeployment(settings, finalSpec);
+    } catch (error) {
+      await undoDeployment(settings, error, blueGreen !== undefined, snapshot);
+
+      throw error;
+    }
+  }
+
+  if (blueGreen) {
+    await switchColor(blueGreen, input);
   }
 
   await pruneVariables(finalSpec, settings);
+  await recordDeployment(finalSpec, input, settings.stack);
 
   return finalSpec;
 }
+
+/**
+ * Undo a failed deployment, if the settings ask for it
+ *
+ * A blue/green deployment discards the new color, which never received
+ * traffic; any other deployment rolls back to the snapshot taken before it.
+ * Both fail with a report of what was undone.
+ *
+ * @param settings Deployment settings, of the new color for blue/green
+ * @param error The error that failed the deployment
+ * @param blueGreen Whether the deployment is a blue/green one
+ * @param [snapshot] Service versions taken before the deployment
+ */
+async function undoDeployment(
+  settings: Readonly<Settings>,
+  error: unknown,
+  blueGreen: boolean,
+  snapshot: StackSnapshot | undefined,
+) {
+  if (blueGreen && settings.monitor && settings.rollbackOnFailure) {
+    await discardColor(settings, error);
+  }
+
+  if (snapshot) {
+    await rollbackDeployment(settings, snapshot, error);
+  }
+}
+
+/**
+ * Report the flags the stack was deployed with in the job summary
+ */
+async function reportDeployFlags({
+  stack,
+  ...flags
+}: Pick<Readonly<Settings>, "stack"> & DeployFlags) {
+  core.summary.addHeading(`Deployed stack: ${stack}`, 2);
+  core.summary.addTable(describeDeployFlags(flags));
+
+  await publishSummary();
+}
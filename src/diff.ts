@@ -0,0 +1,416 @@
+import * as core from "@actions/core";
+import type { ComposeSpec } from "./compose.js";
+import {
+  listServices,
+  type ServiceSpec,
+  type ServiceWithMetadata,
+  stackNamespaceLabel,
+} from "./engine.js";
+import type { Settings } from "./settings.js";
+import { publishSummary } from "./utils.js";
+
+/**
+ * Fields of a service that are compared between the running stack and the
+ * specification about to be deployed
+ */
+export type DiffField =
+  | "image"
+  | "environment"
+  | "replicas"
+  | "mounts"
+  | "secrets"
+  | "constraints";
+
+/**
+ * Change of a single field of a service
+ *
+ * Scalar fields report their value before and after; collections report the
+ * entries added, removed, or changed. Environment variables are reported by
+ * name only, as their values may be sensitive.
+ */
+export interface FieldChange {
+  field: DiffField;
+  before?: string | number;
+  after?: string | number;
+  added?: string[];
+  removed?: string[];
+  changed?: string[];
+}
+
+export interface ServiceDiff {
+  service: string;
+  status: "create" | "update" | "unchanged" | "remove" | "keep";
+  changes: FieldChange[];
+}
+
+/**
+ * Compare the running stack against a Compose specification
+ *
+ * Inspects every service of the stack currently running on the Swarm and
+ * compares its spec to the service of the same name in the given, normalized
+ * Compose specification. Only the fields listed in `DiffField` are compared,
+ * as they account for the changes that matter when reviewing a deployment;
+ * everything else Swarm sets on a service (defaults, update state) is noise.
+ * Running services missing from the specification are only removed if
+ * `prune` is enabled; otherwise, they are kept running as they are.
+ *
+ * @param spec The final, interpolated Compose specification
+ * @param settings The settings to use for the deployment
+ */
+export async function diffStack(
+  spec: ComposeSpec,
+  { prune, stack }: Pick<Readonly<Settings>, "prune" | "stack">,
+): Promise<ServiceDiff[]> {
+  core.info(`Comparing stack "${stack}" against the running services`);
+
+  const running = await listServices(
+    { labels: { [stackNamespaceLabel]: stack } },
+    true,
+  );
+  const runningByName = new Map<string, ServiceWithMetadata>(
+    running.map((service) => [
+      unprefixed(service.Spec?.Name ?? service.Name, stack),
+      service,
+    ]),
+  );
+  const diffs: ServiceDiff[] = [];
+
+  for (const [name, service] of Object.entries(spec.services)) {
+    const current = runningByName.get(name)?.Spec;
+
+    if (!current) {
+      diffs.push({ service: name, status: "create", changes: [] });
+
+      continue;
+    }
+
+    const changes = diffService(
+      describeRunningService(current),
+      describeComposeService(service as ComposeService, spec, stack),
+    );
+
+    diffs.push({
+      service: name,
+      status: changes.length > 0 ? "update" : "unchanged",
+      changes,
+    });
+  }
+
+  for (const name of runningByName.keys()) {
+    if (!(name in spec.services)) {
+      diffs.push({
+        service: name,
+        status: prune ? "remove" : "keep",
+        changes: [],
+      });
+    }
+  }
+
+  return diffs;
+}
+
+/**
+ * Report the difference between the running stack and a specification
+ *
+ * The diff is written to the log, to the job summary as a table, and to the
+ * `diff` output as JSON.
+ *
+ * @param diffs The per-service differences to report
+ * @param stack The name of the stack the diff applies to
+ */
+export async function reportDiff(diffs: ServiceDiff[], stack: string) {
+  core.startGroup(`Changes to stack "${stack}"`);
+
+  for (const { service, status, changes } of diffs) {
+    core.info(`${status.padEnd(9)} ${service}`);
+
+    for (const change of changes) {
+      core.info(`          ${change.field}: ${describeChange(change)}`);
+    }
+  }
+
+  core.endGroup();
+
+  core.setOutput("diff", JSON.stringify(diffs));
+
+  core.summary.addHeading(`Changes to stack: ${stack}`, 2);
+  core.summary.addTable([
+    [
+      { data: "Service", header: true },
+      { data: "Status", header: true },
+      { data: "Changes", header: true },
+    ],
+    ...diffs.map(({ service, status, changes }) => [
+      { data: service },
+      { data: status },
+      {
+        data:
+          changes
+            .map((change) => `${change.field}: ${describeChange(change)}`)
+            .join("<br>") || "-",
+      },
+    ]),
+  ]);
+
+  await publishSummary();
+}
+
+/**
+ * Describe a field change in a single, human-readable line
+ */
+export function describeChange(change: FieldChange) {
+  if (change.before !== undefined || change.after !== undefined) {
+    return `${change.before ?? "(none)"} → ${change.after ?? "(none)"}`;
+  }
+
+  return [
+    ...(change.added ?? []).map((entry) => `+${entry}`),
+    ...(change.changed ?? []).map((entry) => `~${entry}`),
+    ...(change.removed ?? []).map((entry) => `-${entry}`),
+  ].join(", ");
+}
+
+// region Normalization
+/**
+ * Comparable view of a service, shared by both sides of the diff
+ */
+interface ServiceView {
+  image?: string;
+  environment: Map<string, string>;
+  replicas: string | number;
+  mounts: string[];
+  secrets: string[];
+  constraints: string[];
+}
+
+type ComposeService = {
+  image?: string;
+  environment?: Record<string, string | null> | string[];
+  volumes?: Array<
+    | string
+    | { type?: string; source?: string; target: string; read_only?: boolean }
+  >;
+  secrets?: Array<string | { source: string }>;
+  deploy?: {
+    mode?: string;
+    replicas?: number;
+    placement?: { constraints?: string[] };
+  };
+};
+
+function describeRunningService(spec: ServiceSpec): ServiceView {
+  const container = spec.TaskTemplate.ContainerSpec ?? {};
+
+  return {
+    image: container.Image,
+    environment: new Map(
+      (container.Env ?? []).map((entry) => splitAssignment(entry)),
+    ),
+    replicas: spec.Mode?.Global
+      ? "global"
+      : (spec.Mode?.Replicated?.Replicas ?? 1),
+    mounts: (container.Mounts ?? []).map((mount) =>
+      formatMount(mount.Source, mount.Target, mount.ReadOnly),
+    ),
+    secrets: (container.Secrets ?? []).map(({ SecretName }) => SecretName),
+    constraints: spec.TaskTemplate.Placement?.Constraints ?? [],
+  };
+}
+
+function describeComposeService(
+  service: ComposeService,
+  spec: ComposeSpec,
+  stack: string,
+): ServiceView {
+  const environment = Array.isArray(service.environment)
+    ? service.environment.map((entry) => splitAssignment(entry))
+    : Object.entries(service.environment ?? {}).map(
+        ([key, value]): [string, string] => [key, value ?? ""],
+      );
+
+  return {
+    image: service.image,
+    environment: new Map(environment),
+    replicas:
+      service.deploy?.mode === "global"
+        ? "global"
+        : (service.deploy?.replicas ?? 1),
+    mounts: (service.volumes ?? []).map((volume) => {
+      if (typeof volume === "string") {
+        const [source, target, mode] = volume.split(":");
+
+        return formatMount(
+          resolveVolumeName(source, spec, stack),
+          target ?? source,
+          mode === "ro",
+        );
+      }
+
+      return formatMount(
+        volume.type === "volume"
+          ? resolveVolumeName(volume.source, spec, stack)
+          : volume.source,
+        volume.target,
+        volume.read_only,
+      );
+    }),
+    secrets: (service.secrets ?? []).map((secret) =>
+      resolveSecretName(
+        typeof secret === "string" ? secret : secret.source,
+        spec,
+        stack,
+      ),
+    ),
+    constraints: service.deploy?.placement?.constraints ?? [],
+  };
+}
+
+// Docker prefixes named volumes and secrets with the stack name, unless they
+// are external or carry an explicit name. Mirror that here, so both sides of
+// the diff refer to the same resource by the same name.
+function resolveVolumeName(
+  source: string | undefined,
+  spec: ComposeSpec,
+  stack: string,
+) {
+  const volumes = spec.volumes as
+    | Record<string, { name?: string; external?: unknown } | null>
+    | undefined;
+
+  if (!source || !volumes || !(source in volumes)) {
+    return source;
+  }
+
+  return resolveResourceName(source, volumes[source], stack);
+}
+
+function resolveSecretName(source: string, spec: ComposeSpec, stack: string) {
+  return resolveResourceName(source, spec.secrets?.[source], stack);
+}
+
+function resolveResourceName(
+  source: string,
+  definition: { name?: string; external?: unknown } | null | undefined,
+  stack: string,
+) {
+  if (definition?.name) {
+    return definition.name;
+  }
+
+  return definition?.external ? source : `${stack}_${source}`;
+}
+
+function formatMount(
+  source: string | undefined,
+  target: string,
+  readOnly: boolean | undefined,
+) {
+  return `${source ? `${source}:` : ""}${target}${readOnly ? ":ro" : ""}`;
+}
+
+function splitAssignment(entry: string): [string, string] {
+  const index = entry.indexOf("=");
+
+  return index === -1
+    ? [entry, ""]
+    : [entry.slice(0, index), entry.slice(index + 1)];
+}
+
+function unprefixed(name: string, stack: string) {
+  return name.startsWith(`${stack}_`) ? name.slice(stack.length + 1) : name;
+}
+
+// endregion
+
+// region Comparison
+function diffService(current: ServiceView, next: ServiceView): FieldChange[] {
+  const changes: FieldChange[] = [];
+  const currentImage = comparableImage(current.image, next.image);
+
+  if (normalizeImage(currentImage) !== normalizeImage(next.image)) {
+    changes.push({ field: "image", before: currentImage, after: next.image });
+  }
+
+  const environment = diffMap(current.environment, next.environment);
+
+  if (environment) {
+    changes.push({ field: "environment", ...environment });
+  }
+
+  if (current.replicas !== next.replicas) {
+    changes.push({
+      field: "replicas",
+      before: current.replicas,
+      after: next.replicas,
+    });
+  }
+
+  for (const field of ["mounts", "secrets", "constraints"] as const) {
+    const change = diffList(current[field], next[field]);
+
+    if (change) {
+      changes.push({ field, ...change });
+    }
+  }
+
+  return changes;
+}
+
+// Swarm pins the image it resolved at deploy time, so a running service
+// reports "nginx:1.27@sha256:…". Unless the new image is pinned as well, that
+// digest would show every service as changed, so it is dropped for comparison.
+function comparableImage(
+  current: string | undefined,
+  next: string | undefined,
+) {
+  if (!current || next?.includes("@")) {
+    return current;
+  }
+
+  return current.replace(/@sha256:[a-f0-9]+$/, "");
+}
+
+// Docker fills in the registry, the namespace of official images, and the
+// "latest" tag where a reference omits them, so "nginx" and
+// "docker.io/library/nginx:latest" are the same image. The short form is kept.
+function normalizeImage(image: string | undefined) {
+  if (!image) {
+    return image;
+  }
+
+  const [name, digest] = image.split("@");
+  const tagged = digest || /:[^/]+$/.test(name) ? name : `${name}:latest`;
+  const short = tagged.replace(
+    /^(?:(?:index\.)?docker\.io\/)?(?:library\/(?=[^/]+$))?/,
+    "",
+  );
+
+  return digest ? `${short}@${digest}` : short;
+}
+
+function diffMap(current: Map<string, string>, next: Map<string, string>) {
+  const added = [...next.keys()].filter((key) => !current.has(key));
+  const removed = [...current.keys()].filter((key) => !next.has(key));
+  const changed = [...next.keys()].filter(
+    (key) => current.has(key) && current.get(key) !== next.get(key),
+  );
+
+  if (added.length + removed.length + changed.length === 0) {
+    return undefined;
+  }
+
+  return { added, removed, changed };
+}
+
+function diffList(current: string[], next: string[]) {
+  const added = next.filter((entry) => !current.includes(entry));
+  const removed = current.filter((entry) => !next.includes(entry));
+
+  if (added.length + removed.length === 0) {
+    return undefined;
+  }
+
+  return { added, removed };
+}
+
+// endregion
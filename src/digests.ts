@@ -0,0 +1,129 @@
+import * as core from "@actions/core";
+import type { ComposeSpec } from "./compose.js";
+import { inspectImageDigest } from "./engine.js";
+import { publishSummary } from "./utils.js";
+
+export const imageTagLabel = "com.matchory.deployment.image.tag";
+export const imageDigestLabel = "com.matchory.deployment.image.digest";
+
+/**
+ * Image of a service, as resolved to its registry digest
+ */
+export interface PinnedImage {
+  service: string;
+  image: string;
+  digest: string;
+}
+
+type PinnableService = {
+  image?: string;
+  deploy?: { labels?: Record<string, string> | string[] };
+};
+
+/**
+ * Pin the image of every service to its registry digest
+ *
+ * Tags are mutable: the image a tag points to when the spec is reviewed may
+ * not be the one Swarm pulls when it starts a task, and a later rollback to the
+ * same spec would pull whatever the tag points to by then. Pinning each image
+ * to its digest makes the deployed spec refer to exactly one image.
+ * The tag is kept in the reference for readability, as Docker ignores it once
+ * a digest is given, and both are recorded as service labels.
+ *
+ * Images that are pinned already are left alone. Each distinct image is only
+ * resolved once, however many services use it.
+ *
+ * @param spec The final Compose specification
+ * @param resolved Digests resolved already, keyed by image reference
+ * @returns The pinned specification, and the images that were resolved
+ */
+export async function pinImageDigests(
+  spec: ComposeSpec,
+  resolved: ReadonlyMap<string, string> = new Map(),
+) {
+  const pinned = structuredClone(spec);
+  const digests = new Map(resolved);
+  const images: PinnedImage[] = [];
+
+  for (const [name, service] of Object.entries(pinned.services) as Array<
+    [string, PinnableService]
+  >) {
+    const image = service.image;
+
+    if (!image || image.includes("@")) {
+      continue;
+    }
+
+    let digest = digests.get(image);
+
+    if (!digest) {
+      digest = await inspectImageDigest(image);
+      digests.set(image, digest);
+    }
+
+    service.image = `${image}@${digest}`;
+    service.deploy = {
+      ...service.deploy,
+      labels: withLabels(service.deploy?.labels, {
+        [imageTagLabel]: image,
+        [imageDigestLabel]: digest,
+      }),
+    };
+    images.push({ service: name, image, digest });
+
+    core.info(`Service "${name}": pinned image ${image} to ${digest}`);
+  }
+
+  return { spec: pinned, images };
+}
+
+/**
+ * Report the pinned images
+ *
+ * The mapping of tags to digests is written to the `image-digests` output and
+ * the job summary, so the images that were deployed can be audited later.
+ *
+ * @param images The images that were pinned
+ */
+export async function reportImageDigests(images: PinnedImage[]) {
+  core.setOutput(
+    "image-digests",
+    JSON.stringify(
+      Object.fromEntries(images.map(({ image, digest }) => [image, digest])),
+    ),
+  );
+
+  if (images.length === 0) {
+    return;
+  }
+
+  core.summary.addHeading("Pinned images", 2);
+  core.summary.addTable([
+    [
+      { data: "Service", header: true },
+      { data: "Image", header: true },
+      { data: "Digest", header: true },
+    ],
+    ...images.map(({ service, image, digest }) => [
+      { data: service },
+      { data: image },
+      { data: `<code>${digest}</code>` },
+    ]),
+  ]);
+
+  await publishSummary();
+}
+
+function withLabels(
+  labels: Record<string, string> | string[] | undefined,
+  additions: Record<string, string>,
+) {
+  if (Array.isArray(labels)) {
+    return [
+      ...labels.filter((label) => !(label.split("=")[0] in additions)),
+      ...Object.entries(additions).map(([key, value]) => `${key}=${value}`),
+    ];
+  }
+
+  return { ...labels, ...additions };
+}
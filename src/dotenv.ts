@@ -0,0 +1,177 @@
+import { escapeLiteralValues } from "./interpolation.js";
+import { interpolateString } from "./utils.js";
+
+/**
+ * Escape sequences recognized in double-quoted values. `\$` is turned into the
+ * escaped dollar sign of the interpolation syntax, so it survives
+ * interpolation as a literal dollar sign.
+ */
+const escapeSequences: Record<string, string> = {
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  $: "$$",
+  '"': '"',
+  "\\": "\\",
+};
+
+/**
+ * Parse the content of an environment file
+ *
+ * Follows the dotenv semantics of the Compose CLI:
+ *  - Blank lines and lines starting with `#` are ignored, as is an `export`
+ *    prefix in front of a key.
+ *  - Unquoted values end at the end of the line, or at a `#` preceded by
+ *    whitespace, which starts a comment. Surrounding whitespace is removed.
+ *  - Single-quoted values are taken literally, and may span multiple lines.
+ *  - Double-quoted values may span multiple lines, and support the escape
+ *    sequences `\n`, `\r`, `\t`, `\$`, `\"`, and `\\`.
+ *  - Unquoted and double-quoted values are interpolated with the keys defined
+ *    earlier in the file, falling back to the `lookup` variables.
+ *  - A key without an equals sign takes its value from the `lookup`
+ *    variables, and is skipped if it is not defined there.
+ *
+ * The values are final: keys defined earlier in the file, and the
+ * `literalValues` of the lookup, are not interpolated again when referenced.
+ * Callers interpolating with them later on should escape them likewise, see
+ * `escapeLiteralValues`.
+ *
+ * @param content The content of the file
+ * @param filename Path of the file, used in error messages
+ * @param [lookup] Variables available for interpolation
+ * @param [literalValues] Values of the lookup that are final
+ */
+export function parseDotenv(
+  content: string,
+  filename: string,
+  lookup: ReadonlyMap<string, string> = new Map(),
+  literalValues: ReadonlyMap<string, string> = new Map(),
+): Map<string, string> {
+  const variables = new Map<string, string>();
+  const scope = escapeLiteralValues(lookup, literalValues);
+  const lines = content.replace(/\r\n?/g, "\n").split("\n");
+
+  for (let index = 0; index < lines.length; index++) {
+    const lineNumber = index + 1;
+    const line = lines[index].trimStart();
+
+    if (!line.trim() || line.startsWith("#")) {
+      continue;
+    }
+
+    const match = line.match(
+      /^(?:export\s+)?([A-Za-z_][A-Za-z0-9_.-]*)\s*(?:=\s*(.*))?$/,
+    );
+
+    if (!match) {
+      throw new Error(
+        `Line ${lineNumber} of the environment file "${filename}" is not a valid ` +
+          `assignment: expected a variable name, optionally followed by an ` +
+          `equals sign and a value, like "KEY=value".`,
+      );
+    }
+
+    const [, key, raw] = match;
+    let value: string | undefined;
+
+    if (raw === undefined) {
+      value = variables.get(key) ?? lookup.get(key);
+    } else if (raw.startsWith("'") || raw.startsWith('"')) {
+      const quote = raw[0];
+      let text = raw.slice(1);
+      let end = findClosingQuote(text, quote);
+
+      // Quoted values continue on the following lines until the closing quote
+      while (end === -1) {
+        if (++index >= lines.length) {
+          throw new Error(
+            `The value of "${key}" on line ${lineNumber} of the environment ` +
+              `file "${filename}" is missing its closing quote (${quote}).`,
+          );
+        }
+
+        text += `\n${lines[index]}`;
+        end = findClosingQuote(text, quote);
+      }
+
+      const rest = text.slice(end + 1).trim();
+
+      if (rest && !rest.startsWith("#")) {
+        throw new Error(
+          `The value of "${key}" on line ${lineNumber} of the environment ` +
+            `file "${filename}" is followed by unexpected characters after its ` +
+            `closing quote. Quote the entire value, or add a "#" to start a ` +
+            `comment.`,
+        );
+      }
+
+      const quoted = text.slice(0, end);
+
+      value =
+        quote === "'"
+          ? quoted
+          : interpolate(
+              unescapeValue(quoted),
+              key,
+              lineNumber,
+              filename,
+              scope,
+            );
+    } else {
+      const unquoted = raw.replace(/\s+#.*$/, "").trim();
+
+      value = interpolate(unquoted, key, lineNumber, filename, scope);
+    }
+
+    if (value !== undefined) {
+      variables.set(key, value);
+      scope.set(
+        key,
+        value.replaceAll("$", () => "$$"),
+      );
+    }
+  }
+
+  return variables;
+}
+
+// Backslashes only escape characters in double-quoted values
+function findClosingQuote(text: string, quote: string) {
+  for (let index = 0; index < text.length; index++) {
+    if (quote === '"' && text[index] === "\\") {
+      index++;
+    } else if (text[index] === quote) {
+      return index;
+    }
+  }
+
+  return -1;
+}
+
+// Unknown escape sequences are kept as they are
+function unescapeValue(value: string) {
+  return value.replace(
+    /\\(.)/gs,
+    (sequence, character: string) => escapeSequences[character] ?? sequence,
+  );
+}
+
+function interpolate(
+  value: string,
+  key: string,
+  lineNumber: number,
+  filename: string,
+  scope: Map<string, string>,
+) {
+  try {
+    return interpolateString(value, scope);
+  } catch (cause) {
+    const message = cause instanceof Error ? cause.message : String(cause);
+
+    throw new Error(
+      `Failed to interpolate the value of "${key}" on line ${lineNumber} ` +
+        `of the environment file "${filename}": ${message}`,
+      { cause },
+    );
+  }
+}
@@ -0,0 +1,653 @@
+import { readFile } from "node:fs/promises";
+import { request as httpRequest, type RequestOptions } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { join } from "node:path";
+import * as core from "@actions/core";
+import {
+  type ConfigMetadata,
+  type DockerContext,
+  type getServiceLogs,
+  inspectContext,
+  type inspectService,
+  type listConfigs,
+  type listRunningTasks,
+  type listSecrets,
+  type listServices,
+  type listServiceTasks,
+  type listStackTasks,
+  parseLabelFilter,
+  parseServiceLogs,
+  type SecretMetadata,
+  type Service,
+  type ServiceMetadata,
+  type ServiceWithMetadata,
+  stackNamespaceLabel,
+  type TaskStatus,
+} from "./engine.js";
+import { sleep } from "./utils.js";
+
+/**
+ * Time in milliseconds a request may go without any data before it is
+ * abandoned, so a half-open connection does not hang until the job times out
+ */
+const requestTimeout = 30_000;
+
+/**
+ * Number of attempts of a request that fails with a transient error
+ */
+const retryAttempts = 4;
+
+/**
+ * Time in milliseconds to wait before the first retry, doubling every retry
+ */
+const retryDelay = 1_000;
+
+/**
+ * Error codes of requests that may succeed if sent again, matching the
+ * transient failures the Docker CLI is retried on
+ */
+const transientCodes = ["ECONNREFUSED", "ECONNRESET", "EPIPE", "ETIMEDOUT"];
+
+/**
+ * Address of a Docker engine's API
+ *
+ * Either a Unix socket, or a TCP host, optionally secured with TLS.
+ */
+export type EngineEndpoint =
+  | { socketPath: string }
+  | {
+      host: string;
+      port: number;
+      tls?: {
+        ca?: Buffer;
+        cert?: Buffer;
+        key?: Buffer;
+        rejectUnauthorized: boolean;
+      };
+    };
+
+/**
+ * Engine calls served by the API instead of the CLI
+ *
+ * Every function has the signature of its CLI counterpart in `engine.ts`, and
+ * returns data in the same shape, so callers cannot tell them apart.
+ */
+export type EngineApi = {
+  listServices: typeof listServices;
+  inspectService: typeof inspectService;
+  getServiceLogs: typeof getServiceLogs;
+  listSecrets: typeof listSecrets;
+  listConfigs: typeof listConfigs;
+  listServiceTasks: typeof listServiceTasks;
+  listStackTasks: typeof listStackTasks;
+  listRunningTasks: typeof listRunningTasks;
+};
+
+/**
+ * Create an Engine API client for the current Docker context
+ *
+ * Resolves the endpoint of the context the CLI would use (honoring
+ * `DOCKER_HOST`, `DOCKER_CONTEXT`, and the context created for a remote
+ * `docker-host`), and makes sure the engine answers. SSH endpoints cannot be
+ * reached over plain HTTP; for those, `undefined` is returned, and the CLI
+ * remains in use.
+ */
+export async function createEngineApi(): Promise<EngineApi | undefined> {
+  const endpoint = await resolveEngineEndpoint();
+
+  if (!endpoint) {
+    return undefined;
+  }
+
+  try {
+    await requestEngine(endpoint, "/_ping");
+  } catch (cause) {
+    const message = cause instanceof Error ? cause.message : String(cause);
+
+    throw new Error(
+      `Failed to reach the Docker Engine API: ${message}. Check that the ` +
+        'engine is reachable, or set "engine-client" to "cli".',
+      { cause },
+    );
+  }
+
+  return bindEngineApi(endpoint);
+}
+
+/**
+ * Bind the Engine API calls to an endpoint
+ *
+ * @param endpoint The engine to send requests to
+ */
+export function bindEngineApi(endpoint: EngineEndpoint): EngineApi {
+  return {
+    listServices: ((filters, inspect) =>
+      listServicesViaApi(endpoint, filters, inspect)) as typeof listServices,
+    inspectService: (id) => inspectServiceViaApi(endpoint, id),
+    getServiceLogs: (id, options) =>
+      getServiceLogsViaApi(endpoint, id, options),
+    listSecrets: (filters) =>
+      listVariablesViaApi<SecretMetadata>(endpoint, "secrets", filters),
+    listConfigs: (filters) =>
+      listVariablesViaApi<ConfigMetadata>(endpoint, "configs", filters),
+    listServiceTasks: (serviceId) =>
+      listTasksViaApi(endpoint, { service: serviceId }),
+    listStackTasks: (stack) =>
+      listTasksViaApi(endpoint, { label: `${stackNamespaceLabel}=${stack}` }),
+    listRunningTasks: () =>
+      listTasksViaApi(endpoint, { "desired-state": "running" }),
+  };
+}
+
+// region Endpoint resolution
+async function resolveEngineEndpoint(): Promise<EngineEndpoint | undefined> {
+  const context = await inspectContext();
+  const { Host: host, SkipTLSVerify: skipTlsVerify = false } =
+    context.Endpoints.docker ?? {};
+
+  if (!host) {
+    throw new Error(
+      `Docker context "${context.Name}" has no Docker endpoint to connect to.`,
+    );
+  }
+
+  const url = new URL(host);
+
+  if (url.protocol === "unix:") {
+    return { socketPath: url.pathname };
+  }
+
+  if (url.protocol !== "tcp:") {
+    core.warning(
+      `The Docker Engine API client cannot connect to "${host}"; falling ` +
+        "back to the Docker CLI.",
+    );
+
+    return undefined;
+  }
+
+  const tls = await readTlsMaterial(context);
+  const secure = tls !== undefined || !!process.env.DOCKER_TLS_VERIFY;
+
+  return {
+    host: url.hostname,
+    port: Number(url.port || (secure ? 2376 : 2375)),
+    tls: secure ? { ...tls, rejectUnauthorized: !skipTlsVerify } : undefined,
+  };
+}
+
+// Contexts keep their certificates in their storage directory. The default
+// context has none there; it takes them from DOCKER_CERT_PATH instead. Like
+// the CLI, any non-empty DOCKER_TLS_VERIFY enables TLS.
+async function readTlsMaterial(context: DockerContext) {
+  const files = context.TLSMaterial?.docker ?? [];
+  const directory = files.length
+    ? join(context.Storage.TLSPath, "docker")
+    : process.env.DOCKER_TLS_VERIFY
+      ? process.env.DOCKER_CERT_PATH
+      : undefined;
+
+  if (!directory) {
+    return undefined;
+  }
+
+  const read = async (name: string) => {
+    try {
+      return await readFile(join(directory, name));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+
+      throw error;
+    }
+  };
+
+  return {
+    ca: await read("ca.pem"),
+    cert: await read("cert.pem"),
+    key: await read("key.pem"),
+  };
+}
+
+// endregion
+
+// region Requests
+async function listServicesViaApi(
+  endpoint: EngineEndpoint,
+  filters: Parameters<typeof listServices>[0],
+  inspect?: boolean,
+): Promise<ServiceMetadata[] | ServiceWithMetadata[]> {
+  const services = await requestJson<ApiService[]>(endpoint, "/services", {
+    filters: encodeFilters({
+      id: filters.id,
+      label: filters.labels ? parseLabelFilter(filters.labels) : undefined,
+      mode: filters.mode,
+      name: filters.name,
+    }),
+    status: "true",
+  });
+
+  // The list already holds the full service, so unlike the CLI, inspecting
+  // every service costs no additional request.
+  return services.map((service) => {
+    const metadata = describeService(service);
+
+    return inspect ? { ...metadata, ...service } : metadata;
+  });
+}
+
+async function inspectServiceViaApi(endpoint: EngineEndpoint, id: string) {
+  const { status, body } = await sendRequest(
+    endpoint,
+    `/services/${encodeURIComponent(id)}`,
+  );
+
+  if (status === 404) {
+    throw new Error(
+      `Service "${id}" was not found on the Swarm. It may have been ` +
+        "removed, or the deployment may not have created it.",
+    );
+  }
+
+  return parseJson<Service>(assertSuccess(status, body), "/services");
+}
+
+async function getServiceLogsViaApi(
+  endpoint: EngineEndpoint,
+  id: string,
+  { tail, since }: { tail?: number; since?: Date },
+) {
+  const output = await requestEngine(
+    endpoint,
+    `/services/${encodeURIComponent(id)}/logs`,
+    {
+      stdout: "true",
+      stderr: "true",
+      timestamps: "true",
+      tail: tail ? String(tail) : undefined,
+      since: since ? String(since.getTime() / 1_000) : undefined,
+    },
+  );
+
+  return parseServiceLogs(demultiplexStream(output));
+}
+
+async function listVariablesViaApi<T extends SecretMetadata | ConfigMetadata>(
+  endpoint: EngineEndpoint,
+  kind: "secrets" | "configs",
+  filters: Parameters<typeof listSecrets>[0],
+): Promise<T[]> {
+  const variables = await requestJson<ApiVariable[]>(endpoint, `/${kind}`, {
+    filters: encodeFilters({
+      id: filters.id,
+      name: filters.name,
+      label: filters.labels ? parseLabelFilter(filters.labels) : undefined,
+    }),
+  });
+
+  return variables.map(
+    ({ ID, CreatedAt, UpdatedAt, Spec }) =>
+      ({
+        ID,
+        Name: Spec.Name,
+        Labels: Spec.Labels ?? {},
+        CreatedAt,
+        UpdatedAt,
+      }) as T,
+  );
+}
+
+// Tasks only reference their service and node by ID, while the CLI prints
+// their names, which callers match against; both are looked up in one request
+// each, rather than once per task.
+async function listTasksViaApi(
+  endpoint: EngineEndpoint,
+  filters: Record<string, string>,
+): Promise<TaskStatus[]> {
+  const tasks = await requestJson<ApiTask[]>(endpoint, "/tasks", {
+    filters: encodeFilters(filters),
+  });
+
+  if (tasks.length === 0) {
+    return [];
+  }
+
+  const services = await requestJson<ApiService[]>(endpoint, "/services");
+  const nodes = await requestJson<ApiNode[]>(endpoint, "/nodes");
+  const serviceNames = new Map(
+    services.map(({ ID, Spec }) => [ID, Spec?.Name ?? ID]),
+  );
+  const hostnames = new Map(
+    nodes.map(({ ID, Description }) => [ID, Description?.Hostname ?? ID]),
+  );
+
+  return tasks.map((task) => describeTask(task, serviceNames, hostnames));
+}
+
+// endregion
+
+// region Transport
+async function requestJson<T>(
+  endpoint: EngineEndpoint,
+  path: string,
+  query?: Record<string, string | undefined>,
+): Promise<T> {
+  return parseJson<T>(await requestEngine(endpoint, path, query), path);
+}
+
+function parseJson<T>(body: Buffer, path: string): T {
+  try {
+    return JSON.parse(body.toString("utf-8")) as T;
+  } catch (cause) {
+    throw new Error(
+      `The Docker Engine API returned a response to "${path}" that could ` +
+        "not be parsed as JSON. This is most likely a bug in the deployment " +
+        "action. Please report it to the action issues.",
+      { cause },
+    );
+  }
+}
+
+/**
+ * Send a GET request to the Engine API and collect the response body
+ *
+ * Requests are sent again if they fail with a transient error, like a refused
+ * connection, or one that went without data for longer than `timeout`.
+ *
+ * @param endpoint  The engine to send the request to
+ * @param path      The API path, without a version prefix
+ * @param query     Query parameters; undefined values are omitted
+ * @param [timeout] Time in milliseconds without data before giving up
+ */
+export async function requestEngine(
+  endpoint: EngineEndpoint,
+  path: string,
+  query: Record<string, string | undefined> = {},
+  timeout = requestTimeout,
+): Promise<Buffer> {
+  const { status, body } = await sendRequest(endpoint, path, query, timeout);
+
+  return assertSuccess(status, body);
+}
+
+function assertSuccess(status: number, body: Buffer) {
+  if (status < 200 || status >= 300) {
+    throw new Error(
+      `Docker Engine API responded with ${status}: ${extractErrorMessage(body)}`,
+    );
+  }
+
+  return body;
+}
+
+// All requests are GET requests, which may safely be sent again
+async function sendRequest(
+  endpoint: EngineEndpoint,
+  path: string,
+  query: Record<string, string | undefined> = {},
+  timeout = requestTimeout,
+) {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await sendRequestOnce(endpoint, path, query, timeout);
+    } catch (error) {
+      const { code, message } = error as NodeJS.ErrnoException;
+
+      if (attempt >= retryAttempts || !transientCodes.includes(String(code))) {
+        throw error;
+      }
+
+      const delay = retryDelay * 2 ** (attempt - 1);
+
+      core.warning(
+        `Docker Engine API request to "${path}" failed with a transient ` +
+          `error, retrying in ${delay / 1000}s (attempt ${attempt} of ` +
+          `${retryAttempts}): ${message}`,
+      );
+      await sleep(delay);
+    }
+  }
+}
+
+function sendRequestOnce(
+  endpoint: EngineEndpoint,
+  path: string,
+  query: Record<string, string | undefined>,
+  timeout: number,
+): Promise<{ status: number; body: Buffer }> {
+  const search = new URLSearchParams(
+    Object.entries(query).filter(
+      (entry): entry is [string, string] => entry[1] !== undefined,
+    ),
+  ).toString();
+  const options: RequestOptions = {
+    method: "GET",
+    path: search ? `${path}?${search}` : path,
+    headers: { Host: "docker" },
+  };
+  const send =
+    "socketPath" in endpoint || !endpoint.tls ? httpRequest : httpsRequest;
+
+  if ("socketPath" in endpoint) {
+    options.socketPath = endpoint.socketPath;
+  } else {
+    Object.assign(options, {
+      host: endpoint.host,
+      port: endpoint.port,
+      ...endpoint.tls,
+    });
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = send(options, (response) => {
+      const chunks: Buffer[] = [];
+
+      response.on("data", (chunk: Buffer) => chunks.push(chunk));
+      response.on("error", reject);
+      response.on("end", () =>
+        resolve({
+          status: response.statusCode ?? 0,
+          body: Buffer.concat(chunks),
+        }),
+      );
+    });
+
+    // Destroying the request fails it with the error, even mid-response
+    request.setTimeout(timeout, () =>
+      request.destroy(
+        Object.assign(
+          new Error(
+            `The request to "${path}" received no data for ${timeout / 1000}s`,
+          ),
+          { code: "ETIMEDOUT" },
+        ),
+      ),
+    );
+    request.on("error", reject);
+    request.end();
+  });
+}
+
+/**
+ * Demultiplex a log stream of the Engine API
+ *
+ * Services without a TTY interleave stdout and stderr in frames, each with an
+ * eight-byte header holding the stream type and the size of the payload.
+ * Services with a TTY send their output unframed, and are returned as-is.
+ *
+ * @param data The raw response body
+ */
+export function demultiplexStream(data: Buffer) {
+  const isFramed =
+    data.length >= 8 && data[0] <= 2 && data.readUIntBE(1, 3) === 0;
+
+  if (!isFramed) {
+    return data.toString("utf-8");
+  }
+
+  const payloads: Buffer[] = [];
+  let offset = 0;
+
+  while (offset + 8 <= data.length) {
+    const size = data.readUInt32BE(offset + 4);
+
+    payloads.push(data.subarray(offset + 8, offset + 8 + size));
+    offset += 8 + size;
+  }
+
+  return Buffer.concat(payloads).toString("utf-8");
+}
+
+function extractErrorMessage(body: Buffer) {
+  const text = body.toString("utf-8").trim();
+
+  try {
+    return (JSON.parse(text) as { message?: string }).message ?? text;
+  } catch {
+    return text;
+  }
+}
+
+// The API takes filters as a JSON object of sets, keyed by filter name
+function encodeFilters(filters: Record<string, string | string[] | undefined>) {
+  const encoded = Object.fromEntries(
+    Object.entries(filters)
+      .filter((filter): filter is [string, string | string[]] =>
+        Boolean(filter[1]),
+      )
+      .map(([name, values]) => [
+        name,
+        Object.fromEntries(
+          (Array.isArray(values) ? values : [values]).map((value) => [
+            value,
+            true,
+          ]),
+        ),
+      ]),
+  );
+
+  return Object.keys(encoded).length > 0 ? JSON.stringify(encoded) : undefined;
+}
+
+// endregion
+
+// region Response mapping
+// Mirror the summary `docker service ls` prints, which callers rely on, e.g.
+// `Replicas` to tell whether all tasks of a service are running.
+function describeService(service: ApiService): ServiceMetadata {
+  const image = service.Spec?.TaskTemplate.ContainerSpec?.Image ?? "";
+  const { RunningTasks = 0, DesiredTasks = 0 } = service.ServiceStatus ?? {};
+
+  return {
+    ID: service.ID,
+    Name: service.Spec?.Name ?? service.ID,
+    Mode: service.Spec?.Mode?.Global ? "global" : "replicated",
+    Replicas: `${RunningTasks}/${DesiredTasks}`,
+    Image: image.replace(/@sha256:[a-f0-9]+$/, ""),
+    Ports: (service.Endpoint?.Ports ?? [])
+      .map(
+        ({ PublishedPort, TargetPort, Protocol }) =>
+          `*:${PublishedPort}->${TargetPort}/${Protocol}`,
+      )
+      .join(", "),
+  };
+}
+
+type ApiService = Service & {
+  ServiceStatus?: { RunningTasks?: number; DesiredTasks?: number };
+  Endpoint?: {
+    Ports?: Array<{
+      PublishedPort: number;
+      TargetPort: number;
+      Protocol: string;
+    }>;
+  };
+};
+
+// Mirror the rows `docker service ps` prints. The current state carries the
+// time since the last state change, like "Running 5 minutes ago".
+function describeTask(
+  task: ApiTask,
+  serviceNames: Map<string, string>,
+  hostnames: Map<string, string>,
+): TaskStatus {
+  const service = serviceNames.get(task.ServiceID) ?? task.ServiceID;
+  const node = task.NodeID ? (hostnames.get(task.NodeID) ?? task.NodeID) : "";
+
+  return {
+    ID: task.ID,
+    Name: `${service}.${task.Slot ?? task.NodeID}`,
+    Image: task.Spec?.ContainerSpec?.Image ?? "",
+    Node: node,
+    DesiredState: capitalize(task.DesiredState),
+    CurrentState:
+      `${capitalize(task.Status.State)} ` +
+      describeAge(new Date(task.Status.Timestamp)),
+    Error: task.Status.Err ?? "",
+    Ports: (task.Status.PortStatus?.Ports ?? [])
+      .map(
+        ({ PublishedPort, TargetPort, Protocol }) =>
+          `*:${PublishedPort}->${TargetPort}/${Protocol}`,
+      )
+      .join(", "),
+  };
+}
+
+function describeAge(timestamp: Date) {
+  const seconds = Math.max(0, (Date.now() - timestamp.getTime()) / 1_000);
+  const units = [
+    ["day", 86_400],
+    ["hour", 3_600],
+    ["minute", 60],
+  ] as const;
+
+  for (const [unit, length] of units) {
+    const count = Math.floor(seconds / length);
+
+    if (count > 0) {
+      return `${count} ${unit}${count === 1 ? "" : "s"} ago`;
+    }
+  }
+
+  return `${Math.floor(seconds)} seconds ago`;
+}
+
+function capitalize(value: string) {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+type ApiTask = {
+  ID: string;
+  ServiceID: string;
+  NodeID?: string;
+  Slot?: number;
+  DesiredState: string;
+  Spec?: { ContainerSpec?: { Image?: string } };
+  Status: {
+    Timestamp: string;
+    State: string;
+    Err?: string;
+    PortStatus?: {
+      Ports?: Array<{
+        PublishedPort: number;
+        TargetPort: number;
+        Protocol: string;
+      }>;
+    };
+  };
+};
+
+type ApiNode = {
+  ID: string;
+  Description?: { Hostname?: string };
+};
+
+type ApiVariable = {
+  ID: string;
+  CreatedAt: string;
+  UpdatedAt: string;
+  Spec: { Name: string; Labels?: Record<string, string> };
+};
+
+// endregion
@@ -1,25 +1,139 @@
+import { spawn } from "node:child_process";
+import { request as httpRequest } from "node:http";
+import type { Socket } from "node:net";
+import { Duplex } from "node:stream";
 import * as core from "@actions/core";
 import { exec } from "@actions/exec";
 import { dump, load } from "js-yaml";
 import type { ComposeSpec } from "./compose.js";
-import type { Settings } from "./settings.js";
+import type { EngineApi } from "./engine-api.js";
+import type { RegistryCredentials, Settings } from "./settings.js";
+import { sleep } from "./utils.js";
+
+/**
+ * Label Docker attaches to every resource created by `docker stack deploy`,
+ * holding the name of the stack it belongs to
+ */
+export const stackNamespaceLabel = "com.docker.stack.namespace";
+
+/**
+ * Number of attempts of a command that fails with a transient error
+ */
+const retryAttempts = 4;
+
+/**
+ * Time in milliseconds to wait before the first retry, doubling every retry
+ */
+const retryDelay = 1_000;
+
+/**
+ * Upper bound of the time in milliseconds to wait between retries
+ */
+const maxRetryDelay = 8_000;
+
+/**
+ * Errors of the Docker CLI that indicate the engine was briefly unreachable,
+ * rather than that the command itself was wrong
+ */
+const transientFailures = [
+  /connection refused/i,
+  /rpc error: code = Unavailable/i,
+  /context deadline exceeded/i,
+  /connection reset by peer/i,
+  /unexpected EOF/i,
+  /broken pipe/i,
+];
+
+/**
+ * Environment applied to every Docker command on top of its own
+ *
+ * Set while the action talks to a remote engine, to point the CLI at the
+ * temporary context and the SSH agent holding its key.
+ */
+let dockerEnvironment: Record<string, string> | undefined;
+
+/**
+ * Apply environment variables to every subsequent Docker command
+ *
+ * Pass `undefined` to go back to the runner's own environment.
+ *
+ * @param env Environment variables to apply
+ */
+export function useDockerEnvironment(env: Record<string, string> | undefined) {
+  dockerEnvironment = env;
+}
+
+/**
+ * Docker configuration directory applied to every Docker command, if set
+ *
+ * Set while the action is logged in to registries of its own, so the CLI uses
+ * those credentials instead of the runner's.
+ */
+let dockerConfig: string | undefined;
+
+/**
+ * Use a Docker configuration directory for every subsequent Docker command
+ *
+ * Pass `undefined` to go back to the runner's own configuration.
+ *
+ * @param directory Path of the configuration directory
+ */
+export function useDockerConfig(directory: string | undefined) {
+  dockerConfig = directory;
+}
+
+/**
+ * Engine API client serving read calls instead of the CLI, if enabled
+ */
+let engineApi: EngineApi | undefined;
+
+/**
+ * Serve read calls from the Engine API instead of the CLI
+ *
+ * Listing and inspecting services, secrets, and configs, and fetching service
+ * logs, is then done over HTTP. Everything else, like deploying the stack,
+ * still goes through the CLI. Pass `undefined` to go back to the CLI.
+ *
+ * @param api The client to use
+ */
+export function useEngineApi(api: EngineApi | undefined) {
+  engineApi = api;
+}
 
 /**
  * Deploy the stack
+ *
+ * The deployment is only retried on transient errors if `retryDeploy` is
+ * enabled: whether a failed attempt was applied in part cannot be told.
  */
 export async function deployStack(
   spec: ComposeSpec,
-  { stack, variables }: Pick<Readonly<Settings>, "stack" | "variables">,
+  {
+    prune,
+    resolveImage,
+    retryDeploy,
+    stack,
+    variables,
+    withRegistryAuth,
+  }: Pick<
+    Readonly<Settings>,
+    | "prune"
+    | "resolveImage"
+    | "retryDeploy"
+    | "stack"
+    | "variables"
+    | "withRegistryAuth"
+  >,
 ) {
   await executeDockerCommand(
     [
       "stack",
       "deploy",
-      "--prune",
+      prune ? "--prune" : "",
       "--quiet",
       "--detach=true",
-      "--with-registry-auth",
-      "--resolve-image=always",
+      withRegistryAuth ? "--with-registry-auth" : "",
+      `--resolve-image=${resolveImage}`,
       "--compose-file",
       "-",
       stack,
@@ -27,12 +141,79 @@ export async function deployStack(
     {
       stdin: dump(spec),
       env: Object.fromEntries(variables),
+      retry: retryDeploy,
     },
   );
 
   core.info(`Deployed stack ${stack}`);
 }
 
+/**
+ * Resolve an image reference to the digest of its manifest in the registry
+ *
+ * For multi-platform images, this is the digest of the manifest list, so the
+ * nodes still pull the variant matching their platform. The registry is
+ * queried with the credentials of the current Docker configuration.
+ *
+ * @param image The image reference, e.g. `nginx:1.27`
+ * @returns The digest, e.g. `sha256:0123…`
+ */
+export async function inspectImageDigest(image: string): Promise<string> {
+  let output: string;
+
+  try {
+    output = await executeDockerCommand(
+      ["buildx", "imagetools", "inspect", "--format={{json .Manifest}}", image],
+      { silent: true, retry: true },
+    );
+  } catch (cause) {
+    throw new Error(
+      `Failed to resolve the digest of image "${image}": ${cause}`,
+      {
+        cause,
+      },
+    );
+  }
+
+  let digest: unknown;
+
+  try {
+    digest = (JSON.parse(output) as { digest?: unknown }).digest;
+  } catch (cause) {
+    throw new Error(
+      `Failed to resolve the digest of image "${image}": Docker returned ` +
+        "output that could not be parsed as JSON.",
+      { cause },
+    );
+  }
+
+  if (typeof digest !== "string" || !digest.startsWith("sha256:")) {
+    throw new Error(
+      `Failed to resolve the digest of image "${image}": the registry did ` +
+        "not report a manifest digest.",
+    );
+  }
+
+  return digest;
+}
+
+/**
+ * Remove the stack
+ *
+ * This function removes the services and networks of the stack. It returns as
+ * soon as Swarm accepted the removal, while the tasks of the services may
+ * still be shutting down; use `listStackTasks` to wait for them.
+ */
+export async function removeStack(stack: string) {
+  try {
+    await executeDockerCommand(["stack", "rm", stack]);
+  } catch (cause) {
+    throw new Error(`Failed to remove stack "${stack}": ${cause}`, { cause });
+  }
+
+  core.info(`Removed stack ${stack}`);
+}
+
 export async function normalizeStackSpecification(
   composeFiles: string[],
   { variables }: Pick<Readonly<Settings>, "variables">,
@@ -133,6 +314,16 @@ export async function listServices(
 ): Promise<ServiceMetadata[] | ServiceWithMetadata[]> {
   core.debug("Listing services");
 
+  if (engineApi) {
+    try {
+      return await engineApi.listServices(filters, inspect as true);
+    } catch (cause) {
+      const message = cause instanceof Error ? cause.message : String(cause);
+
+      throw new Error(`Failed to list services: ${message}`, { cause });
+    }
+  }
+
   const filterFlags = buildFilters(
     {
       id: filters.id,
@@ -146,7 +337,7 @@ export async function listServices(
   try {
     const output = await executeDockerCommand(
       ["service", "ls", "--format=json", ...filterFlags],
-      { silent: true },
+      { silent: true, retry: true },
     );
     const services = parseLineDelimitedJson<ServiceMetadata>(output);
 
@@ -170,10 +361,22 @@ export async function listServices(
   }
 }
 
-export async function inspectService(id: string) {
+export async function inspectService(id: string): Promise<Service> {
+  if (engineApi) {
+    try {
+      return await engineApi.inspectService(id);
+    } catch (cause) {
+      const message = cause instanceof Error ? cause.message : String(cause);
+
+      throw new Error(`Failed to inspect service "${id}": ${message}`, {
+        cause,
+      });
+    }
+  }
+
   const output = await executeDockerCommand(
     ["service", "inspect", "--format=json", id],
-    { silent: true },
+    { silent: true, retry: true },
   );
 
   let result: Service | Service[];
@@ -218,9 +421,13 @@ export async function listServiceTasks(
   serviceId: string,
 ): Promise<TaskStatus[]> {
   try {
+    if (engineApi) {
+      return await engineApi.listServiceTasks(serviceId);
+    }
+
     const output = await executeDockerCommand(
       ["service", "ps", "--format=json", "--no-trunc", serviceId],
-      { silent: true },
+      { silent: true, retry: true },
     );
 
     return parseLineDelimitedJson<TaskStatus>(output);
@@ -233,11 +440,156 @@ export async function listServiceTasks(
   }
 }
 
+/**
+ * List the tasks of a stack on all nodes
+ *
+ * Unlike `docker stack ps`, this keeps working once the services of the stack
+ * have been removed, and returns an empty list instead of failing if there are
+ * no tasks left.
+ *
+ * @param stack The name of the stack
+ */
+export async function listStackTasks(stack: string): Promise<TaskStatus[]> {
+  try {
+    if (engineApi) {
+      return await engineApi.listStackTasks(stack);
+    }
+
+    const output = await executeDockerCommand(
+      [
+        "node",
+        "ps",
+        "--format=json",
+        "--no-trunc",
+        "--filter",
+        `label=${stackNamespaceLabel}=${stack}`,
+        ...(await listNodeIds()),
+      ],
+      { silent: true, retry: true },
+    );
+
+    return parseLineDelimitedJson<TaskStatus>(output);
+  } catch (cause) {
+    const message = cause instanceof Error ? cause.message : String(cause);
+    throw new Error(`Failed to list tasks for stack "${stack}": ${message}`, {
+      cause,
+    });
+  }
+}
+
+/**
+ * List the tasks that are meant to be running, on all nodes
+ */
+export async function listRunningTasks(): Promise<TaskStatus[]> {
+  try {
+    if (engineApi) {
+      return await engineApi.listRunningTasks();
+    }
+
+    const output = await executeDockerCommand(
+      [
+        "node",
+        "ps",
+        "--format=json",
+        "--no-trunc",
+        "--filter",
+        "desired-state=running",
+        ...(await listNodeIds()),
+      ],
+      { silent: true, retry: true },
+    );
+
+    return parseLineDelimitedJson<TaskStatus>(output);
+  } catch (cause) {
+    const message = cause instanceof Error ? cause.message : String(cause);
+    throw new Error(`Failed to list running tasks: ${message}`, { cause });
+  }
+}
+
+/**
+ * Inspect tasks by their IDs
+ *
+ * Unlike the task listings, this includes when each task was created.
+ *
+ * @param ids The IDs of the tasks to inspect
+ */
+export async function inspectTasks(ids: string[]): Promise<Task[]> {
+  if (ids.length === 0) {
+    return [];
+  }
+
+  try {
+    const output = await executeDockerCommand(
+      ["inspect", "--type=task", "--format=json", ...ids],
+      { silent: true, retry: true },
+    );
+
+    return JSON.parse(output) as Task[];
+  } catch (cause) {
+    const message = cause instanceof Error ? cause.message : String(cause);
+    throw new Error(`Failed to inspect tasks: ${message}`, { cause });
+  }
+}
+
+/**
+ * Read the current time of the engine
+ *
+ * Timestamps recorded by the Swarm, like the creation time of tasks, are taken
+ * from the clock of the manager, which may differ from the runner's.
+ */
+export async function readEngineTime(): Promise<Date> {
+  try {
+    const output = await executeDockerCommand(
+      ["system", "info", "--format={{json .SystemTime}}"],
+      { silent: true, retry: true },
+    );
+    const time = new Date(JSON.parse(output) as string);
+
+    if (Number.isNaN(time.getTime())) {
+      throw new Error(`unexpected time ${output.trim()}`);
+    }
+
+    return time;
+  } catch (cause) {
+    const message = cause instanceof Error ? cause.message : String(cause);
+    throw new Error(`Failed to read the time of the engine: ${message}`, {
+      cause,
+    });
+  }
+}
+
+/**
+ * List the nodes of the Swarm, with their labels, roles, and platform
+ */
+export async function listNodes(): Promise<Node[]> {
+  try {
+    const ids = await listNodeIds();
+
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const output = await executeDockerCommand(
+      ["node", "inspect", "--format=json", ...ids],
+      { silent: true, retry: true },
+    );
+
+    return JSON.parse(output) as Node[];
+  } catch (cause) {
+    const message = cause instanceof Error ? cause.message : String(cause);
+    throw new Error(`Failed to list nodes: ${message}`, { cause });
+  }
+}
+
 export async function getServiceLogs(
   id: string,
   { tail, since }: { tail?: number; since?: Date },
-) {
+): Promise<ServiceLogEntry[]> {
   try {
+    if (engineApi) {
+      return await engineApi.getServiceLogs(id, { tail, since });
+    }
+
     const output = await executeDockerCommand(
       [
         "service",
@@ -249,33 +601,10 @@ export async function getServiceLogs(
         since ? `--since=${since.toISOString()}` : "",
         id,
       ],
-      { silent: true },
+      { silent: true, retry: true },
     );
 
-    return output
-      .trim()
-      .split("\n")
-      .filter((line) => !!line?.trim())
-      .map((line) => {
-        const [rawTimestamp, ...rest] = line.split(" ");
-        let timestamp: Date | null;
-
-        try {
-          timestamp = new Date(rawTimestamp);
-
-          if (Number.isNaN(timestamp.getTime())) {
-            throw new Error("Invalid date");
-          }
-        } catch {
-          core.warning(`Unexpected invalid timestamp: ${rawTimestamp}`);
-          timestamp = null;
-        }
-
-        return {
-          timestamp,
-          message: rest.join(" "),
-        };
-      });
+    return parseServiceLogs(output);
   } catch (cause) {
     throw new Error(`Failed to get logs for service "${id}": ${cause}`, {
       cause,
@@ -283,11 +612,43 @@ export async function getServiceLogs(
   }
 }
 
+/**
+ * Parse the output of `docker service logs --raw --timestamps`
+ *
+ * @param output The log output, one timestamped line per entry
+ */
+export function parseServiceLogs(output: string): ServiceLogEntry[] {
+  return output
+    .trim()
+    .split("\n")
+    .filter((line) => !!line?.trim())
+    .map((line) => {
+      const [rawTimestamp, ...rest] = line.split(" ");
+      let timestamp: Date | null;
+
+      try {
+        timestamp = new Date(rawTimestamp);
+
+        if (Number.isNaN(timestamp.getTime())) {
+          throw new Error("Invalid date");
+        }
+      } catch {
+        core.warning(`Unexpected invalid timestamp: ${rawTimestamp}`);
+        timestamp = null;
+      }
+
+      return {
+        timestamp,
+        message: rest.join(" "),
+      };
+    });
+}
+
 export async function listSecrets(filters: {
   id?: ValueFilter;
   name?: ValueFilter;
   labels?: KeyValueFilter;
-}) {
+}): Promise<SecretMetadata[]> {
   core.info("Listing secrets");
 
   const filterFlags = buildFilters({
@@ -297,9 +658,13 @@ export async function listSecrets(filters: {
   });
 
   try {
+    if (engineApi) {
+      return await engineApi.listSecrets(filters);
+    }
+
     const output = await executeDockerCommand(
       ["secret", "ls", "--format=json", ...filterFlags],
-      { silent: true },
+      { silent: true, retry: true },
     );
 
     return parseLineDelimitedJson<StoredVariable>(output).map<SecretMetadata>(
@@ -317,7 +682,7 @@ export async function listConfigs(filters: {
   id?: ValueFilter;
   name?: ValueFilter;
   labels?: KeyValueFilter;
-}) {
+}): Promise<ConfigMetadata[]> {
   core.debug("Listing configs");
 
   const filterFlags = buildFilters({
@@ -327,9 +692,13 @@ export async function listConfigs(filters: {
   });
 
   try {
+    if (engineApi) {
+      return await engineApi.listConfigs(filters);
+    }
+
     const output = await executeDockerCommand(
       ["config", "ls", "--format=json", ...filterFlags],
-      { silent: true },
+      { silent: true, retry: true },
     );
 
     return parseLineDelimitedJson<StoredVariable>(output).map<ConfigMetadata>(
@@ -343,6 +712,30 @@ export async function listConfigs(filters: {
   }
 }
 
+export async function listNetworks(filters: {
+  labels?: KeyValueFilter;
+}): Promise<NetworkMetadata[]> {
+  const filterFlags = buildFilters({
+    label: filters.labels ? parseLabelFilter(filters.labels) : undefined,
+  });
+
+  try {
+    const output = await executeDockerCommand(
+      ["network", "ls", "--format=json", "--no-trunc", ...filterFlags],
+      { silent: true, retry: true },
+    );
+
+    return parseLineDelimitedJson<StoredNetwork>(output).map<NetworkMetadata>(
+      (network) => ({
+        ...network,
+        Labels: parseLabels(network.Labels ?? ""),
+      }),
+    );
+  } catch (cause) {
+    throw new Error(`Failed to list networks: ${cause}`, { cause });
+  }
+}
+
 /**
  * Remove an unused secret
  *
@@ -360,6 +753,75 @@ export async function removeSecret(id: string) {
   }
 }
 
+/**
+ * Read the content of a config
+ *
+ * @param id The ID or name of the config
+ * @returns The content of the config
+ */
+export async function readConfig(id: string) {
+  let output: string;
+
+  try {
+    output = await executeDockerCommand(
+      ["config", "inspect", "--format={{json .Spec.Data}}", id],
+      { silent: true, retry: true },
+    );
+  } catch (cause) {
+    throw new Error(`Failed to read config "${id}": ${cause}`, { cause });
+  }
+
+  // The data is a byte array, which Go encodes in JSON as a base64 string
+  try {
+    return Buffer.from(JSON.parse(output) as string, "base64").toString(
+      "utf-8",
+    );
+  } catch (cause) {
+    throw new Error(
+      `Failed to read config "${id}": Docker returned output that could not ` +
+        "be parsed as JSON.",
+      { cause },
+    );
+  }
+}
+
+/**
+ * Create a config value
+ *
+ * This function creates a config on the Swarm. Creation is atomic: it fails if
+ * a config of the same name exists already.
+ *
+ * @param name                   The name of the config
+ * @param data                   The content of the config
+ * @param labels                 Labels to attach to the config
+ * @param [options.reportFailure] If false, a failure is only thrown, not
+ *                               reported as an error annotation, for callers
+ *                               expecting the config to exist already
+ * @returns The ID of the created config
+ */
+export async function createConfig(
+  name: string,
+  data: string,
+  labels: Record<string, string>,
+  { reportFailure = true }: { reportFailure?: boolean } = {},
+) {
+  const labelFlags = Object.entries(labels).flatMap(([key, value]) => [
+    "--label",
+    `${key}=${value}`,
+  ]);
+
+  try {
+    const output = await executeDockerCommand(
+      ["config", "create", ...labelFlags, name, "-"],
+      { stdin: data, silent: true, reportFailure },
+    );
+
+    return output.trim();
+  } catch (cause) {
+    throw new Error(`Failed to create config "${name}": ${cause}`, { cause });
+  }
+}
+
 /**
  * Remove an unused config value
  *
@@ -377,17 +839,291 @@ export async function removeConfig(id: string) {
   }
 }
 
+/**
+ * Roll a service back to its previous specification
+ *
+ * This function asks Swarm to restore the service's `PreviousSpec`, using the
+ * service's rollback configuration. It returns as soon as the rollback has
+ * been started; use `monitorRollback` to wait for it to converge.
+ *
+ * @param id The ID of the service to roll back
+ */
+export async function rollbackService(id: string) {
+  core.info(`Rolling back service "${id}"`);
+
+  try {
+    await executeDockerCommand(
+      ["service", "rollback", "--detach", "--quiet", id],
+      { silent: true },
+    );
+  } catch (cause) {
+    throw new Error(`Failed to roll back service "${id}": ${cause}`, {
+      cause,
+    });
+  }
+}
+
+/**
+ * Replace the spec of a service with one saved earlier
+ *
+ * Unlike `rollbackService`, which can only return to the spec the service had
+ * before its last update, this restores any spec, e.g. one taken before a
+ * deployment that updated the service more than once. The Docker CLI derives
+ * updates from flags only, so the spec is sent to the Engine API through
+ * `docker system dial-stdio`, which connects to the engine the CLI would use,
+ * over SSH, too. Swarm rolls the service out to the spec like any update.
+ *
+ * @param id   ID of the service
+ * @param spec The spec to restore
+ */
+export async function replaceServiceSpec(id: string, spec: ServiceSpec) {
+  core.info(`Restoring the spec of service "${id}" from before the deployment`);
+
+  try {
+    const { Version } = await inspectService(id);
+
+    await dialEngine(
+      "POST",
+      `/services/${encodeURIComponent(id)}/update?version=${Version.Index}`,
+      spec,
+    );
+  } catch (cause) {
+    const message = cause instanceof Error ? cause.message : String(cause);
+
+    throw new Error(
+      `Failed to restore the spec of service "${id}": ${message}`,
+      {
+        cause,
+      },
+    );
+  }
+}
+
+/**
+ * Change how the pending tasks of a service are rolled out
+ *
+ * Swarm applies the new settings to the update in progress, so this releases
+ * an update held back by a long delay after its first batch. Like any update,
+ * it replaces the previous spec of the service with the current one, so
+ * `rollbackService` no longer returns to the spec from before the deployment.
+ *
+ * @param id ID of the service
+ * @param rollout How many tasks to update at once, and the delay in between
+ */
+export async function updateServiceRollout(
+  id: string,
+  { parallelism, delay }: { parallelism: number; delay: string },
+) {
+  try {
+    await executeDockerCommand(
+      [
+        "service",
+        "update",
+        "--detach",
+        "--quiet",
+        `--update-parallelism=${parallelism}`,
+        `--update-delay=${delay}`,
+        id,
+      ],
+      { silent: true },
+    );
+  } catch (cause) {
+    throw new Error(
+      `Failed to update the rollout of service "${id}": ${cause}`,
+      { cause },
+    );
+  }
+}
+
+/**
+ * Add labels to a service, or change their value
+ *
+ * Service labels are not passed on to the tasks, so changing them does not
+ * restart any.
+ *
+ * @param id ID of the service
+ * @param labels Labels to set
+ */
+export async function updateServiceLabels(
+  id: string,
+  labels: Record<string, string>,
+) {
+  try {
+    await executeDockerCommand(
+      [
+        "service",
+        "update",
+        "--detach",
+        "--quiet",
+        ...Object.entries(labels).map(
+          ([key, value]) => `--label-add=${key}=${value}`,
+        ),
+        id,
+      ],
+      { silent: true },
+    );
+  } catch (cause) {
+    throw new Error(
+      `Failed to update the labels of service "${id}": ${cause}`,
+      { cause },
+    );
+  }
+}
+
+/**
+ * Add environment variables to a service, or change their value
+ *
+ * This restarts the tasks of the service, and waits for the update to
+ * converge.
+ *
+ * @param id ID or name of the service
+ * @param variables Environment variables to set
+ */
+export async function updateServiceEnvironment(
+  id: string,
+  variables: Record<string, string>,
+) {
+  try {
+    await executeDockerCommand(
+      [
+        "service",
+        "update",
+        "--quiet",
+        ...Object.entries(variables).map(
+          ([key, value]) => `--env-add=${key}=${value}`,
+        ),
+        id,
+      ],
+      { silent: true },
+    );
+  } catch (cause) {
+    throw new Error(
+      `Failed to update the environment of service "${id}": ${cause}`,
+      { cause },
+    );
+  }
+}
+
+/**
+ * Create a Docker context for a remote engine
+ *
+ * @param name        Name of the context
+ * @param endpoint    Docker endpoint of the context
+ * @param endpoint.host Address of the engine, e.g. `ssh://user@host`
+ * @param endpoint.ca   Path to the CA certificate to verify the engine with
+ * @param endpoint.cert Path to the client certificate
+ * @param endpoint.key  Path to the client key
+ */
+export async function createContext(
+  name: string,
+  endpoint: { host: string; ca?: string; cert?: string; key?: string },
+) {
+  const docker = Object.entries(endpoint)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(",");
+
+  try {
+    await executeDockerCommand(
+      [
+        "context",
+        "create",
+        name,
+        "--description",
+        "Temporary context of the deployment action",
+        "--docker",
+        docker,
+      ],
+      { silent: true },
+    );
+  } catch (cause) {
+    throw new Error(`Failed to create context "${name}": ${cause}`, {
+      cause,
+    });
+  }
+}
+
+/**
+ * Log in to a container registry
+ *
+ * The password is passed on stdin, so it never shows up in the process list.
+ *
+ * @param credentials Registry to log in to, and the credentials to use
+ */
+export async function loginToRegistry({
+  registry,
+  username,
+  password,
+}: RegistryCredentials) {
+  try {
+    await executeDockerCommand(
+      ["login", "--username", username, "--password-stdin", registry],
+      { stdin: password, silent: true },
+    );
+  } catch (cause) {
+    throw new Error(
+      `Failed to log in to registry "${registry}" as "${username}": ${cause}`,
+      { cause },
+    );
+  }
+}
+
+export async function removeContext(name: string) {
+  try {
+    await executeDockerCommand(["context", "rm", "--force", name], {
+      silent: true,
+    });
+  } catch (cause) {
+    throw new Error(`Failed to remove context "${name}": ${cause}`, {
+      cause,
+    });
+  }
+}
+
+/**
+ * Inspect the Docker context the CLI currently uses
+ *
+ * This honors `DOCKER_CONTEXT` and `DOCKER_HOST`, as well as the context
+ * applied with `useDockerEnvironment`.
+ */
+export async function inspectContext() {
+  const output = await executeDockerCommand(
+    ["context", "inspect", "--format=json"],
+    { silent: true },
+  );
+
+  try {
+    const [context] = JSON.parse(output) as DockerContext[];
+
+    return context;
+  } catch (cause) {
+    throw new Error(
+      "Failed to inspect the current Docker context: Docker returned output " +
+        "that could not be parsed as JSON.",
+      { cause },
+    );
+  }
+}
+
 /**
  * Execute a Docker command
  *
  * This function executes a Docker command with the given arguments and options.
  * It captures the output from stdout and returns it as a string.
  *
- * @param args      The arguments to pass to the Docker command
- * @param [stdin]   Optional input to pass to the command's stdin
- * @param [env]     Optional environment variables to set for the command
- * @param [silent]  If true, suppresses the output of the command to the action
- *                  log output
+ * Commands marked to `retry` are run again if they fail with a transient
+ * error, like a manager re-electing its leader, or a blip in the SSH
+ * connection, waiting twice as long before every attempt. Only idempotent
+ * commands may be retried, as a failed attempt may still have taken effect.
+ *
+ * @param args            The arguments to pass to the Docker command
+ * @param [stdin]         Optional input to pass to the command's stdin
+ * @param [env]           Optional environment variables to set for the command
+ * @param [silent]        If true, suppresses the output of the command to the
+ *                        action log output
+ * @param [retry]         If true, retries the command on transient errors
+ * @param [reportFailure] If false, a failure is logged as debug output instead
+ *                        of error annotations, for callers handling it
  */
 async function executeDockerCommand(
   args: [string, ...string[]],
@@ -395,10 +1131,14 @@ async function executeDockerCommand(
     stdin = undefined,
     env = undefined,
     silent = false,
+    retry = false,
+    reportFailure = true,
   }: {
     stdin?: Buffer | string;
     env?: Record<string, string>;
     silent?: boolean;
+    retry?: boolean;
+    reportFailure?: boolean;
   } = {},
 ) {
   const input = stdin
@@ -418,32 +1158,60 @@ async function executeDockerCommand(
   }
 
   try {
-    await exec(
-      "docker",
-      args.filter((arg) => arg !== "" && arg !== undefined),
-      {
-        input,
-        silent,
-        env,
-        listeners: {
-          stdout: (data) => {
-            output += data.toString();
+    for (let attempt = 1; ; attempt++) {
+      output = "";
+      errorOutput = "";
+
+      try {
+        await exec(
+          "docker",
+          args.filter((arg) => arg !== "" && arg !== undefined),
+          {
+            input,
+            silent,
+            env: resolveEnvironment(env),
+            listeners: {
+              stdout: (data) => {
+                output += data.toString();
+              },
+              stderr: (data) => {
+                errorOutput += data.toString();
+              },
+            },
           },
-          stderr: (data) => {
-            errorOutput += data.toString();
-          },
-        },
-      },
-    );
+        );
+
+        break;
+      } catch (cause) {
+        if (
+          !retry ||
+          attempt >= retryAttempts ||
+          !isTransientFailure(`${cause}\n${errorOutput}`)
+        ) {
+          throw cause;
+        }
+
+        const delay = Math.min(retryDelay * 2 ** (attempt - 1), maxRetryDelay);
+
+        core.warning(
+          `docker ${args[0]} ${args[1] ?? ""} failed with a transient error, ` +
+            `retrying in ${delay / 1000}s (attempt ${attempt} of ` +
+            `${retryAttempts}): ${errorOutput.trim() || cause}`,
+        );
+        await sleep(delay);
+      }
+    }
 
     if (!silent) {
       core.info(output);
     }
   } catch (cause) {
     const message = cause instanceof Error ? cause.message : String(cause);
-    core.error(`Command failed: ${message}`);
-    core.error(output);
-    core.error(errorOutput);
+    const report = reportFailure ? core.error : core.debug;
+
+    report(`Command failed: ${message}`);
+    report(output);
+    report(errorOutput);
 
     throw new Error(`Failed to execute Docker Command: ${message}`, { cause });
   } finally {
@@ -455,6 +1223,114 @@ async function executeDockerCommand(
   return output;
 }
 
+/**
+ * Whether a failed Docker command may succeed if run again
+ *
+ * @param message The error message, and output of the command
+ */
+export function isTransientFailure(message: string) {
+  return transientFailures.some((pattern) => pattern.test(message));
+}
+
+async function listNodeIds() {
+  const output = await executeDockerCommand(["node", "ls", "--quiet"], {
+    silent: true,
+    retry: true,
+  });
+
+  return output
+    .split("\n")
+    .map((id) => id.trim())
+    .filter(Boolean);
+}
+
+// Sends a request to the Engine API through the connection of the Docker CLI,
+// for the calls the CLI offers no command for
+function dialEngine(method: string, path: string, body: unknown) {
+  const payload = Buffer.from(JSON.stringify(body));
+  const dialer = spawn("docker", ["system", "dial-stdio"], {
+    env: resolveEnvironment(undefined),
+    stdio: "pipe",
+  });
+  let errorOutput = "";
+
+  dialer.stderr.on("data", (data: Buffer) => {
+    errorOutput += data.toString();
+  });
+
+  return new Promise<string>((resolve, reject) => {
+    const request = httpRequest(
+      {
+        method,
+        path,
+        headers: {
+          Host: "docker",
+          Connection: "close",
+          "Content-Type": "application/json",
+          "Content-Length": payload.length,
+        },
+        createConnection: () =>
+          Duplex.from({
+            readable: dialer.stdout,
+            writable: dialer.stdin,
+          }) as Socket,
+      },
+      (response) => {
+        const chunks: Buffer[] = [];
+
+        response.on("data", (chunk: Buffer) => chunks.push(chunk));
+        response.on("error", reject);
+        response.on("end", () => {
+          const text = Buffer.concat(chunks).toString("utf-8").trim();
+          const status = response.statusCode ?? 0;
+
+          if (status >= 200 && status < 300) {
+            return resolve(text);
+          }
+
+          let message = text;
+
+          try {
+            message =
+              (JSON.parse(text) as { message?: string }).message ?? text;
+          } catch {
+            // Not every error response is JSON
+          }
+
+          reject(
+            new Error(`Docker Engine API responded with ${status}: ${message}`),
+          );
+        });
+      },
+    );
+
+    request.on("error", (error) =>
+      reject(
+        errorOutput ? new Error(errorOutput.trim(), { cause: error }) : error,
+      ),
+    );
+    dialer.on("error", reject);
+    request.end(payload);
+  }).finally(() => dialer.kill());
+}
+
+// Passing an environment to `exec` replaces the runner's, so the overrides are
+// merged into the command's own environment, or into the runner's if it has
+// none. DOCKER_HOST is dropped, as it would take precedence over the context.
+function resolveEnvironment(env: Record<string, string> | undefined) {
+  if (!dockerEnvironment && !dockerConfig) {
+    return env;
+  }
+
+  const { DOCKER_HOST: host, ...base } = env ?? process.env;
+
+  return {
+    ...base,
+    ...(dockerEnvironment ?? (host ? { DOCKER_HOST: host } : {})),
+    ...(dockerConfig ? { DOCKER_CONFIG: dockerConfig } : {}),
+  } as Record<string, string>;
+}
+
 function buildFilters<
   T extends Record<K, ValueFilter<V>>,
   K extends string = string,
@@ -537,16 +1413,8 @@ export type Service = {
   Version: {
     Index: number;
   };
-  Spec?: {
-    Name: string;
-    Labels: Record<string, string>;
-    TaskTemplate: Record<string, unknown>;
-  };
-  PreviousSpec?: {
-    Name: string;
-    Labels: Record<string, string>;
-    TaskTemplate: Record<string, unknown>;
-  };
+  Spec?: ServiceSpec;
+  PreviousSpec?: ServiceSpec;
   Endpoint: Record<string, unknown>;
   UpdateStatus?: {
     StartedAt?: string | undefined;
@@ -561,7 +1429,51 @@ export type Service = {
       | "rollback_completed";
   };
 };
+export type ServiceSpec = {
+  Name: string;
+  Labels: Record<string, string>;
+  TaskTemplate: {
+    ContainerSpec?: {
+      Image?: string;
+      Env?: string[];
+      Mounts?: Array<{
+        Type?: string;
+        Source?: string;
+        Target: string;
+        ReadOnly?: boolean;
+      }>;
+      Secrets?: Array<{ SecretName: string }>;
+      Configs?: Array<{ ConfigName: string }>;
+      [key: string]: unknown;
+    };
+    Placement?: {
+      Constraints?: string[];
+      MaxReplicas?: number;
+      [key: string]: unknown;
+    };
+    Resources?: {
+      Reservations?: { NanoCPUs?: number; MemoryBytes?: number };
+      Limits?: { NanoCPUs?: number; MemoryBytes?: number };
+    };
+    [key: string]: unknown;
+  };
+  Mode?: {
+    Replicated?: { Replicas?: number };
+    Global?: Record<string, unknown>;
+  };
+  [key: string]: unknown;
+};
 export type ServiceWithMetadata = ServiceMetadata & Service;
+export type Task = {
+  ID: string;
+  ServiceID: string;
+  CreatedAt: string;
+  [key: string]: unknown;
+};
+export type ServiceLogEntry = {
+  timestamp: Date | null;
+  message: string;
+};
 export type SecretMetadata = {
   ID: string;
   Name: string;
@@ -577,6 +1489,16 @@ export type ConfigMetadata = {
   UpdatedAt: string;
 };
 
+export type NetworkMetadata = {
+  ID: string;
+  Name: string;
+  Driver: string;
+  Scope: string;
+  Labels: Record<string, string>;
+};
+
+type StoredNetwork = Omit<NetworkMetadata, "Labels"> & { Labels: string };
+
 type StoredVariable = {
   ID: string;
   Name: string;
@@ -585,6 +1507,31 @@ type StoredVariable = {
   UpdatedAt: string;
 };
 
+export type Node = {
+  ID: string;
+  Spec: {
+    Role: "manager" | "worker";
+    Availability: "active" | "pause" | "drain";
+    Labels?: Record<string, string>;
+  };
+  Description: {
+    Hostname: string;
+    Platform: { Architecture: string; OS: string };
+    Resources?: { NanoCPUs?: number; MemoryBytes?: number };
+    Engine?: { Labels?: Record<string, string> };
+  };
+  Status: { State: string };
+};
+
+export type DockerContext = {
+  Name: string;
+  Endpoints: {
+    docker?: { Host?: string; SkipTLSVerify?: boolean };
+  };
+  TLSMaterial?: { docker?: string[] };
+  Storage: { TLSPath: string };
+};
+
 type ValueFilter<T extends string = string> = T | T[];
 type KeyValueFilter<K extends string = string, V extends string = string> =
   | ValueFilter<K>
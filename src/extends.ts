@@ -0,0 +1,434 @@
+import { dirname, isAbsolute, relative, resolve } from "node:path";
+import * as core from "@actions/core";
+import type { ComposeSpec } from "./compose.js";
+import { rebaseServicePaths } from "./include.js";
+import { withinWorkspace } from "./reconcile.js";
+import { exists, isMapping } from "./utils.js";
+
+/**
+ * Attributes whose value replaces the one of the extended service, even
+ * though they are sequences
+ */
+const replacedAttributes = new Set(["command", "entrypoint"]);
+
+/**
+ * Attributes that may be written as a list of `KEY=VALUE` pairs, but are
+ * merged as mappings
+ */
+const mappingAttributes = new Set([
+  "annotations",
+  "environment",
+  "labels",
+  "sysctls",
+]);
+
+/**
+ * Top-level sections defining resources that services reference by name
+ */
+const resourceSections = ["secrets", "configs", "volumes"] as const;
+
+type Service = Record<string, unknown>;
+
+type ResourceSection = (typeof resourceSections)[number];
+
+type ImportedResource = { definition: unknown; file: string };
+
+type Extends = { service: string; file?: string };
+
+/**
+ * Resolve the `extends` keyword of all services in a Compose specification
+ *
+ * `docker stack config` does not implement `extends`, so the action merges
+ * every extending service with the service it extends while loading the
+ * Compose files. The extended service may be defined in the same file, or in
+ * another one referenced by `file`, relative to the extending file and
+ * confined to the workspace. It may extend another service in turn.
+ *
+ * Services are merged following the Compose merge rules: mappings are merged,
+ * with the values of the extending service taking precedence; `command` and
+ * `entrypoint` are replaced; other sequences are combined, with entries for
+ * the same port, mount target, or secret replacing those of the extended
+ * service. Relative paths of a service extended from another file are
+ * resolved against the directory of that file.
+ *
+ * Secrets, configs, and volumes an extended service references are taken over
+ * from the top level of its file, unless the extending file defines them
+ * itself. Different definitions of the same resource in two extended files are
+ * rejected, as either one would silently replace the other.
+ *
+ * @param spec The parsed specification
+ * @param filename Path of the Compose file the specification was read from
+ * @param loadFile Loads and parses another Compose file
+ */
+export async function resolveExtends(
+  spec: ComposeSpec,
+  filename: string,
+  loadFile: (filename: string) => Promise<ComposeSpec>,
+): Promise<ComposeSpec> {
+  const services = isMapping(spec.services) ? spec.services : {};
+
+  if (!Object.values(services).some((service) => hasExtends(service))) {
+    return spec;
+  }
+
+  const path = resolve(filename);
+  const files = new Map<string, ComposeSpec>([[path, spec]]);
+  const resolved = new Map<string, Service>();
+  const sources = new Map<string, Map<string, string>>();
+  const imported = new Map<ResourceSection, Map<string, ImportedResource>>(
+    resourceSections.map((section) => [section, new Map()]),
+  );
+
+  const load = async (file: string) => {
+    let loaded = files.get(file);
+
+    if (!loaded) {
+      loaded = await loadFile(file);
+      files.set(file, loaded);
+    }
+
+    return loaded;
+  };
+
+  const resolveService = async (
+    file: string,
+    name: string,
+    chain: string[],
+  ): Promise<Service> => {
+    const id = `${display(file)}#${name}`;
+    const cached = resolved.get(id);
+
+    if (cached) {
+      return cached;
+    }
+
+    if (chain.includes(id)) {
+      throw new Error(
+        `Service "${name}" extends itself: ${[...chain, id].join(" → ")}`,
+      );
+    }
+
+    const service = (await load(file)).services?.[name];
+
+    // Services of the file itself always exist, so this is an extended one
+    if (!isMapping(service)) {
+      throw new Error(
+        `Service "${chain.at(-1)}" extends the service "${name}", which is ` +
+          `not defined in Compose file "${display(file)}".`,
+      );
+    }
+
+    if (!hasExtends(service)) {
+      sources.set(
+        id,
+        new Map(Object.keys(service).map((key) => [key, display(file)])),
+      );
+
+      return service;
+    }
+
+    const { extends: reference, ...local } = service;
+    const target = parseExtends(reference, name, file);
+    const targetFile = target.file
+      ? await resolveFile(target.file, name, file)
+      : file;
+    const targetId = `${display(targetFile)}#${target.service}`;
+    let base = structuredClone(
+      await resolveService(targetFile, target.service, [...chain, id]),
+    );
+
+    if (targetFile !== file) {
+      base = rebaseServicePaths(base, dirname(targetFile));
+      importResources(imported, base, targetFile, await load(targetFile));
+    }
+
+    const merged = mergeServices(base, local);
+    const keySources = new Map(sources.get(targetId));
+
+    for (const key of Object.keys(local)) {
+      keySources.set(key, display(file));
+    }
+
+    sources.set(id, keySources);
+    core.debug(
+      `Resolved service "${name}" of "${display(file)}", extending ` +
+        `"${target.service}" of "${display(targetFile)}"`,
+    );
+    logSources(keySources);
+
+    resolved.set(id, merged);
+
+    return merged;
+  };
+
+  const extended: Record<string, unknown> = {};
+
+  for (const [name, service] of Object.entries(services)) {
+    extended[name] = hasExtends(service)
+      ? await resolveService(path, name, [])
+      : service;
+  }
+
+  const result: Record<string, unknown> = { ...spec, services: extended };
+
+  for (const [section, resources] of imported) {
+    const defined = isMapping(spec[section]) ? spec[section] : {};
+    const added = [...resources].filter(([name]) => !(name in defined));
+
+    if (added.length > 0) {
+      result[section] = {
+        ...defined,
+        ...Object.fromEntries(
+          added.map(([name, { definition }]) => [name, definition]),
+        ),
+      };
+    }
+  }
+
+  return result as ComposeSpec;
+}
+
+/**
+ * Merge a service into the service it extends, following the Compose merge
+ * rules
+ *
+ * @param base The extended service
+ * @param local The extending service
+ */
+export function mergeServices(base: Service, local: Service): Service {
+  const merged: Service = { ...base };
+
+  for (const [key, value] of Object.entries(local)) {
+    merged[key] =
+      key in base && base[key] !== null && value !== null
+        ? mergeAttribute(key, base[key], value)
+        : value;
+  }
+
+  return merged;
+}
+
+function mergeAttribute(key: string, base: unknown, local: unknown): unknown {
+  if (replacedAttributes.has(key)) {
+    return local;
+  }
+
+  if (
+    mappingAttributes.has(key) ||
+    (key === "networks" && (isMapping(base) || isMapping(local)))
+  ) {
+    return { ...toMapping(base), ...toMapping(local) };
+  }
+
+  if (Array.isArray(base) && Array.isArray(local)) {
+    const entries = new Map(base.map((item) => [uniqueKey(key, item), item]));
+
+    for (const item of local) {
+      entries.set(uniqueKey(key, item), item);
+    }
+
+    return [...entries.values()];
+  }
+
+  if (isMapping(base) && isMapping(local)) {
+    return mergeMappings(base, local);
+  }
+
+  return local;
+}
+
+// Within nested mappings, like `deploy` or `healthcheck`, sequences replace
+// those of the extended service, so `healthcheck.test` works as expected.
+function mergeMappings(
+  base: Record<string, unknown>,
+  local: Record<string, unknown>,
+) {
+  const merged: Record<string, unknown> = { ...base };
+
+  for (const [key, value] of Object.entries(local)) {
+    merged[key] =
+      isMapping(base[key]) && isMapping(value)
+        ? mergeMappings(base[key], value)
+        : value;
+  }
+
+  return merged;
+}
+
+// The attributes a service defines, grouped by the file they come from
+function logSources(sources: ReadonlyMap<string, string>) {
+  const keys = new Map<string, string[]>();
+
+  for (const [key, source] of sources) {
+    keys.set(source, [...(keys.get(source) ?? []), key]);
+  }
+
+  for (const [source, names] of keys) {
+    core.debug(`  from "${source}": ${names.sort().join(", ")}`);
+  }
+}
+
+function importResources(
+  imported: Map<ResourceSection, Map<string, ImportedResource>>,
+  service: Service,
+  file: string,
+  spec: ComposeSpec,
+) {
+  for (const section of resourceSections) {
+    const definitions = isMapping(spec[section]) ? spec[section] : {};
+    const resources = imported.get(section) as Map<string, ImportedResource>;
+
+    for (const name of referencedResources(service, section)) {
+      if (!(name in definitions)) {
+        continue;
+      }
+
+      const definition = rebaseResource(
+        structuredClone(definitions[name]),
+        dirname(file),
+      );
+      const existing = resources.get(name);
+
+      if (
+        existing &&
+        JSON.stringify(existing.definition) !== JSON.stringify(definition)
+      ) {
+        throw new Error(
+          `The ${section} "${name}" is defined differently in the extended ` +
+            `Compose files "${display(existing.file)}" and "${display(file)}". ` +
+            `Define it in the extending file instead, or rename one of them.`,
+        );
+      }
+
+      resources.set(name, { definition, file });
+    }
+  }
+}
+
+function referencedResources(service: Service, section: ResourceSection) {
+  const entries = Array.isArray(service[section]) ? service[section] : [];
+
+  return entries.flatMap((entry: unknown): string[] => {
+    if (section !== "volumes") {
+      const source = isMapping(entry) ? entry.source : entry;
+
+      return typeof source === "string" ? [source] : [];
+    }
+
+    if (isMapping(entry)) {
+      return entry.type === "volume" && typeof entry.source === "string"
+        ? [entry.source]
+        : [];
+    }
+
+    // Only sources that are not paths name a volume in the short syntax
+    const [source, target] = String(entry).split(":");
+
+    return target !== undefined && !/^[./~]/.test(source) ? [source] : [];
+  });
+}
+
+function rebaseResource(definition: unknown, directory: string) {
+  if (
+    isMapping(definition) &&
+    typeof definition.file === "string" &&
+    !isAbsolute(definition.file) &&
+    !definition.file.startsWith("~")
+  ) {
+    definition.file = resolve(directory, definition.file);
+  }
+
+  return definition;
+}
+
+function toMapping(value: unknown): Record<string, unknown> {
+  if (isMapping(value)) {
+    return value;
+  }
+
+  if (!Array.isArray(value)) {
+    return {};
+  }
+
+  return Object.fromEntries(
+    value.map((item) => {
+      const [key, ...rest] = String(item).split("=");
+
+      return [key, rest.length > 0 ? rest.join("=") : null];
+    }),
+  );
+}
+
+// Identifies the entries of a sequence that replace each other
+function uniqueKey(key: string, item: unknown): string {
+  if (key === "ports") {
+    return isMapping(item)
+      ? `${item.host_ip ?? ""}:${item.published ?? ""}:${item.target}/` +
+          `${item.protocol ?? "tcp"}`
+      : String(item);
+  }
+
+  if (key === "volumes") {
+    if (isMapping(item)) {
+      return String(item.target);
+    }
+
+    const [source, target] = String(item).split(":");
+
+    return target ?? source;
+  }
+
+  if (key === "secrets" || key === "configs") {
+    return isMapping(item) ? String(item.target ?? item.source) : String(item);
+  }
+
+  return JSON.stringify(item);
+}
+
+function hasExtends(service: unknown): service is Service {
+  return isMapping(service) && service.extends !== undefined;
+}
+
+function parseExtends(reference: unknown, name: string, file: string) {
+  if (typeof reference === "string") {
+    return { service: reference } satisfies Extends;
+  }
+
+  if (isMapping(reference) && typeof reference.service === "string") {
+    return {
+      service: reference.service,
+      file: typeof reference.file === "string" ? reference.file : undefined,
+    } satisfies Extends;
+  }
+
+  throw new Error(
+    `Service "${name}" of Compose file "${display(file)}" has an invalid ` +
+      `"extends" property: it must name the service to extend, either ` +
+      `directly, or as a mapping with a "service" and an optional "file".`,
+  );
+}
+
+async function resolveFile(path: string, name: string, file: string) {
+  const resolved = withinWorkspace(path, dirname(file));
+
+  if (!resolved) {
+    throw new Error(
+      `Service "${name}" of Compose file "${display(file)}" extends a ` +
+        `service of "${path}", which resolves outside the workspace ` +
+        `directory.`,
+    );
+  }
+
+  if (!(await exists(resolved))) {
+    throw new Error(
+      `Service "${name}" of Compose file "${display(file)}" extends a ` +
+        `service of "${path}", which is missing or not readable.`,
+    );
+  }
+
+  return resolved;
+}
+
+function display(path: string) {
+  return relative(process.cwd(), path) || path;
+}
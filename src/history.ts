@@ -0,0 +1,340 @@
+import { createHash } from "node:crypto";
+import { env } from "node:process";
+import * as core from "@actions/core";
+import type { ComposeSpec } from "./compose.js";
+import {
+  type ConfigMetadata,
+  createConfig,
+  listConfigs,
+  listServices,
+  readConfig,
+  removeConfig,
+  stackNamespaceLabel,
+} from "./engine.js";
+import type { Settings } from "./settings.js";
+import { resolveRunUrl } from "./utils.js";
+import { redactSecretValues, versionLabel } from "./variables.js";
+
+/**
+ * Label of the configs holding the deployment history of a stack, set to the
+ * name of the stack
+ */
+export const historyLabel = "com.matchory.deployment.history";
+
+/**
+ * Label of the configs holding the specification of a deployed version, set
+ * to the name of the stack; the version itself is in the `version` label
+ */
+export const specLabel = "com.matchory.deployment.spec";
+
+/**
+ * Label of the configs holding the specification of a deployed version, set
+ * to the version the deployment replaced, or empty if it replaced none
+ */
+export const replacesLabel = "com.matchory.deployment.replaces";
+
+/**
+ * Record of a successful deployment
+ */
+export interface HistoryEntry {
+  /**
+   * Name of the stack the services were deployed as, which differs from the
+   * stack the history belongs to in blue/green deployments
+   */
+  stack: string;
+  version: string;
+  sha?: string;
+  actor?: string;
+  run?: string;
+  deployedAt: string;
+
+  /**
+   * SHA-256 hash of the deployed specification, with secret values redacted
+   */
+  specHash: string;
+
+  /**
+   * Image of every service, as reported by Swarm, keyed by service name
+   *
+   * Unless image resolution is disabled, Swarm pins every image to the digest
+   * it resolved, so these name the exact images that were deployed.
+   */
+  images: Record<string, string>;
+}
+
+/**
+ * Specification of a successful deployment, kept to roll back to
+ */
+export interface DeploymentRecord {
+  /**
+   * Name of the stack the services were deployed as
+   */
+  stack: string;
+  version: string;
+  deployedAt: string;
+
+  /**
+   * The deployed specification, with secret values redacted
+   */
+  spec: ComposeSpec;
+
+  /**
+   * Version the deployment replaced, read from the labels of its config
+   */
+  replaces?: string;
+}
+
+/**
+ * Record a successful deployment in the history of the stack
+ *
+ * The history is kept in a Swarm config labelled with the name of the stack,
+ * holding the most recent entries first, so it lives on the cluster rather
+ * than in the logs of the workflows that deployed it. Configs cannot be
+ * changed, so every deployment creates a new one with the previous entries,
+ * and removes the old one.
+ * The deployed specification is kept in a config of its own, one per
+ * deployment, so the stack can be rolled back to it later on. As many of those
+ * are kept as there are entries in the history. Each one points to the
+ * version it replaced, which is what `previous` rolls back to; a rollback
+ * takes over the version the restored one replaced, so rolling back again
+ * goes further back rather than to the version that was just rolled back.
+ * Failures are reported as warnings: the deployment itself succeeded.
+ *
+ * @param spec The deployed Compose specification
+ * @param settings Deployment settings
+ * @param deployedStack Name of the stack the services were deployed as
+ * @param [restored] The record a rollback restored
+ */
+export async function recordDeployment(
+  spec: ComposeSpec,
+  settings: Pick<
+    Readonly<Settings>,
+    "historyLimit" | "secretValues" | "stack" | "version"
+  >,
+  deployedStack = settings.stack,
+  restored?: DeploymentRecord,
+) {
+  if (settings.historyLimit === 0) {
+    return;
+  }
+
+  try {
+    const [configs, specConfigs, services] = await Promise.all([
+      listConfigs({ labels: { [historyLabel]: settings.stack } }),
+      listConfigs({ labels: { [specLabel]: settings.stack } }),
+      listServices({ labels: { [stackNamespaceLabel]: deployedStack } }, true),
+    ]);
+    const previous = await readEntries(latest(configs));
+    const redacted = redactSecretValues(spec, settings.secretValues);
+    const entry: HistoryEntry = {
+      stack: deployedStack,
+      version: settings.version,
+      sha: env.GITHUB_SHA,
+      actor: env.GITHUB_ACTOR,
+      run: resolveRunUrl(),
+      deployedAt: new Date().toISOString(),
+      specHash: createHash("sha256")
+        .update(JSON.stringify(redacted))
+        .digest("hex"),
+      images: Object.fromEntries(
+        services.map(({ Spec, Name }) => [
+          (Spec?.Name ?? Name).slice(deployedStack.length + 1),
+          Spec?.TaskTemplate.ContainerSpec?.Image ?? "",
+        ]),
+      ),
+    };
+    const entries = [entry, ...previous].slice(0, settings.historyLimit);
+    const replaces = restored
+      ? restored.replaces
+      : newestFirst(specConfigs)[0]?.Labels[versionLabel];
+
+    await createConfig(
+      `${settings.stack}-deployment-history-${Date.now()}`,
+      JSON.stringify(entries, null, 2),
+      { [historyLabel]: settings.stack },
+    );
+
+    await createConfig(
+      `${settings.stack}-deployment-spec-${Date.now()}`,
+      JSON.stringify({
+        stack: deployedStack,
+        version: entry.version,
+        deployedAt: entry.deployedAt,
+        spec: redacted,
+      } satisfies DeploymentRecord),
+      {
+        [specLabel]: settings.stack,
+        [versionLabel]: entry.version,
+        [replacesLabel]: replaces ?? "",
+      },
+    );
+
+    const outdated = [
+      ...configs,
+      ...newestFirst(specConfigs).slice(settings.historyLimit - 1),
+    ];
+
+    for (const { ID } of outdated) {
+      await removeConfig(ID);
+    }
+
+    core.info(
+      `Recorded version ${entry.version} in the deployment history of stack ` +
+        `"${settings.stack}"` +
+        (previous[0] ? `; it replaces ${describeEntry(previous[0])}` : ""),
+    );
+  } catch (error) {
+    core.warning(
+      `Failed to record the deployment in the history of stack ` +
+        `"${settings.stack}": ${error}`,
+    );
+  }
+}
+
+/**
+ * Read the deployment history of a stack, most recent entry first
+ *
+ * @param settings Deployment settings
+ */
+export async function readHistory({
+  stack,
+}: Pick<Readonly<Settings>, "stack">) {
+  return readEntries(
+    latest(await listConfigs({ labels: { [historyLabel]: stack } })),
+  );
+}
+
+/**
+ * Read the recorded specification of a version deployed before
+ *
+ * The target is either a version, of which the most recent deployment is
+ * used, or `previous` for the version the most recent deployment replaced.
+ * Records without that version fall back to the deployment before the most
+ * recent one.
+ *
+ * @param settings Deployment settings
+ */
+export async function readDeploymentRecord({
+  rollbackTo,
+  stack,
+}: Pick<Readonly<Settings>, "rollbackTo" | "stack">) {
+  const configs = newestFirst(
+    await listConfigs({ labels: { [specLabel]: stack } }),
+  );
+  const versions = configs.map(({ Labels }) => Labels[versionLabel]);
+
+  if (configs.length === 0) {
+    throw new Error(
+      `Stack "${stack}" has no recorded deployments to roll back to. The ` +
+        `specification of a deployment is recorded on the cluster once it ` +
+        `succeeds, unless the "history-limit" input is set to 0.`,
+    );
+  }
+
+  const replaces = configs[0].Labels[replacesLabel];
+
+  if (rollbackTo === "previous" && (configs.length === 1 || replaces === "")) {
+    throw new Error(
+      configs.length === 1
+        ? `Stack "${stack}" has a single recorded deployment, version ` +
+            `${versions[0]}, so there is no previous version to roll back to. ` +
+            `Set the "rollback-to" input to the version to deploy instead.`
+        : `The current deployment of stack "${stack}", version ` +
+            `${versions[0]}, did not replace a recorded one, so there is no ` +
+            `previous version to roll back to. Set the "rollback-to" input ` +
+            `to the version to deploy instead.`,
+    );
+  }
+
+  const target = rollbackTo === "previous" ? replaces : rollbackTo;
+  const config =
+    target === undefined
+      ? configs[1]
+      : configs
+          .slice(rollbackTo === "previous" ? 1 : 0)
+          .find(({ Labels }) => Labels[versionLabel] === target);
+
+  if (!config) {
+    throw new Error(
+      `Version "${target}" is not among the recorded deployments of ` +
+        `stack "${stack}": ${versions.join(", ")}. Only as many deployments ` +
+        `as the "history-limit" input allows are kept; deploy the version ` +
+        `with the "deploy" action instead.`,
+    );
+  }
+
+  try {
+    const record = JSON.parse(await readConfig(config.ID)) as DeploymentRecord;
+
+    return { ...record, replaces: config.Labels[replacesLabel] };
+  } catch (cause) {
+    throw new Error(
+      `The recorded deployment in config "${config.Name}" cannot be read: ` +
+        `${cause}`,
+      { cause },
+    );
+  }
+}
+
+/**
+ * Remove the deployment history of a stack, and the recorded specifications
+ *
+ * @param settings Deployment settings
+ */
+export async function removeHistory({
+  stack,
+}: Pick<Readonly<Settings>, "stack">) {
+  const configs = (
+    await Promise.all([
+      listConfigs({ labels: { [historyLabel]: stack } }),
+      listConfigs({ labels: { [specLabel]: stack } }),
+    ])
+  ).flat();
+
+  for (const { ID } of configs) {
+    await removeConfig(ID);
+  }
+
+  if (configs.length > 0) {
+    core.info(`Removed the deployment history of stack "${stack}"`);
+  }
+}
+
+// An interrupted deployment may leave a second config behind; the newest one
+// holds all entries of the older ones.
+function latest(configs: ConfigMetadata[]) {
+  return newestFirst(configs)[0];
+}
+
+function newestFirst(configs: ConfigMetadata[]) {
+  return [...configs].sort(
+    (a, b) => Date.parse(b.CreatedAt) - Date.parse(a.CreatedAt),
+  );
+}
+
+async function readEntries(config: ConfigMetadata | undefined) {
+  if (!config) {
+    return [];
+  }
+
+  try {
+    const entries = JSON.parse(await readConfig(config.ID));
+
+    return Array.isArray(entries) ? (entries as HistoryEntry[]) : [];
+  } catch (error) {
+    core.warning(
+      `The deployment history in config "${config.Name}" cannot be read, and ` +
+        `starts over: ${error}`,
+    );
+
+    return [];
+  }
+}
+
+function describeEntry({ version, actor, deployedAt }: HistoryEntry) {
+  return (
+    `version ${version}` +
+    (actor ? `, deployed by ${actor}` : "") +
+    ` at ${deployedAt}`
+  );
+}
@@ -0,0 +1,449 @@
+import { readFile } from "node:fs/promises";
+import { dirname, isAbsolute, relative, resolve } from "node:path";
+import * as core from "@actions/core";
+import type { ComposeSpec } from "./compose.js";
+import { parseDotenv } from "./dotenv.js";
+import { escapeLiteralValues } from "./interpolation.js";
+import { withinWorkspace } from "./reconcile.js";
+import type { Settings } from "./settings.js";
+import { exists, interpolateString, isMapping, mapStrings } from "./utils.js";
+
+/**
+ * Top-level sections whose entries included files contribute
+ */
+const resourceSections = [
+  "services",
+  "networks",
+  "volumes",
+  "secrets",
+  "configs",
+] as const;
+
+type IncludeEntry =
+  | string
+  | {
+      path: string | string[];
+      project_directory?: string;
+      env_file?: string | string[];
+    };
+
+type IncludeSettings = Pick<
+  Readonly<Settings>,
+  "variables" | "literalValues" | "keyInterpolation" | "strictInterpolation"
+>;
+
+type ResolvedInclude = {
+  paths: string[];
+  projectDirectory: string;
+  envFiles: string[];
+};
+
+/**
+ * Expand the `include` section of a Compose specification
+ *
+ * Neither `docker stack config` nor `docker stack deploy` know the `include`
+ * directive, so the action resolves it while loading the Compose files: every
+ * included file is loaded as an application of its own, and its resources are
+ * added to the including specification. Like Compose, a resource defined both
+ * in the including and an included file is rejected, rather than merged.
+ *
+ * Included files are confined to the workspace, like the Compose files
+ * themselves. Relative paths in an included file are resolved against its
+ * project directory, which defaults to the directory of the file, so they
+ * keep pointing to the same files once the specifications are merged. If the
+ * included application has an environment file, variables are interpolated
+ * with its values as defaults right away, as they apply to that file only;
+ * `interpolateFile` does so, and reports problems along with the file.
+ * Included files may include further files.
+ *
+ * @param spec The parsed specification of the including file
+ * @param filename Path of the including file
+ * @param settings Deployment settings
+ * @param loadFile Loads and parses another Compose file
+ * @param interpolateFile Interpolates a Compose file with the given variables
+ * @param chain Files that include the current one, to detect cycles
+ */
+export async function expandIncludes(
+  spec: ComposeSpec,
+  filename: string,
+  settings: IncludeSettings,
+  loadFile: (filename: string) => Promise<ComposeSpec>,
+  interpolateFile: (
+    spec: ComposeSpec,
+    filename: string,
+    settings: IncludeSettings,
+  ) => ComposeSpec,
+  chain: string[] = [resolve(filename)],
+): Promise<ComposeSpec> {
+  if (spec.include === undefined || spec.include === null) {
+    return spec;
+  }
+
+  if (!Array.isArray(spec.include)) {
+    throw new Error(
+      `The "include" section of Compose file "${filename}" must be a list ` +
+        `of files to include, but it is a ${typeof spec.include}.`,
+    );
+  }
+
+  const { include, ...including } = spec;
+  const sources = new Map<string, string>();
+
+  for (const entry of include as IncludeEntry[]) {
+    const { paths, projectDirectory, envFiles } = await resolveInclude(
+      entry,
+      filename,
+      settings,
+    );
+
+    for (const path of paths) {
+      if (chain.includes(path)) {
+        throw new Error(
+          `Compose file "${display(path)}" includes itself: ` +
+            [...chain, path].map(display).join(" → "),
+        );
+      }
+    }
+
+    const scope = await readEnvFiles(envFiles, settings);
+    const specs: ComposeSpec[] = [];
+
+    for (const path of paths) {
+      core.info(`Including Compose file "${display(path)}" in "${filename}"`);
+
+      const loaded = await loadFile(path);
+
+      // The merged specification is interpolated again later on, so dollar
+      // signs in the values are escaped to come out of that unchanged.
+      const interpolated = scope
+        ? mapStrings(
+            interpolateFile(loaded, display(path), { ...settings, ...scope }),
+            (value) => value.replaceAll("$", () => "$$"),
+          )
+        : loaded;
+
+      specs.push(
+        await expandIncludes(
+          interpolated,
+          path,
+          settings,
+          loadFile,
+          interpolateFile,
+          [...chain, path],
+        ),
+      );
+    }
+
+    const included = rebasePaths(specs.reduce(mergeSpecs), projectDirectory);
+
+    addResources(including, included, sources, display(paths[0]), filename);
+  }
+
+  return including as ComposeSpec;
+}
+
+async function resolveInclude(
+  entry: IncludeEntry,
+  filename: string,
+  {
+    variables,
+    literalValues,
+  }: Pick<Readonly<Settings>, "variables" | "literalValues">,
+): Promise<ResolvedInclude> {
+  const {
+    path,
+    project_directory: projectDirectory,
+    env_file: envFile,
+  } = typeof entry === "string" ? { path: entry } : (entry ?? {});
+
+  if (!path || (Array.isArray(path) && path.length === 0)) {
+    throw new Error(
+      `An entry in the "include" section of Compose file "${filename}" has ` +
+        `no path. Include a file either by its path, or by a mapping with ` +
+        `a "path" property.`,
+    );
+  }
+
+  const baseDir = dirname(filename);
+
+  // Compose interpolates the include section itself, so paths may depend on
+  // the environment, like the stage to deploy.
+  const confine = (value: string, kind: string) => {
+    const interpolated = interpolateString(
+      value,
+      escapeLiteralValues(variables, literalValues),
+    );
+    const resolved = withinWorkspace(interpolated, baseDir);
+
+    if (!resolved) {
+      throw new Error(
+        `The ${kind} "${interpolated}" included by Compose file ` +
+          `"${filename}" resolves outside the workspace directory.`,
+      );
+    }
+
+    return resolved;
+  };
+
+  const paths = (Array.isArray(path) ? path : [path]).map((value) =>
+    confine(String(value), "file"),
+  );
+  const missing = [];
+
+  for (const path of paths) {
+    if (!(await exists(path))) {
+      missing.push(display(path));
+    }
+  }
+
+  if (missing.length > 0) {
+    throw new Error(
+      `One or more files included by Compose file "${filename}" are ` +
+        `missing or not readable: ${missing.join(", ")}`,
+    );
+  }
+
+  const directory = projectDirectory
+    ? confine(projectDirectory, "project directory")
+    : dirname(paths[0]);
+
+  if (envFile) {
+    return {
+      paths,
+      projectDirectory: directory,
+      envFiles: (Array.isArray(envFile) ? envFile : [envFile]).map((value) =>
+        confine(value, "environment file"),
+      ),
+    };
+  }
+
+  // Without explicit environment files, Compose reads the `.env` file of the
+  // project directory, if there is one.
+  const defaultEnvFile = resolve(directory, ".env");
+
+  return {
+    paths,
+    projectDirectory: directory,
+    envFiles: (await exists(defaultEnvFile)) ? [defaultEnvFile] : [],
+  };
+}
+
+// Variables of the environment take precedence over those of the files. The
+// values of the files are final, so they are literal values for interpolation.
+async function readEnvFiles(
+  envFiles: string[],
+  {
+    variables,
+    literalValues,
+  }: Pick<Readonly<Settings>, "variables" | "literalValues">,
+) {
+  if (envFiles.length === 0) {
+    return undefined;
+  }
+
+  const merged = new Map<string, string>();
+
+  for (const path of envFiles) {
+    let content: string;
+
+    try {
+      content = await readFile(path, "utf8");
+    } catch (cause) {
+      throw new Error(
+        `Failed to read the environment file "${display(path)}" of an ` +
+          `included Compose file: ${cause}`,
+        { cause },
+      );
+    }
+
+    const lookup = new Map([...merged, ...variables]);
+    const literals = new Map([...merged, ...literalValues]);
+
+    for (const [key, value] of parseDotenv(
+      content,
+      display(path),
+      lookup,
+      literals,
+    )) {
+      merged.set(key, value);
+    }
+  }
+
+  const literals = new Map([...merged, ...literalValues]);
+
+  for (const [key, value] of variables) {
+    merged.set(key, value);
+  }
+
+  return { variables: merged, literalValues: literals };
+}
+
+// Multiple paths of a single include are merged like override files: mappings
+// are merged, anything else is replaced by the later file.
+function mergeSpecs(base: ComposeSpec, override: ComposeSpec): ComposeSpec {
+  return mergeValues(base, override) as ComposeSpec;
+}
+
+function mergeValues(base: unknown, override: unknown): unknown {
+  if (!isMapping(base) || !isMapping(override)) {
+    return override;
+  }
+
+  const merged: Record<string, unknown> = { ...base };
+
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = key in base ? mergeValues(base[key], value) : value;
+  }
+
+  return merged;
+}
+
+function addResources(
+  including: Omit<ComposeSpec, "include">,
+  included: ComposeSpec,
+  sources: Map<string, string>,
+  source: string,
+  filename: string,
+) {
+  for (const section of resourceSections) {
+    const resources = included[section] as Record<string, unknown> | undefined;
+
+    if (!resources) {
+      continue;
+    }
+
+    const target = (including[section] ?? {}) as Record<string, unknown>;
+
+    for (const [name, resource] of Object.entries(resources)) {
+      if (name in target) {
+        const definedIn = sources.get(`${section}.${name}`) ?? filename;
+
+        throw new Error(
+          `The ${section} entry "${name}" of Compose file "${source}" ` +
+            `conflicts with the one defined in "${definedIn}". Resources of ` +
+            `included files are not merged; rename one of them, or move the ` +
+            `change into an override file passed via the "compose-file" ` +
+            `input.`,
+        );
+      }
+
+      target[name] = resource;
+      sources.set(`${section}.${name}`, source);
+    }
+
+    including[section] = target;
+  }
+}
+
+/**
+ * Resolve the relative paths of an included specification
+ *
+ * The included specification ends up in the including one, whose paths are
+ * relative to another directory, so the paths of the included one are made
+ * absolute.
+ *
+ * @param spec The included specification
+ * @param directory The project directory of the included specification
+ */
+function rebasePaths(spec: ComposeSpec, directory: string): ComposeSpec {
+  const rebase = rebaseTo(directory);
+
+  for (const section of ["secrets", "configs"] as const) {
+    for (const variable of Object.values(spec[section] ?? {})) {
+      if ("file" in variable && typeof variable.file === "string") {
+        variable.file = rebase(variable.file);
+      }
+    }
+  }
+
+  for (const service of Object.values(spec.services ?? {})) {
+    if (isMapping(service)) {
+      rebaseServicePaths(service, directory);
+    }
+  }
+
+  return spec;
+}
+
+/**
+ * Resolve the relative paths of a service defined in another directory
+ *
+ * Covers the `env_file`, `label_file`, and bind mount sources of the service;
+ * absolute paths are left unchanged. Mutates `service` in place.
+ *
+ * @param service The service definition
+ * @param directory The directory the paths of the service are relative to
+ */
+export function rebaseServicePaths(
+  service: Record<string, unknown>,
+  directory: string,
+) {
+  const rebase = rebaseTo(directory);
+
+  if (service.env_file !== undefined) {
+    service.env_file = mapEnvFiles(service.env_file, rebase);
+  }
+
+  if (typeof service.label_file === "string") {
+    service.label_file = rebase(service.label_file);
+  } else if (Array.isArray(service.label_file)) {
+    service.label_file = service.label_file.map((path) => rebase(String(path)));
+  }
+
+  if (Array.isArray(service.volumes)) {
+    service.volumes = service.volumes.map((volume) =>
+      rebaseVolume(volume, rebase),
+    );
+  }
+
+  return service;
+}
+
+function rebaseTo(directory: string) {
+  return (path: string) =>
+    isAbsolute(path) || path.startsWith("~") ? path : resolve(directory, path);
+}
+
+function mapEnvFiles(envFile: unknown, rebase: (path: string) => string) {
+  if (typeof envFile === "string") {
+    return rebase(envFile);
+  }
+
+  if (!Array.isArray(envFile)) {
+    return envFile;
+  }
+
+  return envFile.map((entry) =>
+    isMapping(entry) && typeof entry.path === "string"
+      ? { ...entry, path: rebase(entry.path) }
+      : typeof entry === "string"
+        ? rebase(entry)
+        : entry,
+  );
+}
+
+// Only sources starting with a dot are relative paths in the short syntax;
+// anything else not starting with a slash names a volume.
+function rebaseVolume(volume: unknown, rebase: (path: string) => string) {
+  if (typeof volume === "string") {
+    const [source, ...rest] = volume.split(":");
+
+    return source.startsWith(".")
+      ? [rebase(source), ...rest].join(":")
+      : volume;
+  }
+
+  if (
+    isMapping(volume) &&
+    volume.type === "bind" &&
+    typeof volume.source === "string"
+  ) {
+    return { ...volume, source: rebase(volume.source) };
+  }
+
+  return volume;
+}
+
+function display(path: string) {
+  return relative(process.cwd(), path) || path;
+}
@@ -0,0 +1,356 @@
+/**
+ * Operators of the braced variable syntax, longest first, so `:-` is not
+ * mistaken for `-` followed by a colon
+ */
+const operators = [":-", ":+", ":?", "-", "+", "?"] as const;
+
+const namePattern = /^[a-zA-Z_][a-zA-Z0-9_]*/;
+
+type Operator = (typeof operators)[number];
+
+export type TemplateNode =
+  | { type: "text"; value: string }
+  | {
+      type: "variable";
+      name: string;
+      operator?: Operator;
+      argument: TemplateNode[];
+    };
+
+interface Parser {
+  template: string;
+  position: number;
+  malformed?: string[];
+}
+
+/**
+ * Parse a string into the nodes of the Compose interpolation grammar
+ *
+ * The grammar consists of literal text, `$$` as an escaped dollar sign, and
+ * variable references written as `$NAME` or `${NAME}`. A braced reference may
+ * carry an operator and an argument, like `${NAME:-default}`; the argument is
+ * a template itself, so references may be nested (`${A:-${B:-c}}`), and it
+ * may contain literal braces, as long as they are balanced. A dollar sign
+ * followed by anything else is kept as it is.
+ *
+ * Malformed braced references are rejected, unless `malformed` is given: the
+ * problems are collected there instead, and the references kept as text.
+ *
+ * @param template The string to parse
+ * @param [malformed] Collects the problems of malformed references
+ * @throws {Error} If a braced reference is malformed or not terminated, and
+ *                 `malformed` is not given
+ */
+export function parseTemplate(
+  template: string,
+  malformed?: string[],
+): TemplateNode[] {
+  const parser: Parser = { template, position: 0, malformed };
+
+  return parseNodes(parser, false);
+}
+
+/**
+ * Interpolate a string with variables, following the Compose interpolation
+ * grammar
+ *
+ * Values of variables are interpolated recursively; circular references are
+ * rejected. Arguments of operators are only evaluated if the operator uses
+ * them, so the default of a defined variable may reference undefined ones.
+ * References to undefined variables without an operator resolve to an empty
+ * string; their names are added to `undefinedVariables`, so the caller may
+ * decide how to handle them. The same goes for malformed references if
+ * `malformed` is given, which are kept as they are then.
+ *
+ * @param template The string to interpolate
+ * @param variables A Map of variable names to their values
+ * @param [undefinedVariables] Collects the names of undefined variables
+ * @param [malformed] Collects the problems of malformed references
+ */
+export function interpolateTemplate(
+  template: string,
+  variables: ReadonlyMap<string, string>,
+  undefinedVariables: Set<string> = new Set(),
+  malformed?: string[],
+): string {
+  return evaluate(parseTemplate(template, malformed), {
+    variables,
+    undefinedVariables,
+    chain: [],
+  });
+}
+
+/**
+ * Escape the dollar signs of literal values, so interpolation keeps them
+ *
+ * Values of variables are interpolated recursively, which lets values from the
+ * environment reference each other. Values read from env files have been
+ * interpolated while reading the file already, though, and a dollar sign that
+ * was single-quoted or escaped there must not start a reference now. Literal
+ * values are only escaped while they are still the value of their variable.
+ *
+ * @param variables A Map of variable names to their values
+ * @param [literalValues] Values that are final, keyed by variable name
+ */
+export function escapeLiteralValues(
+  variables: ReadonlyMap<string, string>,
+  literalValues: ReadonlyMap<string, string> = new Map(),
+): Map<string, string> {
+  return new Map(
+    [...variables].map(([name, value]) => [
+      name,
+      literalValues.get(name) === value
+        ? value.replaceAll("$", () => "$$")
+        : value,
+    ]),
+  );
+}
+
+/**
+ * Describe a list of undefined variables for an error message
+ *
+ * @param names Names of the undefined variables
+ */
+export function describeUndefinedVariables(names: Iterable<string>) {
+  const quoted = [...names].map((name) => `"${name}"`);
+
+  if (quoted.length === 1) {
+    return `Variable ${quoted[0]} is not defined.`;
+  }
+
+  return (
+    `Variables ${quoted.slice(0, -1).join(", ")} and ${quoted.at(-1)} are ` +
+    `not defined.`
+  );
+}
+
+function parseNodes(parser: Parser, nested: boolean) {
+  const { template } = parser;
+  const nodes: TemplateNode[] = [];
+  let text = "";
+  let depth = 0;
+
+  const flush = () => {
+    if (text) {
+      nodes.push({ type: "text", value: text });
+      text = "";
+    }
+  };
+
+  while (parser.position < template.length) {
+    const character = template[parser.position];
+
+    if (character === "$") {
+      const next = template[parser.position + 1];
+
+      if (next === "$") {
+        text += "$";
+        parser.position += 2;
+
+        continue;
+      }
+
+      if (next === "{") {
+        const start = parser.position;
+
+        try {
+          const node = parseBraced(parser);
+
+          flush();
+          nodes.push(node);
+        } catch (error) {
+          if (!parser.malformed) {
+            throw error;
+          }
+
+          // A nested reference is parsed again along with its parent
+          const { message } = error as Error;
+
+          if (!parser.malformed.includes(message)) {
+            parser.malformed.push(message);
+          }
+
+          text += "$";
+          parser.position = start + 1;
+        }
+
+        continue;
+      }
+
+      const name = template.slice(parser.position + 1).match(namePattern);
+
+      if (name) {
+        flush();
+        nodes.push({ type: "variable", name: name[0], argument: [] });
+        parser.position += name[0].length + 1;
+
+        continue;
+      }
+    }
+
+    // Within an argument, the first unbalanced closing brace ends the reference
+    if (nested && character === "{") {
+      depth++;
+    } else if (nested && character === "}") {
+      if (depth === 0) {
+        break;
+      }
+
+      depth--;
+    }
+
+    text += character;
+    parser.position++;
+  }
+
+  flush();
+
+  return nodes;
+}
+
+function parseBraced(parser: Parser): TemplateNode {
+  const { template } = parser;
+  const start = parser.position;
+
+  parser.position += 2;
+
+  const name = template.slice(parser.position).match(namePattern)?.[0];
+
+  if (!name) {
+    throw syntaxError(template, start, "must be followed by a variable name");
+  }
+
+  parser.position += name.length;
+
+  const operator = operators.find((candidate) =>
+    template.startsWith(candidate, parser.position),
+  );
+  let argument: TemplateNode[] = [];
+
+  if (operator) {
+    parser.position += operator.length;
+    argument = parseNodes(parser, true);
+  }
+
+  if (parser.position >= template.length) {
+    throw syntaxError(template, start, "is missing its closing brace");
+  }
+
+  if (template[parser.position] !== "}") {
+    throw syntaxError(
+      template,
+      start,
+      `has an unexpected "${template[parser.position]}" after the variable ` +
+        `name. Use one of the operators ${operators.join(", ")}, or escape ` +
+        `the dollar sign as "$$"`,
+    );
+  }
+
+  parser.position++;
+
+  return { type: "variable", name, operator, argument };
+}
+
+function syntaxError(template: string, start: number, problem: string) {
+  return new Error(
+    `Invalid interpolation format in "${template}": the "\${" at position ` +
+      `${start + 1} ${problem}.`,
+  );
+}
+
+interface Evaluation {
+  variables: ReadonlyMap<string, string>;
+  undefinedVariables: Set<string>;
+  chain: string[];
+}
+
+function evaluate(nodes: TemplateNode[], evaluation: Evaluation): string {
+  let result = "";
+
+  for (const node of nodes) {
+    result += node.type === "text" ? node.value : resolve(node, evaluation);
+  }
+
+  return result;
+}
+
+function resolve(
+  { name, operator, argument }: Extract<TemplateNode, { type: "variable" }>,
+  evaluation: Evaluation,
+): string {
+  const value = evaluation.variables.get(name);
+  const evaluateArgument = () => evaluate(argument, evaluation);
+
+  switch (operator) {
+    // Default value substitution: If the variable is MISSING, use the argument
+    case "-":
+      return value === undefined
+        ? evaluateArgument()
+        : expand(name, evaluation);
+
+    case ":-":
+      return value ? expand(name, evaluation) : evaluateArgument();
+
+    // Alternative value substitution: If the variable is PRESENT, use the
+    // argument, otherwise resolve to an empty string
+    case "+":
+      return value === undefined ? "" : evaluateArgument();
+
+    case ":+":
+      return value ? evaluateArgument() : "";
+
+    // Required value substitution: If the variable is MISSING, fail with the
+    // argument as the reason
+    case "?":
+    case ":?":
+      if (value === undefined || (operator === ":?" && !value)) {
+        const message = evaluateArgument();
+
+        // The argument is an explanatory message written by the Compose file
+        // author, not a default value. Without one, point at the places a
+        // value can come from rather than trailing off after a colon.
+        throw new Error(
+          `Failed to resolve variable ${name}: ` +
+            (message
+              ? `it is required but has no value: ${message}`
+              : `it is required but has no value. Set it via the ` +
+                `"variables" or "secrets" input, or in the workflow ` +
+                `environment.`),
+        );
+      }
+
+      return expand(name, evaluation);
+
+    default:
+      if (value === undefined) {
+        evaluation.undefinedVariables.add(name);
+
+        return "";
+      }
+
+      return expand(name, evaluation);
+  }
+}
+
+// Values may reference other variables in turn. A value that does not parse
+// as a template, like a password containing "${", is taken literally.
+function expand(name: string, evaluation: Evaluation) {
+  const { chain, variables } = evaluation;
+
+  if (chain.includes(name)) {
+    const cycle = [...chain.slice(chain.indexOf(name)), name].join(" → ");
+
+    throw new Error(`Circular variable reference detected: ${cycle}`);
+  }
+
+  const value = variables.get(name) ?? "";
+  let nodes: TemplateNode[];
+
+  try {
+    nodes = parseTemplate(value);
+  } catch {
+    return value;
+  }
+
+  return evaluate(nodes, { ...evaluation, chain: [...chain, name] });
+}
@@ -0,0 +1,320 @@
+import { randomUUID } from "node:crypto";
+import { env } from "node:process";
+import * as core from "@actions/core";
+import {
+  type ConfigMetadata,
+  createConfig,
+  listConfigs,
+  removeConfig,
+} from "./engine.js";
+import type { Settings } from "./settings.js";
+import { resolveRunUrl, sleep } from "./utils.js";
+
+export const lockLabel = "com.matchory.deployment.lock";
+export const lockOwnerLabel = "com.matchory.deployment.lock.owner";
+export const lockExpiresLabel = "com.matchory.deployment.lock.expires";
+export const lockRenewalLabel = "com.matchory.deployment.lock.renewal";
+
+/**
+ * Interval in seconds to check whether a held lock has been released
+ */
+const pollInterval = 5;
+
+/**
+ * Renewals of the locks held by this run, keyed by lock ID
+ */
+const renewals = new Map<
+  string,
+  { timer: ReturnType<typeof setInterval>; id?: string; pending: Promise<void> }
+>();
+
+/**
+ * Deployment lock held by this run
+ */
+export interface DeploymentLock {
+  id: string;
+  name: string;
+  owner: string;
+}
+
+/**
+ * Acquire the deployment lock of a stack
+ *
+ * The lock is a Swarm config named after the stack, labelled with the run
+ * holding it and the time it expires at. Creating a config is atomic on the
+ * Swarm, so of two runs racing for the lock, only one can create it; the other
+ * waits until it is released, or gives up after the lock timeout.
+ * A lock whose expiry has passed was left behind by a run that never released
+ * it, e.g. because the runner was cancelled, and is taken over. Runs holding
+ * the lock keep it from expiring by renewing it; see `renewLock`.
+ *
+ * @param settings Deployment settings
+ */
+export async function acquireLock({
+  stack,
+  lockTimeout,
+  lockTtl,
+}: Pick<
+  Readonly<Settings>,
+  "stack" | "lockTimeout" | "lockTtl"
+>): Promise<DeploymentLock> {
+  const name = `${stack}-deployment-lock`;
+  const owner = resolveOwner();
+  const deadline = Date.now() + lockTimeout * 1_000;
+
+  core.info(`Acquiring deployment lock "${name}" for ${owner}`);
+
+  while (true) {
+    const current = await findLock(name);
+
+    if (current && isExpired(current)) {
+      core.warning(
+        `Taking over the deployment lock of stack "${stack}" from ` +
+          `${describeHolder(current)}, which expired without being released.`,
+      );
+
+      // Removed by ID, so a lock another run has taken over in the meantime
+      // is left alone: its ID differs from the stale one.
+      try {
+        await removeConfig(current.config.ID);
+        await removeRenewals(current.renewals);
+
+        continue;
+      } catch {
+        // Another run removed it first, or it cannot be removed: check again
+        // after waiting, so the lock timeout still applies.
+      }
+    }
+
+    if (!current) {
+      const expires = new Date(Date.now() + lockTtl * 1_000).toISOString();
+
+      try {
+        const id = await createConfig(
+          name,
+          JSON.stringify({ owner, run: resolveRunUrl(), expires }),
+          {
+            [lockLabel]: stack,
+            [lockOwnerLabel]: owner,
+            [lockExpiresLabel]: expires,
+          },
+          { reportFailure: false },
+        );
+
+        core.info(`Acquired deployment lock "${name}" until ${expires}`);
+
+        return { id, name, owner };
+      } catch (cause) {
+        // Another run created the lock between checking and creating it. If
+        // there is no lock now either, creating it failed for another reason.
+        const winner = await findLock(name);
+
+        if (!winner) {
+          const message =
+            cause instanceof Error ? cause.message : String(cause);
+
+          throw new Error(
+            `Failed to acquire the deployment lock of stack "${stack}": ` +
+              message,
+            { cause },
+          );
+        }
+
+        core.info(
+          `${describeHolder(winner)} acquired the deployment lock of stack ` +
+            `"${stack}" first`,
+        );
+      }
+    }
+
+    const remaining = deadline - Date.now();
+
+    if (remaining <= 0) {
+      const holder = current ?? (await findLock(name));
+
+      throw new Error(
+        `Timed out after ${lockTimeout}s waiting for the deployment lock of ` +
+          `stack "${stack}", held by ` +
+          `${holder ? describeHolder(holder) : "another run"}. If no other ` +
+          'deployment is running, remove the lock with "docker config rm ' +
+          `${name}", or wait for it to expire.`,
+      );
+    }
+
+    if (current) {
+      core.info(
+        `Stack "${stack}" is being deployed by ${describeHolder(current)}; ` +
+          "waiting for the deployment lock",
+      );
+    }
+
+    await sleep(Math.min(pollInterval * 1_000, remaining));
+  }
+}
+
+/**
+ * Keep a deployment lock from expiring while the deployment runs
+ *
+ * Swarm configs cannot be changed once created, so the lock is renewed by
+ * creating a renewal config with a later expiry, which replaces the previous
+ * one, every third of the lock TTL. This way, the TTL only needs to cover the
+ * time it takes to notice a run that went away, not the longest deployment.
+ * Failing to renew the lock is reported as a warning only.
+ *
+ * @param lock     The lock to renew
+ * @param settings Deployment settings
+ */
+export function renewLock(
+  lock: DeploymentLock,
+  { lockTtl }: Pick<Readonly<Settings>, "lockTtl">,
+) {
+  const renewal = {
+    id: undefined as string | undefined,
+    pending: Promise.resolve(),
+    timer: setInterval(
+      () => {
+        renewal.pending = renewal.pending.then(() => renew(lock, renewal));
+      },
+      (lockTtl * 1_000) / 3,
+    ),
+  };
+
+  // The timer must not keep the action running once it is done otherwise
+  renewal.timer.unref();
+  renewals.set(lock.id, renewal);
+
+  async function renew(
+    { id, name, owner }: DeploymentLock,
+    current: { id?: string },
+  ) {
+    const expires = new Date(Date.now() + lockTtl * 1_000).toISOString();
+
+    try {
+      const previous = current.id;
+
+      current.id = await createConfig(
+        `${name}-renewal-${Date.now()}`,
+        JSON.stringify({ owner, expires }),
+        { [lockRenewalLabel]: id, [lockExpiresLabel]: expires },
+      );
+
+      if (previous) {
+        await removeConfig(previous);
+      }
+
+      core.debug(`Renewed deployment lock "${name}" until ${expires}`);
+    } catch (error) {
+      core.warning(
+        `Failed to renew the deployment lock "${name}": ${error}. Another ` +
+          "deployment may take it over once it expires.",
+      );
+    }
+  }
+}
+
+/**
+ * Release a deployment lock
+ *
+ * Failing to release the lock is reported as a warning only, so it never
+ * masks the outcome of the deployment; the lock expires on its own.
+ *
+ * @param lock The lock to release
+ */
+export async function releaseLock(lock: DeploymentLock | undefined) {
+  if (!lock) {
+    return;
+  }
+
+  const renewal = renewals.get(lock.id);
+
+  if (renewal) {
+    clearInterval(renewal.timer);
+    renewals.delete(lock.id);
+    await renewal.pending;
+  }
+
+  try {
+    await removeConfig(lock.id);
+
+    if (renewal?.id) {
+      await removeConfig(renewal.id);
+    }
+
+    core.info(`Released deployment lock "${lock.name}"`);
+  } catch (error) {
+    core.warning(
+      `Failed to release the deployment lock "${lock.name}": ${error}. ` +
+        "Other deployments of the stack will wait until it expires.",
+    );
+  }
+}
+
+interface HeldLock {
+  config: ConfigMetadata;
+  renewals: ConfigMetadata[];
+}
+
+async function findLock(name: string): Promise<HeldLock | undefined> {
+  // The name filter matches by prefix, so "app" would find "app-two"'s lock.
+  // It does find the renewals of the lock, which are named after it.
+  const configs = await listConfigs({ name });
+  const config = configs.find((config) => config.Name === name);
+
+  if (!config) {
+    return undefined;
+  }
+
+  const renewals = configs.filter(
+    ({ Labels }) => Labels[lockRenewalLabel] === config.ID,
+  );
+
+  return { config, renewals };
+}
+
+// Renewals left behind by the previous holder are removed along with its lock
+async function removeRenewals(renewals: ConfigMetadata[]) {
+  for (const { ID } of renewals) {
+    try {
+      await removeConfig(ID);
+    } catch (error) {
+      core.debug(`Failed to remove lock renewal "${ID}": ${error}`);
+    }
+  }
+}
+
+// The latest expiry of the lock and its renewals applies. A lock without a
+// valid expiry cannot be told apart from a stale one, and would otherwise
+// block every deployment of the stack until removed by hand.
+function resolveExpiry({ config, renewals }: HeldLock) {
+  const expiries = [config, ...renewals]
+    .map(({ Labels }) => Date.parse(Labels[lockExpiresLabel] ?? ""))
+    .filter((expires) => !Number.isNaN(expires));
+
+  return expiries.length > 0 ? Math.max(...expiries) : undefined;
+}
+
+function isExpired(lock: HeldLock) {
+  const expires = resolveExpiry(lock);
+
+  return expires === undefined || expires <= Date.now();
+}
+
+function describeHolder(lock: HeldLock) {
+  const owner = lock.config.Labels[lockOwnerLabel] ?? "an unknown run";
+  const expires = resolveExpiry(lock);
+
+  return expires === undefined
+    ? owner
+    : `${owner} (until ${new Date(expires).toISOString()})`;
+}
+
+function resolveOwner() {
+  if (env.GITHUB_REPOSITORY && env.GITHUB_RUN_ID) {
+    return (
+      `${env.GITHUB_REPOSITORY}#${env.GITHUB_RUN_ID}` +
+      `.${env.GITHUB_RUN_ATTEMPT ?? "1"}`
+    );
+  }
+
+  return `local-${randomUUID().slice(0, 8)}`;
+}
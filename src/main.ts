@@ -2,22 +2,72 @@ import { writeFile } from "node:fs/promises";
 import { env } from "node:process";
 import { DefaultArtifactClient } from "@actions/artifact";
 import * as core from "@actions/core";
+import { colorStack, colors } from "./bluegreen.js";
 import type { ComposeSpec } from "./compose";
+import { connect, disconnect, type RemoteConnection } from "./context.js";
 import { deploy } from "./deployment.js";
+import { useEngineApi } from "./engine.js";
+import { createEngineApi } from "./engine-api.js";
+import { removeHistory } from "./history.js";
+import {
+  acquireLock,
+  type DeploymentLock,
+  releaseLock,
+  renewLock,
+} from "./lock.js";
+import { restoreDeployment } from "./restore.js";
 import { parseSettings } from "./settings.js";
+import { teardownStack } from "./teardown.js";
 import { removeFileQuietly } from "./utils.js";
 import { redactSecretValues } from "./variables.js";
 
 export async function run() {
   const settings = parseSettings(env);
   let composeSpec: ComposeSpec | undefined;
+  let connection: RemoteConnection | undefined;
+  let lock: DeploymentLock | undefined;
+  let version = settings.version;
 
   try {
-    composeSpec = await deploy(settings);
+    connection = await connect(settings);
+
+    if (settings.engineClient === "api") {
+      useEngineApi(await createEngineApi());
+    }
+
+    // A dry run changes nothing on the cluster, so it need not wait for
+    // another deployment to finish.
+    if (settings.lock && !settings.dryRun) {
+      lock = await acquireLock(settings);
+      renewLock(lock, settings);
+    }
+
+    if (settings.action === "remove") {
+      if (settings.dryRun) {
+        core.info(`Dry run: skipping the removal of stack "${settings.stack}"`);
+      } else {
+        // Blue/green deployments run as one stack per color
+        const stacks =
+          settings.strategy === "blue-green"
+            ? colors.map((color) => colorStack(settings.stack, color))
+            : [settings.stack];
+
+        for (const stack of stacks) {
+          await teardownStack({ ...settings, stack });
+        }
+
+        await removeHistory(settings);
+      }
+    } else if (settings.action === "rollback") {
+      ({ spec: composeSpec, version } = await restoreDeployment(settings));
+      core.setOutput("compose-spec", composeSpec);
+    } else {
+      composeSpec = await deploy(settings);
+      core.setOutput("compose-spec", composeSpec);
+    }
 
-    core.setOutput("compose-spec", composeSpec);
     core.setOutput("stack-name", settings.stack);
-    core.setOutput("version", settings.version);
+    core.setOutput("version", version);
     core.setOutput("status", "success");
   } catch (error) {
     if (error instanceof Error) {
@@ -27,6 +77,10 @@ export async function run() {
     }
 
     core.setOutput("status", "failure");
+  } finally {
+    await releaseLock(lock);
+    useEngineApi(undefined);
+    await disconnect(connection);
   }
 
   if (!composeSpec) {
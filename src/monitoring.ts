@@ -2,10 +2,12 @@ import * as core from "@actions/core";
 import type { ComposeSpec } from "./compose.js";
 import {
   getServiceLogs,
+  inspectTasks,
   listServices,
   listServiceTasks,
   type Service,
   type ServiceWithMetadata,
+  stackNamespaceLabel,
   type TaskStatus,
 } from "./engine.js";
 import {
@@ -14,7 +16,7 @@ import {
   type HealthCheck,
 } from "./healthcheck.js";
 import type { Settings } from "./settings.js";
-import { sleep } from "./utils.js";
+import { publishSummary, sleep } from "./utils.js";
 
 /**
  * Monitor deployment rollout
@@ -115,7 +117,7 @@ export async function monitorDeployment(
     }
 
     services = await listServices(
-      { labels: { "com.docker.stack.namespace": settings.stack } },
+      { labels: { [stackNamespaceLabel]: settings.stack } },
       true,
     );
 
@@ -243,6 +245,238 @@ export async function monitorDeployment(
   core.info("All services have been deployed successfully");
 }
 
+/**
+ * Monitor a rollback until it converges
+ *
+ * This function polls the given services until Swarm reports their rollback
+ * as completed, or the monitoring timeout elapses. Unlike during a deployment,
+ * a completed rollback is the expected outcome here; a paused rollback means
+ * Swarm gave up restoring the service.
+ *
+ * Services whose spec was restored by an update rather than rolled back report
+ * a completed update instead; to tell it apart from the update of the failed
+ * deployment, only one started since `restoredSince` counts.
+ *
+ * @param settings Deployment settings
+ * @param serviceIds IDs of the services being rolled back
+ * @param [restoredSince] When specs were restored, by the engine's clock
+ * @returns The outcome for each service, keyed by service ID: `undefined` if
+ *          the rollback converged, or the reason it did not
+ */
+export async function monitorRollback(
+  settings: Pick<Readonly<Settings>, "monitorInterval" | "monitorTimeout">,
+  serviceIds: string[],
+  restoredSince?: Date,
+): Promise<Map<string, string | undefined>> {
+  const outcomes = new Map<string, string | undefined>();
+  const startTime = Date.now();
+
+  core.info(`Waiting for the rollback of ${serviceIds.length} service(s)`);
+
+  while (outcomes.size < serviceIds.length) {
+    if (Date.now() - startTime >= settings.monitorTimeout * 1_000) {
+      for (const id of serviceIds) {
+        if (!outcomes.has(id)) {
+          outcomes.set(
+            id,
+            `Rollback did not converge within ${settings.monitorTimeout}s`,
+          );
+        }
+      }
+
+      break;
+    }
+
+    const pending = serviceIds.filter((id) => !outcomes.has(id));
+    const services = await listServices({ id: pending }, true);
+
+    for (const service of services) {
+      const name = service.Spec?.Name ?? service.Name ?? service.ID;
+      const state = service.UpdateStatus?.State;
+
+      const restored =
+        restoredSince !== undefined &&
+        state === "completed" &&
+        Date.parse(service.UpdateStatus?.StartedAt ?? "") >=
+          restoredSince.getTime();
+
+      if (state === "rollback_completed" || restored) {
+        core.info(`Service "${name}" has been rolled back`);
+        outcomes.set(service.ID, undefined);
+      } else if (state === "rollback_paused" || state === "paused") {
+        outcomes.set(
+          service.ID,
+          resolveFailureReason(state, service.UpdateStatus?.Message),
+        );
+      }
+    }
+
+    if (outcomes.size < serviceIds.length) {
+      await sleep(settings.monitorInterval * 1_000);
+    }
+  }
+
+  return outcomes;
+}
+
+/**
+ * Conditions a service can wait for its dependencies to meet, as in the long
+ * `depends_on` syntax of the Compose Specification
+ */
+export type DependencyCondition =
+  | "service_started"
+  | "service_healthy"
+  | "service_completed_successfully";
+
+/**
+ * Wait for services of the stack to meet the conditions of their dependents
+ *
+ * This polls the given services until each of them meets all of its
+ * conditions, or the monitoring timeout elapses: A service has started once
+ * one of its tasks is starting or running, is healthy once its update is
+ * complete and all of its tasks are running, which Swarm only reports after
+ * their health check passed, and has completed successfully once one of its
+ * tasks exited with status zero. A service whose tasks all failed will never
+ * meet its conditions, so it fails the deployment with a failure report right
+ * away.
+ *
+ * If the deployment replaced the tasks of a service, only tasks created since
+ * then count as started or completed; tasks of the previous version may still
+ * be running, or have completed before.
+ *
+ * @param settings Deployment settings
+ * @param conditions Conditions to wait for, keyed by service name
+ * @param spec The Compose specification, to look up health checks
+ * @param deployedAt When the services were deployed, by the engine's clock
+ */
+export async function waitForConditions(
+  settings: Pick<
+    Readonly<Settings>,
+    "monitorInterval" | "monitorTimeout" | "stack"
+  >,
+  conditions: ReadonlyMap<string, ReadonlySet<DependencyCondition>>,
+  spec?: ComposeSpec,
+  deployedAt?: Date,
+) {
+  const startTime = new Date();
+  const pending = new Map(conditions);
+
+  while (pending.size > 0) {
+    if (Date.now() - startTime.getTime() >= settings.monitorTimeout * 1_000) {
+      throw new Error(
+        `Timed out after ${settings.monitorTimeout}s waiting for ` +
+          [...pending]
+            .map(
+              ([name, required]) => `"${name}" (${[...required].join(", ")})`,
+            )
+            .join(", ") +
+          ". The services that depend on them have not been deployed. Raise " +
+          'the "monitor-timeout" input if they simply need more time.',
+      );
+    }
+
+    const services = await listServices(
+      { labels: { [stackNamespaceLabel]: settings.stack } },
+      true,
+    );
+
+    for (const [name, required] of pending) {
+      const service = services.find(
+        (service) =>
+          (service.Spec?.Name ?? service.Name) === `${settings.stack}_${name}`,
+      );
+
+      if (!service) {
+        continue;
+      }
+
+      const tasks = (await fetchTasks(service.ID)) ?? [];
+
+      if (isServiceStuck(tasks)) {
+        await buildFailureReport(
+          service.ID,
+          name,
+          startTime,
+          tasks,
+          findServiceHealthCheck(spec, name),
+        );
+
+        throw new Error(
+          `Service "${name}" failed: all tasks are in a failed state, so the ` +
+            "services that depend on it have not been deployed",
+        );
+      }
+
+      const current = deployedAt
+        ? await selectCurrentTasks(service, tasks, deployedAt)
+        : tasks;
+
+      if (
+        [...required].every((condition) =>
+          meetsCondition(condition, service, current),
+        )
+      ) {
+        core.info(`Service "${name}" meets ${[...required].join(", ")}`);
+        pending.delete(name);
+      }
+    }
+
+    if (pending.size > 0) {
+      await sleep(settings.monitorInterval * 1_000);
+    }
+  }
+}
+
+// Swarm only replaces the tasks of a service if its task template changed;
+// otherwise, the deployment keeps the existing tasks, and they all count.
+async function selectCurrentTasks(
+  { Spec, PreviousSpec }: ServiceWithMetadata,
+  tasks: TaskStatus[],
+  deployedAt: Date,
+) {
+  if (
+    !PreviousSpec ||
+    JSON.stringify(Spec?.TaskTemplate) ===
+      JSON.stringify(PreviousSpec.TaskTemplate)
+  ) {
+    return tasks;
+  }
+
+  const created = new Map(
+    (await inspectTasks(tasks.map(({ ID }) => ID))).map(({ ID, CreatedAt }) => [
+      ID,
+      Date.parse(CreatedAt),
+    ]),
+  );
+
+  return tasks.filter(
+    ({ ID }) => (created.get(ID) ?? 0) >= deployedAt.getTime(),
+  );
+}
+
+function meetsCondition(
+  condition: DependencyCondition,
+  service: ServiceWithMetadata,
+  tasks: TaskStatus[],
+) {
+  switch (condition) {
+    case "service_started":
+      return tasks.some(
+        ({ CurrentState }) =>
+          CurrentState.startsWith("Starting") ||
+          CurrentState.startsWith("Running"),
+      );
+
+    case "service_healthy":
+      return isServiceUpdateComplete(service);
+
+    case "service_completed_successfully":
+      return tasks.some(({ CurrentState }) =>
+        CurrentState.startsWith("Complete"),
+      );
+  }
+}
+
 /**
  * Check if a Docker service is complete.
  *
@@ -419,28 +653,6 @@ function resolveFailureReason(
 /**
  * Build a structured diagnostic report for a failed service update.
  */
-/**
- * Publish the buffered job summary to the run page
- *
- * `@actions/core` buffers summary content and only writes it to
- * `$GITHUB_STEP_SUMMARY` when this is called, so anything added without it is
- * silently discarded. The runner masks registered secrets in summaries, the
- * same as it does in the log, so no redaction of our own is required here.
- *
- * Failures are reported rather than thrown: callers raise the actual
- * deployment error immediately after building a report, and that error is far
- * more useful than one about writing a summary.
- */
-async function publishSummary() {
-  try {
-    await core.summary.write();
-  } catch (cause) {
-    const message = cause instanceof Error ? cause.message : String(cause);
-
-    core.warning(`Failed to publish the job summary: ${message}`);
-  }
-}
-
 export async function buildFailureReport(
   serviceId: string,
   serviceName: string,
@@ -0,0 +1,242 @@
+import * as core from "@actions/core";
+import type { ComposeSpec } from "./compose.js";
+import { listNodes, type Node } from "./engine.js";
+import type { Settings } from "./settings.js";
+
+/**
+ * Architecture names Swarm treats as the same when matching constraints
+ */
+const architectureAliases: Record<string, string> = {
+  x86_64: "amd64",
+  aarch64: "arm64",
+};
+
+/**
+ * Node attributes placement constraints can refer to, besides labels
+ */
+const nodeAttributes = [
+  "node.id",
+  "node.hostname",
+  "node.role",
+  "node.platform.os",
+  "node.platform.arch",
+];
+
+export interface Constraint {
+  key: string;
+  operator: "==" | "!=";
+  value: string;
+}
+
+type PlacementService = {
+  deploy?: {
+    mode?: string;
+    replicas?: number | string;
+    placement?: {
+      constraints?: string[];
+      max_replicas_per_node?: number | string;
+    };
+  };
+};
+
+/**
+ * Check that every service can be scheduled on the nodes of the Swarm
+ *
+ * A placement constraint no node satisfies, like `node.labels.tier==db` on a
+ * cluster where the label was never set, only fails at runtime: the tasks stay
+ * pending with "no suitable node", while the deployment itself succeeds. This
+ * evaluates the constraints and the `max_replicas_per_node` limit of every
+ * service against the nodes that can run tasks right now, so these surface
+ * before anything is deployed.
+ *
+ * Depending on the `checkPlacement` setting, problems are reported as
+ * warnings, or fail the deployment.
+ *
+ * @param spec The final Compose specification
+ * @param settings Deployment settings
+ */
+export async function checkPlacement(
+  spec: ComposeSpec,
+  { checkPlacement }: Pick<Readonly<Settings>, "checkPlacement">,
+) {
+  const nodes = await listNodes();
+  const available = nodes.filter(isAvailable);
+
+  core.startGroup("Swarm nodes");
+
+  for (const node of nodes) {
+    core.info(describeNode(node));
+  }
+
+  core.endGroup();
+
+  const problems = Object.entries(spec.services).flatMap(([name, service]) =>
+    checkService(name, service as PlacementService, available),
+  );
+
+  if (problems.length === 0) {
+    core.info(
+      `All services can be scheduled on the ${available.length} available ` +
+        "node(s)",
+    );
+
+    return;
+  }
+
+  if (checkPlacement === "warn") {
+    for (const problem of problems) {
+      core.warning(problem);
+    }
+
+    return;
+  }
+
+  throw new Error(
+    `${problems.length} service(s) cannot be scheduled on the Swarm: ` +
+      `${problems.join(" ")} Nothing has been deployed. Fix the placement ` +
+      "constraints, or label the nodes accordingly.",
+  );
+}
+
+function checkService(
+  name: string,
+  { deploy }: PlacementService,
+  nodes: Node[],
+) {
+  const constraints = (deploy?.placement?.constraints ?? []).map(
+    parseConstraint,
+  );
+  const invalid = constraints.filter(
+    (constraint): constraint is string => typeof constraint === "string",
+  );
+
+  if (invalid.length > 0) {
+    return invalid.map((reason) => `Service "${name}": ${reason}`);
+  }
+
+  const eligible = nodes.filter((node) =>
+    (constraints as Constraint[]).every((constraint) =>
+      matchConstraint(constraint, node),
+    ),
+  );
+
+  if (eligible.length === 0) {
+    return [
+      `Service "${name}" matches none of the ${nodes.length} available ` +
+        "node(s) with its constraints: " +
+        `${deploy?.placement?.constraints?.join(", ")}.`,
+    ];
+  }
+
+  const maxReplicas = Number(deploy?.placement?.max_replicas_per_node ?? 0);
+  const replicas = Number(deploy?.replicas ?? 1);
+
+  if (
+    deploy?.mode !== "global" &&
+    maxReplicas > 0 &&
+    eligible.length * maxReplicas < replicas
+  ) {
+    return [
+      `Service "${name}" needs ${replicas} replica(s) with at most ` +
+        `${maxReplicas} per node, but only ${eligible.length} node(s) are ` +
+        `eligible, which fit ${eligible.length * maxReplicas}.`,
+    ];
+  }
+
+  return [];
+}
+
+/**
+ * Whether a node can run new tasks right now
+ */
+export function isAvailable({ Spec, Status }: Node) {
+  return Spec.Availability === "active" && Status.State === "ready";
+}
+
+/**
+ * Parse a placement constraint
+ *
+ * @returns The parsed constraint, or a description of why it is invalid
+ */
+export function parseConstraint(constraint: string): Constraint | string {
+  const match = constraint.match(/^\s*([^=!\s]+)\s*(==|!=)\s*(.+?)\s*$/);
+
+  if (!match) {
+    return `invalid constraint "${constraint}"; use "key==value" or "key!=value".`;
+  }
+
+  const [, key, operator, value] = match;
+  const lower = key.toLowerCase();
+
+  if (
+    !lower.startsWith("node.labels.") &&
+    !lower.startsWith("engine.labels.") &&
+    !nodeAttributes.includes(lower)
+  ) {
+    return `unknown constraint attribute "${key}" in "${constraint}".`;
+  }
+
+  return { key, operator: operator as Constraint["operator"], value };
+}
+
+/**
+ * Match a placement constraint against a node, as Swarm does
+ *
+ * Values are compared case-insensitively, and a label the node does not have
+ * satisfies `!=`, but never `==`.
+ */
+export function matchConstraint(
+  { key, operator, value }: Constraint,
+  node: Node,
+) {
+  const actual = resolveAttribute(key, node);
+  const equal =
+    actual !== undefined && normalize(key, actual) === normalize(key, value);
+
+  return operator === "==" ? equal : !equal;
+}
+
+function resolveAttribute(key: string, node: Node) {
+  const lower = key.toLowerCase();
+
+  if (lower.startsWith("node.labels.")) {
+    return node.Spec.Labels?.[key.slice("node.labels.".length)];
+  }
+
+  if (lower.startsWith("engine.labels.")) {
+    return node.Description.Engine?.Labels?.[
+      key.slice("engine.labels.".length)
+    ];
+  }
+
+  const attributes: Record<string, string | undefined> = {
+    "node.id": node.ID,
+    "node.hostname": node.Description.Hostname,
+    "node.role": node.Spec.Role,
+    "node.platform.os": node.Description.Platform.OS,
+    "node.platform.arch": node.Description.Platform.Architecture,
+  };
+
+  return attributes[lower];
+}
+
+function normalize(key: string, value: string) {
+  const lower = value.toLowerCase();
+
+  return key.toLowerCase() === "node.platform.arch"
+    ? (architectureAliases[lower] ?? lower)
+    : lower;
+}
+
+function describeNode({ ID, Spec, Description, Status }: Node) {
+  const labels = Object.entries(Spec.Labels ?? {})
+    .map(([key, value]) => `${key}=${value}`)
+    .join(", ");
+
+  return (
+    `${Description.Hostname} (${ID.slice(0, 12)}): ${Spec.Role}, ` +
+    `${Description.Platform.OS}/${Description.Platform.Architecture}, ` +
+    `${Spec.Availability}, ${Status.State}` +
+    (labels ? `, labels: ${labels}` : "")
+  );
+}
@@ -0,0 +1,242 @@
+import * as core from "@actions/core";
+import type { ComposeSpec } from "./compose.js";
+import {
+  listConfigs,
+  listSecrets,
+  listServices,
+  stackNamespaceLabel,
+} from "./engine.js";
+import type { Settings } from "./settings.js";
+import { publishSummary } from "./utils.js";
+import {
+  findOutdatedVariables,
+  nameLabel,
+  stackLabel,
+  type Variable,
+} from "./variables.js";
+
+/**
+ * Changes a deployment would apply to the Swarm
+ */
+export interface DeploymentPlan {
+  stack: string;
+  services: {
+    create: string[];
+    update: string[];
+    remove: string[];
+
+    /** Running services missing from the spec, left alone without pruning */
+    keep: string[];
+  };
+  secrets: VariablePlan;
+  configs: VariablePlan;
+  flags: DeployFlags;
+}
+
+/**
+ * Flags of `docker stack deploy` that change what a deployment does
+ */
+export type DeployFlags = Pick<
+  Readonly<Settings>,
+  "prune" | "resolveImage" | "withRegistryAuth"
+>;
+
+/**
+ * Changes a deployment would apply to the secrets or configs of a stack
+ */
+export interface VariablePlan {
+  /** Hashed names that do not exist yet and would be created */
+  create: string[];
+
+  /** Hashed names that already exist, because their value did not change */
+  reuse: string[];
+
+  /** Stored names that would be removed after the deployment */
+  prune: string[];
+}
+
+/**
+ * Plan a deployment without applying it
+ *
+ * Compares the final specification against the current state of the stack on
+ * the Swarm: services are matched by name, and secrets and configs by their
+ * hashed name, which only changes if their value changed. What would be pruned
+ * is determined by the same selection `pruneVariables` uses after a deployment.
+ * Running services missing from the spec are only removed with `prune`.
+ *
+ * @param spec The final, interpolated Compose specification
+ * @param settings The settings to use for the deployment
+ */
+export async function planDeployment(
+  spec: ComposeSpec,
+  {
+    prune,
+    resolveImage,
+    stack,
+    withRegistryAuth,
+  }: Pick<Readonly<Settings>, "stack"> & DeployFlags,
+): Promise<DeploymentPlan> {
+  core.info(`Planning deployment of stack "${stack}"`);
+
+  const running = await listServices({
+    labels: { [stackNamespaceLabel]: stack },
+  });
+  const prefix = `${stack}_`;
+  const runningNames = new Set(
+    running.map(({ Name }) =>
+      Name.startsWith(prefix) ? Name.slice(prefix.length) : Name,
+    ),
+  );
+  const specNames = Object.keys(spec.services);
+  const missing = [...runningNames].filter((name) => !specNames.includes(name));
+
+  const [secrets, configs] = await Promise.all([
+    listSecrets({ labels: { [stackLabel]: stack } }),
+    listConfigs({ labels: { [stackLabel]: stack } }),
+  ]);
+
+  return {
+    stack,
+    services: {
+      create: specNames.filter((name) => !runningNames.has(name)),
+      update: specNames.filter((name) => runningNames.has(name)),
+      remove: prune ? missing : [],
+      keep: prune ? [] : missing,
+    },
+    secrets: planVariables(spec.secrets, secrets),
+    configs: planVariables(spec.configs, configs),
+    flags: { prune, resolveImage, withRegistryAuth },
+  };
+}
+
+function planVariables(
+  specVariables: Record<string, Variable> | undefined,
+  stored: Parameters<typeof findOutdatedVariables>[0],
+): VariablePlan {
+  const storedNames = new Set(stored.map(({ Name }) => Name));
+
+  // Only variables the action manages carry a name label; external or ignored
+  // ones are left alone by the deployment, so they don't belong in the plan.
+  const managed = Object.values(specVariables ?? {})
+    .filter(({ labels, name }) => labels?.[nameLabel] !== undefined && name)
+    .map(({ name }) => String(name));
+
+  return {
+    create: managed.filter((name) => !storedNames.has(name)),
+    reuse: managed.filter((name) => storedNames.has(name)),
+    prune: findOutdatedVariables(stored, specVariables).map(
+      ({ item }) => item.Name ?? item.ID,
+    ),
+  };
+}
+
+/**
+ * Report a deployment plan
+ *
+ * The plan is written to the log, the job summary, and the `plan` output, so
+ * reviewers can see what a deployment would change before it is applied, and
+ * which flags it would be deployed with.
+ *
+ * @param plan The plan to report
+ */
+export async function reportPlan(plan: DeploymentPlan) {
+  const rows: PlanRow[] = [
+    ...plan.services.create.map((name): PlanRow => ["Service", name, "create"]),
+    ...plan.services.update.map((name): PlanRow => ["Service", name, "update"]),
+    ...plan.services.remove.map((name): PlanRow => ["Service", name, "remove"]),
+    ...plan.services.keep.map((name): PlanRow => ["Service", name, "keep"]),
+    ...variableRows("Secret", plan.secrets),
+    ...variableRows("Config", plan.configs),
+  ];
+
+  core.startGroup(`Deployment plan for stack "${plan.stack}"`);
+
+  if (rows.length === 0) {
+    core.info("No changes");
+  }
+
+  for (const [kind, name, action] of rows) {
+    core.info(`${action.padEnd(7)} ${kind.toLowerCase()} ${name}`);
+  }
+
+  core.info(
+    `Flags: prune ${plan.flags.prune ? "enabled" : "disabled"}, ` +
+      `resolve-image ${plan.flags.resolveImage}, with-registry-auth ` +
+      (plan.flags.withRegistryAuth ? "enabled" : "disabled"),
+  );
+
+  core.endGroup();
+
+  core.setOutput("plan", JSON.stringify(plan));
+
+  core.summary.addHeading(`Deployment plan: ${plan.stack}`, 2);
+  core.summary.addRaw(
+    "_Dry run: nothing was deployed. The following changes would be " +
+      "applied._",
+    true,
+  );
+  core.summary.addTable([
+    [
+      { data: "Resource", header: true },
+      { data: "Name", header: true },
+      { data: "Action", header: true },
+    ],
+    ...rows.map(([kind, name, action]) => [
+      { data: kind },
+      { data: name },
+      { data: action },
+    ]),
+  ]);
+  core.summary.addTable(describeDeployFlags(plan.flags));
+
+  await publishSummary();
+}
+
+/**
+ * Describe the flags of a deployment as a table for the job summary
+ *
+ * Pruning in particular removes services without further notice, so the
+ * table names the input behind each flag to trace it back to its setting.
+ *
+ * @param flags The flags the stack is deployed with
+ */
+export function describeDeployFlags({
+  prune,
+  resolveImage,
+  withRegistryAuth,
+}: DeployFlags): SummaryTableRow[] {
+  return [
+    [
+      { data: "Flag", header: true },
+      { data: "Value", header: true },
+      { data: "Input", header: true },
+    ],
+    [
+      { data: "<code>--prune</code>" },
+      { data: prune ? "enabled" : "disabled" },
+      { data: "<code>prune</code>" },
+    ],
+    [
+      { data: "<code>--resolve-image</code>" },
+      { data: resolveImage },
+      { data: "<code>resolve-image</code>" },
+    ],
+    [
+      { data: "<code>--with-registry-auth</code>" },
+      { data: withRegistryAuth ? "enabled" : "disabled" },
+      { data: "<code>with-registry-auth</code>" },
+    ],
+  ];
+}
+
+function variableRows(kind: "Secret" | "Config", plan: VariablePlan) {
+  return [
+    ...plan.create.map((name): PlanRow => [kind, name, "create"]),
+    ...plan.reuse.map((name): PlanRow => [kind, name, "reuse"]),
+    ...plan.prune.map((name): PlanRow => [kind, name, "prune"]),
+  ];
+}
+
+type PlanRow = [resource: string, name: string, action: string];
+
+type SummaryTableRow = Parameters<typeof core.summary.addTable>[0][number];
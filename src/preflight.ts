@@ -0,0 +1,73 @@
+import * as core from "@actions/core";
+import type { ComposeSpec } from "./compose.js";
+import { inspectImageDigest } from "./engine.js";
+
+/**
+ * Check that the image of every service can be resolved
+ *
+ * A typo in an image reference, or a tag that was never pushed, would
+ * otherwise only surface once Swarm fails to pull the image, with the stack
+ * already halfway through updating. Resolving every image with the runner's
+ * registry credentials catches these before anything on the cluster changes.
+ * All images are checked, so every unresolvable one is reported at once,
+ * rather than one per attempt.
+ *
+ * @param spec The final Compose specification
+ * @returns The digests of the resolved images, keyed by image reference
+ */
+export async function checkImages(spec: ComposeSpec) {
+  const usages = new Map<string, string[]>();
+
+  for (const [name, service] of Object.entries(spec.services) as Array<
+    [string, { image?: unknown }]
+  >) {
+    if (typeof service.image !== "string" || !service.image) {
+      continue;
+    }
+
+    usages.set(service.image, [...(usages.get(service.image) ?? []), name]);
+  }
+
+  core.info(`Checking that ${usages.size} image(s) can be resolved`);
+
+  const results = await Promise.allSettled(
+    [...usages.keys()].map(async (image) => {
+      const digest = await inspectImageDigest(image);
+
+      return [image, digest] as const;
+    }),
+  );
+
+  const images = [...usages.entries()];
+  const failures = results.flatMap((result, index) => {
+    if (result.status === "fulfilled") {
+      return [];
+    }
+
+    const [image, services] = images[index];
+    const reason =
+      result.reason instanceof Error
+        ? result.reason.message
+        : String(result.reason);
+
+    core.error(`Image "${image}" cannot be resolved: ${reason}`);
+
+    return [`${image} (used by ${services.join(", ")})`];
+  });
+
+  if (failures.length > 0) {
+    throw new Error(
+      `${failures.length} image(s) cannot be resolved with the runner's ` +
+        `registry credentials: ${failures.join("; ")}. Check that the image ` +
+        "references are spelled correctly, that the tags have been pushed, " +
+        "and that the runner is logged in to the registries. Nothing has " +
+        "been deployed.",
+    );
+  }
+
+  return new Map(
+    results.flatMap((result) =>
+      result.status === "fulfilled" ? [result.value] : [],
+    ),
+  );
+}
@@ -0,0 +1,210 @@
+import * as core from "@actions/core";
+import type { ComposeSpec } from "./compose.js";
+import type { Settings } from "./settings.js";
+
+/**
+ * Pattern matching the labels Traefik uses to declare routers, services, and
+ * middlewares, capturing the prefix, the name, and the remainder of the key
+ */
+const traefikLabelPattern =
+  /^(traefik\.(?:http|tcp|udp)\.(?:routers|services|middlewares)\.)([^.]+)(\..+)$/;
+
+/**
+ * Pattern matching host matchers in Traefik router rules, capturing the
+ * matcher and its quoted arguments
+ */
+const hostRulePattern =
+  /\b(Host|HostHeader|HostSNI|HostRegexp|HostSNIRegexp)\(((?:\s*(?:`[^`]*`|"[^"]*")\s*,?)*)\)/g;
+
+/**
+ * Pattern matching anything that looks like a host matcher, to find those the
+ * preview cannot rewrite
+ */
+const hostMatcherPattern = /\bHost\w*\(/g;
+
+type PreviewService = {
+  ports?: Array<string | number | { published?: unknown; target?: unknown }>;
+  labels?: Record<string, string> | string[];
+  deploy?: { labels?: Record<string, string> | string[] };
+};
+
+/**
+ * Rewrite a Compose specification to run as a preview environment
+ *
+ * A preview stack runs alongside the main stack and the previews of other pull
+ * requests on the same Swarm, so everything that must be unique across the
+ * cluster is made unique to the pull request:
+ *  - Published ports are dropped, so Swarm assigns a free port to each. Two
+ *    stacks cannot publish the same port.
+ *  - Traefik routers, services, and middlewares declared in labels are
+ *    suffixed with the pull request number, as Traefik names are global.
+ *  - Hosts in Traefik router rules are prefixed with `pr-<number>.`, so the
+ *    preview is reachable at its own address. Host patterns of `HostRegexp`
+ *    and `HostSNIRegexp` matchers are prefixed likewise.
+ *
+ * @param spec The final, interpolated Compose specification
+ * @param settings The settings to use for the deployment
+ */
+export function rewriteForPreview(
+  spec: ComposeSpec,
+  { pullRequest }: Pick<Readonly<Settings>, "pullRequest">,
+): ComposeSpec {
+  if (pullRequest === undefined) {
+    return spec;
+  }
+
+  const suffix = `-pr-${pullRequest}`;
+  const services = Object.values(spec.services) as PreviewService[];
+  const names = new Set(
+    services.flatMap((service) =>
+      [service.labels, service.deploy?.labels].flatMap((labels) =>
+        Object.keys(labelsToMap(labels))
+          .map((key) => key.match(traefikLabelPattern)?.[2])
+          .filter((name): name is string => name !== undefined),
+      ),
+    ),
+  );
+
+  const rewritten = structuredClone(spec);
+
+  for (const [name, service] of Object.entries(rewritten.services) as Array<
+    [string, PreviewService]
+  >) {
+    if (service.ports?.length) {
+      service.ports = service.ports.map(unpublishPort);
+      core.info(`Service "${name}": dropped published ports for the preview`);
+    }
+
+    if (service.labels) {
+      service.labels = rewriteLabels(service.labels, names, pullRequest);
+    }
+
+    if (service.deploy?.labels) {
+      service.deploy.labels = rewriteLabels(
+        service.deploy.labels,
+        names,
+        pullRequest,
+      );
+    }
+  }
+
+  if (names.size > 0) {
+    core.info(
+      `Suffixed Traefik routers, services, and middlewares with "${suffix}": ` +
+        [...names].join(", "),
+    );
+  }
+
+  return rewritten;
+}
+
+function unpublishPort(port: string | number | { published?: unknown }) {
+  if (typeof port === "object") {
+    const { published: _, ...rest } = port;
+
+    return rest;
+  }
+
+  // The short syntax is "[host:]published:target[/protocol]"; keep the target
+  return String(port).split(":").pop() ?? String(port);
+}
+
+function rewriteLabels(
+  labels: Record<string, string> | string[],
+  names: Set<string>,
+  pullRequest: number,
+) {
+  const suffix = `-pr-${pullRequest}`;
+  const rewritten = Object.fromEntries(
+    Object.entries(labelsToMap(labels)).map(([key, value]) => {
+      const match = key.match(traefikLabelPattern);
+
+      if (!match) {
+        return [key, value];
+      }
+
+      const [, prefix, name, remainder] = match;
+      let rewrittenValue = value;
+
+      if (remainder === ".rule") {
+        rewrittenValue = rewriteHostRule(value, name, pullRequest);
+      } else if (remainder === ".service") {
+        rewrittenValue = names.has(value) ? `${value}${suffix}` : value;
+      } else if (remainder === ".middlewares") {
+        rewrittenValue = value
+          .split(",")
+          .map((entry) => entry.trim())
+          .map((entry) => (names.has(entry) ? `${entry}${suffix}` : entry))
+          .join(",");
+      }
+
+      return [`${prefix}${name}${suffix}${remainder}`, rewrittenValue];
+    }),
+  );
+
+  return Array.isArray(labels)
+    ? Object.entries(rewritten).map(([key, value]) => `${key}=${value}`)
+    : rewritten;
+}
+
+function rewriteHostRule(rule: string, router: string, pullRequest: number) {
+  const unmatched =
+    (rule.match(hostMatcherPattern)?.length ?? 0) -
+    (rule.match(hostRulePattern)?.length ?? 0);
+
+  if (unmatched > 0) {
+    core.warning(
+      `The rule of Traefik router "${router}" has host matchers that cannot ` +
+        `be rewritten for the preview, so it may serve the hosts of the main ` +
+        `stack: ${rule}`,
+    );
+  }
+
+  return rule.replace(hostRulePattern, (_, matcher: string, hosts: string) => {
+    const rewritten = hosts.replace(/`[^`]*`|"[^"]*"/g, (quoted) => {
+      const quote = quoted[0];
+      const host = prefixHost(quoted.slice(1, -1), matcher, pullRequest);
+
+      return `${quote}${host}${quote}`;
+    });
+
+    return `${matcher}(${rewritten})`;
+  });
+}
+
+// Traefik v3 host patterns are regular expressions, which are prefixed after
+// their anchor, if any. Traefik v2 templates, like "{sub:[a-z]+}.example.com",
+// escape their literal text themselves, so the prefix is left unescaped.
+function prefixHost(host: string, matcher: string, pullRequest: number) {
+  if (host === "*" || !host) {
+    return host;
+  }
+
+  if (matcher.endsWith("Regexp") && host.startsWith("^")) {
+    return `^pr-${pullRequest}\\.${host.slice(1)}`;
+  }
+
+  return `pr-${pullRequest}.${host}`;
+}
+
+function labelsToMap(
+  labels: Record<string, string> | string[] | undefined,
+): Record<string, string> {
+  if (!labels) {
+    return {};
+  }
+
+  if (!Array.isArray(labels)) {
+    return labels;
+  }
+
+  return Object.fromEntries(
+    labels.map((label) => {
+      const index = label.indexOf("=");
+
+      return index === -1
+        ? [label, ""]
+        : [label.slice(0, index), label.slice(index + 1)];
+    }),
+  );
+}
@@ -3,6 +3,7 @@ import { resolve } from "node:path";
 import * as core from "@actions/core";
 import type { ComposeSpec } from "./compose.js";
 import type { Settings } from "./settings.js";
+import { dependsOnLabelPrefix } from "./staging.js";
 import { levenshtein } from "./utils";
 
 /**
@@ -384,10 +385,13 @@ function translateRestart(
   deploy.restart_policy = policy;
 }
 
+// With staged deployment, the conditions are kept as labels instead, which
+// `docker stack config` passes through for the deployment to read.
 function translateDependsOn(
   name: string,
   service: Record<string, unknown>,
   diagnostics: Diagnostics,
+  staged: boolean,
 ): void {
   const dependsOn = service.depends_on;
 
@@ -401,17 +405,37 @@ function translateDependsOn(
 
   service.depends_on = Object.keys(dependsOn);
 
+  if (staged) {
+    service.deploy ??= {};
+
+    const deploy = service.deploy as {
+      labels?: Record<string, string> | string[];
+    };
+    const labels = Object.entries(
+      dependsOn as Record<string, { condition?: string } | null>,
+    ).map(([dependency, options]) => [
+      `${dependsOnLabelPrefix}${dependency}`,
+      options?.condition ?? "service_started",
+    ]);
+
+    deploy.labels = Array.isArray(deploy.labels)
+      ? [...deploy.labels, ...labels.map(([key, value]) => `${key}=${value}`)]
+      : { ...deploy.labels, ...Object.fromEntries(labels) };
+
+    return;
+  }
+
   diagnostics.warn(
     `Service "${name}" uses the long "depends_on" syntax; Docker Swarm has ` +
       `no startup ordering, so conditions are dropped and only the ` +
-      `dependency list is kept.`,
+      `dependency list is kept. Enable "staged-deployment" to honor them.`,
   );
 }
 
-// Resolve a label_file path relative to the compose file's own directory
-// (matching Docker's compose-file-relative resolution), then confine it to the
-// workspace so a malicious compose file can't read arbitrary host files.
-function withinWorkspace(path: string, baseDir: string): string | null {
+// Resolve a path relative to the compose file's own directory (matching
+// Docker's compose-file-relative resolution), then confine it to the workspace
+// so a malicious compose file can't read arbitrary host files.
+export function withinWorkspace(path: string, baseDir: string): string | null {
   const workspace = resolve(process.env.GITHUB_WORKSPACE || process.cwd());
   const prefix = workspace.endsWith("/") ? workspace : `${workspace}/`;
   const resolved = resolve(baseDir, path);
@@ -620,7 +644,10 @@ function applyTopLevelStrips(
  */
 export async function reconcileSwarmCompatibility(
   spec: ComposeSpec,
-  settings: Pick<Readonly<Settings>, "strictCompatibility">,
+  settings: Pick<
+    Readonly<Settings>,
+    "strictCompatibility" | "stagedDeployment"
+  >,
   baseDir: string = process.cwd(),
 ): Promise<void> {
   const diagnostics = new Diagnostics();
@@ -647,7 +674,7 @@ export async function reconcileSwarmCompatibility(
 
     translateResources(name, entry, diagnostics);
     translateRestart(name, entry, diagnostics);
-    translateDependsOn(name, entry, diagnostics);
+    translateDependsOn(name, entry, diagnostics, settings.stagedDeployment);
 
     await translateLabelFile(name, entry, diagnostics, baseDir);
 
@@ -0,0 +1,110 @@
+import { mkdtemp, readFile, rm, symlink, writeFile } from "node:fs/promises";
+import { homedir, tmpdir } from "node:os";
+import { join } from "node:path";
+import * as core from "@actions/core";
+import { loginToRegistry, useDockerConfig } from "./engine.js";
+import type { Settings } from "./settings.js";
+import { exists } from "./utils.js";
+
+/**
+ * Entries of the runner's Docker configuration the CLI still needs: the
+ * temporary context of a remote connection, and plugins like `buildx`
+ */
+const linkedEntries = ["contexts", "cli-plugins"];
+
+/**
+ * Log in to the registries configured in the settings
+ *
+ * With `--with-registry-auth`, the Swarm agents can only pull private images
+ * if the CLI is logged in to their registries. This logs in to each of them in
+ * a temporary Docker configuration directory, and routes every subsequent
+ * Docker command through it, so the credentials neither depend on, nor end up
+ * in, the runner's own configuration. Its contexts and CLI plugins are linked
+ * into the temporary directory, so they keep working.
+ *
+ * @param settings Deployment settings
+ * @returns The path of the temporary configuration directory, or `undefined`
+ *          if no registries are configured
+ */
+export async function loginToRegistries({
+  registries,
+}: Pick<Readonly<Settings>, "registries">) {
+  if (registries.length === 0) {
+    return undefined;
+  }
+
+  const source = process.env.DOCKER_CONFIG || join(homedir(), ".docker");
+  const directory = await mkdtemp(
+    join(process.env.RUNNER_TEMP || tmpdir(), "docker-config-"),
+  );
+
+  core.startGroup(`Logging in to ${registries.length} registry(ies)`);
+
+  try {
+    await writeFile(
+      join(directory, "config.json"),
+      JSON.stringify(await readCurrentContext(source)),
+      { mode: 0o600 },
+    );
+
+    for (const entry of linkedEntries) {
+      if (await exists(join(source, entry))) {
+        await symlink(join(source, entry), join(directory, entry));
+      }
+    }
+
+    useDockerConfig(directory);
+
+    for (const credentials of registries) {
+      await loginToRegistry(credentials);
+      core.info(
+        `Logged in to registry "${credentials.registry}" as ` +
+          `"${credentials.username}"`,
+      );
+    }
+  } catch (error) {
+    await removeRegistryConfig(directory);
+
+    throw error;
+  } finally {
+    core.endGroup();
+  }
+
+  return directory;
+}
+
+/**
+ * Remove the temporary Docker configuration, and the credentials in it
+ *
+ * Failures are reported as warnings, so that cleaning up never masks the
+ * outcome of the deployment.
+ *
+ * @param directory The directory returned by `loginToRegistries`
+ */
+export async function removeRegistryConfig(directory: string | undefined) {
+  if (!directory) {
+    return;
+  }
+
+  useDockerConfig(undefined);
+
+  try {
+    await rm(directory, { recursive: true, force: true });
+  } catch (error) {
+    core.warning(`Failed to remove the registry credentials: ${error}`);
+  }
+}
+
+// A context selected with `docker context use` is stored in the configuration
+// file, so it would be lost along with the runner's credentials otherwise.
+async function readCurrentContext(source: string) {
+  try {
+    const { currentContext } = JSON.parse(
+      await readFile(join(source, "config.json"), "utf-8"),
+    );
+
+    return currentContext ? { currentContext } : {};
+  } catch {
+    return {};
+  }
+}
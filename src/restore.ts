@@ -0,0 +1,268 @@
+import * as core from "@actions/core";
+import {
+  colorSettings,
+  discardColor,
+  labelColor,
+  resolveColors,
+  switchColor,
+} from "./bluegreen.js";
+import type { ComposeSpec } from "./compose.js";
+import { diffStack, reportDiff } from "./diff.js";
+import { deployStack, listConfigs, listSecrets } from "./engine.js";
+import { readDeploymentRecord, recordDeployment } from "./history.js";
+import { monitorDeployment } from "./monitoring.js";
+import { loginToRegistries, removeRegistryConfig } from "./registries.js";
+import {
+  rollbackDeployment,
+  type StackSnapshot,
+  snapshotStack,
+} from "./rollback.js";
+import type { Settings } from "./settings.js";
+import { mapStrings } from "./utils.js";
+import type { Variable } from "./variables.js";
+
+/**
+ * Roll a stack back to a version deployed before
+ *
+ * This function redeploys the specification recorded when the version was
+ * deployed, rather than building it from the Compose files again, so the
+ * services run exactly what they ran then. Secrets and configs are not created
+ * anew: the recorded specification references them by the hash-named secrets
+ * and configs that were created for the version, which are reused as long as
+ * pruning has not removed them since. Secret values redacted from the record
+ * are filled in from the `secrets` input, which must still provide them.
+ * Apart from that, the rollback is monitored, rolled back on failure, and
+ * recorded in the history like any other deployment, as replacing what the
+ * restored version replaced.
+ *
+ * @param input Deployment settings
+ * @returns The deployed specification, and the version it belongs to
+ */
+export async function restoreDeployment(input: Readonly<Settings>) {
+  const record = await readDeploymentRecord(input);
+
+  core.info(
+    `Rolling back stack "${input.stack}" to version ${record.version}, ` +
+      `deployed at ${record.deployedAt}`,
+  );
+
+  const blueGreen =
+    input.strategy === "blue-green" ? await resolveColors(input) : undefined;
+  const settings = blueGreen ? colorSettings(input, blueGreen.next) : input;
+  let spec = restoreSecretValues(
+    referenceVariables(record.spec, record.stack),
+    settings.secretValues,
+    record.version,
+  );
+
+  if (blueGreen) {
+    spec = labelColor(spec, blueGreen.next, settings);
+  }
+
+  await checkVariables(spec, record.version);
+
+  if (settings.diff || settings.dryRun) {
+    await reportDiff(await diffStack(spec, settings), settings.stack);
+  }
+
+  if (settings.dryRun) {
+    core.info(
+      `Dry run: skipping the rollback of stack "${input.stack}" to version ` +
+        record.version,
+    );
+
+    return { spec, version: record.version };
+  }
+
+  let snapshot: StackSnapshot | undefined;
+  let registryConfig: string | undefined;
+
+  try {
+    registryConfig = await loginToRegistries(settings);
+
+    if (settings.monitor && settings.rollbackOnFailure && !blueGreen) {
+      snapshot = await snapshotStack(settings);
+    }
+
+    await deployStack(spec, settings);
+  } finally {
+    await removeRegistryConfig(registryConfig);
+  }
+
+  if (settings.monitor) {
+    try {
+      await monitorDeployment(settings, spec);
+    } catch (error) {
+      if (blueGreen && settings.rollbackOnFailure) {
+        await discardColor(settings, error);
+      }
+
+      if (snapshot) {
+        await rollbackDeployment(settings, snapshot, error);
+      }
+
+      throw error;
+    }
+  }
+
+  if (blueGreen) {
+    await switchColor(blueGreen, input);
+  }
+
+  await recordDeployment(
+    spec,
+    { ...input, version: record.version },
+    settings.stack,
+    record,
+  );
+
+  return { spec, version: record.version };
+}
+
+/**
+ * Reference every secret and config of a recorded specification by name
+ *
+ * The recorded specification still points to the files the variables were
+ * read from during the original deployment, which are long gone. Declaring
+ * them external makes Swarm use the secrets and configs created back then.
+ * Variables without an explicit name were named after the stack by Docker.
+ *
+ * @param spec The recorded specification
+ * @param stack Name of the stack the specification was deployed as
+ */
+export function referenceVariables(spec: ComposeSpec, stack: string) {
+  const reference = (variables: Record<string, Variable> | undefined) =>
+    variables &&
+    Object.fromEntries(
+      Object.entries(variables).map(([key, variable]) => [
+        key,
+        { name: variableName(key, variable, stack), external: true },
+      ]),
+    );
+
+  const referenced = structuredClone(spec);
+  const secrets = reference(spec.secrets);
+  const configs = reference(spec.configs);
+
+  if (secrets) {
+    referenced.secrets = secrets;
+  }
+
+  if (configs) {
+    referenced.configs = configs;
+  }
+
+  return referenced;
+}
+
+function variableName(
+  key: string,
+  { external, name }: Variable,
+  stack: string,
+) {
+  if (typeof external === "object") {
+    return external.name;
+  }
+
+  if (typeof external === "string") {
+    return external;
+  }
+
+  return name ?? (external ? key : `${stack}_${key}`);
+}
+
+/**
+ * Fill the secret values redacted from a recorded specification back in
+ *
+ * Redacted values read `${NAME}`, see `redactSecretValues`. A placeholder left
+ * in the specification would be interpolated by `docker stack deploy` from the
+ * environment of the runner, deploying a wrong value without notice, so all
+ * secrets the `secrets` input no longer provides are reported at once. Escaped
+ * dollar signs are skipped, as they do not start a placeholder.
+ *
+ * @param spec The recorded specification
+ * @param secretValues Values of the `secrets` input, by variable name
+ * @param version The version the specification belongs to
+ */
+function restoreSecretValues(
+  spec: ComposeSpec,
+  secretValues: ReadonlyMap<string, string>,
+  version: string,
+) {
+  const missing = new Set<string>();
+  const restored = mapStrings(spec, (value) =>
+    value.replace(
+      /\$\$|\$\{([a-zA-Z_][a-zA-Z0-9_]*)}/g,
+      (match, name: string | undefined) => {
+        if (name === undefined) {
+          return match;
+        }
+
+        const secret = secretValues.get(name);
+
+        if (secret === undefined) {
+          missing.add(name);
+        }
+
+        return secret ?? match;
+      },
+    ),
+  );
+
+  if (missing.size > 0) {
+    throw new Error(
+      `Cannot roll back to version ${version}, as the values of ` +
+        `${missing.size} secret(s) were redacted from its record, and are not ` +
+        `passed via the "secrets" input:\n` +
+        [...missing].map((name) => `  - ${name}`).join("\n") +
+        `\nPass them via the "secrets" input, as for the original deployment.`,
+    );
+  }
+
+  return restored;
+}
+
+/**
+ * Check that the secrets and configs referenced by a specification still exist
+ *
+ * Pruning removes the variables of a version once a later one has been
+ * deployed successfully, so a rollback to an older version may find them
+ * gone. All missing variables are reported at once, as they all have to be
+ * provided before the rollback can succeed.
+ *
+ * @param spec The specification to deploy
+ * @param version The version the specification belongs to
+ */
+async function checkVariables(spec: ComposeSpec, version: string) {
+  const secretNames = names(spec.secrets);
+  const configNames = names(spec.configs);
+  const [secrets, configs] = await Promise.all([
+    secretNames.length > 0 ? listSecrets({ name: secretNames }) : [],
+    configNames.length > 0 ? listConfigs({ name: configNames }) : [],
+  ]);
+
+  // The name filter matches prefixes, so the names are compared here
+  const missing = [
+    ...missingNames(secretNames, secrets).map((name) => `secret "${name}"`),
+    ...missingNames(configNames, configs).map((name) => `config "${name}"`),
+  ];
+
+  if (missing.length > 0) {
+    throw new Error(
+      `Cannot roll back to version ${version}, as ${missing.length} of the ` +
+        `secrets and configs it uses no longer exist:\n` +
+        missing.map((variable) => `  - ${variable}`).join("\n") +
+        `\nThey have been pruned after a later deployment succeeded. Deploy ` +
+        `version ${version} with the "deploy" action instead, which creates ` +
+        `them anew from their sources.`,
+    );
+  }
+}
+
+function names(variables: Record<string, Variable> | undefined) {
+  return Object.values(variables ?? {}).map(({ name }) => String(name));
+}
+
+function missingNames(expected: string[], existing: { Name: string }[]) {
+  return expected.filter((name) => !existing.some(({ Name }) => Name === name));
+}
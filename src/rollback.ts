@@ -0,0 +1,208 @@
+import * as core from "@actions/core";
+import {
+  listServices,
+  readEngineTime,
+  replaceServiceSpec,
+  rollbackService,
+  type ServiceSpec,
+  type ServiceWithMetadata,
+  stackNamespaceLabel,
+} from "./engine.js";
+import { monitorRollback } from "./monitoring.js";
+import type { Settings } from "./settings.js";
+import { publishSummary } from "./utils.js";
+
+/**
+ * Version and spec of every service of a stack, taken before a deployment
+ *
+ * Swarm increments a service's version index on every change to it, so
+ * comparing against this tells which services a deployment actually touched,
+ * independent of clock skew between the runner and the managers. The spec is
+ * restored for services the deployment updated more than once, like promoted
+ * canaries, whose previous spec is no longer the one from before it.
+ */
+export type StackSnapshot = ReadonlyMap<
+  string,
+  { version: number; spec?: ServiceSpec }
+>;
+
+/**
+ * Take a snapshot of the service versions of a stack
+ *
+ * @param settings Deployment settings
+ */
+export async function snapshotStack({
+  stack,
+}: Pick<Readonly<Settings>, "stack">): Promise<StackSnapshot> {
+  const services = await listServices(
+    { labels: { [stackNamespaceLabel]: stack } },
+    true,
+  );
+
+  return new Map(
+    services.map(({ ID, Version, Spec }) => [
+      ID,
+      { version: Version?.Index, spec: Spec },
+    ]),
+  );
+}
+
+/**
+ * Roll back a failed deployment
+ *
+ * This function restores every service the deployment changed to its previous
+ * spec, waits for the rollback to converge, and then fails with a report of
+ * what was rolled back and why. Services whose previous spec is not the one
+ * from the snapshot get the snapshot's spec restored instead. Services that
+ * were created by the deployment have no previous spec to return to and are
+ * left in place. Services Swarm is already rolling back on its own, as per
+ * their `update_config`, are only waited for: rolling those back again would
+ * restore the failed spec.
+ *
+ * @param settings Deployment settings
+ * @param snapshot Service versions taken before the deployment
+ * @param cause The error that failed the deployment
+ */
+export async function rollbackDeployment(
+  settings: Readonly<Settings>,
+  snapshot: StackSnapshot,
+  cause: unknown,
+): Promise<never> {
+  const reason = cause instanceof Error ? cause.message : String(cause);
+
+  core.startGroup(`Rolling back stack "${settings.stack}"`);
+
+  let rows: RollbackRow[];
+
+  try {
+    rows = await rollbackChangedServices(settings, snapshot);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    throw new Error(
+      `Deployment failed (${reason}), and rolling it back failed as well: ` +
+        `${message}. The stack may be left partially updated; inspect it ` +
+        `with "docker stack ps ${settings.stack}".`,
+      { cause },
+    );
+  } finally {
+    core.endGroup();
+  }
+
+  core.summary.addHeading(`Deployment rolled back: ${settings.stack}`, 2);
+  core.summary.addRaw(`**Reason:** ${reason}`, true);
+  core.summary.addTable([
+    [
+      { data: "Service", header: true },
+      { data: "Restored image", header: true },
+      { data: "Result", header: true },
+    ],
+    ...rows.map(({ name, image, result }) => [
+      { data: name },
+      { data: image ?? "-" },
+      { data: result },
+    ]),
+  ]);
+
+  await publishSummary();
+
+  const failed = rows.filter(({ converged }) => converged === false);
+  const rolledBack = rows
+    .filter(({ converged }) => converged === true)
+    .map(({ name }) => name);
+
+  if (failed.length > 0) {
+    throw new Error(
+      `Deployment failed (${reason}), and ${failed.length} service(s) could ` +
+        `not be rolled back: ` +
+        failed.map(({ name, result }) => `${name} (${result})`).join(", "),
+      { cause },
+    );
+  }
+
+  throw new Error(
+    `Deployment failed and was rolled back: ${reason}. ` +
+      (rolledBack.length > 0
+        ? `Restored the previous version of ${rolledBack.join(", ")}.`
+        : "No service had a previous version to restore."),
+    { cause },
+  );
+}
+
+async function rollbackChangedServices(
+  settings: Readonly<Settings>,
+  snapshot: StackSnapshot,
+): Promise<RollbackRow[]> {
+  const services = await listServices(
+    { labels: { [stackNamespaceLabel]: settings.stack } },
+    true,
+  );
+  const rows: RollbackRow[] = [];
+  const pending: Array<{ service: ServiceWithMetadata; spec?: ServiceSpec }> =
+    [];
+  let restoredSince: Date | undefined;
+
+  for (const service of services) {
+    const name = service.Spec?.Name ?? service.Name ?? service.ID;
+    const state = service.UpdateStatus?.State;
+    const saved = snapshot.get(service.ID);
+
+    if (!saved) {
+      core.info(`Service "${name}" was created by the deployment; keeping it`);
+      rows.push({ name, result: "Created by this deployment; kept" });
+
+      continue;
+    }
+
+    if (saved.version === service.Version?.Index) {
+      continue;
+    }
+
+    if (state === "rollback_started" || state === "rollback_completed") {
+      core.info(`Service "${name}" is already being rolled back by Swarm`);
+      pending.push({ service, spec: service.PreviousSpec });
+    } else if (
+      service.PreviousSpec &&
+      (!saved.spec || isSameSpec(service.PreviousSpec, saved.spec))
+    ) {
+      await rollbackService(service.ID);
+      pending.push({ service, spec: service.PreviousSpec });
+    } else if (saved.spec) {
+      restoredSince ??= await readEngineTime();
+      await replaceServiceSpec(service.ID, saved.spec);
+      pending.push({ service, spec: saved.spec });
+    } else {
+      rows.push({ name, result: "No previous version to restore" });
+    }
+  }
+
+  const outcomes = await monitorRollback(
+    settings,
+    pending.map(({ service }) => service.ID),
+    restoredSince,
+  );
+
+  for (const { service, spec } of pending) {
+    const outcome = outcomes.get(service.ID);
+
+    rows.push({
+      name: service.Spec?.Name ?? service.Name ?? service.ID,
+      image: spec?.TaskTemplate.ContainerSpec?.Image,
+      result: outcome ?? "Rolled back",
+      converged: outcome === undefined,
+    });
+  }
+
+  return rows;
+}
+
+function isSameSpec(a: ServiceSpec, b: ServiceSpec) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+type RollbackRow = {
+  name: string;
+  image?: string;
+  result: string;
+  converged?: boolean;
+};
@@ -1,18 +1,149 @@
-import { debug } from "node:util";
-import { getBooleanInput, getInput, setSecret } from "@actions/core";
+import { readFileSync } from "node:fs";
+import { debug, getBooleanInput, getInput, setSecret } from "@actions/core";
+import { parseDotenv } from "./dotenv.js";
 
 /**
  * Deployment settings
  */
 export interface Settings {
+  /**
+   * What to do with the stack: deploy it, roll it back to a version deployed
+   * before, or remove it along with the variables it uses
+   */
+  action: "deploy" | "remove" | "rollback";
+  /**
+   * Whether to check that the resource reservations of the stack fit onto the
+   * nodes of the Swarm before deploying, and whether problems warn or fail
+   * the deployment
+   */
+  checkCapacity: "off" | "warn" | "fail";
+  /**
+   * Whether to check that the image of every service can be resolved before
+   * deploying
+   */
+  checkImages: boolean;
+  /**
+   * Whether to check that every service can be scheduled on the nodes of the
+   * Swarm before deploying, and whether problems warn or fail the deployment
+   */
+  checkPlacement: "off" | "warn" | "fail";
   composeFiles?: string[];
+  /**
+   * Whether to compare the running stack against the specification before
+   * deploying it, and report the difference
+   */
+  diff: boolean;
+  /**
+   * Whether to stop before deploying and report what the deployment would
+   * change instead
+   */
+  dryRun: boolean;
+  /**
+   * Address of a remote Docker engine to deploy to, either via SSH
+   * (`ssh://user@host`) or TCP (`tcp://host:2376`)
+   *
+   * If unset, the runner's own Docker context is used.
+   */
+  dockerHost?: string;
+  /**
+   * How to query the Docker engine: by running the Docker CLI, or by talking
+   * to the Engine API directly
+   */
+  engineClient: "cli" | "api";
+  /**
+   * Environment to deploy, selecting the Compose overlays of the environment
+   * next to the base Compose file
+   */
+  environment?: string;
   envVarPrefix: string;
   healthCheckWarnings: boolean;
+  /**
+   * Number of deployments to keep in the history of the stack on the cluster,
+   * or `0` to keep no history
+   */
+  historyLimit: number;
+  /**
+   * Name of the service routing traffic to the active color of a blue/green
+   * deployment, which is pointed to the new color once it is live
+   */
+  ingressService?: string;
   keyInterpolation: boolean;
+  /**
+   * Whether to hold a cluster-side lock on the stack while deploying, so
+   * concurrent deployments of the same stack run one after another
+   */
+  lock: boolean;
+  /**
+   * Time in seconds to wait for another deployment to release the lock
+   */
+  lockTimeout: number;
+  /**
+   * Time in seconds after which a lock that was never released is considered
+   * stale, and may be taken over
+   */
+  lockTtl: number;
   manageVariables: boolean;
   monitor: boolean;
   monitorInterval: number;
   monitorTimeout: number;
+  /**
+   * Whether to pin the image of every service to its registry digest before
+   * deploying
+   */
+  pinImageDigests: boolean;
+  /**
+   * Whether to deploy a preview environment of a pull request, alongside the
+   * main stack
+   */
+  preview: boolean;
+  /**
+   * Whether to remove services that are no longer part of the stack
+   */
+  prune: boolean;
+  /**
+   * Number of the pull request the preview environment is deployed for
+   *
+   * Only set if `preview` is enabled.
+   */
+  pullRequest?: number;
+  /**
+   * Registries to log in to for the duration of the deployment
+   *
+   * Logins go to a temporary Docker configuration of their own, so they
+   * neither use nor change the credentials the runner is logged in with.
+   */
+  registries: RegistryCredentials[];
+  /**
+   * When to query the registry for the digest and platforms of each image
+   */
+  resolveImage: "always" | "changed" | "never";
+  /**
+   * Whether to retry `docker stack deploy` if it fails with a transient error,
+   * as read-only commands are
+   */
+  retryDeploy: boolean;
+  /**
+   * Whether to roll back every service the deployment changed if
+   * post-deployment monitoring fails
+   */
+  rollbackOnFailure: boolean;
+  /**
+   * Version the `rollback` action returns the stack to, or `previous` for the
+   * version deployed before the current one
+   */
+  rollbackTo: string;
+  /**
+   * Service label that marks the color of a blue/green deployment receiving
+   * traffic, set to `true` on the active color and `false` on the new one
+   */
+  routingLabel: string;
+  /**
+   * Values that came from env files, keyed by variable name
+   *
+   * They have been interpolated while reading the files, so interpolation
+   * takes them literally; see `escapeLiteralValues`.
+   */
+  literalValues: ReadonlyMap<string, string>;
   /**
    * Values that came from the `secrets` input, keyed by variable name
    *
@@ -20,12 +151,62 @@ export interface Settings {
    * `redactSecretValues` for why, and for what is deliberately not redacted.
    */
   secretValues: ReadonlyMap<string, string>;
+  /**
+   * Private key to authenticate with at an SSH `dockerHost`
+   */
+  sshKey?: string;
+  /**
+   * Entries to trust for an SSH `dockerHost`, in `known_hosts` format
+   */
+  sshKnownHosts?: string;
   stack: string;
+  /**
+   * Whether to deploy the stack in waves following the `depends_on` graph,
+   * waiting for the conditions of each dependency before the next wave
+   */
+  stagedDeployment: boolean;
+  /**
+   * How to roll out the new version: by updating the services of the stack
+   * in place, or by deploying it next to the running one as another color,
+   * and switching traffic over once it is healthy
+   */
+  strategy: "rolling" | "blue-green";
   strictCompatibility: boolean;
+  /**
+   * Whether to fail if the Compose files reference variables that are not
+   * defined, instead of substituting an empty string
+   */
+  strictInterpolation: boolean;
   strictVariables: boolean;
+  /**
+   * CA certificate to verify a TCP `dockerHost` with, in PEM format
+   */
+  tlsCaCert?: string;
+  /**
+   * Client certificate to authenticate with at a TCP `dockerHost`
+   */
+  tlsCert?: string;
+  /**
+   * Client key to authenticate with at a TCP `dockerHost`
+   */
+  tlsKey?: string;
   uploadComposeSpec: boolean;
   variables: Map<string, string>;
   version: string;
+  /**
+   * Whether to send the registry credentials of the runner to the Swarm
+   * agents, so nodes can pull private images
+   */
+  withRegistryAuth: boolean;
+}
+
+/**
+ * Credentials to log in to a container registry with
+ */
+export interface RegistryCredentials {
+  registry: string;
+  username: string;
+  password: string;
 }
 
 export function defineSettings<T extends Settings>(settings: T) {
@@ -38,10 +219,13 @@ export function defineSettings<T extends Settings>(settings: T) {
 export function parseSettings(env: NodeJS.ProcessEnv) {
   debug("Parsing settings from inputs");
 
-  const stack = inferStackName(getInput("stack-name"), env);
+  const preview = getBooleanInput("preview", { required: false }) ?? false;
+  const pullRequest = preview ? inferPullRequest(env) : undefined;
+  const stack = inferStackName(getInput("stack-name"), env, pullRequest);
   const version = inferVersion(getInput("version"), env);
-  const { variables, secretValues } = inferVariables(
+  const { variables, secretValues, literalValues } = inferVariables(
     {
+      envFiles: getInput("env-file"),
       variables: getInput("variables"),
       secrets: getInput("secrets"),
       excludeVariables: getInput("exclude-variables"),
@@ -54,28 +238,81 @@ export function parseSettings(env: NodeJS.ProcessEnv) {
   variables.set("MATCHORY_DEPLOYMENT_STACK", stack);
   variables.set("MATCHORY_DEPLOYMENT_VERSION", version);
 
+  if (pullRequest !== undefined) {
+    variables.set("MATCHORY_DEPLOYMENT_PULL_REQUEST", String(pullRequest));
+  }
+
+  const composeFiles = inferComposeFiles(getInput("compose-file"), env);
+  const checkImages =
+    getBooleanInput("check-images", { required: false }) ?? false;
+  const diff = getBooleanInput("diff", { required: false }) ?? false;
+  const dryRun = getBooleanInput("dry-run", { required: false }) ?? false;
   const healthCheckWarnings =
     getBooleanInput("health-check-warnings", { required: false }) ?? true;
   const keyInterpolation =
     getBooleanInput("key-interpolation", { required: false }) ?? false;
+  const lock = getBooleanInput("lock", { required: false }) ?? false;
   const manageVariables =
     getBooleanInput("manage-variables", { required: false }) ?? true;
   const monitor = getBooleanInput("monitor", { required: false }) ?? false;
+  const pinImageDigests =
+    getBooleanInput("pin-image-digests", { required: false }) ?? false;
+  const prune = getBooleanInput("prune", { required: false }) ?? true;
+  const retryDeploy =
+    getBooleanInput("retry-deploy", { required: false }) ?? false;
+  const rollbackOnFailure =
+    getBooleanInput("rollback-on-failure", { required: false }) ?? false;
+  const stagedDeployment =
+    getBooleanInput("staged-deployment", { required: false }) ?? false;
   const strictCompatibility =
     getBooleanInput("strict-compatibility", { required: false }) ?? false;
+  const strictInterpolation =
+    getBooleanInput("strict-interpolation", { required: false }) ?? false;
   const strictVariables =
     getBooleanInput("strict-variables", { required: false }) ?? true;
+  const withRegistryAuth =
+    getBooleanInput("with-registry-auth", { required: false }) ?? true;
   const uploadComposeSpec =
     getBooleanInput("upload-compose-spec", { required: false }) ?? true;
 
   return defineSettings({
-    composeFiles: inferComposeFiles(getInput("compose-file"), env),
+    action: parseAction(getInput("action")),
+    checkCapacity: parseCheckMode(getInput("check-capacity"), "check-capacity"),
+    checkImages,
+    checkPlacement: parseCheckMode(
+      getInput("check-placement"),
+      "check-placement",
+    ),
+    composeFiles,
+    diff,
+    dryRun,
+    ...inferRemoteHost({
+      dockerHost: getInput("docker-host"),
+      sshKey: getInput("ssh-key"),
+      sshKnownHosts: getInput("ssh-known-hosts"),
+      tlsCaCert: getInput("tls-ca-cert"),
+      tlsCert: getInput("tls-cert"),
+      tlsKey: getInput("tls-key"),
+    }),
+    engineClient: parseEngineClient(getInput("engine-client")),
+    environment: parseEnvironment(getInput("environment"), composeFiles),
     envVarPrefix: (getInput("env-var-prefix") || "DEPLOYMENT").replace(
       /_$/,
       "",
     ),
     healthCheckWarnings,
+    historyLimit: parseHistoryLimit(getInput("history-limit")),
+    ingressService: getInput("ingress-service") || undefined,
     keyInterpolation,
+    literalValues,
+    lock,
+    lockTimeout: parsePositiveSeconds(
+      getInput("lock-timeout"),
+      "lock-timeout",
+      600,
+      lock,
+    ),
+    lockTtl: parsePositiveSeconds(getInput("lock-ttl"), "lock-ttl", 1800, lock),
     manageVariables,
     monitor,
     monitorInterval: parsePositiveSeconds(
@@ -90,13 +327,27 @@ export function parseSettings(env: NodeJS.ProcessEnv) {
       300,
       monitor,
     ),
+    pinImageDigests,
+    preview,
+    prune,
+    pullRequest,
+    registries: parseRegistries(getInput("registries")),
+    resolveImage: parseResolveImage(getInput("resolve-image")),
+    retryDeploy,
+    rollbackOnFailure,
+    rollbackTo: getInput("rollback-to") || "previous",
+    routingLabel: getInput("routing-label") || "com.matchory.deployment.active",
     secretValues,
     stack,
+    stagedDeployment,
+    strategy: parseStrategy(getInput("strategy")),
     strictCompatibility,
+    strictInterpolation,
     strictVariables,
     uploadComposeSpec,
     variables,
     version,
+    withRegistryAuth,
   });
 }
 
@@ -104,14 +355,14 @@ export function parseSettings(env: NodeJS.ProcessEnv) {
 // default; a non-numeric or non-positive value is rejected up front, because a
 // NaN interval/timeout would otherwise make the monitor loop hang silently
 // (`elapsed >= NaN` is always false) with no indication of why.
-// Rejecting only applies when monitoring is enabled, since the value is never
-// read otherwise: failing on an unused input would break existing workflows
-// that already pass one.
+// Rejecting only applies when the feature reading the value is enabled, since
+// it is never read otherwise: failing on an unused input would break existing
+// workflows that already pass one.
 function parsePositiveSeconds(
   raw: string,
   input: string,
   fallback: number,
-  monitor: boolean,
+  enabled: boolean,
 ): number {
   if (!raw) {
     return fallback;
@@ -123,7 +374,7 @@ function parsePositiveSeconds(
   const value = /^\d+$/.test(raw) ? Number(raw) : Number.NaN;
 
   if (!Number.isInteger(value) || value <= 0) {
-    if (!monitor) {
+    if (!enabled) {
       return fallback;
     }
 
@@ -136,8 +387,278 @@ function parsePositiveSeconds(
   return value;
 }
 
-function inferStackName(name: string | undefined, env: NodeJS.ProcessEnv) {
-  return name || env.GITHUB_REPOSITORY?.split("/")?.pop() || "unknown";
+// "teardown" is kept as an alias of "remove", as preview workflows use it
+function parseAction(raw: string): Settings["action"] {
+  if (!raw || raw === "deploy") {
+    return "deploy";
+  }
+
+  if (raw === "remove" || raw === "teardown") {
+    return "remove";
+  }
+
+  if (raw === "rollback") {
+    return "rollback";
+  }
+
+  throw new Error(
+    `The "action" input must be one of "deploy", "rollback", or "remove", ` +
+      `but received "${raw}".`,
+  );
+}
+
+// The environment ends up in file names, so it must not contain a path
+function parseEnvironment(raw: string, composeFiles: string[]) {
+  if (!raw) {
+    return undefined;
+  }
+
+  if (!/^[a-zA-Z0-9][a-zA-Z0-9_.-]*$/.test(raw)) {
+    throw new Error(
+      `The "environment" input must be a name made of letters, digits, ` +
+        `dots, dashes, and underscores, but received "${raw}".`,
+    );
+  }
+
+  if (composeFiles.length > 0) {
+    throw new Error(
+      `The "environment" input selects the Compose files to deploy by ` +
+        `itself, and cannot be combined with the "compose-file" input or ` +
+        `the COMPOSE_FILE variable. Remove one of them.`,
+    );
+  }
+
+  return raw;
+}
+
+function parseCheckMode(raw: string, input: string): "off" | "warn" | "fail" {
+  if (!raw || raw === "off" || raw === "warn" || raw === "fail") {
+    return (raw || "off") as "off" | "warn" | "fail";
+  }
+
+  throw new Error(
+    `The "${input}" input must be one of "off", "warn", or "fail", but ` +
+      `received "${raw}".`,
+  );
+}
+
+// Accepts either a list of credentials, or the contents of a Docker
+// `config.json`, as written by `docker login`, whose `auths` hold the username
+// and password base64-encoded as "username:password".
+function parseRegistries(raw: string): RegistryCredentials[] {
+  if (!raw.trim()) {
+    return [];
+  }
+
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(raw);
+  } catch (cause) {
+    throw new Error(
+      'The "registries" input must be valid JSON: either a list of objects ' +
+        'with "registry", "username", and "password", or the contents of a ' +
+        `Docker config.json file. ${cause instanceof Error ? cause.message : cause}`,
+      { cause },
+    );
+  }
+
+  const entries = Array.isArray(parsed)
+    ? parsed
+    : parsed !== null && typeof parsed === "object" && "auths" in parsed
+      ? Object.entries(
+          (parsed.auths ?? {}) as Record<
+            string,
+            { auth?: string; username?: string; password?: string }
+          >,
+        ).map(([registry, { auth, username, password }]) => {
+          if (!auth) {
+            return { registry, username, password };
+          }
+
+          setSecret(auth);
+
+          const decoded = Buffer.from(auth, "base64").toString("utf-8");
+          const separator = decoded.indexOf(":");
+
+          return {
+            registry,
+            username: decoded.slice(0, separator),
+            password: decoded.slice(separator + 1),
+          };
+        })
+      : undefined;
+
+  if (!entries) {
+    throw new Error(
+      'The "registries" input must be either a list of objects with ' +
+        '"registry", "username", and "password", or the contents of a Docker ' +
+        'config.json file with an "auths" object.',
+    );
+  }
+
+  return entries.map((entry: Partial<RegistryCredentials>, index) => {
+    const { registry, username, password } = entry ?? {};
+
+    if (!registry || !username || !password) {
+      throw new Error(
+        `Registry ${registry ? `"${registry}"` : `#${index + 1}`} in the ` +
+          '"registries" input must have a "registry", "username", and ' +
+          '"password".',
+      );
+    }
+
+    setSecret(password);
+
+    return { registry, username, password };
+  });
+}
+
+function parseResolveImage(raw: string): Settings["resolveImage"] {
+  if (!raw || raw === "always" || raw === "changed" || raw === "never") {
+    return (raw || "always") as Settings["resolveImage"];
+  }
+
+  throw new Error(
+    `The "resolve-image" input must be one of "always", "changed", or ` +
+      `"never", but received "${raw}".`,
+  );
+}
+
+function parseHistoryLimit(raw: string) {
+  if (!raw) {
+    return 10;
+  }
+
+  if (!/^\d+$/.test(raw)) {
+    throw new Error(
+      `The "history-limit" input must be a whole number of deployments, but ` +
+        `received "${raw}".`,
+    );
+  }
+
+  return Number(raw);
+}
+
+function parseStrategy(raw: string): Settings["strategy"] {
+  if (!raw || raw === "rolling" || raw === "blue-green") {
+    return (raw || "rolling") as Settings["strategy"];
+  }
+
+  throw new Error(
+    `The "strategy" input must be either "rolling" or "blue-green", but ` +
+      `received "${raw}".`,
+  );
+}
+
+function parseEngineClient(raw: string): Settings["engineClient"] {
+  if (!raw || raw === "cli" || raw === "api") {
+    return (raw || "cli") as Settings["engineClient"];
+  }
+
+  throw new Error(
+    `The "engine-client" input must be either "cli" or "api", but received ` +
+      `"${raw}".`,
+  );
+}
+
+type RemoteHostInputs = Required<
+  Pick<
+    Settings,
+    | "dockerHost"
+    | "sshKey"
+    | "sshKnownHosts"
+    | "tlsCaCert"
+    | "tlsCert"
+    | "tlsKey"
+  >
+>;
+
+// Validate the remote host inputs together, as each credential only applies to
+// one kind of host: silently ignoring an SSH key given for a TCP host, say,
+// would connect without the authentication the author intended.
+function inferRemoteHost(inputs: RemoteHostInputs) {
+  const { dockerHost, sshKey, sshKnownHosts, tlsCaCert, tlsCert, tlsKey } =
+    inputs;
+  const ssh = dockerHost.startsWith("ssh://");
+  const tcp = dockerHost.startsWith("tcp://");
+
+  if (dockerHost && !ssh && !tcp) {
+    throw new Error(
+      `The "docker-host" input must be an ssh:// or tcp:// address, but ` +
+        `received "${dockerHost}".`,
+    );
+  }
+
+  if (!ssh && (sshKey || sshKnownHosts)) {
+    throw new Error(
+      'The "ssh-key" and "ssh-known-hosts" inputs require an ssh:// address ' +
+        'in the "docker-host" input.',
+    );
+  }
+
+  if (!tcp && (tlsCaCert || tlsCert || tlsKey)) {
+    throw new Error(
+      'The "tls-ca-cert", "tls-cert", and "tls-key" inputs require a tcp:// ' +
+        'address in the "docker-host" input.',
+    );
+  }
+
+  if (Boolean(tlsCert) !== Boolean(tlsKey)) {
+    throw new Error(
+      'The "tls-cert" and "tls-key" inputs must be given together.',
+    );
+  }
+
+  for (const value of [sshKey, tlsKey]) {
+    if (value) {
+      setSecret(value);
+    }
+  }
+
+  return Object.fromEntries(
+    Object.entries(inputs).filter(([, value]) => value),
+  ) as Partial<RemoteHostInputs>;
+}
+
+function inferStackName(
+  name: string | undefined,
+  env: NodeJS.ProcessEnv,
+  pullRequest?: number,
+) {
+  const stack = name || env.GITHUB_REPOSITORY?.split("/")?.pop() || "unknown";
+
+  return pullRequest === undefined ? stack : `${stack}-pr-${pullRequest}`;
+}
+
+// The pull request number is part of the ref of pull_request events, but not
+// of pull_request_target events, which run on the base branch: for those, it
+// is read from the event payload instead.
+function inferPullRequest(env: NodeJS.ProcessEnv) {
+  const ref = env.GITHUB_REF?.match(/^refs\/pull\/(\d+)\//);
+
+  if (ref) {
+    return Number(ref[1]);
+  }
+
+  if (env.GITHUB_EVENT_PATH) {
+    try {
+      const event = JSON.parse(readFileSync(env.GITHUB_EVENT_PATH, "utf-8"));
+      const number = event?.pull_request?.number ?? event?.number;
+
+      if (Number.isInteger(number) && number > 0) {
+        return number as number;
+      }
+    } catch (cause) {
+      debug(`Failed to read the event payload: ${cause}`);
+    }
+  }
+
+  throw new Error(
+    'The "preview" input requires a pull request, but the workflow was not ' +
+      "triggered by one. Run preview deployments on pull_request or " +
+      "pull_request_target events only.",
+  );
 }
 
 function inferVersion(version: string | undefined, env: NodeJS.ProcessEnv) {
@@ -169,6 +690,7 @@ function inferComposeFiles(files: string | undefined, env: NodeJS.ProcessEnv) {
 }
 
 interface VariableInputs {
+  envFiles?: string;
   variables?: string;
   secrets?: string;
   excludeVariables?: string;
@@ -177,6 +699,15 @@ interface VariableInputs {
 
 function inferVariables(inputs: VariableInputs, env: NodeJS.ProcessEnv) {
   const variables = new Map<string, string>();
+  const sources = new Map<string, string>();
+  const envFileValues = new Map<string, string>();
+
+  const merge = (parsed: Map<string, string>, source: string) => {
+    for (const [key, value] of parsed) {
+      variables.set(key, value);
+      sources.set(key, source);
+    }
+  };
 
   // Step 1: Read environment variables from the process environment as defaults
   for (const [key, content] of Object.entries(env)) {
@@ -186,49 +717,58 @@ function inferVariables(inputs: VariableInputs, env: NodeJS.ProcessEnv) {
 
     if (content) {
       variables.set(key, content);
+      sources.set(key, "the environment");
     }
   }
 
-  // Step 2: Parse and merge variables from the variables input
-  if (inputs.variables) {
-    const parsedVariables = parseVariableInput(inputs.variables);
-    for (const [key, value] of parsedVariables) {
-      variables.set(key, value);
+  // Step 2: Parse and merge the env files, in order. Each file may reference
+  // the variables defined before it.
+  for (const path of splitLines(inputs.envFiles)) {
+    const parsed = readEnvFile(path, variables, envFileValues);
+
+    // A key without a value takes over the one it had, literal or not
+    for (const [key, value] of parsed) {
+      if (variables.get(key) !== value) {
+        envFileValues.set(key, value);
+      }
     }
+
+    merge(parsed, `the env-file "${path}"`);
+  }
+
+  // Step 3: Parse and merge variables from the variables input
+  if (inputs.variables) {
+    merge(parseVariableInput(inputs.variables), 'the "variables" input');
   }
 
-  // Step 3: Parse and merge secrets (higher priority than variables)
+  // Step 4: Parse and merge secrets (higher priority than variables)
   const parsedSecrets = parseVariableInput(inputs.secrets ?? "");
 
-  for (const [key, value] of parsedSecrets) {
+  for (const value of parsedSecrets.values()) {
     // Ensure secrets are masked in output
     if (value) {
       setSecret(value);
     }
-
-    variables.set(key, value);
   }
 
-  // Step 4: Apply exclusions (before extra variables to ensure they have highest priority)
-  if (inputs.excludeVariables) {
-    const excludeList = inputs.excludeVariables
-      .split("\n")
-      .map((line) => line.trim())
-      .filter(Boolean);
+  merge(parsedSecrets, 'the "secrets" input');
 
-    for (const key of excludeList) {
-      variables.delete(key);
-    }
+  // Step 5: Apply exclusions (before extra variables to ensure they have highest priority)
+  for (const key of splitLines(inputs.excludeVariables)) {
+    variables.delete(key);
+    sources.delete(key);
   }
 
-  // Step 5: Parse and merge extra variables (highest priority, cannot be excluded)
+  // Step 6: Parse and merge extra variables (highest priority, cannot be excluded)
   if (inputs.extraVariables) {
-    const parsedExtraVariables = parseVariableInput(inputs.extraVariables);
-    for (const [key, value] of parsedExtraVariables) {
-      variables.set(key, value);
-    }
+    merge(
+      parseVariableInput(inputs.extraVariables),
+      'the "extra-variables" input',
+    );
   }
 
+  logSources(sources);
+
   // Derived last, so it cannot disagree with `variables`: exclusions can drop a
   // secret's name, and extra-variables can overwrite its value with one that is
   // not secret. Either way the name no longer resolves to a secret value, and
@@ -239,7 +779,53 @@ function inferVariables(inputs: VariableInputs, env: NodeJS.ProcessEnv) {
     ),
   );
 
-  return { variables, secretValues };
+  // Derived last as well, as the later inputs may replace the values
+  const literalValues = new Map(
+    [...envFileValues].filter(([key, value]) => variables.get(key) === value),
+  );
+
+  return { variables, secretValues, literalValues };
+}
+
+function splitLines(input: string | undefined) {
+  return (input ?? "")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+function readEnvFile(
+  path: string,
+  variables: ReadonlyMap<string, string>,
+  literalValues: ReadonlyMap<string, string>,
+) {
+  let content: string;
+
+  try {
+    content = readFileSync(path, "utf-8");
+  } catch (cause) {
+    throw new Error(
+      `Failed to read the env-file "${path}": ${cause}. Check the path in ` +
+        `the "env-file" input; it is resolved relative to the working ` +
+        `directory.`,
+      { cause },
+    );
+  }
+
+  return parseDotenv(content, path, variables, literalValues);
+}
+
+// Only the names are logged, as values may be sensitive
+function logSources(sources: ReadonlyMap<string, string>) {
+  const names = new Map<string, string[]>();
+
+  for (const [key, source] of sources) {
+    names.set(source, [...(names.get(source) ?? []), key]);
+  }
+
+  for (const [source, keys] of names) {
+    debug(`Variables from ${source}: ${keys.sort().join(", ")}`);
+  }
 }
 
 function parseVariableInput(input: string): Map<string, string> {
@@ -0,0 +1,259 @@
+import * as core from "@actions/core";
+import type { ComposeSpec } from "./compose.js";
+import { deployStack, readEngineTime } from "./engine.js";
+import { type DependencyCondition, waitForConditions } from "./monitoring.js";
+import type { Settings } from "./settings.js";
+
+/**
+ * Prefix of the labels carrying the `depends_on` conditions of a service
+ *
+ * `docker stack config` only accepts the short `depends_on` syntax, so the
+ * conditions are moved to these labels during reconciliation, and removed
+ * again before the stack is deployed.
+ */
+export const dependsOnLabelPrefix = "com.matchory.deployment.depends-on.";
+
+const conditions: DependencyCondition[] = [
+  "service_started",
+  "service_healthy",
+  "service_completed_successfully",
+];
+
+/**
+ * Services deployed together, once their dependencies meet their conditions
+ */
+export interface Wave {
+  services: string[];
+
+  /**
+   * Conditions the services of later waves wait for the services of this
+   * wave to meet, keyed by service name
+   */
+  conditions: Map<string, Set<DependencyCondition>>;
+}
+
+type StagedService = {
+  depends_on?: string[];
+  deploy?: { labels?: Record<string, string> | string[] };
+};
+
+/**
+ * Resolve the waves to deploy the stack in, from its `depends_on` graph
+ *
+ * Every wave holds the services whose dependencies are all part of earlier
+ * waves, so services without dependencies go first. Dependencies on services
+ * that are not part of the stack are ignored.
+ *
+ * @param spec The final Compose specification
+ * @returns The specification without the condition labels, and the waves
+ */
+export function resolveWaves(spec: ComposeSpec) {
+  const stripped = structuredClone(spec);
+  const dependencies = new Map<string, Map<string, DependencyCondition>>();
+
+  for (const [name, service] of Object.entries(stripped.services) as Array<
+    [string, StagedService]
+  >) {
+    const labels = readConditionLabels(name, service);
+
+    dependencies.set(
+      name,
+      new Map(
+        (service.depends_on ?? [])
+          .filter((dependency) => dependency in stripped.services)
+          .map((dependency) => [
+            dependency,
+            labels.get(dependency) ?? "service_started",
+          ]),
+      ),
+    );
+  }
+
+  const waves: Wave[] = [];
+  const placed = new Set<string>();
+
+  while (placed.size < dependencies.size) {
+    const services = [...dependencies]
+      .filter(
+        ([name, dependsOn]) =>
+          !placed.has(name) &&
+          [...dependsOn.keys()].every((dependency) => placed.has(dependency)),
+      )
+      .map(([name]) => name);
+
+    if (services.length === 0) {
+      throw new Error(
+        `The services of the stack depend on each other in a cycle: ` +
+          `${findCycle(dependencies, placed).join(" → ")}. Staged deployment ` +
+          'needs an order to deploy them in; remove one of the "depends_on" ' +
+          'entries, or disable the "staged-deployment" input.',
+      );
+    }
+
+    for (const name of services) {
+      placed.add(name);
+    }
+
+    waves.push({ services, conditions: new Map() });
+  }
+
+  // Each wave waits for what later waves need of its own services; conditions
+  // on earlier waves have already been waited for by then.
+  for (const [name, dependsOn] of dependencies) {
+    for (const [dependency, condition] of dependsOn) {
+      const wave = waves.find(({ services }) =>
+        services.includes(dependency),
+      ) as Wave;
+
+      wave.conditions.set(
+        dependency,
+        new Set([...(wave.conditions.get(dependency) ?? []), condition]),
+      );
+      core.debug(`Service "${name}" waits for "${dependency}": ${condition}`);
+    }
+  }
+
+  return { spec: stripped, waves };
+}
+
+/**
+ * Log the waves the stack is deployed in, and what each one waits for
+ *
+ * @param waves The waves to deploy
+ */
+export function reportWaves(waves: Wave[]) {
+  core.startGroup(`Deploying in ${waves.length} wave(s)`);
+
+  for (const [index, { services, conditions }] of waves.entries()) {
+    const waits = [...conditions]
+      .map(([name, required]) => `${name} (${[...required].join(", ")})`)
+      .join(", ");
+
+    core.info(
+      `${index + 1}. ${services.join(", ")}` +
+        (waits ? `, then wait for ${waits}` : ""),
+    );
+  }
+
+  core.endGroup();
+}
+
+/**
+ * Deploy the stack in waves
+ *
+ * Each wave deploys the services of all waves up to it, without pruning, so
+ * the services of later waves keep running unchanged until their turn. Before
+ * the next wave is released, the services of the current one must meet the
+ * conditions their dependents declared. The last wave deploys the complete
+ * stack, pruning as configured.
+ *
+ * @param spec The final Compose specification, without condition labels
+ * @param waves The waves to deploy
+ * @param settings Deployment settings
+ */
+export async function deployInWaves(
+  spec: ComposeSpec,
+  waves: Wave[],
+  settings: Readonly<Settings>,
+) {
+  const released = new Set<string>();
+
+  for (const [index, wave] of waves.entries()) {
+    const last = index === waves.length - 1;
+
+    for (const name of wave.services) {
+      released.add(name);
+    }
+
+    core.info(
+      `Deploying wave ${index + 1} of ${waves.length}: ` +
+        wave.services.join(", "),
+    );
+
+    if (last) {
+      await deployStack(spec, settings);
+
+      break;
+    }
+
+    const deployedAt = await readEngineTime();
+
+    await deployStack(
+      {
+        ...spec,
+        services: Object.fromEntries(
+          Object.entries(spec.services).filter(([name]) => released.has(name)),
+        ),
+      },
+      { ...settings, prune: false },
+    );
+
+    if (wave.conditions.size > 0) {
+      await waitForConditions(settings, wave.conditions, spec, deployedAt);
+    }
+  }
+}
+
+// Reads the conditions of a service, and removes their labels
+function readConditionLabels(name: string, service: StagedService) {
+  const labels = service.deploy?.labels;
+  const entries = Array.isArray(labels)
+    ? labels.map((label) => {
+        const separator = label.indexOf("=");
+
+        return [label.slice(0, separator), label.slice(separator + 1)];
+      })
+    : Object.entries(labels ?? {});
+  const found = new Map<string, DependencyCondition>();
+
+  for (const [key, value] of entries) {
+    if (!key.startsWith(dependsOnLabelPrefix)) {
+      continue;
+    }
+
+    if (!conditions.includes(value as DependencyCondition)) {
+      throw new Error(
+        `Service "${name}" depends on "${key.slice(dependsOnLabelPrefix.length)}" ` +
+          `with the unknown condition "${value}"; use one of ` +
+          `${conditions.join(", ")}.`,
+      );
+    }
+
+    found.set(
+      key.slice(dependsOnLabelPrefix.length),
+      value as DependencyCondition,
+    );
+  }
+
+  if (found.size > 0 && service.deploy) {
+    service.deploy.labels = Array.isArray(labels)
+      ? labels.filter((label) => !label.startsWith(dependsOnLabelPrefix))
+      : Object.fromEntries(
+          entries.filter(([key]) => !key.startsWith(dependsOnLabelPrefix)),
+        );
+  }
+
+  return found;
+}
+
+function findCycle(
+  dependencies: Map<string, Map<string, DependencyCondition>>,
+  placed: Set<string>,
+) {
+  // Every service left over depends on another one left over, so following
+  // any of those dependencies must eventually revisit a service.
+  const path = [[...dependencies.keys()].find((name) => !placed.has(name))];
+
+  while (true) {
+    const next = [...(dependencies.get(path.at(-1) as string)?.keys() ?? [])]
+      .filter((dependency) => !placed.has(dependency))
+      .at(0) as string;
+    const start = path.indexOf(next);
+
+    if (start !== -1) {
+      return [...path.slice(start), next];
+    }
+
+    path.push(next);
+  }
+}
@@ -0,0 +1,202 @@
+import * as core from "@actions/core";
+import {
+  listConfigs,
+  listNetworks,
+  listSecrets,
+  listServices,
+  listStackTasks,
+  removeConfig,
+  removeSecret,
+  removeStack,
+  stackNamespaceLabel,
+  type TaskStatus,
+} from "./engine.js";
+import type { Settings } from "./settings.js";
+import { publishSummary, sleep } from "./utils.js";
+import { stackLabel } from "./variables.js";
+
+/**
+ * Task states a task does not leave anymore
+ */
+const terminalStates = [
+  "complete",
+  "failed",
+  "orphaned",
+  "rejected",
+  "remove",
+  "shutdown",
+];
+
+/**
+ * Tear down a stack
+ *
+ * This function removes the stack, waits for all of its tasks to stop and its
+ * networks to be removed, and then removes every secret and config the action
+ * created for it. Variables can only be removed once no task uses them
+ * anymore, which is why the stack is waited for first: Swarm shuts down its
+ * tasks in the background after the stack has been removed. Variables that
+ * services of other stacks still use are kept, like those a rollback of a
+ * blue/green deployment reuses for the new color.
+ * What was removed is reported in the job summary.
+ *
+ * @param settings Deployment settings
+ */
+export async function teardownStack(
+  settings: Pick<
+    Readonly<Settings>,
+    "stack" | "monitorInterval" | "monitorTimeout"
+  >,
+) {
+  const { stack } = settings;
+
+  core.info(`Tearing down stack "${stack}"`);
+
+  const [services, networks] = await Promise.all([
+    listServices({ labels: { [stackNamespaceLabel]: stack } }),
+    listNetworks({ labels: { [stackNamespaceLabel]: stack } }),
+  ]);
+
+  await removeStack(stack);
+  await waitForRemoval(settings);
+
+  const [labelledSecrets, labelledConfigs] = await Promise.all([
+    listSecrets({ labels: { [stackLabel]: stack } }),
+    listConfigs({ labels: { [stackLabel]: stack } }),
+  ]);
+  const inUse =
+    labelledSecrets.length + labelledConfigs.length > 0
+      ? await findVariablesInUse()
+      : { secrets: new Map(), configs: new Map() };
+  const secrets = skipInUse(labelledSecrets, inUse.secrets, stack);
+  const configs = skipInUse(labelledConfigs, inUse.configs, stack);
+
+  // Listed by label, so variables that merely share the stack name as a
+  // prefix, like those of another pull request's preview, are left alone.
+  for (const secret of secrets) {
+    await removeSecret(secret.ID);
+  }
+
+  for (const config of configs) {
+    await removeConfig(config.ID);
+  }
+
+  core.info(
+    `Tore down stack "${stack}", and removed ${secrets.length} secret(s) ` +
+      `and ${configs.length} config(s)`,
+  );
+
+  const rows: RemovalRow[] = [
+    ...services.map(({ Name }): RemovalRow => ["Service", Name]),
+    ...networks.map(({ Name }): RemovalRow => ["Network", Name]),
+    ...secrets.map(({ Name }): RemovalRow => ["Secret", Name]),
+    ...configs.map(({ Name }): RemovalRow => ["Config", Name]),
+  ];
+
+  core.summary.addHeading(`Stack removed: ${stack}`, 2);
+
+  if (rows.length === 0) {
+    core.summary.addRaw("_The stack had no resources left to remove._", true);
+  } else {
+    core.summary.addTable([
+      [
+        { data: "Resource", header: true },
+        { data: "Name", header: true },
+      ],
+      ...rows.map(([kind, name]) => [{ data: kind }, { data: name }]),
+    ]);
+  }
+
+  await publishSummary();
+}
+
+// Names of the secrets and configs used by any service, with the names of
+// the services using them
+async function findVariablesInUse() {
+  const secrets = new Map<string, string[]>();
+  const configs = new Map<string, string[]>();
+  const use = (users: Map<string, string[]>, name: string, user: string) =>
+    users.set(name, [...(users.get(name) ?? []), user]);
+
+  for (const { Name, Spec } of await listServices({}, true)) {
+    const container = Spec?.TaskTemplate.ContainerSpec;
+
+    for (const { SecretName } of container?.Secrets ?? []) {
+      use(secrets, SecretName, Spec?.Name ?? Name);
+    }
+
+    for (const { ConfigName } of container?.Configs ?? []) {
+      use(configs, ConfigName, Spec?.Name ?? Name);
+    }
+  }
+
+  return { secrets, configs };
+}
+
+function skipInUse<T extends { Name: string }>(
+  variables: T[],
+  users: ReadonlyMap<string, string[]>,
+  stack: string,
+) {
+  return variables.filter(({ Name }) => {
+    const services = users.get(Name);
+
+    if (services) {
+      core.info(
+        `Keeping "${Name}" of stack "${stack}", as it is still used by ` +
+          `service(s) ${services.join(", ")}`,
+      );
+    }
+
+    return !services;
+  });
+}
+
+async function waitForRemoval({
+  stack,
+  monitorInterval,
+  monitorTimeout,
+}: Pick<Readonly<Settings>, "stack" | "monitorInterval" | "monitorTimeout">) {
+  const deadline = Date.now() + monitorTimeout * 1_000;
+
+  while (true) {
+    const [tasks, networks] = await Promise.all([
+      listStackTasks(stack),
+      listNetworks({ labels: { [stackNamespaceLabel]: stack } }),
+    ]);
+    const remaining = [
+      ...tasks.filter((task) => !isTerminal(task)).map(({ Name }) => Name),
+      ...networks.map(({ Name }) => `network ${Name}`),
+    ];
+
+    if (remaining.length === 0) {
+      core.info(`All tasks and networks of stack "${stack}" are gone`);
+
+      return;
+    }
+
+    if (Date.now() >= deadline) {
+      throw new Error(
+        `Timed out after ${monitorTimeout}s waiting for stack "${stack}" to ` +
+          `be removed: ${remaining.join(", ")} still exist(s). The secrets ` +
+          "and configs of the stack have not been removed, as they may still " +
+          "be in use; run the removal again once the stack is gone.",
+      );
+    }
+
+    core.info(
+      `Waiting for ${remaining.length} task(s) and network(s) of stack ` +
+        `"${stack}" to be removed`,
+    );
+
+    await sleep(monitorInterval * 1_000);
+  }
+}
+
+// The current state reads like "Shutdown 5 seconds ago"
+function isTerminal({ CurrentState }: TaskStatus) {
+  const state = CurrentState.split(" ")[0]?.toLowerCase() ?? "";
+
+  return terminalStates.includes(state);
+}
+
+type RemovalRow = [resource: string, name: string];
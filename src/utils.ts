@@ -1,6 +1,11 @@
 import { access, constants, readdir, unlink } from "node:fs/promises";
 import { basename, dirname } from "node:path";
+import { env } from "node:process";
 import * as core from "@actions/core";
+import {
+  describeUndefinedVariables,
+  interpolateTemplate,
+} from "./interpolation.js";
 
 /**
  * Remove a generated file, warning instead of throwing if it cannot be removed:
@@ -88,6 +93,42 @@ export async function findFirstExistingFile(
   return null;
 }
 
+/**
+ * Publish the buffered job summary to the run page
+ *
+ * `@actions/core` buffers summary content and only writes it to
+ * `$GITHUB_STEP_SUMMARY` when this is called, so anything added without it is
+ * silently discarded. The runner masks registered secrets in summaries, the
+ * same as it does in the log, so no redaction of our own is required here.
+ *
+ * Failures are reported rather than thrown: callers raise the actual
+ * deployment error immediately after building a report, and that error is far
+ * more useful than one about writing a summary.
+ */
+export async function publishSummary() {
+  try {
+    await core.summary.write();
+  } catch (cause) {
+    const message = cause instanceof Error ? cause.message : String(cause);
+
+    core.warning(`Failed to publish the job summary: ${message}`);
+  }
+}
+
+/**
+ * URL of the workflow run the action runs in, if it runs in one
+ */
+export function resolveRunUrl() {
+  if (!env.GITHUB_REPOSITORY || !env.GITHUB_RUN_ID) {
+    return undefined;
+  }
+
+  return (
+    `${env.GITHUB_SERVER_URL ?? "https://github.com"}/` +
+    `${env.GITHUB_REPOSITORY}/actions/runs/${env.GITHUB_RUN_ID}`
+  );
+}
+
 /**
  * Sleep for the specified number of milliseconds
  */
@@ -112,59 +153,13 @@ export function mapStrings<T>(value: T, map: (value: string) => string): T {
   ) as T;
 }
 
-const variableRefPattern =
-  /\$(?:([a-zA-Z_][a-zA-Z0-9_]*)|\{([a-zA-Z_][a-zA-Z0-9_]*)(?:(:?[-+?]|\?)[^{}]*)?})/gi;
-
 /**
- * Extract all variable names referenced in a string.
+ * Check whether a parsed YAML value is a mapping
+ *
+ * @param value The value to check
  */
-function extractVariableRefs(value: string): string[] {
-  const refs: string[] = [];
-
-  for (const match of value.matchAll(variableRefPattern)) {
-    refs.push(match[1] || match[2]);
-  }
-
-  return refs;
-}
-
-/**
- * Detect circular references in the variable dependency graph reachable from
- * the given input string. Throws with the cycle path if one is found.
- */
-function detectCycles(str: string, variables: Map<string, string>): void {
-  const visiting = new Set<string>();
-  const visited = new Set<string>();
-
-  function visit(key: string, path: string[]): void {
-    if (visited.has(key)) return;
-
-    if (visiting.has(key)) {
-      const cycleStart = path.indexOf(key);
-      const cycle = [...path.slice(cycleStart), key].join(" → ");
-
-      throw new Error(`Circular variable reference detected: ${cycle}`);
-    }
-
-    const value = variables.get(key);
-
-    if (value === undefined) return;
-
-    visiting.add(key);
-    path.push(key);
-
-    for (const ref of extractVariableRefs(value)) {
-      visit(ref, path);
-    }
-
-    path.pop();
-    visiting.delete(key);
-    visited.add(key);
-  }
-
-  for (const ref of extractVariableRefs(str)) {
-    visit(ref, []);
-  }
+export function isMapping(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
 }
 
 /**
@@ -182,123 +177,40 @@ function detectCycles(str: string, variables: Map<string, string>): void {
  *   variable is required. Unlike the other operators, the trailing text is not a default value.
  * - If the variable is present, it returns the variable's value.
  *
- * Further, it supports both `${VARIABLE_NAME}` and `$VARIABLE_NAME` formats, recursive interpolation, and escaping of
- * dollar signs (e.g., `$$VARIABLE_NAME` will become `$VARIABLE_NAME`).
- * When strict mode is enabled, it will throw an error if a variable is used, has no default value, and is not defined in
- * the variable map.
+ * Further, it supports both `${VARIABLE_NAME}` and `$VARIABLE_NAME` formats, nested references in default values (e.g.,
+ * `${A:-${B:-c}}`), recursive interpolation, and escaping of dollar signs (e.g., `$$VARIABLE_NAME` will become
+ * `$VARIABLE_NAME`). The grammar is described by `parseTemplate`.
+ * When strict mode is enabled, it will throw an error listing every variable that is used, has no default value, and is
+ * not defined in the variable map, as well as for malformed references like `${`; otherwise, those are kept as they are.
  *
  * @param str The string to interpolate
  * @param variables A Map of variable names to their values
- * @param [strict] If true, throw an error if a variable is used but not defined in the map
+ * @param [strict] If true, throw an error if a variable is used but not defined in the map, or a reference is malformed
  */
 export function interpolateString(
   str: string,
-  variables: Map<string, string>,
+  variables: ReadonlyMap<string, string>,
   strict = false,
 ): string {
-  // First, replace escaped dollar signs with a placeholder to protect them
-  // during variable interpolation
-  const placeholder = "\u0000ESCAPED_DOLLAR\u0000";
-  str = str.replace(/\$\$/g, placeholder);
-
-  detectCycles(str, variables);
-
-  let match: RegExpMatchArray | null;
-
-  type Operator = ":-" | ":+" | ":?" | "?" | "-" | "+";
-
-  function resolveMatch(
-    value: string | undefined,
-    operator: Operator | undefined,
-    defaultValue: string | undefined,
-  ): string | undefined {
-    if (
-      // Default value substitution: If the variable is MISSING, return the
-      // default value
-      (operator === "-" && value === undefined) ||
-      (operator === ":-" && !value) ||
-      (operator === "+" && value !== undefined) ||
-      (operator === ":+" && value)
-    ) {
-      return defaultValue ?? "";
-    }
-
-    // Alternative value substitution: If the variable is PRESENT, return
-    // the default value, otherwise return an empty string
-    if (operator === "+" || operator === ":+") {
-      return "";
-    }
-
-    // Required value substitution: If the variable is MISSING, throw an error
-    if (
-      (operator === "?" && value === undefined) ||
-      (operator === ":?" && !value)
-    ) {
-      // The text after `?`/`:?` is an explanatory message written by the
-      // Compose file author, not a default value. Without one, point at the
-      // places a value can come from rather than trailing off after a colon.
-      throw new Error(
-        defaultValue
-          ? `it is required but has no value: ${defaultValue}`
-          : `it is required but has no value. Set it via the "variables" ` +
-              `or "secrets" input, or in the workflow environment.`,
-      );
-    }
-
-    return value;
-  }
-
-  do {
-    // Match the next variable in the string in any of the following formats:
-    //  1. `$VAR`
-    //  2. `${VAR}`
-    //  3. `${VAR:-default}`
-    //  4. `${VAR-default}`
-    //  5. `${VAR:+default}`
-    //  6. `${VAR+default}`
-    //  7. `${VAR:?default}`
-    //  8. `${VAR?default}`
-    match = str.match(
-      /\$(?:([a-zA-Z_][a-zA-Z0-9_]*)|\{([a-zA-Z_][a-zA-Z0-9_]*)(?:(:?[-+?]|\?)([^{}]*))?})/i,
+  const undefinedVariables = new Set<string>();
+  const result = interpolateTemplate(
+    str,
+    variables,
+    undefinedVariables,
+    strict ? undefined : [],
+  );
+
+  if (strict && undefinedVariables.size > 0) {
+    throw new Error(
+      `${describeUndefinedVariables(undefinedVariables)} Set ` +
+        `${undefinedVariables.size === 1 ? "it" : "them"} via the ` +
+        `"variables" or "secrets" input, or in the workflow environment, or ` +
+        `give ${undefinedVariables.size === 1 ? "it" : "them"} a default, ` +
+        `like "\${NAME:-}".`,
     );
+  }
 
-    // If we don't have any more matches, break out of the loop. This can happen
-    // if we have replaced all variables in the string, and the match variable
-    // was still populated with the last match.
-    if (!match) {
-      break;
-    }
-
-    const [fullMatch, key1, key2, operator, defaultValue] = match;
-    const key = key1 || key2;
-    const value = variables.get(key);
-    let replacement: string | undefined;
-
-    try {
-      replacement = resolveMatch(value, operator as Operator, defaultValue);
-    } catch (cause) {
-      const message = cause instanceof Error ? cause.message : String(cause);
-
-      throw new Error(`Failed to resolve variable ${key}: ${message}`, {
-        cause,
-      });
-    }
-
-    if (strict && replacement === undefined) {
-      throw new Error(
-        `Variable "${key}" is not defined. Set it via the "variables" or ` +
-          `"secrets" input, or in the workflow environment, or set ` +
-          `"strict-variables: false" to substitute an empty string instead.`,
-      );
-    }
-
-    str = str.replace(fullMatch, replacement ?? "");
-  } while (match);
-
-  // Finally, replace the placeholder back with single dollar signs
-  str = str.replace(new RegExp(placeholder, "g"), "$");
-
-  return str;
+  return result;
 }
 
 /**
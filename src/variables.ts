@@ -3,6 +3,7 @@ import { readFile, writeFile } from "node:fs/promises";
 import * as core from "@actions/core";
 import type { ComposeSpec } from "./compose.js";
 import { listConfigs, listSecrets, removeConfig, removeSecret } from "./engine";
+import { escapeLiteralValues } from "./interpolation.js";
 import type { Settings } from "./settings.js";
 import {
   exists,
@@ -33,13 +34,19 @@ export async function processVariable(
   variable: Variable | null,
   {
     envVarPrefix,
+    literalValues,
     strictVariables,
     stack,
     variables,
     version,
   }: Pick<
     Settings,
-    "envVarPrefix" | "strictVariables" | "stack" | "variables" | "version"
+    | "envVarPrefix"
+    | "literalValues"
+    | "strictVariables"
+    | "stack"
+    | "variables"
+    | "version"
   >,
 ): Promise<Variable> {
   core.debug(`Processing variable ${name}`);
@@ -70,7 +77,11 @@ export async function processVariable(
     content = readFromEnvironment(name, variable, variables);
     modifiedVariable = await transformVariable(content, name, variable);
   } else if ("content" in variable) {
-    content = readFromContent(name, variable, variables);
+    content = readFromContent(
+      name,
+      variable,
+      escapeLiteralValues(variables, literalValues),
+    );
     modifiedVariable = await transformVariable(content, name, variable);
   }
 
@@ -444,32 +455,12 @@ async function pruneStoredVariables({
   kind: "secret" | "config";
   specVariables: Record<string, Variable> | undefined;
   stack: string;
-  list: () => Promise<
-    Array<{
-      ID: string;
-      Name: string;
-      Labels: Record<string, string>;
-      CreatedAt: string;
-    }>
-  >;
+  list: () => Promise<StoredVariableMetadata[]>;
   remove: (id: string) => Promise<void>;
   checkRotation?: boolean;
 }) {
   core.debug(`Pruning ${kind}s for stack "${stack}"`);
 
-  const variableIdentifier = (v: {
-    stack: string;
-    name: string;
-    hash: string;
-  }) => v.stack + v.name + v.hash;
-
-  const specIdentifiers = specVariables
-    ? Object.values(specVariables)
-        .map(({ labels }) => marshalLabels(labels))
-        .filter((labels) => labels !== undefined)
-        .map((labels) => variableIdentifier(labels))
-    : [];
-
   const items = await list();
 
   if (items.length === 0) {
@@ -481,25 +472,30 @@ async function pruneStoredVariables({
       `for stack "${stack}"`,
   );
 
-  for (let i = 0; i < items.length; i++) {
-    const { CreatedAt, ID, Name, Labels } = items[i];
+  const outdated = new Map(
+    findOutdatedVariables(items, specVariables).map((entry) => [
+      entry.item.ID,
+      entry,
+    ]),
+  );
 
+  for (let i = 0; i < items.length; i++) {
+    const { CreatedAt, ID, Name } = items[i];
     const name = Name ?? ID;
-    const labels = marshalLabels(Labels);
+    const entry = outdated.get(ID);
 
     core.debug(`Checking ${kind} ${i + 1}/${items.length}: ${name}`);
 
-    if (!labels) {
+    if (entry?.reason === "invalid") {
       core.notice(`Found invalid ${kind} "${name}": Missing labels. Pruning.`);
       await remove(ID);
       continue;
     }
 
-    if (!specIdentifiers.includes(variableIdentifier(labels))) {
-      const hash = labels.hash.substring(0, 7);
-
+    if (entry?.reason === "outdated") {
       core.notice(
-        `Pruning outdated version "${hash}" of ${kind} "${labels.name}": ${name}`,
+        `Pruning outdated version "${entry.hash}" of ${kind} ` +
+          `"${entry.name}": ${name}`,
       );
 
       await remove(ID);
@@ -515,6 +511,67 @@ async function pruneStoredVariables({
   }
 }
 
+/**
+ * Find stored variables that are no longer referenced by a specification
+ *
+ * A stored variable is outdated if no variable in the spec carries the same
+ * stack, name, and hash labels, and invalid if it lacks those labels entirely.
+ * Both are pruned after a deployment; this is the shared selection, so a plan
+ * can report exactly what a deployment would remove.
+ *
+ * @param items The stored secrets or configs of the stack
+ * @param specVariables The variables of the specification about to be deployed
+ */
+export function findOutdatedVariables<T extends StoredVariableMetadata>(
+  items: T[],
+  specVariables: Record<string, Variable> | undefined,
+): OutdatedVariable<T>[] {
+  const variableIdentifier = (v: {
+    stack: string;
+    name: string;
+    hash: string;
+  }) => v.stack + v.name + v.hash;
+
+  const specIdentifiers = specVariables
+    ? Object.values(specVariables)
+        .map(({ labels }) => marshalLabels(labels))
+        .filter((labels) => labels !== undefined)
+        .map((labels) => variableIdentifier(labels))
+    : [];
+
+  return items.flatMap((item): OutdatedVariable<T>[] => {
+    const labels = marshalLabels(item.Labels);
+
+    if (!labels) {
+      return [{ item, reason: "invalid" }];
+    }
+
+    if (specIdentifiers.includes(variableIdentifier(labels))) {
+      return [];
+    }
+
+    return [
+      {
+        item,
+        reason: "outdated",
+        name: labels.name,
+        hash: labels.hash.substring(0, 7),
+      },
+    ];
+  });
+}
+
+type StoredVariableMetadata = {
+  ID: string;
+  Name: string;
+  Labels: Record<string, string>;
+  CreatedAt: string;
+};
+
+type OutdatedVariable<T extends StoredVariableMetadata> =
+  | { item: T; reason: "invalid" }
+  | { item: T; reason: "outdated"; name: string; hash: string };
+
 // endregion
 
 // region Helpers
@@ -0,0 +1,268 @@
+import * as core from "@actions/core";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  colorLabel,
+  colorSettings,
+  discardColor,
+  labelColor,
+  resolveColors,
+  switchColor,
+} from "../src/bluegreen.js";
+import type { ServiceMetadata, ServiceWithMetadata } from "../src/engine.js";
+import * as engine from "../src/engine.js";
+import { defineSettings } from "../src/settings.js";
+import * as teardown from "../src/teardown.js";
+
+vi.mock("@actions/core");
+
+describe("Blue/Green", () => {
+  const settings = defineSettings({
+    ingressService: undefined,
+    monitorInterval: 5,
+    monitorTimeout: 300,
+    routingLabel: "traefik.enable",
+    stack: "app",
+    variables: new Map([["MATCHORY_DEPLOYMENT_STACK", "app"]]),
+  });
+
+  function service(ID: string, routed: boolean, index = 1) {
+    return {
+      ID,
+      Version: { Index: index },
+      Spec: { Name: ID, Labels: { "traefik.enable": String(routed) } },
+    } as unknown as ServiceWithMetadata;
+  }
+
+  // Services of the blue stack, the green stack, and the plain stack
+  function mockStacks(
+    blue: ServiceWithMetadata[],
+    green: ServiceWithMetadata[],
+    plain: ServiceMetadata[] = [],
+  ) {
+    vi.spyOn(engine, "listServices").mockImplementation(
+      (async ({ labels }: { labels: Record<string, string> }) =>
+        ({ "app-blue": blue, "app-green": green, app: plain })[
+          labels[engine.stackNamespaceLabel]
+        ] ?? []) as typeof engine.listServices,
+    );
+  }
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe("resolveColors", () => {
+    it("should deploy blue first", async () => {
+      mockStacks([], []);
+
+      await expect(resolveColors(settings)).resolves.toEqual({
+        active: undefined,
+        next: "blue",
+        retired: [],
+      });
+    });
+
+    it("should deploy the color that does not receive traffic", async () => {
+      mockStacks([service("web", true)], []);
+
+      await expect(resolveColors(settings)).resolves.toEqual({
+        active: "blue",
+        next: "green",
+        retired: ["app-blue"],
+      });
+    });
+
+    it("should deploy a color that never went live again", async () => {
+      mockStacks([service("web", true)], [service("web", false)]);
+
+      await expect(resolveColors(settings)).resolves.toEqual({
+        active: "blue",
+        next: "green",
+        retired: ["app-blue"],
+      });
+    });
+
+    it("should treat the color switched to last as active", async () => {
+      mockStacks([service("web", true, 10)], [service("web", true, 20)]);
+
+      await expect(resolveColors(settings)).resolves.toMatchObject({
+        active: "green",
+        next: "blue",
+        retired: ["app-green"],
+      });
+    });
+
+    it("should retire a stack deployed without blue/green", async () => {
+      mockStacks([], [], [{ ID: "web" } as ServiceMetadata]);
+
+      await expect(resolveColors(settings)).resolves.toEqual({
+        active: undefined,
+        next: "blue",
+        retired: ["app"],
+      });
+    });
+  });
+
+  describe("colorSettings", () => {
+    it("should deploy the color as a stack of its own", () => {
+      const colored = colorSettings(settings, "green");
+
+      expect(colored.stack).toBe("app-green");
+      expect(colored.variables).toEqual(
+        new Map([
+          ["MATCHORY_DEPLOYMENT_STACK", "app"],
+          ["MATCHORY_DEPLOYMENT_COLOR", "green"],
+        ]),
+      );
+      expect(settings.variables.has("MATCHORY_DEPLOYMENT_COLOR")).toBe(false);
+    });
+  });
+
+  describe("labelColor", () => {
+    it("should label the services, and keep traffic away from them", () => {
+      const spec = {
+        services: {
+          web: {
+            image: "nginx",
+            deploy: { labels: { "traefik.enable": "true", team: "web" } },
+          },
+          api: {
+            image: "api",
+            deploy: { labels: ["traefik.enable=true", "team=api"] },
+          },
+          worker: { image: "worker" },
+        },
+      };
+
+      const labelled = labelColor(spec, "blue", settings);
+
+      expect(labelled.services.web.deploy).toEqual({
+        labels: {
+          "traefik.enable": "false",
+          team: "web",
+          [colorLabel]: "blue",
+        },
+      });
+      expect(labelled.services.api.deploy).toEqual({
+        labels: ["team=api", `${colorLabel}=blue`, "traefik.enable=false"],
+      });
+      expect(labelled.services.worker.deploy).toEqual({
+        labels: { [colorLabel]: "blue", "traefik.enable": "false" },
+      });
+      expect(spec.services.web.deploy.labels["traefik.enable"]).toBe("true");
+    });
+
+    it("should reject services that publish ports", () => {
+      const spec = {
+        services: {
+          web: { image: "nginx", ports: ["8080:80"] },
+          api: { image: "api", ports: [{ target: 80, published: 8081 }] },
+          worker: { image: "worker", ports: [80, { target: 81 }] },
+        },
+      };
+
+      expect(() => labelColor(spec, "blue", settings)).toThrow(
+        'Service(s) "web", "api" publish ports, which the old and the new ' +
+          "color of a blue/green deployment cannot both bind.",
+      );
+    });
+  });
+
+  describe("switchColor", () => {
+    beforeEach(() => {
+      vi.spyOn(engine, "listServices").mockResolvedValue([
+        { ID: "web-id", Name: "app-green_web" },
+        { ID: "api-id", Name: "app-green_api" },
+      ] as ServiceMetadata[]);
+      vi.spyOn(engine, "updateServiceLabels").mockResolvedValue();
+      vi.spyOn(engine, "updateServiceEnvironment").mockResolvedValue();
+      vi.spyOn(teardown, "teardownStack").mockResolvedValue();
+    });
+
+    it("should route traffic to the new color, and remove the old one", async () => {
+      await switchColor(
+        { active: "blue", next: "green", retired: ["app-blue"] },
+        settings,
+      );
+
+      expect(engine.listServices).toHaveBeenCalledWith({
+        labels: { [engine.stackNamespaceLabel]: "app-green" },
+      });
+      expect(engine.updateServiceLabels).toHaveBeenCalledWith("web-id", {
+        "traefik.enable": "true",
+      });
+      expect(engine.updateServiceLabels).toHaveBeenCalledWith("api-id", {
+        "traefik.enable": "true",
+      });
+      expect(engine.updateServiceEnvironment).not.toHaveBeenCalled();
+      expect(teardown.teardownStack).toHaveBeenCalledWith({
+        ...settings,
+        stack: "app-blue",
+      });
+      expect(
+        vi.mocked(teardown.teardownStack).mock.invocationCallOrder[0],
+      ).toBeGreaterThan(
+        vi.mocked(engine.updateServiceLabels).mock.invocationCallOrder[1],
+      );
+    });
+
+    it("should point the ingress service to the new color", async () => {
+      await switchColor(
+        { next: "green", retired: [] },
+        { ...settings, ingressService: "proxy_nginx" },
+      );
+
+      expect(engine.updateServiceEnvironment).toHaveBeenCalledWith(
+        "proxy_nginx",
+        {
+          MATCHORY_DEPLOYMENT_STACK: "app-green",
+          MATCHORY_DEPLOYMENT_COLOR: "green",
+        },
+      );
+    });
+
+    it("should only warn if the old color cannot be removed", async () => {
+      vi.mocked(teardown.teardownStack).mockRejectedValue(
+        new Error("Timed out"),
+      );
+
+      await switchColor(
+        { active: "blue", next: "green", retired: ["app-blue"] },
+        settings,
+      );
+
+      expect(core.warning).toHaveBeenCalledWith(
+        'Failed to remove stack "app-blue": Error: Timed out',
+      );
+    });
+  });
+
+  describe("discardColor", () => {
+    const colored = { ...settings, stack: "app-green" };
+
+    it("should remove the failed color", async () => {
+      vi.spyOn(teardown, "teardownStack").mockResolvedValue();
+
+      await expect(
+        discardColor(colored, new Error("Service web failed")),
+      ).rejects.toThrow(
+        'Deployment failed, and "app-green" was removed without receiving ' +
+          "traffic: Service web failed",
+      );
+      expect(teardown.teardownStack).toHaveBeenCalledWith(colored);
+    });
+
+    it("should report if the failed color cannot be removed", async () => {
+      vi.spyOn(teardown, "teardownStack").mockRejectedValue(
+        new Error("Timed out"),
+      );
+
+      await expect(
+        discardColor(colored, new Error("Service web failed")),
+      ).rejects.toThrow(
+        'Deployment failed (Service web failed), and removing "app-green" ' +
+          "failed as well: Timed out.",
+      );
+    });
+  });
+});
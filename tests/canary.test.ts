@@ -0,0 +1,353 @@
+import * as core from "@actions/core";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  type Canary,
+  prepareCanaries,
+  promoteCanaries,
+} from "../src/canary.js";
+import type { ComposeSpec } from "../src/compose.js";
+import * as diff from "../src/diff.js";
+import type { ServiceWithMetadata, TaskStatus } from "../src/engine.js";
+import * as engine from "../src/engine.js";
+import * as monitoring from "../src/monitoring.js";
+import { defineSettings } from "../src/settings.js";
+import * as utils from "../src/utils.js";
+
+vi.mock("@actions/core");
+
+describe("Canary", () => {
+  const settings = defineSettings({
+    monitorInterval: 5,
+    monitorTimeout: 300,
+    stack: "test-stack",
+  });
+
+  function task(ID: string, CurrentState: string, error = ""): TaskStatus {
+    return {
+      ID,
+      Name: `test-stack_web.${ID}`,
+      Image: "nginx",
+      Node: "node1",
+      DesiredState: "Running",
+      CurrentState,
+      Error: error,
+      Ports: "",
+    };
+  }
+
+  beforeEach(() => {
+    vi.useRealTimers();
+    vi.resetAllMocks();
+  });
+
+  describe("prepareCanaries", () => {
+    const spec: ComposeSpec = {
+      services: {
+        web: {
+          image: "nginx:2",
+          "x-canary": { percentage: 25, soak: 30 },
+          deploy: {
+            replicas: 8,
+            update_config: {
+              parallelism: 2,
+              delay: "10s",
+              order: "start-first",
+            },
+          },
+        },
+        db: { image: "postgres" },
+      },
+    };
+
+    beforeEach(() => {
+      vi.spyOn(diff, "diffStack").mockResolvedValue([
+        {
+          service: "web",
+          status: "update",
+          changes: [{ field: "image", before: "nginx:1", after: "nginx:2" }],
+        },
+        { service: "db", status: "unchanged", changes: [] },
+      ]);
+      vi.spyOn(engine, "listServices").mockResolvedValue([
+        { ID: "web-id", Spec: { Name: "test-stack_web" } },
+        { ID: "db-id", Spec: { Name: "test-stack_db" } },
+      ] as ServiceWithMetadata[]);
+      vi.spyOn(engine, "listServiceTasks").mockResolvedValue([
+        task("1", "Running 1 hour ago"),
+        task("2", "Running 1 hour ago"),
+      ]);
+    });
+
+    it("should leave specifications without canaries alone", async () => {
+      const plain = { services: { db: { image: "postgres" } } };
+
+      await expect(prepareCanaries(plain, settings)).resolves.toEqual({
+        spec: plain,
+        canaries: [],
+      });
+      expect(diff.diffStack).not.toHaveBeenCalled();
+    });
+
+    it("should hold the rollout after the canary tasks", async () => {
+      const prepared = await prepareCanaries(spec, settings);
+
+      expect(prepared.canaries).toEqual([
+        {
+          service: "web",
+          id: "web-id",
+          tasks: 2,
+          soak: 30,
+          rollout: { parallelism: 2, delay: "10s" },
+          baseline: new Set(["1", "2"]),
+        },
+      ]);
+      expect(prepared.spec.services.web).toEqual({
+        image: "nginx:2",
+        deploy: {
+          replicas: 8,
+          update_config: {
+            parallelism: 2,
+            delay: "330s",
+            order: "start-first",
+          },
+        },
+      });
+      expect(spec.services.web["x-canary"]).toBeDefined();
+    });
+
+    it("should default to a single canary task", async () => {
+      const prepared = await prepareCanaries(
+        {
+          services: {
+            web: {
+              image: "nginx:2",
+              "x-canary": true,
+              deploy: { replicas: 3 },
+            },
+          },
+        },
+        settings,
+      );
+
+      expect(prepared.canaries[0]).toMatchObject({
+        tasks: 1,
+        soak: 60,
+        rollout: { parallelism: 1, delay: "0s" },
+      });
+      expect(prepared.spec.services.web.deploy).toEqual({
+        replicas: 3,
+        update_config: { parallelism: 1, delay: "360s" },
+      });
+    });
+
+    it("should skip services without tasks to roll out", async () => {
+      vi.mocked(diff.diffStack).mockResolvedValue([
+        {
+          service: "web",
+          status: "update",
+          changes: [{ field: "replicas", before: 4, after: 8 }],
+        },
+      ]);
+
+      const prepared = await prepareCanaries(spec, settings);
+
+      expect(prepared.canaries).toEqual([]);
+      expect(prepared.spec.services.web).not.toHaveProperty("x-canary");
+      expect(prepared.spec.services.web.deploy?.update_config).toEqual(
+        spec.services.web.deploy?.update_config,
+      );
+    });
+
+    it("should skip services in global mode", async () => {
+      const prepared = await prepareCanaries(
+        {
+          services: {
+            web: {
+              image: "nginx:2",
+              "x-canary": true,
+              deploy: { mode: "global" },
+            },
+          },
+        },
+        settings,
+      );
+
+      expect(prepared.canaries).toEqual([]);
+      expect(core.warning).toHaveBeenCalledWith(
+        expect.stringContaining('Service "web" runs in global mode'),
+      );
+    });
+
+    it("should skip services that later waves wait for", async () => {
+      const prepared = await prepareCanaries(spec, settings, new Set(["web"]));
+
+      expect(prepared.canaries).toEqual([]);
+      expect(prepared.spec.services.web.deploy?.update_config).toEqual(
+        spec.services.web.deploy?.update_config,
+      );
+      expect(core.warning).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'Later waves of the staged deployment wait for service "web"',
+        ),
+      );
+    });
+
+    it("should skip canaries that cover all replicas", async () => {
+      const prepared = await prepareCanaries(
+        { services: { web: { image: "nginx:2", "x-canary": true } } },
+        settings,
+      );
+
+      expect(prepared.canaries).toEqual([]);
+      expect(core.warning).toHaveBeenCalledWith(
+        expect.stringContaining("would update all of its 1 replica(s)"),
+      );
+    });
+
+    it("should reject both a number and a percentage of replicas", async () => {
+      await expect(
+        prepareCanaries(
+          {
+            services: {
+              web: {
+                image: "nginx:2",
+                "x-canary": { replicas: 1, percentage: 10 },
+              },
+            },
+          },
+          settings,
+        ),
+      ).rejects.toThrow(
+        'The "x-canary" extension of service "web" sets both "replicas" and ' +
+          '"percentage"',
+      );
+    });
+
+    it("should reject invalid percentages", async () => {
+      await expect(
+        prepareCanaries(
+          {
+            services: {
+              web: { image: "nginx:2", "x-canary": { percentage: 150 } },
+            },
+          },
+          settings,
+        ),
+      ).rejects.toThrow(
+        'The "percentage" of the "x-canary" extension of service "web" must ' +
+          'be a positive whole number up to 100, but is "150".',
+      );
+    });
+  });
+
+  describe("promoteCanaries", () => {
+    const canary: Canary = {
+      service: "web",
+      id: "web-id",
+      tasks: 1,
+      soak: 30,
+      rollout: { parallelism: 2, delay: "10s" },
+      baseline: new Set(["1", "2"]),
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.spyOn(utils, "sleep").mockImplementation(async (ms) => {
+        vi.setSystemTime(Date.now() + ms);
+      });
+      vi.spyOn(monitoring, "buildFailureReport").mockResolvedValue();
+      vi.spyOn(monitoring, "monitorRollback").mockResolvedValue(
+        new Map([["web-id", undefined]]),
+      );
+    });
+
+    it("should do nothing without canaries", async () => {
+      vi.spyOn(engine, "listServiceTasks");
+
+      await promoteCanaries([], settings);
+
+      expect(engine.listServiceTasks).not.toHaveBeenCalled();
+    });
+
+    it("should promote canaries that survive the soak period", async () => {
+      vi.spyOn(engine, "listServiceTasks")
+        .mockResolvedValueOnce([
+          task("1", "Running 1 hour ago"),
+          task("3", "Starting 1 second ago"),
+        ])
+        .mockResolvedValue([
+          task("1", "Running 1 hour ago"),
+          task("3", "Running 5 seconds ago"),
+        ]);
+      vi.spyOn(engine, "updateServiceRollout").mockResolvedValue();
+      vi.spyOn(engine, "rollbackService");
+
+      await promoteCanaries([canary], settings);
+
+      expect(utils.sleep).toHaveBeenCalledTimes(7);
+      expect(engine.updateServiceRollout).toHaveBeenCalledWith("web-id", {
+        parallelism: 2,
+        delay: "10s",
+      });
+      expect(engine.rollbackService).not.toHaveBeenCalled();
+    });
+
+    it("should roll back canaries whose tasks fail", async () => {
+      const failed = task(
+        "3",
+        "Failed 1 second ago",
+        "task: non-zero exit (1)",
+      );
+      vi.spyOn(engine, "listServiceTasks")
+        .mockResolvedValueOnce([task("3", "Running 1 second ago")])
+        .mockResolvedValue([task("1", "Running 1 hour ago"), failed]);
+      vi.spyOn(engine, "updateServiceRollout");
+      vi.spyOn(engine, "rollbackService").mockResolvedValue();
+
+      await expect(promoteCanaries([canary], settings)).rejects.toThrow(
+        'The canary of service "web" failed: task "test-stack_web.3" is ' +
+          "Failed 1 second ago (task: non-zero exit (1)). 1 canary " +
+          "service(s) have been rolled back to their previous spec.",
+      );
+      expect(monitoring.buildFailureReport).toHaveBeenCalledWith(
+        "web-id",
+        "web",
+        expect.any(Date),
+        [failed],
+        undefined,
+      );
+      expect(engine.rollbackService).toHaveBeenCalledWith("web-id");
+      expect(monitoring.monitorRollback).toHaveBeenCalledWith(settings, [
+        "web-id",
+      ]);
+      expect(engine.updateServiceRollout).not.toHaveBeenCalled();
+    });
+
+    it("should roll back canaries that do not start in time", async () => {
+      vi.spyOn(engine, "listServiceTasks").mockResolvedValue([
+        task("3", "Preparing 1 second ago"),
+      ]);
+      vi.spyOn(engine, "rollbackService").mockResolvedValue();
+
+      await expect(promoteCanaries([canary], settings)).rejects.toThrow(
+        'The canary of service "web" did not start: 0 of its 1 task(s) were ' +
+          "running after 300s",
+      );
+      expect(engine.rollbackService).toHaveBeenCalledWith("web-id");
+    });
+
+    it("should report rollbacks that do not converge", async () => {
+      vi.spyOn(engine, "listServiceTasks").mockResolvedValue([
+        task("3", "Rejected 1 second ago", "no suitable node"),
+      ]);
+      vi.spyOn(engine, "rollbackService").mockResolvedValue();
+      vi.mocked(monitoring.monitorRollback).mockResolvedValue(
+        new Map([["web-id", "Timed out"]]),
+      );
+
+      await expect(promoteCanaries([canary], settings)).rejects.toThrow(
+        'Rolling back "web" did not converge: Timed out.',
+      );
+    });
+  });
+});
@@ -0,0 +1,258 @@
+import * as core from "@actions/core";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { checkCapacity, parseMemory } from "../src/capacity.js";
+import { defineComposeSpec } from "../src/compose.js";
+import type { Node, ServiceWithMetadata, TaskStatus } from "../src/engine.js";
+import * as engine from "../src/engine.js";
+
+vi.mock("@actions/core");
+vi.mock("../src/engine.js", async (importOriginal) => ({
+  ...(await importOriginal()),
+  listNodes: vi.fn(),
+  listRunningTasks: vi.fn(),
+  listServices: vi.fn(),
+}));
+
+const GiB = 1024 ** 3;
+
+function node(hostname: string, cpus: number, memory: number): Node {
+  return {
+    ID: `${hostname}-id`,
+    Spec: { Role: "worker", Availability: "active", Labels: {} },
+    Description: {
+      Hostname: hostname,
+      Platform: { Architecture: "x86_64", OS: "linux" },
+      Resources: { NanoCPUs: cpus * 1e9, MemoryBytes: memory },
+    },
+    Status: { State: "ready" },
+  };
+}
+
+function task(name: string, hostname: string) {
+  return {
+    ID: name,
+    Name: name,
+    Image: "nginx",
+    Node: hostname,
+    DesiredState: "Running",
+    CurrentState: "Running 1 hour ago",
+    Error: "",
+    Ports: "",
+  } satisfies TaskStatus;
+}
+
+function service(name: string, stack: string, memory: number) {
+  return {
+    ID: name,
+    Spec: {
+      Name: name,
+      Labels: { "com.docker.stack.namespace": stack },
+      TaskTemplate: { Resources: { Reservations: { MemoryBytes: memory } } },
+    },
+  } as ServiceWithMetadata;
+}
+
+describe("Capacity", () => {
+  const settings = { checkCapacity: "fail" as const, stack: "app" };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(engine.listNodes).mockResolvedValue([
+      node("node-1", 2, 4 * GiB),
+      node("node-2", 2, 4 * GiB),
+    ]);
+    vi.mocked(engine.listRunningTasks).mockResolvedValue([]);
+    vi.mocked(engine.listServices).mockResolvedValue([]);
+  });
+
+  describe("checkCapacity", () => {
+    it("should pass if the reservations fit", async () => {
+      const spec = defineComposeSpec({
+        services: {
+          web: {
+            image: "nginx",
+            deploy: {
+              replicas: 4,
+              resources: { reservations: { cpus: "0.5", memory: "1G" } },
+            },
+          },
+          sidecar: { image: "busybox" },
+        },
+      });
+
+      await expect(checkCapacity(spec, settings)).resolves.toBeUndefined();
+      expect(core.info).toHaveBeenCalledWith(
+        "The resource reservations of 1 service(s) fit onto the 2 available " +
+          "node(s)",
+      );
+    });
+
+    it("should fail if a service does not fit", async () => {
+      const spec = defineComposeSpec({
+        services: {
+          db: {
+            image: "postgres",
+            deploy: {
+              replicas: 3,
+              resources: { reservations: { memory: "3g" } },
+            },
+          },
+        },
+      });
+
+      await expect(checkCapacity(spec, settings)).rejects.toThrow(
+        '1 service(s) do not fit onto the Swarm: Service "db" reserves 3072 ' +
+          "MiB of memory per task, but 1 of its 3 task(s) fit on none of its " +
+          "2 eligible node(s).",
+      );
+    });
+
+    it("should account for the extra tasks of start-first updates", async () => {
+      const spec = defineComposeSpec({
+        services: {
+          web: {
+            image: "nginx",
+            deploy: {
+              replicas: 2,
+              resources: { reservations: { memory: "3G" } },
+              update_config: { order: "start-first" },
+            },
+          },
+        },
+      });
+
+      await expect(checkCapacity(spec, settings)).rejects.toThrow(
+        "but 1 of its 3 task(s), including 1 extra for the start-first " +
+          "update, fit on none",
+      );
+    });
+
+    it("should subtract the reservations of other stacks only", async () => {
+      vi.mocked(engine.listServices).mockResolvedValue([
+        service("other_db", "other", 2 * GiB),
+        service("app_web", "app", 2 * GiB),
+      ]);
+      vi.mocked(engine.listRunningTasks).mockResolvedValue([
+        task("other_db.1", "node-1"),
+        task("other_db.2", "node-2"),
+        task("app_web.1", "node-1"),
+      ]);
+      const spec = defineComposeSpec({
+        services: {
+          web: {
+            image: "nginx",
+            deploy: {
+              replicas: 2,
+              resources: { reservations: { memory: 2 * GiB } },
+            },
+          },
+        },
+      });
+
+      await expect(checkCapacity(spec, settings)).resolves.toBeUndefined();
+      await expect(
+        checkCapacity(
+          {
+            services: {
+              web: {
+                deploy: {
+                  replicas: 3,
+                  resources: { reservations: { memory: 2 * GiB } },
+                },
+              },
+            },
+          },
+          settings,
+        ),
+      ).rejects.toThrow("1 of its 3 task(s)");
+    });
+
+    it("should only place tasks on nodes matching the constraints", async () => {
+      const spec = defineComposeSpec({
+        services: {
+          web: {
+            image: "nginx",
+            deploy: {
+              replicas: 2,
+              placement: { constraints: ["node.hostname==node-1"] },
+              resources: { reservations: { cpus: 1.5 } },
+            },
+          },
+        },
+      });
+
+      await expect(checkCapacity(spec, settings)).rejects.toThrow(
+        'Service "web" reserves 1.5 CPU(s) per task, but 1 of its 2 task(s) ' +
+          "fit on none of its 1 eligible node(s).",
+      );
+    });
+
+    it("should only warn if configured to", async () => {
+      const spec = defineComposeSpec({
+        services: {
+          db: {
+            deploy: { resources: { reservations: { memory: "8G" } } },
+          },
+        },
+      });
+
+      await expect(
+        checkCapacity(spec, { ...settings, checkCapacity: "warn" }),
+      ).resolves.toBeUndefined();
+      expect(core.warning).toHaveBeenCalledWith(
+        expect.stringContaining('Service "db" reserves 8192 MiB'),
+      );
+    });
+    it("should skip services with invalid reservations in warn mode", async () => {
+      const spec = defineComposeSpec({
+        services: {
+          db: { deploy: { resources: { reservations: { memory: "lots" } } } },
+          web: { deploy: { resources: { reservations: { memory: "1G" } } } },
+        },
+      });
+
+      await expect(
+        checkCapacity(spec, { ...settings, checkCapacity: "warn" }),
+      ).resolves.toBeUndefined();
+      expect(core.warning).toHaveBeenCalledWith(
+        'Skipping the capacity check of service "db": Invalid memory ' +
+          'reservation "lots": expected a size like "512M" or "1g".',
+      );
+      expect(core.info).toHaveBeenCalledWith(
+        expect.stringContaining("reservations of 1 service(s) fit"),
+      );
+    });
+
+    it("should fail on invalid reservations otherwise", async () => {
+      const spec = defineComposeSpec({
+        services: {
+          db: { deploy: { resources: { reservations: { memory: "lots" } } } },
+        },
+      });
+
+      await expect(checkCapacity(spec, settings)).rejects.toThrow(
+        'Failed to check the capacity for service "db": Invalid memory ' +
+          'reservation "lots"',
+      );
+    });
+  });
+
+  describe("parseMemory", () => {
+    it.each([
+      ["536870912", 536870912],
+      [1024, 1024],
+      ["512M", 512 * 1024 ** 2],
+      ["1.5g", 1.5 * GiB],
+      ["64kb", 64 * 1024],
+      ["2GiB", 2 * GiB],
+    ])("should parse %s", (value, expected) => {
+      expect(parseMemory(value)).toBe(expected);
+    });
+
+    it("should reject invalid sizes", () => {
+      expect(() => parseMemory("lots")).toThrow(
+        'Invalid memory reservation "lots"',
+      );
+    });
+  });
+});
@@ -1,9 +1,11 @@
 import * as crypto from "node:crypto";
+import * as core from "@actions/core";
 import { exec } from "@actions/exec";
 import * as yaml from "js-yaml";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import {
   type ComposeSpec,
+  checkInterpolation,
   defineComposeSpec,
   interpolateSpec,
   loadComposeSpecs,
@@ -185,6 +187,93 @@ describe("Compose", () => {
       expect(readdir).toHaveBeenCalledWith(".");
     });
 
+    describe("environment overlays", () => {
+      const staging = defineSettings({ ...settings, environment: "staging" });
+
+      function mockDirectory(directory: string, files: string[]) {
+        vi.mocked(readdir).mockImplementation(async (path: string) => {
+          if (path === directory) {
+            return files;
+          }
+          throw new Error("Directory not found");
+        });
+      }
+
+      it("should add the overlays of the environment to the base file", async () => {
+        mockDirectory(".", [
+          "compose.production.yaml",
+          "compose.yaml",
+          "compose.override.staging.yml",
+          "compose.staging.yaml",
+        ]);
+
+        await expect(resolveComposeFiles(staging)).resolves.toEqual([
+          "compose.yaml",
+          "compose.staging.yaml",
+          "compose.override.staging.yml",
+        ]);
+        expect(core.info).toHaveBeenCalledWith(
+          'Deploying environment "staging" with compose.yaml, ' +
+            "compose.staging.yaml, compose.override.staging.yml, applied in " +
+            "this order",
+        );
+      });
+
+      it("should look up overlays next to the base file", async () => {
+        mockDirectory("docker", [
+          "docker-compose.yml",
+          "docker-compose.override.staging.yaml",
+        ]);
+
+        await expect(resolveComposeFiles(staging)).resolves.toEqual([
+          "docker/docker-compose.yml",
+          "docker/docker-compose.override.staging.yaml",
+        ]);
+        expect(core.debug).toHaveBeenCalledWith(
+          "No overlay for environment staging at " +
+            "docker/docker-compose.staging.yaml,docker/docker-compose.staging.yml",
+        );
+      });
+
+      it("should not use a production file as the base file", async () => {
+        mockDirectory(".", ["compose.production.yaml", "compose.yaml"]);
+
+        await expect(
+          resolveComposeFiles({ ...settings, environment: "production" }),
+        ).resolves.toEqual(["compose.yaml", "compose.production.yaml"]);
+      });
+
+      it("should fail if the environment has no overlay", async () => {
+        mockDirectory(".", ["compose.yaml", "compose.staging.yaml"]);
+
+        await expect(
+          resolveComposeFiles({ ...settings, environment: "stagign" }),
+        ).rejects.toThrow(
+          'Could not find a Compose file for environment "stagign" next to ' +
+            'the base file "compose.yaml". Looked for: compose.stagign.yaml, ' +
+            "compose.stagign.yml, compose.override.stagign.yaml, " +
+            "compose.override.stagign.yml.",
+        );
+      });
+
+      it("should fail if there is no base file", async () => {
+        mockDirectory(".", ["compose.staging.yaml"]);
+
+        await expect(resolveComposeFiles(staging)).rejects.toThrow(
+          'Could not find a base Compose file for environment "staging".',
+        );
+      });
+
+      it("should reject a base file outside the workspace", async () => {
+        vi.stubEnv("GITHUB_WORKSPACE", "/home/runner/work/repo");
+        mockDirectory(".", ["compose.yaml", "compose.staging.yaml"]);
+
+        await expect(resolveComposeFiles(staging)).rejects.toThrow(
+          /outside the workspace/,
+        );
+      });
+    });
+
     describe("path containment", () => {
       it("should reject paths that escape the workspace via ..", async () => {
         vi.stubEnv("GITHUB_WORKSPACE", "/home/runner/work/repo");
@@ -285,6 +374,31 @@ describe("Compose", () => {
       ).resolves.toEqual([{ spec: composeSpec, baseDir: "." }]);
     });
 
+    it("should expand the includes of the compose specification", async () => {
+      vi.spyOn(utils, "exists").mockImplementation(
+        async (path) => !String(path).endsWith(".env"),
+      );
+      vi.spyOn(yaml, "load")
+        .mockReturnValueOnce({ include: ["db/compose.yaml"], services: {} })
+        .mockReturnValueOnce({ services: { db: { image: "postgres" } } });
+
+      await expect(
+        loadComposeSpecs(["docker-compose.yaml"], settings),
+      ).resolves.toEqual([
+        {
+          spec: {
+            version: schemaVersion,
+            services: { db: { image: "postgres" } },
+          },
+          baseDir: ".",
+        },
+      ]);
+      expect(readFile).toHaveBeenCalledWith(
+        expect.stringMatching(/db\/compose\.yaml$/),
+        "utf8",
+      );
+    });
+
     it("should throw an error if the compose file does not have a services section", async () => {
       vi.spyOn(utils, "exists").mockResolvedValue(true);
       vi.mocked(exec).mockResolvedValue(0);
@@ -1520,6 +1634,140 @@ describe("Compose", () => {
         });
       });
     });
+
+    describe("nesting and errors", () => {
+      it("should resolve nested default values", () => {
+        const spec: ComposeSpec = {
+          services: {
+            app: {
+              image: "nginx:${TAG:-${IMAGE_TAG:-latest}}",
+              environment: { CONFIG: '${CONFIG:-{"port": ${PORT}}}' },
+            },
+          },
+        };
+
+        expect(interpolateSpec(spec, mockSettings)).toEqual({
+          services: {
+            app: {
+              image: "nginx:v1.0.0",
+              environment: { CONFIG: '{"port": 8080}' },
+            },
+          },
+        });
+      });
+
+      it("should report every problem with its YAML path", () => {
+        const spec: ComposeSpec = {
+          services: {
+            app: {
+              image: "nginx:${IMAGE_TAG",
+              command: ["serve", "${TOKEN:?is needed to serve}"],
+              labels: { "com.example.team": "${TEAM?}" },
+            },
+          },
+        };
+
+        expect(() =>
+          interpolateSpec(spec, { ...mockSettings, strictInterpolation: true }),
+        ).toThrow(
+          "Failed to interpolate the Compose specification:\n" +
+            '  - services.app.image: Invalid interpolation format in "nginx:' +
+            '${IMAGE_TAG": the "${" at position 7 is missing its closing ' +
+            "brace.\n" +
+            "  - services.app.command[1]: Failed to resolve variable TOKEN: " +
+            "it is required but has no value: is needed to serve\n" +
+            '  - services.app.labels["com.example.team"]: Failed to resolve ' +
+            "variable TEAM: it is required but has no value.",
+        );
+      });
+
+      it("should keep malformed references by default", () => {
+        expect(
+          interpolateSpec(
+            { services: { app: { image: "nginx:${IMAGE_TAG", user: "${" } } },
+            mockSettings,
+          ),
+        ).toEqual({
+          services: { app: { image: "nginx:${IMAGE_TAG", user: "${" } },
+        });
+      });
+
+      it("should list every undefined variable in strict mode", () => {
+        const spec: ComposeSpec = {
+          services: {
+            app: { image: "${REGISTRY}/app:${TAG}" },
+            worker: { image: "${REGISTRY}/worker:${IMAGE_TAG}" },
+          },
+        };
+
+        expect(() =>
+          interpolateSpec(spec, { ...mockSettings, strictInterpolation: true }),
+        ).toThrow(
+          "Failed to interpolate the Compose specification:\n" +
+            '  - services.app.image, services.worker.image: Variable "REGISTRY" ' +
+            "is not defined.\n" +
+            '  - services.app.image: Variable "TAG" is not defined.\n' +
+            'Set the undefined variables via the "variables" or "secrets" ' +
+            "input",
+        );
+      });
+
+      it("should substitute empty strings for undefined variables by default", () => {
+        expect(
+          interpolateSpec(
+            { services: { app: { image: "app:${TAG}" } } },
+            mockSettings,
+          ),
+        ).toEqual({ services: { app: { image: "app:" } } });
+      });
+    });
+
+    describe("checkInterpolation", () => {
+      it("should report problems along with the file", () => {
+        expect(() =>
+          checkInterpolation(
+            { services: { app: { image: "${}" } } },
+            "compose.prod.yaml",
+            { ...mockSettings, strictInterpolation: true },
+          ),
+        ).toThrow(
+          'Failed to interpolate Compose file "compose.prod.yaml":\n' +
+            "  - services.app.image: Invalid interpolation format",
+        );
+      });
+
+      it("should warn about malformed references", () => {
+        checkInterpolation(
+          { services: { app: { image: "${}" } } },
+          "compose.yaml",
+          mockSettings,
+        );
+
+        expect(core.warning).toHaveBeenCalledWith(
+          'Compose file "compose.yaml" has malformed variable references, ' +
+            "which are kept as they are: services.app.image: Invalid " +
+            'interpolation format in "${}": the "${" at position 1 must be ' +
+            "followed by a variable name. Escape dollar signs meant literally " +
+            'as "$$", or set "strict-interpolation: true" to fail the ' +
+            "deployment instead.",
+        );
+      });
+
+      it("should warn about undefined variables", () => {
+        checkInterpolation(
+          { services: { app: { image: "app:${TAG}", user: "$USER_ID" } } },
+          "compose.yaml",
+          mockSettings,
+        );
+
+        expect(core.warning).toHaveBeenCalledWith(
+          'Compose file "compose.yaml" uses variables that are not defined, ' +
+            'and resolve to an empty string: "TAG" at services.app.image; ' +
+            '"USER_ID" at services.app.user. Set "strict-interpolation: true" ' +
+            "to fail the deployment instead.",
+        );
+      });
+    });
   });
 
   describe("Stack Deployment", () => {
@@ -1531,6 +1779,9 @@ describe("Compose", () => {
       monitor: false,
       monitorInterval: 5,
       monitorTimeout: 300,
+      prune: true,
+      resolveImage: "always",
+      retryDeploy: false,
       stack: "test-stack",
       strictVariables: false,
       variables: new Map([
@@ -1538,6 +1789,7 @@ describe("Compose", () => {
         ["MATCHORY_DEPLOYMENT_VERSION", "ebadf1"],
       ]),
       version: "ebadf1",
+      withRegistryAuth: true,
     });
     const composeSpec = defineComposeSpec({
       version: "3.8",
@@ -1,10 +1,24 @@
+import * as core from "@actions/core";
 import { dump } from "js-yaml";
 import { beforeEach, describe, expect, it, vi } from "vitest";
+import * as bluegreen from "../src/bluegreen.js";
+import * as canary from "../src/canary.js";
+import * as capacity from "../src/capacity.js";
 import * as compose from "../src/compose.js";
 import { deploy } from "../src/deployment.js";
+import * as diff from "../src/diff.js";
+import * as digests from "../src/digests.js";
 import * as engine from "../src/engine.js";
+import * as history from "../src/history.js";
 import * as monitoring from "../src/monitoring.js";
+import * as placement from "../src/placement.js";
+import * as plan from "../src/plan.js";
+import * as preflight from "../src/preflight.js";
+import * as preview from "../src/preview.js";
+import * as registries from "../src/registries.js";
+import * as rollback from "../src/rollback.js";
 import { defineSettings } from "../src/settings.js";
+import * as staging from "../src/staging.js";
 import * as utils from "../src/utils.js";
 import * as variables from "../src/variables.js";
 
@@ -20,6 +34,8 @@ describe("Deployment", () => {
   beforeEach(() => {
     vi.resetAllMocks();
     vi.unstubAllEnvs();
+    vi.spyOn(registries, "loginToRegistries").mockResolvedValue(undefined);
+    vi.spyOn(history, "recordDeployment").mockResolvedValue();
   });
 
   describe("Deployment Process", () => {
@@ -251,6 +267,695 @@ describe("Deployment", () => {
         settings,
       );
     });
+    it("should report the deploy flags in the job summary", async () => {
+      const settings = defineSettings({
+        prune: false,
+        resolveImage: "changed",
+        stack: "test-stack",
+        variables: new Map(),
+        withRegistryAuth: true,
+      });
+      const spec = { services: { web: { image: "nginx:latest" } } };
+
+      vi.spyOn(compose, "resolveComposeFiles").mockResolvedValue([]);
+      vi.spyOn(compose, "loadComposeSpecs").mockResolvedValue([]);
+      vi.spyOn(compose, "normalizeSpec").mockResolvedValue(spec);
+      vi.spyOn(compose, "interpolateSpec").mockReturnValue(spec);
+      vi.spyOn(variables, "pruneVariables").mockResolvedValue(undefined);
+      vi.spyOn(variables, "removeGeneratedVariableFiles").mockResolvedValue();
+      vi.spyOn(core.summary, "addHeading").mockReturnValue(core.summary);
+      vi.spyOn(core.summary, "addTable").mockReturnValue(core.summary);
+      vi.spyOn(utils, "publishSummary").mockResolvedValue();
+
+      await deploy(settings);
+
+      expect(core.summary.addHeading).toHaveBeenCalledWith(
+        "Deployed stack: test-stack",
+        2,
+      );
+      expect(core.summary.addTable).toHaveBeenCalledWith([
+        expect.any(Array),
+        [
+          { data: "<code>--prune</code>" },
+          { data: "disabled" },
+          { data: "<code>prune</code>" },
+        ],
+        [
+          { data: "<code>--resolve-image</code>" },
+          { data: "changed" },
+          { data: "<code>resolve-image</code>" },
+        ],
+        [
+          { data: "<code>--with-registry-auth</code>" },
+          { data: "enabled" },
+          { data: "<code>with-registry-auth</code>" },
+        ],
+      ]);
+      expect(utils.publishSummary).toHaveBeenCalled();
+    });
+  });
+
+  describe("Dry Run", () => {
+    const settings = defineSettings({
+      dryRun: true,
+      envVarPrefix: "",
+      keyInterpolation: false,
+      manageVariables: true,
+      monitor: true,
+      monitorInterval: 0,
+      monitorTimeout: 0,
+      stack: "test-stack",
+      strictVariables: false,
+      variables: new Map(),
+      version: "1.2.3",
+    });
+
+    const spec = {
+      version: "3.8",
+      services: { web: { image: "nginx:latest" } },
+    };
+
+    it("should report a plan instead of deploying", async () => {
+      const deploymentPlan = {
+        stack: "test-stack",
+        services: { create: ["web"], update: [], remove: [] },
+        secrets: { create: [], reuse: [], prune: [] },
+        configs: { create: [], reuse: [], prune: [] },
+      };
+
+      vi.spyOn(compose, "resolveComposeFiles").mockResolvedValue([
+        "docker-compose.yaml",
+      ]);
+      vi.spyOn(compose, "loadComposeSpecs").mockResolvedValue([
+        { spec, baseDir: "." },
+      ]);
+      vi.spyOn(compose, "normalizeSpec").mockResolvedValue(spec);
+      vi.spyOn(compose, "interpolateSpec").mockReturnValue(spec);
+      vi.spyOn(plan, "planDeployment").mockResolvedValue(deploymentPlan);
+      vi.spyOn(plan, "reportPlan").mockResolvedValue(undefined);
+      vi.spyOn(diff, "diffStack").mockResolvedValue([]);
+      vi.spyOn(diff, "reportDiff").mockResolvedValue(undefined);
+      vi.spyOn(monitoring, "monitorDeployment").mockResolvedValue(undefined);
+      vi.spyOn(variables, "pruneVariables").mockResolvedValue(undefined);
+      vi.spyOn(variables, "removeGeneratedVariableFiles").mockResolvedValue(
+        undefined,
+      );
+
+      await expect(deploy(settings)).resolves.toEqual(spec);
+
+      expect(plan.planDeployment).toHaveBeenCalledWith(spec, settings);
+      expect(plan.reportPlan).toHaveBeenCalledWith(deploymentPlan);
+      expect(diff.diffStack).toHaveBeenCalledWith(spec, settings);
+      expect(engine.deployStack).not.toHaveBeenCalled();
+      expect(monitoring.monitorDeployment).not.toHaveBeenCalled();
+      expect(variables.pruneVariables).not.toHaveBeenCalled();
+      expect(variables.removeGeneratedVariableFiles).toHaveBeenCalled();
+    });
+  });
+
+  describe("Preview", () => {
+    it("should deploy the spec rewritten for the pull request", async () => {
+      const settings = defineSettings({
+        envVarPrefix: "",
+        keyInterpolation: false,
+        manageVariables: true,
+        monitor: false,
+        monitorInterval: 0,
+        monitorTimeout: 0,
+        pullRequest: 42,
+        stack: "test-stack-pr-42",
+        strictVariables: false,
+        variables: new Map(),
+        version: "1.2.3",
+      });
+      const spec = {
+        services: { web: { image: "nginx:latest", ports: ["80:80"] } },
+      };
+
+      vi.spyOn(compose, "resolveComposeFiles").mockResolvedValue([
+        "docker-compose.yaml",
+      ]);
+      vi.spyOn(compose, "loadComposeSpecs").mockResolvedValue([
+        { spec, baseDir: "." },
+      ]);
+      vi.spyOn(compose, "normalizeSpec").mockResolvedValue(spec);
+      vi.spyOn(compose, "interpolateSpec").mockReturnValue(spec);
+      vi.spyOn(preview, "rewriteForPreview");
+      vi.spyOn(variables, "pruneVariables").mockResolvedValue(undefined);
+      vi.spyOn(variables, "removeGeneratedVariableFiles").mockResolvedValue(
+        undefined,
+      );
+
+      const previewSpec = {
+        services: { web: { image: "nginx:latest", ports: ["80"] } },
+      };
+
+      await expect(deploy(settings)).resolves.toEqual(previewSpec);
+
+      expect(preview.rewriteForPreview).toHaveBeenCalledWith(spec, settings);
+      expect(engine.deployStack).toHaveBeenCalledWith(previewSpec, settings);
+    });
+  });
+
+  describe("Staged Deployment", () => {
+    const settings = defineSettings({
+      monitor: false,
+      stack: "test-stack",
+      stagedDeployment: true,
+      variables: new Map(),
+    });
+
+    function mockSpec(spec: ReturnType<typeof compose.interpolateSpec>) {
+      vi.spyOn(compose, "resolveComposeFiles").mockResolvedValue([]);
+      vi.spyOn(compose, "loadComposeSpecs").mockResolvedValue([]);
+      vi.spyOn(compose, "normalizeSpec").mockResolvedValue(spec);
+      vi.spyOn(compose, "interpolateSpec").mockReturnValue(spec);
+      vi.spyOn(variables, "pruneVariables").mockResolvedValue(undefined);
+      vi.spyOn(variables, "removeGeneratedVariableFiles").mockResolvedValue();
+      vi.spyOn(staging, "deployInWaves").mockResolvedValue();
+    }
+
+    it("should deploy in waves following the dependencies", async () => {
+      mockSpec({
+        services: {
+          web: {
+            image: "nginx",
+            depends_on: ["db"],
+            deploy: {
+              labels: {
+                [`${staging.dependsOnLabelPrefix}db`]: "service_healthy",
+              },
+            },
+          },
+          db: { image: "postgres" },
+        },
+      });
+
+      const deployed = await deploy(settings);
+
+      expect(deployed.services.web).toEqual({
+        image: "nginx",
+        depends_on: ["db"],
+        deploy: { labels: {} },
+      });
+      expect(staging.deployInWaves).toHaveBeenCalledWith(
+        deployed,
+        [
+          {
+            services: ["db"],
+            conditions: new Map([["db", new Set(["service_healthy"])]]),
+          },
+          { services: ["web"], conditions: new Map() },
+        ],
+        settings,
+      );
+      expect(engine.deployStack).not.toHaveBeenCalled();
+    });
+
+    it("should deploy at once if there is only one wave", async () => {
+      mockSpec({ services: { web: { image: "nginx" } } });
+
+      await deploy(settings);
+
+      expect(staging.deployInWaves).not.toHaveBeenCalled();
+      expect(engine.deployStack).toHaveBeenCalled();
+    });
+
+    it("should fail on dependency cycles before deploying", async () => {
+      mockSpec({
+        services: {
+          web: { image: "nginx", depends_on: ["api"] },
+          api: { image: "api", depends_on: ["web"] },
+        },
+      });
+
+      await expect(deploy(settings)).rejects.toThrow(
+        "The services of the stack depend on each other in a cycle",
+      );
+      expect(engine.deployStack).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Canary Rollouts", () => {
+    const spec = {
+      services: {
+        web: { image: "nginx:2", "x-canary": { replicas: 1 } },
+      },
+    };
+    const prepared = { services: { web: { image: "nginx:2" } } };
+    const canaries = [
+      {
+        service: "web",
+        id: "web-id",
+        tasks: 1,
+        soak: 60,
+        rollout: { parallelism: 1, delay: "0s" },
+        baseline: new Set(["task-1"]),
+      },
+    ];
+
+    beforeEach(() => {
+      vi.spyOn(compose, "resolveComposeFiles").mockResolvedValue([]);
+      vi.spyOn(compose, "loadComposeSpecs").mockResolvedValue([]);
+      vi.spyOn(compose, "normalizeSpec").mockResolvedValue(spec);
+      vi.spyOn(compose, "interpolateSpec").mockReturnValue(spec);
+      vi.spyOn(variables, "pruneVariables").mockResolvedValue(undefined);
+      vi.spyOn(variables, "removeGeneratedVariableFiles").mockResolvedValue();
+      vi.spyOn(monitoring, "monitorDeployment").mockResolvedValue(undefined);
+      vi.spyOn(canary, "prepareCanaries").mockResolvedValue({
+        spec: prepared,
+        canaries,
+      });
+    });
+
+    it("should deploy the canaries, and promote them before monitoring", async () => {
+      const settings = defineSettings({
+        monitor: true,
+        stack: "test-stack",
+        variables: new Map(),
+      });
+      vi.spyOn(canary, "promoteCanaries").mockResolvedValue();
+
+      await expect(deploy(settings)).resolves.toBe(prepared);
+
+      expect(canary.prepareCanaries).toHaveBeenCalledWith(
+        spec,
+        settings,
+        new Set(),
+      );
+      expect(engine.deployStack).toHaveBeenCalledWith(prepared, settings);
+      expect(canary.promoteCanaries).toHaveBeenCalledWith(
+        canaries,
+        settings,
+        prepared,
+      );
+      expect(
+        vi.mocked(canary.promoteCanaries).mock.invocationCallOrder[0],
+      ).toBeLessThan(
+        vi.mocked(monitoring.monitorDeployment).mock.invocationCallOrder[0],
+      );
+    });
+
+    it("should not hold the services later waves wait for", async () => {
+      const settings = defineSettings({
+        monitor: true,
+        stack: "test-stack",
+        stagedDeployment: true,
+        variables: new Map(),
+      });
+      vi.mocked(compose.interpolateSpec).mockReturnValue({
+        services: {
+          db: { image: "postgres:17", "x-canary": true },
+          web: {
+            image: "nginx:2",
+            "x-canary": true,
+            depends_on: ["db"],
+            deploy: {
+              labels: {
+                [`${staging.dependsOnLabelPrefix}db`]: "service_healthy",
+              },
+            },
+          },
+        },
+      });
+      vi.spyOn(staging, "deployInWaves").mockResolvedValue();
+      vi.spyOn(canary, "promoteCanaries").mockResolvedValue();
+
+      await deploy(settings);
+
+      expect(canary.prepareCanaries).toHaveBeenCalledWith(
+        expect.anything(),
+        settings,
+        new Set(["db"]),
+      );
+      expect(
+        vi.mocked(staging.deployInWaves).mock.invocationCallOrder[0],
+      ).toBeLessThan(
+        vi.mocked(canary.promoteCanaries).mock.invocationCallOrder[0],
+      );
+    });
+
+    it("should not monitor the deployment if a canary fails", async () => {
+      const settings = defineSettings({
+        monitor: true,
+        stack: "test-stack",
+        variables: new Map(),
+      });
+      vi.spyOn(canary, "promoteCanaries").mockRejectedValue(
+        new Error('The canary of service "web" failed'),
+      );
+
+      await expect(deploy(settings)).rejects.toThrow(
+        'The canary of service "web" failed',
+      );
+      expect(monitoring.monitorDeployment).not.toHaveBeenCalled();
+    });
+
+    it("should not prepare canaries without monitoring", async () => {
+      const settings = defineSettings({
+        monitor: false,
+        stack: "test-stack",
+        variables: new Map(),
+      });
+
+      await deploy(settings);
+
+      expect(canary.prepareCanaries).not.toHaveBeenCalled();
+      expect(engine.deployStack).toHaveBeenCalledWith(spec, settings);
+    });
+  });
+
+  describe("Blue/Green Deployment", () => {
+    const settings = defineSettings({
+      monitor: true,
+      rollbackOnFailure: true,
+      routingLabel: "traefik.enable",
+      stack: "app",
+      strategy: "blue-green",
+      variables: new Map(),
+    });
+    const spec = { services: { web: { image: "nginx" } } };
+    const colors = {
+      active: "blue" as const,
+      next: "green" as const,
+      retired: ["app-blue"],
+    };
+
+    beforeEach(() => {
+      vi.spyOn(compose, "resolveComposeFiles").mockResolvedValue([]);
+      vi.spyOn(compose, "loadComposeSpecs").mockResolvedValue([]);
+      vi.spyOn(compose, "normalizeSpec").mockResolvedValue(spec);
+      vi.spyOn(compose, "interpolateSpec").mockReturnValue(spec);
+      vi.spyOn(variables, "pruneVariables").mockResolvedValue(undefined);
+      vi.spyOn(variables, "removeGeneratedVariableFiles").mockResolvedValue();
+      vi.spyOn(bluegreen, "resolveColors").mockResolvedValue(colors);
+      vi.spyOn(bluegreen, "switchColor").mockResolvedValue();
+      vi.spyOn(rollback, "snapshotStack");
+    });
+
+    it("should deploy the new color, and switch to it once it is healthy", async () => {
+      vi.spyOn(monitoring, "monitorDeployment").mockResolvedValue(undefined);
+
+      const deployed = await deploy(settings);
+      const colored = {
+        ...settings,
+        stack: "app-green",
+        variables: new Map([["MATCHORY_DEPLOYMENT_COLOR", "green"]]),
+      };
+
+      expect(deployed.services.web.deploy).toEqual({
+        labels: {
+          [bluegreen.colorLabel]: "green",
+          "traefik.enable": "false",
+        },
+      });
+      expect(engine.deployStack).toHaveBeenCalledWith(deployed, colored);
+      expect(monitoring.monitorDeployment).toHaveBeenCalledWith(
+        colored,
+        deployed,
+      );
+      expect(bluegreen.switchColor).toHaveBeenCalledWith(colors, settings);
+      expect(variables.pruneVariables).toHaveBeenCalledWith(deployed, colored);
+      expect(history.recordDeployment).toHaveBeenCalledWith(
+        deployed,
+        settings,
+        "app-green",
+      );
+      expect(rollback.snapshotStack).not.toHaveBeenCalled();
+    });
+
+    it("should remove the new color if it fails, and keep the old one", async () => {
+      const error = new Error("Service web failed");
+      vi.spyOn(monitoring, "monitorDeployment").mockRejectedValue(error);
+      vi.spyOn(bluegreen, "discardColor").mockRejectedValue(
+        new Error('Deployment failed, and "app-green" was removed'),
+      );
+
+      await expect(deploy(settings)).rejects.toThrow(
+        'Deployment failed, and "app-green" was removed',
+      );
+      expect(bluegreen.discardColor).toHaveBeenCalledWith(
+        expect.objectContaining({ stack: "app-green" }),
+        error,
+      );
+      expect(bluegreen.switchColor).not.toHaveBeenCalled();
+    });
+
+    it("should remove the new color if deploying it fails", async () => {
+      const error = new Error("Network not found");
+      vi.mocked(engine.deployStack).mockRejectedValue(error);
+      vi.spyOn(monitoring, "monitorDeployment");
+      vi.spyOn(bluegreen, "discardColor").mockRejectedValue(
+        new Error('Deployment failed, and "app-green" was removed'),
+      );
+
+      await expect(deploy(settings)).rejects.toThrow(
+        'Deployment failed, and "app-green" was removed',
+      );
+      expect(bluegreen.discardColor).toHaveBeenCalledWith(
+        expect.objectContaining({ stack: "app-green" }),
+        error,
+      );
+      expect(monitoring.monitorDeployment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Image Digests", () => {
+    it("should deploy and plan with images pinned to their digest", async () => {
+      const settings = defineSettings({
+        envVarPrefix: "",
+        keyInterpolation: false,
+        manageVariables: true,
+        monitor: false,
+        monitorInterval: 0,
+        monitorTimeout: 0,
+        pinImageDigests: true,
+        stack: "test-stack",
+        strictVariables: false,
+        variables: new Map(),
+        version: "1.2.3",
+      });
+      const spec = { services: { web: { image: "nginx:latest" } } };
+      const pinnedSpec = {
+        services: { web: { image: "nginx:latest@sha256:abc" } },
+      };
+      const images = [
+        { service: "web", image: "nginx:latest", digest: "sha256:abc" },
+      ];
+
+      vi.spyOn(compose, "resolveComposeFiles").mockResolvedValue([
+        "docker-compose.yaml",
+      ]);
+      vi.spyOn(compose, "loadComposeSpecs").mockResolvedValue([
+        { spec, baseDir: "." },
+      ]);
+      vi.spyOn(compose, "normalizeSpec").mockResolvedValue(spec);
+      vi.spyOn(compose, "interpolateSpec").mockReturnValue(spec);
+      vi.spyOn(digests, "pinImageDigests").mockResolvedValue({
+        spec: pinnedSpec,
+        images,
+      });
+      vi.spyOn(digests, "reportImageDigests").mockResolvedValue(undefined);
+      vi.spyOn(variables, "pruneVariables").mockResolvedValue(undefined);
+      vi.spyOn(variables, "removeGeneratedVariableFiles").mockResolvedValue(
+        undefined,
+      );
+
+      await expect(deploy(settings)).resolves.toEqual(pinnedSpec);
+
+      expect(digests.pinImageDigests).toHaveBeenCalledWith(spec, undefined);
+      expect(digests.reportImageDigests).toHaveBeenCalledWith(images);
+      expect(engine.deployStack).toHaveBeenCalledWith(pinnedSpec, settings);
+    });
+  });
+
+  describe("Pre-flight Checks", () => {
+    const settings = defineSettings({
+      checkImages: true,
+      envVarPrefix: "",
+      keyInterpolation: false,
+      manageVariables: true,
+      monitor: false,
+      monitorInterval: 0,
+      monitorTimeout: 0,
+      stack: "test-stack",
+      strictVariables: false,
+      variables: new Map(),
+      version: "1.2.3",
+    });
+    const spec = { services: { web: { image: "nginx:latst" } } };
+
+    beforeEach(() => {
+      vi.spyOn(compose, "resolveComposeFiles").mockResolvedValue([
+        "docker-compose.yaml",
+      ]);
+      vi.spyOn(compose, "loadComposeSpecs").mockResolvedValue([
+        { spec, baseDir: "." },
+      ]);
+      vi.spyOn(compose, "normalizeSpec").mockResolvedValue(spec);
+      vi.spyOn(compose, "interpolateSpec").mockReturnValue(spec);
+      vi.spyOn(variables, "removeGeneratedVariableFiles").mockResolvedValue(
+        undefined,
+      );
+    });
+
+    it("should fail before deploying if an image cannot be resolved", async () => {
+      vi.spyOn(preflight, "checkImages").mockRejectedValue(
+        new Error("1 image(s) cannot be resolved"),
+      );
+
+      await expect(deploy(settings)).rejects.toThrow(
+        "1 image(s) cannot be resolved",
+      );
+      expect(engine.deployStack).not.toHaveBeenCalled();
+      expect(variables.removeGeneratedVariableFiles).toHaveBeenCalled();
+    });
+
+    it("should check placement before deploying if enabled", async () => {
+      vi.spyOn(preflight, "checkImages").mockResolvedValue(new Map());
+      vi.spyOn(placement, "checkPlacement").mockRejectedValue(
+        new Error("1 service(s) cannot be scheduled on the Swarm"),
+      );
+
+      await expect(
+        deploy({ ...settings, checkPlacement: "fail" }),
+      ).rejects.toThrow("1 service(s) cannot be scheduled on the Swarm");
+      expect(preflight.checkImages).not.toHaveBeenCalled();
+      expect(engine.deployStack).not.toHaveBeenCalled();
+    });
+
+    it("should check capacity before deploying if enabled", async () => {
+      vi.spyOn(capacity, "checkCapacity").mockRejectedValue(
+        new Error("1 service(s) do not fit onto the Swarm"),
+      );
+
+      await expect(
+        deploy({ ...settings, checkCapacity: "fail" }),
+      ).rejects.toThrow("1 service(s) do not fit onto the Swarm");
+      expect(engine.deployStack).not.toHaveBeenCalled();
+    });
+
+    it("should reuse the resolved digests when pinning images", async () => {
+      const resolved = new Map([["nginx:latst", "sha256:abc"]]);
+      vi.spyOn(preflight, "checkImages").mockResolvedValue(resolved);
+      vi.spyOn(digests, "pinImageDigests").mockResolvedValue({
+        spec,
+        images: [],
+      });
+      vi.spyOn(digests, "reportImageDigests").mockResolvedValue(undefined);
+      vi.spyOn(variables, "pruneVariables").mockResolvedValue(undefined);
+
+      await deploy({ ...settings, pinImageDigests: true });
+
+      expect(digests.pinImageDigests).toHaveBeenCalledWith(spec, resolved);
+    });
+  });
+
+  describe("Rollback on Failure", () => {
+    const settings = defineSettings({
+      envVarPrefix: "",
+      keyInterpolation: false,
+      manageVariables: true,
+      monitor: true,
+      monitorInterval: 0,
+      monitorTimeout: 0,
+      rollbackOnFailure: true,
+      stack: "test-stack",
+      strictVariables: false,
+      variables: new Map(),
+      version: "1.2.3",
+    });
+
+    const spec = {
+      version: "3.8",
+      services: { web: { image: "nginx:latest" } },
+    };
+    const snapshot = new Map([["web", 10]]);
+
+    beforeEach(() => {
+      vi.spyOn(compose, "resolveComposeFiles").mockResolvedValue([
+        "docker-compose.yaml",
+      ]);
+      vi.spyOn(compose, "loadComposeSpecs").mockResolvedValue([
+        { spec, baseDir: "." },
+      ]);
+      vi.spyOn(compose, "normalizeSpec").mockResolvedValue(spec);
+      vi.spyOn(compose, "interpolateSpec").mockReturnValue(spec);
+      vi.spyOn(rollback, "snapshotStack").mockResolvedValue(snapshot);
+      vi.spyOn(variables, "pruneVariables").mockResolvedValue(undefined);
+      vi.spyOn(variables, "removeGeneratedVariableFiles").mockResolvedValue(
+        undefined,
+      );
+    });
+
+    it("should roll back the stack when monitoring fails", async () => {
+      const error = new Error("Service web failed");
+      vi.spyOn(monitoring, "monitorDeployment").mockRejectedValue(error);
+      vi.spyOn(rollback, "rollbackDeployment").mockRejectedValue(
+        new Error("Deployment failed and was rolled back"),
+      );
+
+      await expect(deploy(settings)).rejects.toThrowError(
+        "Deployment failed and was rolled back",
+      );
+
+      expect(rollback.snapshotStack).toHaveBeenCalledWith(settings);
+      expect(rollback.rollbackDeployment).toHaveBeenCalledWith(
+        settings,
+        snapshot,
+        error,
+      );
+      expect(variables.pruneVariables).not.toHaveBeenCalled();
+      expect(history.recordDeployment).not.toHaveBeenCalled();
+    });
+
+    it("should roll back the stack when a wave fails", async () => {
+      const staged = { ...settings, stagedDeployment: true };
+      const error = new Error("Service migrate failed");
+      vi.mocked(compose.interpolateSpec).mockReturnValue({
+        services: {
+          db: { image: "postgres" },
+          migrate: { image: "app", depends_on: ["db"] },
+          app: { image: "app", depends_on: ["migrate"] },
+        },
+      });
+      vi.mocked(engine.deployStack)
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(error);
+      vi.spyOn(monitoring, "waitForConditions").mockResolvedValue();
+      vi.spyOn(monitoring, "monitorDeployment");
+      vi.spyOn(rollback, "rollbackDeployment").mockRejectedValue(
+        new Error("Deployment failed and was rolled back"),
+      );
+
+      await expect(deploy(staged)).rejects.toThrowError(
+        "Deployment failed and was rolled back",
+      );
+
+      expect(engine.deployStack).toHaveBeenCalledTimes(2);
+      expect(rollback.rollbackDeployment).toHaveBeenCalledWith(
+        staged,
+        snapshot,
+        error,
+      );
+      expect(monitoring.monitorDeployment).not.toHaveBeenCalled();
+      expect(history.recordDeployment).not.toHaveBeenCalled();
+    });
+
+    it("should not roll back a healthy deployment", async () => {
+      vi.spyOn(monitoring, "monitorDeployment").mockResolvedValue(undefined);
+      vi.spyOn(rollback, "rollbackDeployment");
+
+      await expect(deploy(settings)).resolves.toEqual(spec);
+
+      expect(rollback.rollbackDeployment).not.toHaveBeenCalled();
+      expect(variables.pruneVariables).toHaveBeenCalled();
+      expect(history.recordDeployment).toHaveBeenCalledWith(
+        spec,
+        settings,
+        "test-stack",
+      );
+    });
   });
 
   describe("Generated Variable Files", () => {
@@ -295,4 +1000,52 @@ describe("Deployment", () => {
       expect(variables.removeGeneratedVariableFiles).toHaveBeenCalled();
     });
   });
+
+  describe("Registry Logins", () => {
+    const settings = defineSettings({
+      monitor: false,
+      registries: [
+        { registry: "ghcr.io", username: "octocat", password: "hunter2" },
+      ],
+      stack: "test-stack",
+      variables: new Map(),
+    });
+    const spec = { services: { web: { image: "ghcr.io/org/web:1.0" } } };
+
+    beforeEach(() => {
+      vi.spyOn(compose, "resolveComposeFiles").mockResolvedValue([]);
+      vi.spyOn(compose, "loadComposeSpecs").mockResolvedValue([]);
+      vi.spyOn(compose, "normalizeSpec").mockResolvedValue(spec);
+      vi.spyOn(compose, "interpolateSpec").mockReturnValue(spec);
+      vi.spyOn(variables, "pruneVariables").mockResolvedValue(undefined);
+      vi.spyOn(variables, "removeGeneratedVariableFiles").mockResolvedValue();
+      vi.spyOn(registries, "loginToRegistries").mockResolvedValue(
+        "/tmp/docker-config-abc",
+      );
+      vi.spyOn(registries, "removeRegistryConfig").mockResolvedValue();
+    });
+
+    it("should log in before deploying, and log out afterwards", async () => {
+      await deploy(settings);
+
+      expect(registries.loginToRegistries).toHaveBeenCalledWith(settings);
+      expect(
+        vi.mocked(registries.loginToRegistries).mock.invocationCallOrder[0],
+      ).toBeLessThan(vi.mocked(engine.deployStack).mock.invocationCallOrder[0]);
+      expect(registries.removeRegistryConfig).toHaveBeenCalledWith(
+        "/tmp/docker-config-abc",
+      );
+    });
+
+    it("should log out when the deployment fails", async () => {
+      vi.spyOn(engine, "deployStack").mockRejectedValue(
+        new Error("Deployment failed"),
+      );
+
+      await expect(deploy(settings)).rejects.toThrowError("Deployment failed");
+      expect(registries.removeRegistryConfig).toHaveBeenCalledWith(
+        "/tmp/docker-config-abc",
+      );
+    });
+  });
 });
@@ -0,0 +1,295 @@
+import * as core from "@actions/core";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { defineComposeSpec } from "../src/compose.js";
+import { describeChange, diffStack, reportDiff } from "../src/diff.js";
+import type { ServiceWithMetadata } from "../src/engine.js";
+import * as engine from "../src/engine.js";
+
+vi.mock("@actions/core");
+vi.mock("../src/engine.js", async (importOriginal) => ({
+  ...(await importOriginal()),
+  listServices: vi.fn(),
+}));
+
+function runningService(
+  name: string,
+  containerSpec: Record<string, unknown>,
+  extra: Record<string, unknown> = {},
+) {
+  return {
+    ID: name,
+    Name: `test_${name}`,
+    Spec: {
+      Name: `test_${name}`,
+      Labels: {},
+      TaskTemplate: { ContainerSpec: containerSpec },
+      Mode: { Replicated: { Replicas: 1 } },
+      ...extra,
+    },
+  } as unknown as ServiceWithMetadata;
+}
+
+describe("Diff", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(core.summary.addHeading).mockReturnValue(core.summary);
+    vi.mocked(core.summary.addTable).mockReturnValue(core.summary);
+  });
+
+  describe("diffStack", () => {
+    it("should report services to create and remove", async () => {
+      vi.mocked(engine.listServices).mockResolvedValue([
+        runningService("worker", { Image: "worker:1" }),
+      ]);
+
+      const diffs = await diffStack(
+        defineComposeSpec({ services: { web: { image: "nginx" } } }),
+        { stack: "test", prune: true },
+      );
+
+      expect(engine.listServices).toHaveBeenCalledWith(
+        { labels: { "com.docker.stack.namespace": "test" } },
+        true,
+      );
+      expect(diffs).toEqual([
+        { service: "web", status: "create", changes: [] },
+        { service: "worker", status: "remove", changes: [] },
+      ]);
+    });
+
+    it("should keep services missing from the spec without pruning", async () => {
+      vi.mocked(engine.listServices).mockResolvedValue([
+        runningService("worker", { Image: "worker:1" }),
+      ]);
+
+      const diffs = await diffStack(defineComposeSpec({ services: {} }), {
+        stack: "test",
+        prune: false,
+      });
+
+      expect(diffs).toEqual([
+        { service: "worker", status: "keep", changes: [] },
+      ]);
+    });
+
+    it("should ignore the digest Swarm pinned on the running image", async () => {
+      vi.mocked(engine.listServices).mockResolvedValue([
+        runningService("web", {
+          Image: "nginx:1.27@sha256:0123456789abcdef",
+        }),
+      ]);
+
+      const diffs = await diffStack(
+        defineComposeSpec({ services: { web: { image: "nginx:1.27" } } }),
+        { stack: "test", prune: true },
+      );
+
+      expect(diffs).toEqual([
+        { service: "web", status: "unchanged", changes: [] },
+      ]);
+    });
+
+    it("should fill in the tag and registry Docker implies", async () => {
+      vi.mocked(engine.listServices).mockResolvedValue([
+        runningService("web", {
+          Image: "nginx:latest@sha256:0123456789abcdef",
+        }),
+        runningService("app", {
+          Image: "docker.io/org/app:latest@sha256:0123456789abcdef",
+        }),
+        runningService("registry", { Image: "localhost:5000/app:latest" }),
+      ]);
+
+      const diffs = await diffStack(
+        defineComposeSpec({
+          services: {
+            web: { image: "docker.io/library/nginx" },
+            app: { image: "org/app" },
+            registry: { image: "localhost:5000/app" },
+          },
+        }),
+        { stack: "test", prune: true },
+      );
+
+      expect(diffs.map(({ status }) => status)).toEqual([
+        "unchanged",
+        "unchanged",
+        "unchanged",
+      ]);
+    });
+
+    it("should report an image change", async () => {
+      vi.mocked(engine.listServices).mockResolvedValue([
+        runningService("web", { Image: "nginx:1.27@sha256:0123456789abcdef" }),
+      ]);
+
+      const [diff] = await diffStack(
+        defineComposeSpec({ services: { web: { image: "nginx:1.28" } } }),
+        { stack: "test", prune: true },
+      );
+
+      expect(diff.status).toBe("update");
+      expect(diff.changes).toEqual([
+        { field: "image", before: "nginx:1.27", after: "nginx:1.28" },
+      ]);
+    });
+
+    it("should report environment changes by name", async () => {
+      vi.mocked(engine.listServices).mockResolvedValue([
+        runningService("web", {
+          Image: "nginx",
+          Env: ["KEPT=1", "CHANGED=old", "REMOVED=1"],
+        }),
+      ]);
+
+      const [diff] = await diffStack(
+        defineComposeSpec({
+          services: {
+            web: {
+              image: "nginx",
+              environment: { KEPT: "1", CHANGED: "new", ADDED: "1" },
+            },
+          },
+        }),
+        { stack: "test", prune: true },
+      );
+
+      expect(diff.changes).toEqual([
+        {
+          field: "environment",
+          added: ["ADDED"],
+          removed: ["REMOVED"],
+          changed: ["CHANGED"],
+        },
+      ]);
+    });
+
+    it("should report replica, mount, secret, and constraint changes", async () => {
+      vi.mocked(engine.listServices).mockResolvedValue([
+        runningService(
+          "web",
+          {
+            Image: "nginx",
+            Mounts: [{ Type: "volume", Source: "test_data", Target: "/data" }],
+            Secrets: [{ SecretName: "test-key-aaaaaaa" }],
+          },
+          {
+            Mode: { Replicated: { Replicas: 2 } },
+            TaskTemplate: {
+              ContainerSpec: {
+                Image: "nginx",
+                Mounts: [
+                  { Type: "volume", Source: "test_data", Target: "/data" },
+                ],
+                Secrets: [{ SecretName: "test-key-aaaaaaa" }],
+              },
+              Placement: { Constraints: ["node.role==manager"] },
+            },
+          },
+        ),
+      ]);
+
+      const [diff] = await diffStack(
+        defineComposeSpec({
+          services: {
+            web: {
+              image: "nginx",
+              volumes: [
+                { type: "volume", source: "data", target: "/data" },
+                {
+                  type: "bind",
+                  source: "/etc/app",
+                  target: "/app",
+                  read_only: true,
+                },
+              ],
+              secrets: [{ source: "key" }],
+              deploy: {
+                replicas: 3,
+                placement: { constraints: ["node.role==worker"] },
+              },
+            },
+          },
+          volumes: { data: {} },
+          secrets: { key: { name: "test-key-bbbbbbb" } },
+        }),
+        { stack: "test", prune: true },
+      );
+
+      expect(diff.changes).toEqual([
+        { field: "replicas", before: 2, after: 3 },
+        { field: "mounts", added: ["/etc/app:/app:ro"], removed: [] },
+        {
+          field: "secrets",
+          added: ["test-key-bbbbbbb"],
+          removed: ["test-key-aaaaaaa"],
+        },
+        {
+          field: "constraints",
+          added: ["node.role==worker"],
+          removed: ["node.role==manager"],
+        },
+      ]);
+    });
+
+    it("should compare global services by mode", async () => {
+      vi.mocked(engine.listServices).mockResolvedValue([
+        runningService("agent", { Image: "agent" }, { Mode: { Global: {} } }),
+      ]);
+
+      const [diff] = await diffStack(
+        defineComposeSpec({
+          services: { agent: { image: "agent", deploy: { mode: "global" } } },
+        }),
+        { stack: "test", prune: true },
+      );
+
+      expect(diff.status).toBe("unchanged");
+    });
+  });
+
+  describe("describeChange", () => {
+    it("should describe scalar changes", () => {
+      expect(describeChange({ field: "replicas", before: 1, after: 2 })).toBe(
+        "1 → 2",
+      );
+    });
+
+    it("should describe collection changes", () => {
+      expect(
+        describeChange({
+          field: "environment",
+          added: ["A"],
+          changed: ["B"],
+          removed: ["C"],
+        }),
+      ).toBe("+A, ~B, -C");
+    });
+  });
+
+  describe("reportDiff", () => {
+    it("should write the diff to the output and job summary", async () => {
+      const diffs = [
+        {
+          service: "web",
+          status: "update" as const,
+          changes: [{ field: "image" as const, before: "a", after: "b" }],
+        },
+        { service: "api", status: "unchanged" as const, changes: [] },
+      ];
+
+      await reportDiff(diffs, "test");
+
+      expect(core.setOutput).toHaveBeenCalledWith(
+        "diff",
+        JSON.stringify(diffs),
+      );
+      expect(core.summary.addTable).toHaveBeenCalledWith([
+        expect.any(Array),
+        [{ data: "web" }, { data: "update" }, { data: "image: a → b" }],
+        [{ data: "api" }, { data: "unchanged" }, { data: "-" }],
+      ]);
+      expect(core.summary.write).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import * as core from "@actions/core";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { defineComposeSpec } from "../src/compose.js";
+import {
+  imageDigestLabel,
+  imageTagLabel,
+  pinImageDigests,
+  reportImageDigests,
+} from "../src/digests.js";
+import * as engine from "../src/engine.js";
+
+vi.mock("@actions/core");
+vi.mock("../src/engine.js", async (importOriginal) => ({
+  ...(await importOriginal()),
+  inspectImageDigest: vi.fn(),
+}));
+
+const digest = `sha256:${"a".repeat(64)}`;
+
+describe("Digests", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(core.summary.addHeading).mockReturnValue(core.summary);
+    vi.mocked(core.summary.addTable).mockReturnValue(core.summary);
+    vi.mocked(engine.inspectImageDigest).mockResolvedValue(digest);
+  });
+
+  describe("pinImageDigests", () => {
+    it("should pin images to their digest and label the services", async () => {
+      const spec = defineComposeSpec({
+        services: {
+          web: {
+            image: "nginx:1.27",
+            deploy: { labels: { "com.example.team": "web" } },
+          },
+          worker: { image: "nginx:1.27", deploy: { labels: ["a=b"] } },
+        },
+      });
+
+      const { spec: pinned, images } = await pinImageDigests(spec);
+
+      expect(pinned.services.web).toEqual({
+        image: `nginx:1.27@${digest}`,
+        deploy: {
+          labels: {
+            "com.example.team": "web",
+            [imageTagLabel]: "nginx:1.27",
+            [imageDigestLabel]: digest,
+          },
+        },
+      });
+      expect(pinned.services.worker).toEqual({
+        image: `nginx:1.27@${digest}`,
+        deploy: {
+          labels: [
+            "a=b",
+            `${imageTagLabel}=nginx:1.27`,
+            `${imageDigestLabel}=${digest}`,
+          ],
+        },
+      });
+      expect(images).toEqual([
+        { service: "web", image: "nginx:1.27", digest },
+        { service: "worker", image: "nginx:1.27", digest },
+      ]);
+      expect(engine.inspectImageDigest).toHaveBeenCalledOnce();
+      expect(spec.services.web.image).toBe("nginx:1.27");
+    });
+
+    it("should leave pinned images and services without images alone", async () => {
+      const spec = defineComposeSpec({
+        services: {
+          web: { image: `nginx@${digest}` },
+          app: { build: "." },
+        },
+      });
+
+      const { spec: pinned, images } = await pinImageDigests(spec);
+
+      expect(pinned).toEqual(spec);
+      expect(images).toEqual([]);
+      expect(engine.inspectImageDigest).not.toHaveBeenCalled();
+    });
+
+    it("should fail if an image cannot be resolved", async () => {
+      vi.mocked(engine.inspectImageDigest).mockRejectedValue(
+        new Error('Failed to resolve the digest of image "nginx:nope"'),
+      );
+
+      await expect(
+        pinImageDigests({ services: { web: { image: "nginx:nope" } } }),
+      ).rejects.toThrow('Failed to resolve the digest of image "nginx:nope"');
+    });
+  });
+
+  describe("reportImageDigests", () => {
+    it("should report the tag to digest mapping", async () => {
+      await reportImageDigests([
+        { service: "web", image: "nginx:1.27", digest },
+      ]);
+
+      expect(core.setOutput).toHaveBeenCalledWith(
+        "image-digests",
+        JSON.stringify({ "nginx:1.27": digest }),
+      );
+      expect(core.summary.addTable).toHaveBeenCalledWith([
+        expect.any(Array),
+        [
+          { data: "web" },
+          { data: "nginx:1.27" },
+          { data: `<code>${digest}</code>` },
+        ],
+      ]);
+      expect(core.summary.write).toHaveBeenCalled();
+    });
+
+    it("should not add an empty table to the summary", async () => {
+      await reportImageDigests([]);
+
+      expect(core.setOutput).toHaveBeenCalledWith("image-digests", "{}");
+      expect(core.summary.addTable).not.toHaveBeenCalled();
+    });
+  });
+});
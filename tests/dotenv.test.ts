@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import { parseDotenv } from "../src/dotenv.js";
+
+describe("Dotenv", () => {
+  function parse(
+    content: string,
+    lookup = new Map<string, string>(),
+    literalValues = new Map<string, string>(),
+  ) {
+    return Object.fromEntries(
+      parseDotenv(content, ".env", lookup, literalValues),
+    );
+  }
+
+  it("should parse unquoted values", () => {
+    expect(
+      parse(
+        "# Comment\n\nexport HOST = example.com \nPORT=80 # inline comment\n" +
+          "ANCHOR=page#top\nEMPTY=\n",
+      ),
+    ).toEqual({
+      HOST: "example.com",
+      PORT: "80",
+      ANCHOR: "page#top",
+      EMPTY: "",
+    });
+  });
+
+  it("should take single-quoted values literally", () => {
+    expect(parse("PATTERN='^\\d+ ${HOME} # not a comment'\n")).toEqual({
+      PATTERN: "^\\d+ ${HOME} # not a comment",
+    });
+  });
+
+  it("should unescape double-quoted values", () => {
+    expect(
+      parse('MESSAGE="Hello,\\n\\t\\"World\\" \\$5 \\\\ \\d" # greeting\n'),
+    ).toEqual({ MESSAGE: 'Hello,\n\t"World" $5 \\ \\d' });
+  });
+
+  it("should parse values spanning multiple lines", () => {
+    expect(
+      parse(
+        'CERT="-----BEGIN CERTIFICATE-----\n  MIIB\n-----END CERTIFICATE-----"\n' +
+          "SCRIPT='echo a\necho b'\nNEXT=1\n",
+      ),
+    ).toEqual({
+      CERT: "-----BEGIN CERTIFICATE-----\n  MIIB\n-----END CERTIFICATE-----",
+      SCRIPT: "echo a\necho b",
+      NEXT: "1",
+    });
+  });
+
+  it("should interpolate earlier keys, and the lookup variables", () => {
+    expect(
+      parse(
+        "HOST=db\nURL=postgres://${HOST}:${PORT:-5432}/$NAME\nHOST=cache\n" +
+          'QUOTED="${HOST}"\n',
+        new Map([
+          ["NAME", "app"],
+          ["HOST", "localhost"],
+        ]),
+      ),
+    ).toEqual({
+      HOST: "cache",
+      URL: "postgres://db:5432/app",
+      QUOTED: "cache",
+    });
+  });
+
+  it("should not interpolate the values of earlier keys again", () => {
+    expect(
+      parse(
+        "PASSWORD='pa$word'\nCOPY=${PASSWORD}\nLITERAL=${LOOKUP}\n",
+        new Map([
+          ["LOOKUP", "$word"],
+          ["word", "oops"],
+        ]),
+        new Map([["LOOKUP", "$word"]]),
+      ),
+    ).toEqual({ PASSWORD: "pa$word", COPY: "pa$word", LITERAL: "$word" });
+  });
+
+  it("should take the value of bare keys from the lookup variables", () => {
+    expect(parse("TOKEN\nMISSING\n", new Map([["TOKEN", "abc"]]))).toEqual({
+      TOKEN: "abc",
+    });
+  });
+
+  it("should handle Windows line endings", () => {
+    expect(parse("A=1\r\nB='2'\r\n")).toEqual({ A: "1", B: "2" });
+  });
+
+  it("should reject unterminated quotes", () => {
+    expect(() => parse('A=1\nKEY="value\nB=2\n')).toThrow(
+      'The value of "KEY" on line 2 of the environment file ".env" is ' +
+        'missing its closing quote (").',
+    );
+  });
+
+  it("should reject characters after the closing quote", () => {
+    expect(() => parse("KEY='a'b\n")).toThrow(
+      'The value of "KEY" on line 1 of the environment file ".env" is ' +
+        "followed by unexpected characters after its closing quote.",
+    );
+  });
+
+  it("should reject invalid lines", () => {
+    expect(() => parse("A=1\n1KEY=value\n")).toThrow(
+      'Line 2 of the environment file ".env" is not a valid assignment',
+    );
+  });
+
+  it("should report failed interpolations", () => {
+    expect(() => parse("KEY=${REQUIRED:?must be set}\n")).toThrow(
+      'Failed to interpolate the value of "KEY" on line 1 of the ' +
+        'environment file ".env": Failed to resolve variable REQUIRED: it is ' +
+        "required but has no value: must be set",
+    );
+  });
+});
@@ -0,0 +1,422 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import * as core from "@actions/core";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as engine from "../src/engine.js";
+import {
+  bindEngineApi,
+  createEngineApi,
+  demultiplexStream,
+  type EngineEndpoint,
+  requestEngine,
+} from "../src/engine-api.js";
+import * as utils from "../src/utils.js";
+
+vi.mock("@actions/core");
+vi.mock("../src/engine.js", async (importOriginal) => ({
+  ...(await importOriginal()),
+  inspectContext: vi.fn(),
+}));
+
+type Route = (request: IncomingMessage, url: URL) => [number, unknown];
+
+function frame(stream: number, payload: string) {
+  const header = Buffer.alloc(8);
+  header[0] = stream;
+  header.writeUInt32BE(Buffer.byteLength(payload), 4);
+
+  return Buffer.concat([header, Buffer.from(payload)]);
+}
+
+describe("Engine API", () => {
+  let directory: string;
+  let server: Server;
+  let endpoint: EngineEndpoint;
+  let routes: Record<string, Route>;
+  let requests: URL[];
+
+  async function listen(target: string | number) {
+    server = createServer((request, response) => {
+      const url = new URL(request.url ?? "/", "http://docker");
+      const route = routes[url.pathname];
+
+      requests.push(url);
+
+      if (!route) {
+        response.writeHead(404, { "Content-Type": "application/json" });
+        response.end(JSON.stringify({ message: "page not found" }));
+
+        return;
+      }
+
+      const [status, body] = route(request, url);
+
+      response.writeHead(status);
+      response.end(Buffer.isBuffer(body) ? body : JSON.stringify(body ?? null));
+    });
+
+    await new Promise<void>((resolve) => server.listen(target, resolve));
+  }
+
+  beforeEach(async () => {
+    vi.resetAllMocks();
+    directory = await mkdtemp(join(tmpdir(), "engine-api-"));
+    routes = {};
+    requests = [];
+    endpoint = { socketPath: join(directory, "docker.sock") };
+    await listen(endpoint.socketPath);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await new Promise((resolve) => server.close(resolve));
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  describe("listServices", () => {
+    const service = {
+      ID: "abc",
+      Version: { Index: 12 },
+      Spec: {
+        Name: "test_web",
+        Labels: { "com.example.description": "a, b, and c" },
+        TaskTemplate: {
+          ContainerSpec: { Image: "nginx:1.27@sha256:0123456789abcdef" },
+        },
+        Mode: { Replicated: { Replicas: 2 } },
+      },
+      Endpoint: {
+        Ports: [{ PublishedPort: 8080, TargetPort: 80, Protocol: "tcp" }],
+      },
+      ServiceStatus: { RunningTasks: 1, DesiredTasks: 2 },
+    };
+
+    beforeEach(() => {
+      routes["/services"] = () => [200, [service]];
+    });
+
+    it("should describe services like the CLI does", async () => {
+      const services = await bindEngineApi(endpoint).listServices({
+        labels: { "com.docker.stack.namespace": "test" },
+        mode: "replicated",
+      });
+
+      expect(services).toEqual([
+        {
+          ID: "abc",
+          Name: "test_web",
+          Mode: "replicated",
+          Replicas: "1/2",
+          Image: "nginx:1.27",
+          Ports: "*:8080->80/tcp",
+        },
+      ]);
+      expect(requests[0].searchParams.get("status")).toBe("true");
+      expect(JSON.parse(requests[0].searchParams.get("filters") ?? "")).toEqual(
+        {
+          label: { "com.docker.stack.namespace=test": true },
+          mode: { replicated: true },
+        },
+      );
+    });
+
+    it("should inspect services without additional requests", async () => {
+      const [inspected] = await bindEngineApi(endpoint).listServices(
+        { id: ["abc"] },
+        true,
+      );
+
+      expect(inspected.Version).toEqual({ Index: 12 });
+      expect(inspected.Replicas).toBe("1/2");
+      expect(inspected.Spec?.Labels).toEqual({
+        "com.example.description": "a, b, and c",
+      });
+      expect(requests).toHaveLength(1);
+    });
+  });
+
+  describe("inspectService", () => {
+    it("should inspect a service", async () => {
+      routes["/services/abc"] = () => [
+        200,
+        { ID: "abc", Version: { Index: 1 } },
+      ];
+
+      await expect(
+        bindEngineApi(endpoint).inspectService("abc"),
+      ).resolves.toEqual({ ID: "abc", Version: { Index: 1 } });
+    });
+
+    it("should report a missing service", async () => {
+      await expect(
+        bindEngineApi(endpoint).inspectService("missing"),
+      ).rejects.toThrow('Service "missing" was not found on the Swarm.');
+    });
+
+    it("should report error responses with their message", async () => {
+      routes["/services/abc"] = () => [500, { message: "swarm is down" }];
+
+      await expect(
+        bindEngineApi(endpoint).inspectService("abc"),
+      ).rejects.toThrow("Docker Engine API responded with 500: swarm is down");
+    });
+  });
+
+  describe("listServiceTasks, listStackTasks, and listRunningTasks", () => {
+    const task = {
+      ID: "t1",
+      ServiceID: "abc",
+      NodeID: "n1",
+      Slot: 2,
+      DesiredState: "running",
+      Spec: { ContainerSpec: { Image: "nginx:1.27" } },
+      Status: {
+        Timestamp: new Date(Date.now() - 5 * 60_000).toISOString(),
+        State: "running",
+        PortStatus: {
+          Ports: [{ PublishedPort: 8080, TargetPort: 80, Protocol: "tcp" }],
+        },
+      },
+    };
+
+    beforeEach(() => {
+      routes["/tasks"] = () => [200, [task]];
+      routes["/services"] = () => [200, [{ ID: "abc", Spec: { Name: "web" } }]];
+      routes["/nodes"] = () => [
+        200,
+        [{ ID: "n1", Description: { Hostname: "worker-1" } }],
+      ];
+    });
+
+    it("should describe tasks like the CLI does", async () => {
+      await expect(
+        bindEngineApi(endpoint).listServiceTasks("abc"),
+      ).resolves.toEqual([
+        {
+          ID: "t1",
+          Name: "web.2",
+          Image: "nginx:1.27",
+          Node: "worker-1",
+          DesiredState: "Running",
+          CurrentState: "Running 5 minutes ago",
+          Error: "",
+          Ports: "*:8080->80/tcp",
+        },
+      ]);
+      expect(JSON.parse(requests[0].searchParams.get("filters") ?? "")).toEqual(
+        { service: { abc: true } },
+      );
+    });
+
+    it("should name global tasks by their node, and report errors", async () => {
+      routes["/tasks"] = () => [
+        200,
+        [
+          {
+            ...task,
+            Slot: undefined,
+            DesiredState: "shutdown",
+            Status: {
+              Timestamp: new Date().toISOString(),
+              State: "failed",
+              Err: "task: non-zero exit (1)",
+            },
+          },
+        ],
+      ];
+
+      const [failed] = await bindEngineApi(endpoint).listRunningTasks();
+
+      expect(failed).toMatchObject({
+        Name: "web.n1",
+        DesiredState: "Shutdown",
+        CurrentState: expect.stringMatching(/^Failed \d+ seconds ago$/),
+        Error: "task: non-zero exit (1)",
+        Ports: "",
+      });
+      expect(JSON.parse(requests[0].searchParams.get("filters") ?? "")).toEqual(
+        { "desired-state": { running: true } },
+      );
+    });
+
+    it("should filter the tasks of a stack by its label", async () => {
+      routes["/tasks"] = () => [200, []];
+
+      await expect(
+        bindEngineApi(endpoint).listStackTasks("test"),
+      ).resolves.toEqual([]);
+      expect(JSON.parse(requests[0].searchParams.get("filters") ?? "")).toEqual(
+        { label: { "com.docker.stack.namespace=test": true } },
+      );
+      expect(requests).toHaveLength(1);
+    });
+  });
+
+  describe("getServiceLogs", () => {
+    it("should demultiplex and parse the log stream", async () => {
+      routes["/services/abc/logs"] = () => [
+        200,
+        Buffer.concat([
+          frame(1, "2024-01-01T00:00:00.000000000Z Starting\n"),
+          frame(2, "2024-01-01T00:00:01.000000000Z Failed, exiting\n"),
+        ]),
+      ];
+
+      const logs = await bindEngineApi(endpoint).getServiceLogs("abc", {
+        tail: 50,
+        since: new Date(1_700_000_000_500),
+      });
+
+      expect(logs).toEqual([
+        { timestamp: new Date("2024-01-01T00:00:00Z"), message: "Starting" },
+        {
+          timestamp: new Date("2024-01-01T00:00:01Z"),
+          message: "Failed, exiting",
+        },
+      ]);
+      expect(requests[0].searchParams.get("tail")).toBe("50");
+      expect(requests[0].searchParams.get("since")).toBe("1700000000.5");
+      expect(requests[0].searchParams.get("timestamps")).toBe("true");
+    });
+  });
+
+  describe("listSecrets and listConfigs", () => {
+    const variable = {
+      ID: "s1",
+      CreatedAt: "2024-01-01T00:00:00Z",
+      UpdatedAt: "2024-01-01T00:00:00Z",
+      Spec: {
+        Name: "test-key-aaaaaaa",
+        Labels: { "com.matchory.deployment.name": "key", note: "x,y=z" },
+      },
+    };
+
+    it("should keep label values containing commas intact", async () => {
+      routes["/secrets"] = () => [200, [variable]];
+      routes["/configs"] = () => [200, [variable]];
+      const api = bindEngineApi(endpoint);
+
+      for (const list of [api.listSecrets, api.listConfigs]) {
+        await expect(list({ labels: { stack: "test" } })).resolves.toEqual([
+          {
+            ID: "s1",
+            Name: "test-key-aaaaaaa",
+            Labels: { "com.matchory.deployment.name": "key", note: "x,y=z" },
+            CreatedAt: "2024-01-01T00:00:00Z",
+            UpdatedAt: "2024-01-01T00:00:00Z",
+          },
+        ]);
+      }
+    });
+  });
+
+  describe("requestEngine", () => {
+    it("should retry requests that receive no data in time", async () => {
+      await new Promise((resolve) => server.close(resolve));
+      server = createServer((request) =>
+        requests.push(new URL(request.url ?? "/", "http://docker")),
+      );
+      await new Promise<void>((resolve) =>
+        server.listen((endpoint as { socketPath: string }).socketPath, resolve),
+      );
+      vi.spyOn(utils, "sleep").mockResolvedValue();
+
+      await expect(requestEngine(endpoint, "/_ping", {}, 50)).rejects.toThrow(
+        'The request to "/_ping" received no data for 0.05s',
+      );
+      expect(requests).toHaveLength(4);
+      expect(core.warning).toHaveBeenCalledWith(
+        expect.stringContaining("failed with a transient error"),
+      );
+    });
+  });
+
+  describe("demultiplexStream", () => {
+    it("should return unframed output of TTY services as-is", () => {
+      expect(demultiplexStream(Buffer.from("2024-01-01T00:00:00Z hi\n"))).toBe(
+        "2024-01-01T00:00:00Z hi\n",
+      );
+    });
+  });
+
+  describe("createEngineApi", () => {
+    it("should connect to the socket of the current context", async () => {
+      routes["/_ping"] = () => [200, "OK"];
+      routes["/secrets"] = () => [200, []];
+      vi.mocked(engine.inspectContext).mockResolvedValue({
+        Name: "default",
+        Endpoints: { docker: { Host: `unix://${endpoint.socketPath}` } },
+        Storage: { TLSPath: "<IN MEMORY>" },
+      } as engine.DockerContext);
+
+      const api = await createEngineApi();
+
+      await expect(api?.listSecrets({})).resolves.toEqual([]);
+    });
+
+    it("should connect to a TCP host", async () => {
+      await new Promise((resolve) => server.close(resolve));
+      await listen(0);
+      routes["/_ping"] = () => [200, "OK"];
+      const { port } = server.address() as AddressInfo;
+      vi.mocked(engine.inspectContext).mockResolvedValue({
+        Name: "default",
+        Endpoints: { docker: { Host: `tcp://127.0.0.1:${port}` } },
+        Storage: { TLSPath: "<IN MEMORY>" },
+      } as engine.DockerContext);
+
+      await expect(createEngineApi()).resolves.toBeDefined();
+      expect(requests[0].pathname).toBe("/_ping");
+    });
+
+    it("should report an unreachable engine", async () => {
+      vi.spyOn(utils, "sleep").mockResolvedValue();
+      vi.mocked(engine.inspectContext).mockResolvedValue({
+        Name: "remote",
+        Endpoints: { docker: { Host: "tcp://127.0.0.1:1" } },
+        Storage: { TLSPath: "<IN MEMORY>" },
+      } as engine.DockerContext);
+
+      await expect(createEngineApi()).rejects.toThrow(
+        "Failed to reach the Docker Engine API",
+      );
+      expect(utils.sleep).toHaveBeenCalledTimes(3);
+    });
+
+    it("should enable TLS for any value of DOCKER_TLS_VERIFY", async () => {
+      await new Promise((resolve) => server.close(resolve));
+      await listen(0);
+      const { port } = server.address() as AddressInfo;
+      vi.stubEnv("DOCKER_TLS_VERIFY", "true");
+      vi.stubEnv("DOCKER_CERT_PATH", directory);
+      vi.spyOn(utils, "sleep").mockResolvedValue();
+      vi.mocked(engine.inspectContext).mockResolvedValue({
+        Name: "default",
+        Endpoints: { docker: { Host: `tcp://127.0.0.1:${port}` } },
+        Storage: { TLSPath: "<IN MEMORY>" },
+      } as engine.DockerContext);
+
+      // The plain HTTP server cannot complete a TLS handshake
+      await expect(createEngineApi()).rejects.toThrow(
+        "Failed to reach the Docker Engine API",
+      );
+      expect(requests).toEqual([]);
+    });
+
+    it("should fall back to the CLI for SSH hosts", async () => {
+      vi.mocked(engine.inspectContext).mockResolvedValue({
+        Name: "remote",
+        Endpoints: { docker: { Host: "ssh://deploy@manager" } },
+        Storage: { TLSPath: "" },
+      } as engine.DockerContext);
+
+      await expect(createEngineApi()).resolves.toBeUndefined();
+      expect(core.warning).toHaveBeenCalledWith(
+        expect.stringContaining("falling back to the Docker CLI"),
+      );
+    });
+  });
+});
@@ -1,3 +1,6 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import * as core from "@actions/core";
 import { exec } from "@actions/exec";
 import { dump } from "js-yaml";
@@ -5,6 +8,7 @@ import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import type { ComposeSpec } from "../src/compose.js";
 import * as engine from "../src/engine.js";
 import { defineSettings } from "../src/settings.js";
+import * as utils from "../src/utils.js";
 
 vi.mock("@actions/core");
 vi.mock("@actions/exec");
@@ -21,6 +25,9 @@ describe("engine", () => {
     monitor: true,
     monitorInterval: 5,
     monitorTimeout: 300,
+    prune: true,
+    resolveImage: "always",
+    retryDeploy: false,
     stack: "test-stack",
     strictVariables: false,
     variables: new Map([
@@ -28,6 +35,7 @@ describe("engine", () => {
       ["MATCHORY_DEPLOYMENT_VERSION", "1.0.0"],
     ]),
     version: "1.0.0",
+    withRegistryAuth: true,
   });
 
   beforeEach(() => {
@@ -80,6 +88,33 @@ describe("engine", () => {
         `Deployed stack ${settings.stack}`,
       );
     });
+
+    it("should leave out disabled flags", async () => {
+      await engine.deployStack(
+        { services: { web: { image: "nginx" } } },
+        {
+          ...settings,
+          prune: false,
+          resolveImage: "never",
+          withRegistryAuth: false,
+        },
+      );
+
+      expect(mockedExec).toHaveBeenCalledWith(
+        "docker",
+        [
+          "stack",
+          "deploy",
+          "--quiet",
+          "--detach=true",
+          "--resolve-image=never",
+          "--compose-file",
+          "-",
+          settings.stack,
+        ],
+        expect.any(Object),
+      );
+    });
   });
 
   describe("normalizeStackSpecification", () => {
@@ -441,6 +476,56 @@ services:
     });
   });
 
+  describe("inspectTasks", () => {
+    it("should inspect the tasks", async () => {
+      const tasks = [
+        { ID: "t1", ServiceID: "svc1", CreatedAt: "2025-01-01T12:00:00Z" },
+      ];
+      mockedExec.mockImplementation(async (_0, _1, options) => {
+        options?.listeners?.stdout?.(Buffer.from(JSON.stringify(tasks)));
+        return 0;
+      });
+
+      await expect(engine.inspectTasks(["t1"])).resolves.toEqual(tasks);
+      expect(mockedExec).toHaveBeenCalledWith(
+        "docker",
+        ["inspect", "--type=task", "--format=json", "t1"],
+        expect.any(Object),
+      );
+    });
+
+    it("should not run a command without tasks", async () => {
+      await expect(engine.inspectTasks([])).resolves.toEqual([]);
+      expect(mockedExec).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("readEngineTime", () => {
+    it("should read the time of the engine", async () => {
+      mockedExec.mockImplementation(async (_0, _1, options) => {
+        options?.listeners?.stdout?.(
+          Buffer.from('"2025-01-01T12:00:00.123456789+01:00"\n'),
+        );
+        return 0;
+      });
+
+      await expect(engine.readEngineTime()).resolves.toEqual(
+        new Date("2025-01-01T11:00:00.123Z"),
+      );
+    });
+
+    it("should reject an unexpected time", async () => {
+      mockedExec.mockImplementation(async (_0, _1, options) => {
+        options?.listeners?.stdout?.(Buffer.from('"soon"'));
+        return 0;
+      });
+
+      await expect(engine.readEngineTime()).rejects.toThrow(
+        'Failed to read the time of the engine: unexpected time "soon"',
+      );
+    });
+  });
+
   describe("listSecrets", () => {
     it("should list secrets and parse labels", async () => {
       const mockSecret = {
@@ -548,6 +633,58 @@ services:
     });
   });
 
+  describe("listNetworks", () => {
+    it("should list networks by label and parse their labels", async () => {
+      mockedExec.mockImplementation(async (_0, _1, options) => {
+        options?.listeners?.stdout?.(
+          Buffer.from(
+            `${JSON.stringify({
+              ID: "n1",
+              Name: "test-stack_default",
+              Driver: "overlay",
+              Scope: "swarm",
+              Labels: "com.docker.stack.namespace=test-stack",
+            })}\n`,
+          ),
+        );
+        return 0;
+      });
+
+      const networks = await engine.listNetworks({
+        labels: { "com.docker.stack.namespace": "test-stack" },
+      });
+
+      expect(mockedExec).toHaveBeenCalledWith(
+        "docker",
+        [
+          "network",
+          "ls",
+          "--format=json",
+          "--no-trunc",
+          "--filter",
+          "label=com.docker.stack.namespace=test-stack",
+        ],
+        expect.any(Object),
+      );
+      expect(networks).toEqual([
+        {
+          ID: "n1",
+          Name: "test-stack_default",
+          Driver: "overlay",
+          Scope: "swarm",
+          Labels: { "com.docker.stack.namespace": "test-stack" },
+        },
+      ]);
+    });
+
+    it("should throw error on exec failure", async () => {
+      mockedExec.mockRejectedValue(new Error("Docker error"));
+      await expect(engine.listNetworks({})).rejects.toThrowError(
+        /Failed to list networks/,
+      );
+    });
+  });
+
   describe("removeSecret", () => {
     it("should call docker secret rm", async () => {
       await engine.removeSecret("sec1");
@@ -566,6 +703,31 @@ services:
     });
   });
 
+  describe("createConfig", () => {
+    it("should call docker config create with labels and content", async () => {
+      mockedExec.mockImplementation(async (_0, _1, options) => {
+        options?.listeners?.stdout?.(Buffer.from("cfg1\n"));
+        return 0;
+      });
+
+      await expect(
+        engine.createConfig("lock", "{}", { "com.example": "a,b" }),
+      ).resolves.toBe("cfg1");
+      expect(mockedExec).toHaveBeenCalledWith(
+        "docker",
+        ["config", "create", "--label", "com.example=a,b", "lock", "-"],
+        expect.objectContaining({ input: Buffer.from("{}") }),
+      );
+    });
+
+    it("should throw error on exec failure", async () => {
+      mockedExec.mockRejectedValue(new Error("Docker error"));
+      await expect(engine.createConfig("lock", "{}", {})).rejects.toThrowError(
+        /Failed to create config "lock"/,
+      );
+    });
+  });
+
   describe("removeConfig", () => {
     it("should call docker config rm", async () => {
       await engine.removeConfig("cfg1");
@@ -584,6 +746,735 @@ services:
     });
   });
 
+  describe("rollbackService", () => {
+    it("should call docker service rollback", async () => {
+      await engine.rollbackService("svc1");
+      expect(mockedExec).toHaveBeenCalledWith(
+        "docker",
+        ["service", "rollback", "--detach", "--quiet", "svc1"],
+        expect.any(Object),
+      );
+    });
+
+    it("should throw error on exec failure", async () => {
+      mockedExec.mockRejectedValue(new Error("Docker error"));
+      await expect(engine.rollbackService("svc1")).rejects.toThrowError(
+        /Failed to roll back service/,
+      );
+    });
+  });
+
+  describe("replaceServiceSpec", () => {
+    let directory: string;
+
+    // Stands in for the Docker CLI: answers the request it receives through
+    // `docker system dial-stdio` with the given response, and records it
+    async function fakeDialer(status: number, body: string) {
+      await writeFile(
+        join(directory, "docker"),
+        `#!${process.execPath}
+const { writeFileSync } = require("node:fs");
+let input = Buffer.alloc(0);
+process.stdin.on("data", (chunk) => {
+  input = Buffer.concat([input, chunk]);
+  const text = input.toString();
+  const end = text.indexOf("\\r\\n\\r\\n");
+  const length = Number(/content-length: (\\d+)/i.exec(text)?.[1] ?? 0);
+  if (end === -1 || input.length < end + 4 + length) return;
+  writeFileSync(${JSON.stringify(join(directory, "request"))}, JSON.stringify({
+    args: process.argv.slice(2),
+    head: text.slice(0, end),
+    body: text.slice(end + 4),
+  }));
+  process.stdout.write(
+    "HTTP/1.1 ${status} Status\\r\\nContent-Length: ${Buffer.byteLength(body)}\\r\\n" +
+      "Connection: close\\r\\n\\r\\n" +
+      ${JSON.stringify(body)},
+  );
+});
+`,
+        { mode: 0o700 },
+      );
+    }
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), "engine-dialer-"));
+      engine.useDockerEnvironment({ PATH: directory });
+      mockedExec.mockImplementation(async (_0, _1, options) => {
+        options?.listeners?.stdout?.(
+          Buffer.from(JSON.stringify([{ ID: "svc1", Version: { Index: 42 } }])),
+        );
+        return 0;
+      });
+    });
+
+    afterEach(async () => {
+      engine.useDockerEnvironment(undefined);
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it("should send the spec to the engine via the Docker CLI", async () => {
+      const spec = {
+        Name: "test_web",
+        Labels: {},
+        TaskTemplate: { ContainerSpec: { Image: "nginx:1.26" } },
+      };
+      await fakeDialer(200, "{}");
+
+      await engine.replaceServiceSpec("svc1", spec);
+
+      const request = JSON.parse(
+        await readFile(join(directory, "request"), "utf-8"),
+      );
+
+      expect(request.args).toEqual(["system", "dial-stdio"]);
+      expect(request.head).toMatch(
+        /^POST \/services\/svc1\/update\?version=42 HTTP\/1\.1\r\n/,
+      );
+      expect(JSON.parse(request.body)).toEqual(spec);
+    });
+
+    it("should report error responses with their message", async () => {
+      await fakeDialer(
+        500,
+        JSON.stringify({ message: "update out of sequence" }),
+      );
+
+      await expect(
+        engine.replaceServiceSpec("svc1", {
+          Name: "test_web",
+          Labels: {},
+          TaskTemplate: {},
+        }),
+      ).rejects.toThrowError(
+        'Failed to restore the spec of service "svc1": Docker Engine API ' +
+          "responded with 500: update out of sequence",
+      );
+    });
+  });
+
+  describe("readConfig", () => {
+    it("should decode the data of the config", async () => {
+      mockedExec.mockImplementation(async (_0, _1, options) => {
+        options?.listeners?.stdout?.(
+          Buffer.from(
+            JSON.stringify(
+              Buffer.from('[{"version":"1.0.0"}]').toString("base64"),
+            ),
+          ),
+        );
+        return 0;
+      });
+
+      await expect(engine.readConfig("cfg1")).resolves.toBe(
+        '[{"version":"1.0.0"}]',
+      );
+      expect(mockedExec).toHaveBeenCalledWith(
+        "docker",
+        ["config", "inspect", "--format={{json .Spec.Data}}", "cfg1"],
+        expect.any(Object),
+      );
+    });
+
+    it("should fail on output that is not JSON", async () => {
+      mockedExec.mockImplementation(async (_0, _1, options) => {
+        options?.listeners?.stdout?.(Buffer.from("not json"));
+        return 0;
+      });
+
+      await expect(engine.readConfig("cfg1")).rejects.toThrowError(
+        /could not be parsed as JSON/,
+      );
+    });
+  });
+
+  describe("updateServiceRollout", () => {
+    it("should call docker service update with the rollout settings", async () => {
+      await engine.updateServiceRollout("svc1", {
+        parallelism: 2,
+        delay: "10s",
+      });
+      expect(mockedExec).toHaveBeenCalledWith(
+        "docker",
+        [
+          "service",
+          "update",
+          "--detach",
+          "--quiet",
+          "--update-parallelism=2",
+          "--update-delay=10s",
+          "svc1",
+        ],
+        expect.any(Object),
+      );
+    });
+
+    it("should throw error on exec failure", async () => {
+      mockedExec.mockRejectedValue(new Error("Docker error"));
+      await expect(
+        engine.updateServiceRollout("svc1", { parallelism: 1, delay: "0s" }),
+      ).rejects.toThrowError(/Failed to update the rollout of service/);
+    });
+  });
+
+  describe("updateServiceLabels", () => {
+    it("should call docker service update with the labels", async () => {
+      await engine.updateServiceLabels("svc1", { "traefik.enable": "true" });
+      expect(mockedExec).toHaveBeenCalledWith(
+        "docker",
+        [
+          "service",
+          "update",
+          "--detach",
+          "--quiet",
+          "--label-add=traefik.enable=true",
+          "svc1",
+        ],
+        expect.any(Object),
+      );
+    });
+
+    it("should throw error on exec failure", async () => {
+      mockedExec.mockRejectedValue(new Error("Docker error"));
+      await expect(
+        engine.updateServiceLabels("svc1", { "traefik.enable": "true" }),
+      ).rejects.toThrowError(/Failed to update the labels of service/);
+    });
+  });
+
+  describe("updateServiceEnvironment", () => {
+    it("should call docker service update with the variables", async () => {
+      await engine.updateServiceEnvironment("proxy", { UPSTREAM: "app-blue" });
+      expect(mockedExec).toHaveBeenCalledWith(
+        "docker",
+        [
+          "service",
+          "update",
+          "--quiet",
+          "--env-add=UPSTREAM=app-blue",
+          "proxy",
+        ],
+        expect.any(Object),
+      );
+    });
+
+    it("should throw error on exec failure", async () => {
+      mockedExec.mockRejectedValue(new Error("Docker error"));
+      await expect(
+        engine.updateServiceEnvironment("proxy", { UPSTREAM: "app-blue" }),
+      ).rejects.toThrowError(/Failed to update the environment of service/);
+    });
+  });
+
+  describe("inspectImageDigest", () => {
+    const digest = `sha256:${"b".repeat(64)}`;
+
+    it("should resolve the manifest digest of an image", async () => {
+      mockedExec.mockImplementation(async (_0, _1, options) => {
+        options?.listeners?.stdout?.(
+          Buffer.from(
+            JSON.stringify({
+              mediaType: "application/vnd.oci.image.index.v1+json",
+              digest,
+              size: 1234,
+            }),
+          ),
+        );
+        return 0;
+      });
+
+      await expect(engine.inspectImageDigest("nginx:1.27")).resolves.toBe(
+        digest,
+      );
+      expect(mockedExec).toHaveBeenCalledWith(
+        "docker",
+        [
+          "buildx",
+          "imagetools",
+          "inspect",
+          "--format={{json .Manifest}}",
+          "nginx:1.27",
+        ],
+        expect.any(Object),
+      );
+    });
+
+    it("should fail if no digest is reported", async () => {
+      mockedExec.mockImplementation(async (_0, _1, options) => {
+        options?.listeners?.stdout?.(Buffer.from("{}"));
+        return 0;
+      });
+
+      await expect(engine.inspectImageDigest("nginx:1.27")).rejects.toThrow(
+        "the registry did not report a manifest digest",
+      );
+    });
+
+    it("should throw error on exec failure", async () => {
+      mockedExec.mockRejectedValue(new Error("Docker error"));
+      await expect(engine.inspectImageDigest("nginx:1.27")).rejects.toThrow(
+        /Failed to resolve the digest of image "nginx:1.27"/,
+      );
+    });
+  });
+
+  describe("listNodes", () => {
+    it("should inspect every node of the Swarm", async () => {
+      const nodes = [{ ID: "n1" }, { ID: "n2" }];
+      mockedExec
+        .mockImplementationOnce(async (_0, _1, options) => {
+          options?.listeners?.stdout?.(Buffer.from("n1\nn2\n"));
+          return 0;
+        })
+        .mockImplementationOnce(async (_0, _1, options) => {
+          options?.listeners?.stdout?.(Buffer.from(JSON.stringify(nodes)));
+          return 0;
+        });
+
+      await expect(engine.listNodes()).resolves.toEqual(nodes);
+      expect(mockedExec).toHaveBeenLastCalledWith(
+        "docker",
+        ["node", "inspect", "--format=json", "n1", "n2"],
+        expect.any(Object),
+      );
+    });
+
+    it("should throw error on exec failure", async () => {
+      mockedExec.mockRejectedValue(new Error("Docker error"));
+      await expect(engine.listNodes()).rejects.toThrowError(
+        /Failed to list nodes/,
+      );
+    });
+  });
+
+  describe("listRunningTasks", () => {
+    it("should list the running tasks on all nodes", async () => {
+      mockedExec.mockImplementationOnce(async (_0, _1, options) => {
+        options?.listeners?.stdout?.(Buffer.from("n1\n"));
+        return 0;
+      });
+
+      await expect(engine.listRunningTasks()).resolves.toEqual([]);
+      expect(mockedExec).toHaveBeenLastCalledWith(
+        "docker",
+        [
+          "node",
+          "ps",
+          "--format=json",
+          "--no-trunc",
+          "--filter",
+          "desired-state=running",
+          "n1",
+        ],
+        expect.any(Object),
+      );
+    });
+
+    it("should throw error on exec failure", async () => {
+      mockedExec.mockRejectedValue(new Error("Docker error"));
+      await expect(engine.listRunningTasks()).rejects.toThrowError(
+        /Failed to list running tasks/,
+      );
+    });
+  });
+
+  describe("removeStack", () => {
+    it("should call docker stack rm", async () => {
+      await engine.removeStack("test-stack");
+      expect(mockedExec).toHaveBeenCalledWith(
+        "docker",
+        ["stack", "rm", "test-stack"],
+        expect.any(Object),
+      );
+    });
+
+    it("should throw error on exec failure", async () => {
+      mockedExec.mockRejectedValue(new Error("Docker error"));
+      await expect(engine.removeStack("test-stack")).rejects.toThrowError(
+        /Failed to remove stack "test-stack"/,
+      );
+    });
+  });
+
+  describe("listStackTasks", () => {
+    it("should list the tasks of the stack on all nodes", async () => {
+      const task = {
+        ID: "t1",
+        Name: "test-stack_api.1",
+        Image: "img",
+        Node: "n1",
+        DesiredState: "Remove",
+        CurrentState: "Running 1 minute ago",
+        Error: "",
+        Ports: "",
+      };
+      mockedExec
+        .mockImplementationOnce(async (_0, _1, options) => {
+          options?.listeners?.stdout?.(Buffer.from("n1\nn2\n"));
+          return 0;
+        })
+        .mockImplementationOnce(async (_0, _1, options) => {
+          options?.listeners?.stdout?.(
+            Buffer.from(`${JSON.stringify(task)}\n`),
+          );
+          return 0;
+        });
+
+      await expect(engine.listStackTasks("test-stack")).resolves.toEqual([
+        task,
+      ]);
+      expect(mockedExec).toHaveBeenLastCalledWith(
+        "docker",
+        [
+          "node",
+          "ps",
+          "--format=json",
+          "--no-trunc",
+          "--filter",
+          "label=com.docker.stack.namespace=test-stack",
+          "n1",
+          "n2",
+        ],
+        expect.any(Object),
+      );
+    });
+
+    it("should return no tasks if there are none left", async () => {
+      await expect(engine.listStackTasks("test-stack")).resolves.toEqual([]);
+    });
+
+    it("should throw error on exec failure", async () => {
+      mockedExec.mockRejectedValue(new Error("Docker error"));
+      await expect(engine.listStackTasks("test-stack")).rejects.toThrowError(
+        /Failed to list tasks for stack "test-stack"/,
+      );
+    });
+  });
+
+  describe("createContext", () => {
+    it("should call docker context create with the endpoint", async () => {
+      await engine.createContext("remote", {
+        host: "tcp://manager:2376",
+        ca: "/tmp/ca.pem",
+        cert: undefined,
+      });
+      expect(mockedExec).toHaveBeenCalledWith(
+        "docker",
+        [
+          "context",
+          "create",
+          "remote",
+          "--description",
+          "Temporary context of the deployment action",
+          "--docker",
+          "host=tcp://manager:2376,ca=/tmp/ca.pem",
+        ],
+        expect.any(Object),
+      );
+    });
+
+    it("should throw error on exec failure", async () => {
+      mockedExec.mockRejectedValue(new Error("Docker error"));
+      await expect(
+        engine.createContext("remote", { host: "ssh://manager" }),
+      ).rejects.toThrowError(/Failed to create context/);
+    });
+  });
+
+  describe("useDockerEnvironment", () => {
+    afterEach(() => {
+      engine.useDockerEnvironment(undefined);
+    });
+
+    it("should apply the environment to every command", async () => {
+      vi.stubEnv("DOCKER_HOST", "unix:///var/run/docker.sock");
+      engine.useDockerEnvironment({ DOCKER_CONTEXT: "remote" });
+
+      await engine.removeSecret("sec1");
+      await engine.deployStack({ services: {} }, settings);
+
+      const [[, , removeOptions], [, , deployOptions]] = mockedExec.mock.calls;
+      expect(removeOptions?.env).toEqual(
+        expect.objectContaining({ DOCKER_CONTEXT: "remote" }),
+      );
+      expect(removeOptions?.env).not.toHaveProperty("DOCKER_HOST");
+      expect(deployOptions?.env).toEqual({
+        MATCHORY_DEPLOYMENT_STACK: "test-stack",
+        MATCHORY_DEPLOYMENT_VERSION: "1.0.0",
+        DOCKER_CONTEXT: "remote",
+      });
+      vi.unstubAllEnvs();
+    });
+
+    it("should leave commands alone without an environment", async () => {
+      await engine.removeSecret("sec1");
+
+      expect(mockedExec.mock.calls[0][2]?.env).toBeUndefined();
+    });
+  });
+
+  describe("retries", () => {
+    // Fails with the given stderr output the first `failures` times
+    function failWith(stderr: string, failures: number) {
+      let calls = 0;
+
+      mockedExec.mockImplementation(async (_0, _1, options) => {
+        if (calls++ < failures) {
+          options?.listeners?.stderr?.(Buffer.from(stderr));
+
+          throw new Error("The process 'docker' failed with exit code 1");
+        }
+
+        return 0;
+      });
+    }
+
+    beforeEach(() => {
+      vi.spyOn(utils, "sleep").mockResolvedValue(undefined);
+    });
+
+    it("should retry read-only commands on transient errors", async () => {
+      failWith(
+        "Error response from daemon: rpc error: code = Unavailable desc = " +
+          "connection error",
+        2,
+      );
+
+      await expect(engine.listNodes()).resolves.toEqual([]);
+
+      expect(utils.sleep).toHaveBeenCalledTimes(2);
+      expect(utils.sleep).toHaveBeenNthCalledWith(1, 1000);
+      expect(utils.sleep).toHaveBeenNthCalledWith(2, 2000);
+      expect(mockedCore.warning).toHaveBeenCalledWith(
+        expect.stringContaining(
+          "docker node ls failed with a transient error, retrying in 1s " +
+            "(attempt 1 of 4)",
+        ),
+      );
+    });
+
+    it("should give up after the last attempt", async () => {
+      failWith("dial tcp 10.0.0.1:2376: connect: connection refused", 10);
+
+      await expect(engine.listNodes()).rejects.toThrowError(
+        /Failed to execute Docker Command/,
+      );
+
+      expect(mockedExec).toHaveBeenCalledTimes(4);
+      expect(utils.sleep).toHaveBeenLastCalledWith(4000);
+    });
+
+    it("should not retry other errors", async () => {
+      failWith("Error response from daemon: This node is not a manager", 1);
+
+      await expect(engine.listNodes()).rejects.toThrowError();
+
+      expect(mockedExec).toHaveBeenCalledOnce();
+      expect(utils.sleep).not.toHaveBeenCalled();
+    });
+
+    it("should not retry the deployment unless allowed", async () => {
+      failWith("context deadline exceeded", 1);
+
+      await expect(
+        engine.deployStack({ services: {} }, settings),
+      ).rejects.toThrowError();
+      expect(mockedExec).toHaveBeenCalledOnce();
+
+      failWith("context deadline exceeded", 1);
+
+      await engine.deployStack(
+        { services: {} },
+        { ...settings, retryDeploy: true },
+      );
+      expect(mockedExec).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe("isTransientFailure", () => {
+    it.each([
+      "dial unix /var/run/docker.sock: connect: connection refused",
+      "rpc error: code = Unavailable desc = the connection is unavailable",
+      "rpc error: code = DeadlineExceeded desc = context deadline exceeded",
+      "read tcp 10.0.0.2:51234->10.0.0.1:2376: read: connection reset by peer",
+      "error during connect: Get http://docker/v1.47/services: unexpected EOF",
+      "write |1: broken pipe",
+    ])("should classify %j as transient", (message) => {
+      expect(engine.isTransientFailure(message)).toBe(true);
+    });
+
+    it.each([
+      "rpc error: code = InvalidArgument desc = name conflicts",
+      "service web not found",
+    ])("should not classify %j as transient", (message) => {
+      expect(engine.isTransientFailure(message)).toBe(false);
+    });
+  });
+
+  describe("useDockerConfig", () => {
+    afterEach(() => {
+      engine.useDockerConfig(undefined);
+      engine.useDockerEnvironment(undefined);
+    });
+
+    it("should point every command at the configuration", async () => {
+      vi.stubEnv("DOCKER_HOST", "unix:///var/run/docker.sock");
+      engine.useDockerConfig("/tmp/docker-config");
+
+      await engine.removeSecret("sec1");
+
+      expect(mockedExec.mock.calls[0][2]?.env).toEqual(
+        expect.objectContaining({
+          DOCKER_CONFIG: "/tmp/docker-config",
+          DOCKER_HOST: "unix:///var/run/docker.sock",
+        }),
+      );
+      vi.unstubAllEnvs();
+    });
+
+    it("should combine with the environment of a remote connection", async () => {
+      vi.stubEnv("DOCKER_HOST", "unix:///var/run/docker.sock");
+      engine.useDockerEnvironment({ DOCKER_CONTEXT: "remote" });
+      engine.useDockerConfig("/tmp/docker-config");
+
+      await engine.removeSecret("sec1");
+
+      const env = mockedExec.mock.calls[0][2]?.env;
+      expect(env).toEqual(
+        expect.objectContaining({
+          DOCKER_CONFIG: "/tmp/docker-config",
+          DOCKER_CONTEXT: "remote",
+        }),
+      );
+      expect(env).not.toHaveProperty("DOCKER_HOST");
+      vi.unstubAllEnvs();
+    });
+  });
+
+  describe("loginToRegistry", () => {
+    it("should pass the password on stdin", async () => {
+      await engine.loginToRegistry({
+        registry: "ghcr.io",
+        username: "octocat",
+        password: "hunter2",
+      });
+
+      expect(mockedExec).toHaveBeenCalledWith(
+        "docker",
+        ["login", "--username", "octocat", "--password-stdin", "ghcr.io"],
+        expect.objectContaining({ input: Buffer.from("hunter2") }),
+      );
+    });
+
+    it("should throw error on exec failure", async () => {
+      mockedExec.mockRejectedValue(new Error("unauthorized"));
+      await expect(
+        engine.loginToRegistry({
+          registry: "ghcr.io",
+          username: "octocat",
+          password: "wrong",
+        }),
+      ).rejects.toThrowError(
+        /Failed to log in to registry "ghcr.io" as "octocat"/,
+      );
+    });
+  });
+
+  describe("useEngineApi", () => {
+    afterEach(() => {
+      engine.useEngineApi(undefined);
+    });
+
+    it("should serve read calls from the Engine API", async () => {
+      const api = {
+        listServices: vi.fn().mockResolvedValue([{ ID: "svc1" }]),
+        inspectService: vi.fn().mockResolvedValue({ ID: "svc1" }),
+        getServiceLogs: vi.fn().mockResolvedValue([]),
+        listSecrets: vi.fn().mockResolvedValue([]),
+        listConfigs: vi.fn().mockResolvedValue([]),
+        listServiceTasks: vi.fn().mockResolvedValue([]),
+        listStackTasks: vi.fn().mockResolvedValue([]),
+        listRunningTasks: vi.fn().mockResolvedValue([]),
+      };
+      engine.useEngineApi(api);
+
+      await expect(engine.listServices({ id: "svc1" }, true)).resolves.toEqual([
+        { ID: "svc1" },
+      ]);
+      await engine.inspectService("svc1");
+      await engine.getServiceLogs("svc1", { tail: 10 });
+      await engine.listSecrets({ labels: { stack: "test" } });
+      await engine.listConfigs({});
+      await engine.listServiceTasks("svc1");
+      await engine.listStackTasks("test");
+      await engine.listRunningTasks();
+
+      expect(api.listServices).toHaveBeenCalledWith({ id: "svc1" }, true);
+      expect(api.getServiceLogs).toHaveBeenCalledWith("svc1", {
+        tail: 10,
+        since: undefined,
+      });
+      expect(api.listSecrets).toHaveBeenCalledWith({
+        labels: { stack: "test" },
+      });
+      expect(api.listServiceTasks).toHaveBeenCalledWith("svc1");
+      expect(api.listStackTasks).toHaveBeenCalledWith("test");
+      expect(mockedExec).not.toHaveBeenCalled();
+    });
+
+    it("should wrap Engine API errors like CLI errors", async () => {
+      engine.useEngineApi({
+        listServices: vi.fn().mockRejectedValue(new Error("socket closed")),
+      } as unknown as Parameters<typeof engine.useEngineApi>[0]);
+
+      await expect(engine.listServices({})).rejects.toThrowError(
+        "Failed to list services: socket closed",
+      );
+    });
+
+    it("should wrap Engine API errors when inspecting services", async () => {
+      engine.useEngineApi({
+        inspectService: vi.fn().mockRejectedValue(new Error("socket closed")),
+        listServiceTasks: vi.fn().mockRejectedValue(new Error("socket closed")),
+      } as unknown as Parameters<typeof engine.useEngineApi>[0]);
+
+      await expect(engine.inspectService("svc1")).rejects.toThrowError(
+        'Failed to inspect service "svc1": socket closed',
+      );
+      await expect(engine.listServiceTasks("svc1")).rejects.toThrowError(
+        'Failed to list tasks for service "svc1": socket closed',
+      );
+    });
+  });
+
+  describe("inspectContext", () => {
+    it("should inspect the current context", async () => {
+      mockedExec.mockImplementation(async (_0, _1, options) => {
+        options?.listeners?.stdout?.(
+          Buffer.from(
+            JSON.stringify([
+              {
+                Name: "default",
+                Endpoints: { docker: { Host: "unix:///var/run/docker.sock" } },
+              },
+            ]),
+          ),
+        );
+        return 0;
+      });
+
+      await expect(engine.inspectContext()).resolves.toEqual({
+        Name: "default",
+        Endpoints: { docker: { Host: "unix:///var/run/docker.sock" } },
+      });
+      expect(mockedExec).toHaveBeenCalledWith(
+        "docker",
+        ["context", "inspect", "--format=json"],
+        expect.any(Object),
+      );
+    });
+  });
+
   describe("isComposePluginAvailable", () => {
     it("returns true when `docker compose version` succeeds", async () => {
       mockedExec.mockResolvedValue(0);
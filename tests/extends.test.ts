@@ -0,0 +1,347 @@
+import { resolve } from "node:path";
+import * as core from "@actions/core";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ComposeSpec } from "../src/compose.js";
+import { mergeServices, resolveExtends } from "../src/extends.js";
+import * as utils from "../src/utils.js";
+
+vi.mock("@actions/core");
+
+describe("Extends", () => {
+  // Compose files by their absolute path, as parsed
+  let files: Record<string, ComposeSpec>;
+  const loadFile = vi.fn(async (path: string) => structuredClone(files[path]));
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("GITHUB_WORKSPACE", "");
+    vi.spyOn(utils, "exists").mockImplementation(
+      async (path) => String(path) in files,
+    );
+    files = {
+      [resolve("templates/services.yaml")]: {
+        services: {
+          app: {
+            image: "my-app:latest",
+            env_file: "app.env",
+            volumes: ["./config:/etc/app:ro"],
+            deploy: { replicas: 2 },
+          },
+        },
+      },
+    };
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe("resolveExtends", () => {
+    it("should leave specs without extends alone", async () => {
+      const spec = { services: { web: { image: "nginx" } } };
+
+      await expect(
+        resolveExtends(spec, "compose.yaml", loadFile),
+      ).resolves.toBe(spec);
+    });
+
+    it("should extend a service of the same file", async () => {
+      const spec = await resolveExtends(
+        {
+          services: {
+            base: { image: "nginx", environment: { MODE: "production" } },
+            web: { extends: "base", environment: ["PORT=80"] },
+          },
+        },
+        "compose.yaml",
+        loadFile,
+      );
+
+      expect(spec.services.web).toEqual({
+        image: "nginx",
+        environment: { MODE: "production", PORT: "80" },
+      });
+      expect(loadFile).not.toHaveBeenCalled();
+    });
+
+    it("should extend a service of another file, and rebase its paths", async () => {
+      const spec = await resolveExtends(
+        {
+          services: {
+            api: {
+              extends: { file: "templates/services.yaml", service: "app" },
+              command: ["serve"],
+              deploy: { replicas: 3 },
+            },
+          },
+        },
+        "compose.yaml",
+        loadFile,
+      );
+
+      expect(spec.services.api).toEqual({
+        image: "my-app:latest",
+        env_file: resolve("templates/app.env"),
+        volumes: [`${resolve("templates/config")}:/etc/app:ro`],
+        command: ["serve"],
+        deploy: { replicas: 3 },
+      });
+      expect(core.debug).toHaveBeenCalledWith(
+        'Resolved service "api" of "compose.yaml", extending "app" of ' +
+          '"templates/services.yaml"',
+      );
+      expect(core.debug).toHaveBeenCalledWith(
+        '  from "templates/services.yaml": env_file, image, volumes',
+      );
+      expect(core.debug).toHaveBeenCalledWith(
+        '  from "compose.yaml": command, deploy',
+      );
+    });
+
+    it("should not log the values of resolved services", async () => {
+      await resolveExtends(
+        {
+          services: {
+            api: {
+              extends: { file: "templates/services.yaml", service: "app" },
+              environment: { API_KEY: "hunter2" },
+            },
+          },
+        },
+        "compose.yaml",
+        loadFile,
+      );
+
+      for (const [message] of vi.mocked(core.debug).mock.calls) {
+        expect(message).not.toContain("hunter2");
+      }
+    });
+
+    it("should take over the resources of the extended file", async () => {
+      files[resolve("templates/db.yaml")] = {
+        services: {
+          db: {
+            image: "postgres",
+            secrets: ["db_password", { source: "db_user" }],
+            configs: [{ source: "db_config", target: "/etc/db.conf" }],
+            volumes: ["db_data:/var/lib/postgresql", "./init:/init"],
+          },
+        },
+        secrets: {
+          db_password: { file: "db_password.txt" },
+          db_user: { file: "db_user.txt" },
+        },
+        configs: { db_config: { file: "/etc/db.conf" } },
+        volumes: { db_data: {}, unused: {} },
+      };
+
+      const spec = await resolveExtends(
+        {
+          services: {
+            db: { extends: { file: "templates/db.yaml", service: "db" } },
+          },
+          secrets: { db_user: { external: true } },
+        },
+        "compose.yaml",
+        loadFile,
+      );
+
+      expect(spec.secrets).toEqual({
+        db_user: { external: true },
+        db_password: { file: resolve("templates/db_password.txt") },
+      });
+      expect(spec.configs).toEqual({ db_config: { file: "/etc/db.conf" } });
+      expect(spec.volumes).toEqual({ db_data: {} });
+    });
+
+    it("should reject resources defined differently by extended files", async () => {
+      files[resolve("templates/services.yaml")].services.app = {
+        image: "my-app:latest",
+        secrets: ["key"],
+      };
+      files[resolve("templates/services.yaml")].secrets = {
+        key: { file: "key.txt" },
+      };
+      files[resolve("worker.yaml")] = {
+        services: { worker: { image: "worker", secrets: ["key"] } },
+        secrets: { key: { file: "other.txt" } },
+      };
+
+      await expect(
+        resolveExtends(
+          {
+            services: {
+              api: {
+                extends: { file: "templates/services.yaml", service: "app" },
+              },
+              worker: { extends: { file: "worker.yaml", service: "worker" } },
+            },
+          },
+          "compose.yaml",
+          loadFile,
+        ),
+      ).rejects.toThrow(
+        'The secrets "key" is defined differently in the extended Compose ' +
+          'files "templates/services.yaml" and "worker.yaml".',
+      );
+    });
+
+    it("should resolve services that extend extending services", async () => {
+      files[resolve("templates/worker.yaml")] = {
+        services: {
+          worker: {
+            extends: { file: "services.yaml", service: "app" },
+            command: ["work"],
+          },
+        },
+      };
+
+      const spec = await resolveExtends(
+        {
+          services: {
+            jobs: {
+              extends: { file: "templates/worker.yaml", service: "worker" },
+            },
+          },
+        },
+        "compose.yaml",
+        loadFile,
+      );
+
+      expect(spec.services.jobs).toMatchObject({
+        image: "my-app:latest",
+        command: ["work"],
+        env_file: resolve("templates/app.env"),
+      });
+    });
+
+    it("should reject services that extend themselves", async () => {
+      await expect(
+        resolveExtends(
+          {
+            services: {
+              a: { extends: "b" },
+              b: { extends: "a" },
+            },
+          },
+          "compose.yaml",
+          loadFile,
+        ),
+      ).rejects.toThrow(
+        'Service "a" extends itself: compose.yaml#a → compose.yaml#b → ' +
+          "compose.yaml#a",
+      );
+    });
+
+    it("should reject undefined services", async () => {
+      await expect(
+        resolveExtends(
+          {
+            services: {
+              api: {
+                extends: { file: "templates/services.yaml", service: "ap" },
+              },
+            },
+          },
+          "compose.yaml",
+          loadFile,
+        ),
+      ).rejects.toThrow(
+        'Service "compose.yaml#api" extends the service "ap", which is not ' +
+          'defined in Compose file "templates/services.yaml".',
+      );
+    });
+
+    it("should reject files outside of the workspace", async () => {
+      await expect(
+        resolveExtends(
+          {
+            services: {
+              api: { extends: { file: "../common.yaml", service: "app" } },
+            },
+          },
+          "compose.yaml",
+          loadFile,
+        ),
+      ).rejects.toThrow(
+        'Service "api" of Compose file "compose.yaml" extends a service of ' +
+          '"../common.yaml", which resolves outside the workspace directory.',
+      );
+    });
+
+    it("should reject invalid references", async () => {
+      await expect(
+        resolveExtends(
+          { services: { api: { extends: { file: "common.yaml" } } } },
+          "compose.yaml",
+          loadFile,
+        ),
+      ).rejects.toThrow(
+        'Service "api" of Compose file "compose.yaml" has an invalid ' +
+          '"extends" property',
+      );
+    });
+  });
+
+  describe("mergeServices", () => {
+    it("should replace commands and scalars", () => {
+      expect(
+        mergeServices(
+          { image: "nginx:1", command: ["a", "b"], entrypoint: "sh" },
+          { image: "nginx:2", command: ["c"] },
+        ),
+      ).toEqual({ image: "nginx:2", command: ["c"], entrypoint: "sh" });
+    });
+
+    it("should merge mappings, and mapping-like lists", () => {
+      expect(
+        mergeServices(
+          {
+            labels: ["team=web", "tier=frontend"],
+            deploy: { replicas: 1, resources: { limits: { cpus: "1" } } },
+            healthcheck: { test: ["CMD", "true"], interval: "10s" },
+          },
+          {
+            labels: { tier: "edge" },
+            deploy: { resources: { limits: { memory: "1G" } } },
+            healthcheck: { test: ["CMD", "curl", "localhost"] },
+          },
+        ),
+      ).toEqual({
+        labels: { team: "web", tier: "edge" },
+        deploy: {
+          replicas: 1,
+          resources: { limits: { cpus: "1", memory: "1G" } },
+        },
+        healthcheck: { test: ["CMD", "curl", "localhost"], interval: "10s" },
+      });
+    });
+
+    it("should combine sequences, replacing entries with the same key", () => {
+      expect(
+        mergeServices(
+          {
+            ports: ["80:80", { target: 443, published: 443 }],
+            volumes: ["data:/data", "./logs:/logs"],
+            secrets: ["db", { source: "tls", target: "cert.pem" }],
+            cap_add: ["NET_ADMIN"],
+            networks: ["frontend"],
+          },
+          {
+            ports: [{ target: 443, published: 443, mode: "host" }],
+            volumes: ["cache:/data"],
+            secrets: [{ source: "tls-v2", target: "cert.pem" }],
+            cap_add: ["NET_ADMIN", "SYS_TIME"],
+            networks: { backend: { aliases: ["api"] } },
+          },
+        ),
+      ).toEqual({
+        ports: ["80:80", { target: 443, published: 443, mode: "host" }],
+        volumes: ["cache:/data", "./logs:/logs"],
+        secrets: ["db", { source: "tls-v2", target: "cert.pem" }],
+        cap_add: ["NET_ADMIN", "SYS_TIME"],
+        networks: { frontend: null, backend: { aliases: ["api"] } },
+      });
+    });
+  });
+});
@@ -0,0 +1,441 @@
+import * as core from "@actions/core";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ConfigMetadata, ServiceWithMetadata } from "../src/engine.js";
+import * as engine from "../src/engine.js";
+import {
+  type DeploymentRecord,
+  type HistoryEntry,
+  historyLabel,
+  readDeploymentRecord,
+  readHistory,
+  recordDeployment,
+  removeHistory,
+  replacesLabel,
+  specLabel,
+} from "../src/history.js";
+import { defineSettings } from "../src/settings.js";
+import { versionLabel } from "../src/variables.js";
+
+vi.mock("@actions/core");
+
+describe("History", () => {
+  const settings = defineSettings({
+    historyLimit: 2,
+    rollbackTo: "previous",
+    secretValues: new Map([["API_KEY", "hunter2"]]),
+    stack: "app",
+    version: "1.2.0",
+  });
+  const spec = {
+    services: { web: { image: "nginx", environment: { KEY: "hunter2" } } },
+  };
+
+  function config(ID: string, CreatedAt: string): ConfigMetadata {
+    return {
+      ID,
+      Name: `app-deployment-history-${ID}`,
+      Labels: { [historyLabel]: "app" },
+      CreatedAt,
+      UpdatedAt: CreatedAt,
+    };
+  }
+
+  function specConfig(
+    ID: string,
+    version: string,
+    CreatedAt: string,
+    replaces?: string,
+  ): ConfigMetadata {
+    return {
+      ID,
+      Name: `app-deployment-spec-${ID}`,
+      Labels: {
+        [specLabel]: "app",
+        [versionLabel]: version,
+        ...(replaces === undefined ? {} : { [replacesLabel]: replaces }),
+      },
+      CreatedAt,
+      UpdatedAt: CreatedAt,
+    };
+  }
+
+  // History configs and spec configs, as listed by their labels
+  function mockConfigs(
+    history: ConfigMetadata[],
+    specs: ConfigMetadata[] = [],
+  ) {
+    vi.spyOn(engine, "listConfigs").mockImplementation(async ({ labels }) =>
+      labels && specLabel in labels ? specs : history,
+    );
+  }
+
+  function createdConfig(label: string) {
+    return vi
+      .mocked(engine.createConfig)
+      .mock.calls.filter(([, , labels]) => labels && label in labels);
+  }
+
+  function entry(version: string): HistoryEntry {
+    return {
+      stack: "app",
+      version,
+      actor: "octocat",
+      deployedAt: "2026-01-01T00:00:00.000Z",
+      specHash: "abc",
+      images: { web: "nginx" },
+    };
+  }
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-02-01T12:00:00.000Z"));
+    vi.stubEnv("GITHUB_ACTOR", "hubot");
+    vi.stubEnv("GITHUB_SHA", "4fadb584c2bad24be4467665cc6874dc57c2034e");
+    vi.stubEnv("GITHUB_REPOSITORY", "my-org/my-app");
+    vi.stubEnv("GITHUB_RUN_ID", "42");
+    vi.stubEnv("GITHUB_SERVER_URL", "https://github.com");
+    vi.spyOn(engine, "listServices").mockResolvedValue([
+      {
+        ID: "web-id",
+        Name: "app_web",
+        Spec: {
+          Name: "app_web",
+          TaskTemplate: {
+            ContainerSpec: { Image: `nginx:1.27@sha256:${"a".repeat(64)}` },
+          },
+        },
+      },
+    ] as ServiceWithMetadata[]);
+    vi.spyOn(engine, "createConfig").mockResolvedValue("new-id");
+    vi.spyOn(engine, "removeConfig").mockResolvedValue();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  describe("recordDeployment", () => {
+    it("should start the history of a stack", async () => {
+      mockConfigs([]);
+
+      await recordDeployment(spec, settings);
+
+      const [[name, data, labels]] = createdConfig(historyLabel);
+
+      expect(name).toBe(`app-deployment-history-${Date.now()}`);
+      expect(labels).toEqual({ [historyLabel]: "app" });
+      expect(JSON.parse(data)).toEqual([
+        {
+          stack: "app",
+          version: "1.2.0",
+          sha: "4fadb584c2bad24be4467665cc6874dc57c2034e",
+          actor: "hubot",
+          run: "https://github.com/my-org/my-app/actions/runs/42",
+          deployedAt: "2026-02-01T12:00:00.000Z",
+          specHash: expect.stringMatching(/^[0-9a-f]{64}$/),
+          images: { web: `nginx:1.27@sha256:${"a".repeat(64)}` },
+        },
+      ]);
+      expect(engine.removeConfig).not.toHaveBeenCalled();
+    });
+
+    it("should hash the spec with secret values redacted", async () => {
+      mockConfigs([]);
+
+      await recordDeployment(spec, settings);
+      await recordDeployment(
+        {
+          services: { web: { image: "nginx", environment: { KEY: "s3cret" } } },
+        },
+        { ...settings, secretValues: new Map([["API_KEY", "s3cret"]]) },
+      );
+
+      const [first, second] = createdConfig(historyLabel).map(
+        ([, data]) => JSON.parse(data)[0].specHash,
+      );
+
+      expect(first).toBe(second);
+    });
+
+    it("should keep the most recent entries, and replace the old config", async () => {
+      mockConfigs([
+        config("old", "2026-01-01T00:00:00Z"),
+        config("older", "2025-12-01T00:00:00Z"),
+      ]);
+      vi.spyOn(engine, "readConfig").mockResolvedValue(
+        JSON.stringify([entry("1.1.0"), entry("1.0.0")]),
+      );
+
+      await recordDeployment(spec, settings, "app-green");
+
+      const data = JSON.parse(createdConfig(historyLabel)[0][1]);
+
+      expect(engine.listServices).toHaveBeenCalledWith(
+        { labels: { [engine.stackNamespaceLabel]: "app-green" } },
+        true,
+      );
+      expect(engine.readConfig).toHaveBeenCalledWith("old");
+      expect(data.map(({ version }: HistoryEntry) => version)).toEqual([
+        "1.2.0",
+        "1.1.0",
+      ]);
+      expect(data[0].stack).toBe("app-green");
+      expect(engine.removeConfig).toHaveBeenCalledWith("old");
+      expect(engine.removeConfig).toHaveBeenCalledWith("older");
+      expect(core.info).toHaveBeenCalledWith(
+        'Recorded version 1.2.0 in the deployment history of stack "app"; it ' +
+          "replaces version 1.1.0, deployed by octocat at " +
+          "2026-01-01T00:00:00.000Z",
+      );
+    });
+
+    it("should start over if the history cannot be read", async () => {
+      mockConfigs([config("old", "2026-01-01T00:00:00Z")]);
+      vi.spyOn(engine, "readConfig").mockResolvedValue("{not json");
+
+      await recordDeployment(spec, settings);
+
+      const data = JSON.parse(createdConfig(historyLabel)[0][1]);
+
+      expect(data).toHaveLength(1);
+      expect(core.warning).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'The deployment history in config "app-deployment-history-old" ' +
+            "cannot be read",
+        ),
+      );
+    });
+
+    it("should record the redacted spec of the version", async () => {
+      mockConfigs([]);
+
+      await recordDeployment(spec, settings, "app-green");
+
+      const [[name, data, labels]] = createdConfig(specLabel);
+
+      expect(name).toBe(`app-deployment-spec-${Date.now()}`);
+      expect(labels).toEqual({
+        [specLabel]: "app",
+        [versionLabel]: "1.2.0",
+        [replacesLabel]: "",
+      });
+      expect(JSON.parse(data)).toEqual({
+        stack: "app-green",
+        version: "1.2.0",
+        deployedAt: "2026-02-01T12:00:00.000Z",
+        spec: {
+          services: {
+            web: { image: "nginx", environment: { KEY: "${API_KEY}" } },
+          },
+        },
+      });
+    });
+
+    it("should point the spec to the version it replaced", async () => {
+      mockConfigs(
+        [],
+        [
+          specConfig("spec-older", "1.0.0", "2025-12-01T00:00:00Z"),
+          specConfig("spec-old", "1.1.0", "2026-01-01T00:00:00Z"),
+        ],
+      );
+
+      await recordDeployment(spec, settings);
+
+      expect(createdConfig(specLabel)[0][2]).toHaveProperty(
+        [replacesLabel],
+        "1.1.0",
+      );
+    });
+
+    it("should point a rollback to the version the restored one replaced", async () => {
+      mockConfigs(
+        [],
+        [specConfig("spec-bad", "1.3.0", "2026-01-01T00:00:00Z", "1.2.0")],
+      );
+
+      await recordDeployment(spec, settings, "app", {
+        stack: "app",
+        version: "1.2.0",
+        deployedAt: "2025-12-01T00:00:00Z",
+        spec,
+        replaces: "1.1.0",
+      });
+
+      expect(createdConfig(specLabel)[0][2]).toHaveProperty(
+        [replacesLabel],
+        "1.1.0",
+      );
+    });
+
+    it("should keep as many specs as the history has entries", async () => {
+      mockConfigs(
+        [],
+        [
+          specConfig("spec-older", "1.0.0", "2025-12-01T00:00:00Z"),
+          specConfig("spec-old", "1.1.0", "2026-01-01T00:00:00Z"),
+        ],
+      );
+
+      await recordDeployment(spec, settings);
+
+      expect(engine.removeConfig).toHaveBeenCalledExactlyOnceWith("spec-older");
+    });
+
+    it("should only warn if the history cannot be recorded", async () => {
+      mockConfigs([]);
+      vi.mocked(engine.createConfig).mockRejectedValue(
+        new Error('Failed to create config "app-deployment-history"'),
+      );
+
+      await expect(recordDeployment(spec, settings)).resolves.toBeUndefined();
+      expect(core.warning).toHaveBeenCalledWith(
+        'Failed to record the deployment in the history of stack "app": ' +
+          'Error: Failed to create config "app-deployment-history"',
+      );
+    });
+
+    it("should record nothing without a history limit", async () => {
+      vi.spyOn(engine, "listConfigs");
+
+      await recordDeployment(spec, { ...settings, historyLimit: 0 });
+
+      expect(engine.listConfigs).not.toHaveBeenCalled();
+      expect(engine.createConfig).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("readHistory", () => {
+    it("should read the entries of the most recent config", async () => {
+      vi.spyOn(engine, "listConfigs").mockResolvedValue([
+        config("older", "2025-12-01T00:00:00Z"),
+        config("old", "2026-01-01T00:00:00Z"),
+      ]);
+      vi.spyOn(engine, "readConfig").mockResolvedValue(
+        JSON.stringify([entry("1.1.0")]),
+      );
+
+      await expect(readHistory(settings)).resolves.toEqual([entry("1.1.0")]);
+      expect(engine.readConfig).toHaveBeenCalledWith("old");
+    });
+
+    it("should be empty for stacks without a history", async () => {
+      vi.spyOn(engine, "listConfigs").mockResolvedValue([]);
+
+      await expect(readHistory(settings)).resolves.toEqual([]);
+    });
+  });
+
+  describe("readDeploymentRecord", () => {
+    const record: DeploymentRecord = {
+      stack: "app",
+      version: "1.1.0",
+      deployedAt: "2026-01-01T00:00:00.000Z",
+      spec,
+    };
+
+    beforeEach(() => {
+      mockConfigs(
+        [],
+        [
+          specConfig("spec-older", "1.0.0", "2025-12-01T00:00:00Z"),
+          specConfig("spec-latest", "1.2.0", "2026-02-01T00:00:00Z"),
+          specConfig("spec-old", "1.1.0", "2026-01-01T00:00:00Z"),
+        ],
+      );
+      vi.spyOn(engine, "readConfig").mockResolvedValue(JSON.stringify(record));
+    });
+
+    it("should read the spec deployed before the current one", async () => {
+      await expect(readDeploymentRecord(settings)).resolves.toEqual(record);
+      expect(engine.readConfig).toHaveBeenCalledWith("spec-old");
+    });
+
+    it("should read the spec of the version the current one replaced", async () => {
+      // 1.1.0 was rolled back to 1.0.0, after 1.2.0 failed
+      mockConfigs(
+        [],
+        [
+          specConfig("spec-v1", "1.0.0", "2025-11-01T00:00:00Z", ""),
+          specConfig("spec-v1.1", "1.1.0", "2025-12-01T00:00:00Z", "1.0.0"),
+          specConfig("spec-v1.2", "1.2.0", "2026-01-01T00:00:00Z", "1.1.0"),
+          specConfig("spec-rollback", "1.1.0", "2026-02-01T00:00:00Z", "1.0.0"),
+        ],
+      );
+
+      await expect(readDeploymentRecord(settings)).resolves.toEqual({
+        ...record,
+        replaces: "",
+      });
+      expect(engine.readConfig).toHaveBeenCalledWith("spec-v1");
+    });
+
+    it("should fail if the current version replaced none", async () => {
+      mockConfigs(
+        [],
+        [
+          specConfig("spec-v1", "1.0.0", "2025-11-01T00:00:00Z", ""),
+          specConfig("spec-rollback", "1.0.0", "2026-02-01T00:00:00Z", ""),
+        ],
+      );
+
+      await expect(readDeploymentRecord(settings)).rejects.toThrow(
+        'The current deployment of stack "app", version 1.0.0, did not ' +
+          "replace a recorded one",
+      );
+    });
+
+    it("should read the spec of a version", async () => {
+      await readDeploymentRecord({ ...settings, rollbackTo: "1.0.0" });
+
+      expect(engine.readConfig).toHaveBeenCalledWith("spec-older");
+    });
+
+    it("should list the recorded versions if a version is unknown", async () => {
+      await expect(
+        readDeploymentRecord({ ...settings, rollbackTo: "0.9.0" }),
+      ).rejects.toThrow(
+        'Version "0.9.0" is not among the recorded deployments of stack ' +
+          '"app": 1.2.0, 1.1.0, 1.0.0.',
+      );
+    });
+
+    it("should fail if there is no previous version", async () => {
+      mockConfigs([], [specConfig("spec", "1.2.0", "2026-02-01T00:00:00Z")]);
+
+      await expect(readDeploymentRecord(settings)).rejects.toThrow(
+        'Stack "app" has a single recorded deployment, version 1.2.0',
+      );
+    });
+
+    it("should fail if there are no recorded deployments", async () => {
+      mockConfigs([], []);
+
+      await expect(readDeploymentRecord(settings)).rejects.toThrow(
+        'Stack "app" has no recorded deployments to roll back to.',
+      );
+    });
+  });
+
+  describe("removeHistory", () => {
+    it("should remove the history and specs of the stack", async () => {
+      mockConfigs(
+        [config("old", "2026-01-01T00:00:00Z")],
+        [specConfig("spec-old", "1.1.0", "2026-01-01T00:00:00Z")],
+      );
+
+      await removeHistory(settings);
+
+      expect(engine.listConfigs).toHaveBeenCalledWith({
+        labels: { [historyLabel]: "app" },
+      });
+      expect(engine.listConfigs).toHaveBeenCalledWith({
+        labels: { [specLabel]: "app" },
+      });
+      expect(engine.removeConfig).toHaveBeenCalledWith("old");
+      expect(engine.removeConfig).toHaveBeenCalledWith("spec-old");
+    });
+  });
+});
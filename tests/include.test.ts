@@ -0,0 +1,275 @@
+import { resolve } from "node:path";
+import * as core from "@actions/core";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { type ComposeSpec, checkInterpolation } from "../src/compose.js";
+import { expandIncludes } from "../src/include.js";
+import { defineSettings } from "../src/settings.js";
+import * as utils from "../src/utils.js";
+
+const readFile = vi.hoisted(() => vi.fn());
+vi.mock("node:fs/promises", () => ({ readFile }));
+vi.mock("@actions/core");
+
+describe("Include", () => {
+  const settings = defineSettings({
+    literalValues: new Map(),
+    variables: new Map([["STAGE", "production"]]),
+  });
+
+  // Files that exist, by their absolute path, and the Compose files among them
+  // as parsed
+  let files: Record<string, ComposeSpec>;
+  const loadFile = vi.fn(async (path: string) => structuredClone(files[path]));
+
+  function include(
+    spec: Partial<ComposeSpec>,
+    filename = "compose.yaml",
+    strictInterpolation = false,
+  ) {
+    return expandIncludes(
+      { services: {}, ...spec },
+      filename,
+      { ...settings, strictInterpolation },
+      loadFile,
+      checkInterpolation,
+    );
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("GITHUB_WORKSPACE", "");
+    vi.spyOn(utils, "exists").mockImplementation(
+      async (path) => String(path) in files,
+    );
+    files = {
+      [resolve("db/compose.yaml")]: {
+        services: {
+          db: {
+            image: "postgres:17",
+            env_file: ["db.env", { path: "./local.env", required: false }],
+            volumes: ["./init:/docker-entrypoint-initdb.d:ro", "data:/data"],
+          },
+        },
+        volumes: { data: {} },
+        secrets: { db_password: { file: "./password.txt" } },
+      },
+    };
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("should leave specs without includes alone", async () => {
+    const spec = { services: { web: { image: "nginx" } } };
+
+    await expect(
+      expandIncludes(
+        spec,
+        "compose.yaml",
+        settings,
+        loadFile,
+        checkInterpolation,
+      ),
+    ).resolves.toBe(spec);
+  });
+
+  it("should add the resources of included files", async () => {
+    const spec = await include({
+      include: ["db/compose.yaml"],
+      services: { web: { image: "nginx" } },
+    });
+
+    expect(spec).toEqual({
+      services: {
+        web: { image: "nginx" },
+        db: {
+          image: "postgres:17",
+          env_file: [
+            resolve("db/db.env"),
+            { path: resolve("db/local.env"), required: false },
+          ],
+          volumes: [
+            `${resolve("db/init")}:/docker-entrypoint-initdb.d:ro`,
+            "data:/data",
+          ],
+        },
+      },
+      volumes: { data: {} },
+      secrets: { db_password: { file: resolve("db/password.txt") } },
+    });
+    expect(loadFile).toHaveBeenCalledWith(resolve("db/compose.yaml"));
+  });
+
+  it("should resolve paths against the project directory", async () => {
+    const spec = await include({
+      include: [{ path: "db/compose.yaml", project_directory: "." }],
+    });
+
+    expect(spec.secrets).toEqual({
+      db_password: { file: resolve("password.txt") },
+    });
+  });
+
+  it("should interpolate with the variables of the environment file", async () => {
+    files[resolve("cache/compose.yaml")] = {
+      services: {
+        cache: {
+          image: "redis:${REDIS_VERSION}",
+          command: "redis-server --port $$PORT",
+          labels: { stage: "${STAGE}" },
+        },
+      },
+    };
+    readFile.mockResolvedValue("REDIS_VERSION=7\nSTAGE=development\n");
+
+    const spec = await include({
+      include: [{ path: "cache/compose.yaml", env_file: "cache/.env.prod" }],
+    });
+
+    expect(readFile).toHaveBeenCalledWith(resolve("cache/.env.prod"), "utf8");
+    expect(spec.services.cache).toEqual({
+      image: "redis:7",
+      command: "redis-server --port $$PORT",
+      labels: { stage: "production" },
+    });
+  });
+
+  it("should take the values of the environment file literally", async () => {
+    files[resolve("cache/compose.yaml")] = {
+      services: { cache: { image: "redis", labels: { key: "${KEY}" } } },
+    };
+    readFile.mockResolvedValue("KEY='pa$word'\n");
+
+    const spec = await include({
+      include: [{ path: "cache/compose.yaml", env_file: "cache/.env" }],
+    });
+
+    // Escaped for the interpolation of the merged specification
+    expect(spec.services.cache).toEqual({
+      image: "redis",
+      labels: { key: "pa$$word" },
+    });
+  });
+
+  it("should warn about undefined variables of included files", async () => {
+    files[resolve("cache/compose.yaml")] = {
+      services: { cache: { image: "redis:${REDIS_VERSION}" } },
+    };
+    readFile.mockResolvedValue("STAGE=development\n");
+
+    const spec = await include({
+      include: [{ path: "cache/compose.yaml", env_file: "cache/.env" }],
+    });
+
+    expect(spec.services.cache).toEqual({ image: "redis:" });
+    expect(core.warning).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'Compose file "cache/compose.yaml" uses variables that are not ' +
+          'defined, and resolve to an empty string: "REDIS_VERSION" at ' +
+          "services.cache.image",
+      ),
+    );
+  });
+
+  it("should reject undefined variables of included files in strict mode", async () => {
+    files[resolve("cache/compose.yaml")] = {
+      services: { cache: { image: "redis:${REDIS_VERSION}" } },
+    };
+    readFile.mockResolvedValue("STAGE=development\n");
+
+    await expect(
+      include(
+        { include: [{ path: "cache/compose.yaml", env_file: "cache/.env" }] },
+        "compose.yaml",
+        true,
+      ),
+    ).rejects.toThrow(
+      'Failed to interpolate Compose file "cache/compose.yaml":\n' +
+        '  - services.cache.image: Variable "REDIS_VERSION" is not defined.',
+    );
+  });
+
+  it("should read the .env file of the project directory", async () => {
+    files[resolve("db/.env")] = { services: {} };
+    readFile.mockResolvedValue("");
+
+    await include({ include: ["db/compose.yaml"] });
+
+    expect(readFile).toHaveBeenCalledWith(resolve("db/.env"), "utf8");
+  });
+
+  it("should merge multiple paths of an include", async () => {
+    files[resolve("db/compose.override.yaml")] = {
+      services: { db: { image: "postgres:18", deploy: { replicas: 2 } } },
+    };
+
+    const spec = await include({
+      include: [{ path: ["db/compose.yaml", "db/compose.override.yaml"] }],
+    });
+
+    expect(spec.services.db).toMatchObject({
+      image: "postgres:18",
+      deploy: { replicas: 2 },
+      volumes: expect.any(Array),
+    });
+  });
+
+  it("should expand nested includes relative to the included file", async () => {
+    files[resolve("stack/compose.yaml")] = {
+      include: ["../db/compose.yaml"],
+      services: { api: { image: "api" } },
+    };
+
+    const spec = await include({ include: ["stack/compose.yaml"] });
+
+    expect(Object.keys(spec.services)).toEqual(["api", "db"]);
+    expect(spec.include).toBeUndefined();
+  });
+
+  it("should reject resources defined twice", async () => {
+    await expect(
+      include({
+        include: ["db/compose.yaml"],
+        services: { db: { image: "mysql" } },
+      }),
+    ).rejects.toThrow(
+      'The services entry "db" of Compose file "db/compose.yaml" conflicts ' +
+        'with the one defined in "compose.yaml".',
+    );
+  });
+
+  it("should reject files that include themselves", async () => {
+    files[resolve("a.yaml")] = { include: ["b.yaml"], services: {} };
+    files[resolve("b.yaml")] = { include: ["a.yaml"], services: {} };
+
+    await expect(include({ include: ["a.yaml"] })).rejects.toThrow(
+      'Compose file "a.yaml" includes itself: compose.yaml → a.yaml → ' +
+        "b.yaml → a.yaml",
+    );
+  });
+
+  it("should reject files outside of the workspace", async () => {
+    await expect(
+      include({ include: ["../${STAGE}/compose.yaml"] }),
+    ).rejects.toThrow(
+      'The file "../production/compose.yaml" included by Compose file ' +
+        '"compose.yaml" resolves outside the workspace directory.',
+    );
+  });
+
+  it("should report missing files", async () => {
+    await expect(include({ include: ["missing.yaml"] })).rejects.toThrow(
+      'One or more files included by Compose file "compose.yaml" are ' +
+        "missing or not readable: missing.yaml",
+    );
+    expect(loadFile).not.toHaveBeenCalled();
+  });
+
+  it("should reject entries without a path", async () => {
+    await expect(include({ include: [{ env_file: ".env" }] })).rejects.toThrow(
+      'An entry in the "include" section of Compose file "compose.yaml" has ' +
+        "no path.",
+    );
+  });
+});
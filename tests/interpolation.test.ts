@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import {
+  describeUndefinedVariables,
+  escapeLiteralValues,
+  interpolateTemplate,
+  parseTemplate,
+} from "../src/interpolation.js";
+
+describe("Interpolation", () => {
+  describe("parseTemplate", () => {
+    it("should parse text, escapes, and references", () => {
+      expect(parseTemplate("$$HOME is $HOME, $1")).toEqual([
+        { type: "text", value: "$HOME is " },
+        { type: "variable", name: "HOME", argument: [] },
+        { type: "text", value: ", $1" },
+      ]);
+    });
+
+    it("should parse nested arguments", () => {
+      expect(parseTemplate("${A:-${B?x}-{c}}!")).toEqual([
+        {
+          type: "variable",
+          name: "A",
+          operator: ":-",
+          argument: [
+            {
+              type: "variable",
+              name: "B",
+              operator: "?",
+              argument: [{ type: "text", value: "x" }],
+            },
+            { type: "text", value: "-{c}" },
+          ],
+        },
+        { type: "text", value: "!" },
+      ]);
+    });
+
+    it("should reject references without a closing brace", () => {
+      expect(() => parseTemplate("image: ${TAG:-${LATEST}")).toThrow(
+        'Invalid interpolation format in "image: ${TAG:-${LATEST}": the ' +
+          '"${" at position 8 is missing its closing brace.',
+      );
+    });
+
+    it("should reject invalid variable names", () => {
+      expect(() => parseTemplate("${1PASSWORD}")).toThrow(
+        'the "${" at position 1 must be followed by a variable name.',
+      );
+    });
+
+    it("should reject unknown operators", () => {
+      expect(() => parseTemplate("${NAME=value}")).toThrow(
+        'the "${" at position 1 has an unexpected "=" after the variable name.',
+      );
+    });
+
+    it("should collect problems of malformed references if asked to", () => {
+      const malformed: string[] = [];
+
+      expect(parseTemplate("${ and ${NAME}", malformed)).toEqual([
+        { type: "text", value: "${ and " },
+        { type: "variable", name: "NAME", operator: undefined, argument: [] },
+      ]);
+      expect(malformed).toEqual([
+        'Invalid interpolation format in "${ and ${NAME}": the "${" at ' +
+          "position 1 must be followed by a variable name.",
+      ]);
+    });
+  });
+
+  describe("interpolateTemplate", () => {
+    it("should collect the undefined variables", () => {
+      const undefinedVariables = new Set<string>();
+
+      expect(
+        interpolateTemplate(
+          "$A ${B:-$C} ${D:+$E} $F",
+          new Map([
+            ["D", ""],
+            ["F", "$G"],
+          ]),
+          undefinedVariables,
+        ),
+      ).toBe("   ");
+      expect([...undefinedVariables]).toEqual(["A", "C", "G"]);
+    });
+
+    it("should take values that are no valid template literally", () => {
+      expect(
+        interpolateTemplate("$PASSWORD", new Map([["PASSWORD", "pa${ss"]])),
+      ).toBe("pa${ss");
+    });
+  });
+
+  describe("escapeLiteralValues", () => {
+    it("should escape literal values that are still current", () => {
+      const variables = escapeLiteralValues(
+        new Map([
+          ["LITERAL", "pa$word"],
+          ["REPLACED", "$HOME"],
+          ["TEMPLATE", "${HOME}"],
+        ]),
+        new Map([
+          ["LITERAL", "pa$word"],
+          ["REPLACED", "$USER"],
+        ]),
+      );
+
+      expect(interpolateTemplate("$LITERAL", variables)).toBe("pa$word");
+      expect(variables.get("REPLACED")).toBe("$HOME");
+      expect(variables.get("TEMPLATE")).toBe("${HOME}");
+    });
+  });
+
+  describe("describeUndefinedVariables", () => {
+    it("should describe one or more variables", () => {
+      expect(describeUndefinedVariables(["A"])).toBe(
+        'Variable "A" is not defined.',
+      );
+      expect(describeUndefinedVariables(["A", "B", "C"])).toBe(
+        'Variables "A", "B" and "C" are not defined.',
+      );
+    });
+  });
+});
@@ -0,0 +1,317 @@
+import * as core from "@actions/core";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ConfigMetadata } from "../src/engine.js";
+import * as engine from "../src/engine.js";
+import {
+  acquireLock,
+  lockExpiresLabel,
+  lockLabel,
+  lockOwnerLabel,
+  lockRenewalLabel,
+  releaseLock,
+  renewLock,
+} from "../src/lock.js";
+import * as utils from "../src/utils.js";
+
+vi.mock("@actions/core");
+vi.mock("../src/engine.js", async (importOriginal) => ({
+  ...(await importOriginal()),
+  createConfig: vi.fn(),
+  listConfigs: vi.fn(),
+  removeConfig: vi.fn(),
+}));
+vi.mock("../src/utils.js", async (importOriginal) => ({
+  ...(await importOriginal()),
+  sleep: vi.fn(),
+}));
+
+function heldLock(id: string, expires: Date | string, owner = "other#1.1") {
+  return {
+    ID: id,
+    Name: "test-deployment-lock",
+    Labels: {
+      [lockLabel]: "test",
+      [lockOwnerLabel]: owner,
+      [lockExpiresLabel]:
+        typeof expires === "string" ? expires : expires.toISOString(),
+    },
+    CreatedAt: new Date().toISOString(),
+    UpdatedAt: new Date().toISOString(),
+  } satisfies ConfigMetadata;
+}
+
+describe("Lock", () => {
+  const settings = { stack: "test", lockTimeout: 60, lockTtl: 600 };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.unstubAllEnvs();
+    vi.stubEnv("GITHUB_REPOSITORY", "matchory/app");
+    vi.stubEnv("GITHUB_RUN_ID", "42");
+    vi.stubEnv("GITHUB_RUN_ATTEMPT", "2");
+    vi.mocked(engine.listConfigs).mockResolvedValue([]);
+    vi.mocked(engine.createConfig).mockResolvedValue("lock-id");
+  });
+
+  describe("acquireLock", () => {
+    it("should create the lock if no deployment holds it", async () => {
+      await expect(acquireLock(settings)).resolves.toEqual({
+        id: "lock-id",
+        name: "test-deployment-lock",
+        owner: "matchory/app#42.2",
+      });
+
+      expect(engine.listConfigs).toHaveBeenCalledWith({
+        name: "test-deployment-lock",
+      });
+      expect(engine.createConfig).toHaveBeenCalledWith(
+        "test-deployment-lock",
+        expect.stringContaining(
+          '"run":"https://github.com/matchory/app/actions/runs/42"',
+        ),
+        {
+          [lockLabel]: "test",
+          [lockOwnerLabel]: "matchory/app#42.2",
+          [lockExpiresLabel]: expect.any(String),
+        },
+        { reportFailure: false },
+      );
+    });
+
+    it("should ignore locks of stacks sharing the name as a prefix", async () => {
+      vi.mocked(engine.listConfigs).mockResolvedValue([
+        {
+          ...heldLock("x", new Date(Date.now() + 60_000)),
+          Name: "test-deployment-lock-2",
+        },
+      ]);
+
+      await acquireLock(settings);
+
+      expect(engine.createConfig).toHaveBeenCalled();
+      expect(utils.sleep).not.toHaveBeenCalled();
+    });
+
+    it("should wait for a held lock to be released", async () => {
+      vi.mocked(engine.listConfigs)
+        .mockResolvedValueOnce([
+          heldLock("held", new Date(Date.now() + 60_000)),
+        ])
+        .mockResolvedValueOnce([]);
+
+      await acquireLock(settings);
+
+      expect(utils.sleep).toHaveBeenCalledExactlyOnceWith(5_000);
+      expect(core.info).toHaveBeenCalledWith(
+        expect.stringContaining('Stack "test" is being deployed by other#1.1'),
+      );
+      expect(engine.createConfig).toHaveBeenCalledOnce();
+    });
+
+    it("should take over a stale lock", async () => {
+      vi.mocked(engine.listConfigs)
+        .mockResolvedValueOnce([heldLock("stale", new Date(Date.now() - 1))])
+        .mockResolvedValueOnce([]);
+
+      await acquireLock(settings);
+
+      expect(engine.removeConfig).toHaveBeenCalledWith("stale");
+      expect(core.warning).toHaveBeenCalledWith(
+        expect.stringContaining("which expired without being released"),
+      );
+      expect(utils.sleep).not.toHaveBeenCalled();
+    });
+
+    it("should treat a lock without a valid expiry as stale", async () => {
+      vi.mocked(engine.listConfigs)
+        .mockResolvedValueOnce([heldLock("broken", "tomorrow")])
+        .mockResolvedValueOnce([]);
+
+      await acquireLock(settings);
+
+      expect(engine.removeConfig).toHaveBeenCalledWith("broken");
+    });
+
+    it("should wait if another run created the lock first", async () => {
+      vi.mocked(engine.listConfigs)
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([heldLock("won", new Date(Date.now() + 60_000))])
+        .mockResolvedValueOnce([]);
+      vi.mocked(engine.createConfig)
+        .mockRejectedValueOnce(new Error("already exists"))
+        .mockResolvedValueOnce("lock-id");
+
+      await expect(acquireLock(settings)).resolves.toMatchObject({
+        id: "lock-id",
+      });
+      expect(engine.createConfig).toHaveBeenCalledTimes(2);
+      expect(core.info).toHaveBeenCalledWith(
+        expect.stringMatching(
+          /^other#1\.1 \(until .+\) acquired the deployment lock of stack "test" first$/,
+        ),
+      );
+      expect(core.error).not.toHaveBeenCalled();
+    });
+
+    it("should wait for an expired lock that has been renewed", async () => {
+      vi.mocked(engine.listConfigs)
+        .mockResolvedValueOnce([
+          heldLock("held", new Date(Date.now() - 1)),
+          {
+            ...heldLock("renewal", new Date(Date.now() + 60_000)),
+            Name: "test-deployment-lock-renewal-1",
+            Labels: {
+              [lockRenewalLabel]: "held",
+              [lockExpiresLabel]: new Date(Date.now() + 60_000).toISOString(),
+            },
+          },
+        ])
+        .mockResolvedValueOnce([]);
+
+      await acquireLock(settings);
+
+      expect(engine.removeConfig).not.toHaveBeenCalled();
+      expect(utils.sleep).toHaveBeenCalledOnce();
+    });
+
+    it("should remove the renewals of a stale lock", async () => {
+      vi.mocked(engine.listConfigs)
+        .mockResolvedValueOnce([
+          heldLock("stale", new Date(Date.now() - 1)),
+          {
+            ...heldLock("renewal", new Date(Date.now() - 1)),
+            Name: "test-deployment-lock-renewal-1",
+            Labels: {
+              [lockRenewalLabel]: "stale",
+              [lockExpiresLabel]: new Date(Date.now() - 1).toISOString(),
+            },
+          },
+        ])
+        .mockResolvedValueOnce([]);
+
+      await acquireLock(settings);
+
+      expect(engine.removeConfig).toHaveBeenCalledWith("stale");
+      expect(engine.removeConfig).toHaveBeenCalledWith("renewal");
+    });
+
+    it("should fail if the lock cannot be created", async () => {
+      vi.mocked(engine.createConfig).mockRejectedValue(
+        new Error("permission denied"),
+      );
+
+      await expect(acquireLock(settings)).rejects.toThrow(
+        'Failed to acquire the deployment lock of stack "test": permission ' +
+          "denied",
+      );
+    });
+
+    it("should give up after the lock timeout", async () => {
+      const now = Date.now();
+      vi.spyOn(Date, "now")
+        .mockReturnValueOnce(now)
+        .mockReturnValue(now + 61_000);
+      vi.mocked(engine.listConfigs).mockResolvedValue([
+        heldLock("held", new Date(now + 600_000)),
+      ]);
+
+      await expect(acquireLock(settings)).rejects.toThrow(
+        'Timed out after 60s waiting for the deployment lock of stack "test", ' +
+          "held by other#1.1",
+      );
+      expect(engine.createConfig).not.toHaveBeenCalled();
+      vi.mocked(Date.now).mockRestore();
+    });
+  });
+
+  describe("renewLock", () => {
+    const lock = {
+      id: "lock-id",
+      name: "test-deployment-lock",
+      owner: "matchory/app#42.2",
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should replace the renewal every third of the TTL", async () => {
+      vi.mocked(engine.createConfig)
+        .mockResolvedValueOnce("renewal-1")
+        .mockResolvedValueOnce("renewal-2");
+
+      renewLock(lock, settings);
+      await vi.advanceTimersByTimeAsync(200_000);
+
+      expect(engine.createConfig).toHaveBeenCalledWith(
+        expect.stringMatching(/^test-deployment-lock-renewal-\d+$/),
+        expect.any(String),
+        {
+          [lockRenewalLabel]: "lock-id",
+          [lockExpiresLabel]: new Date(Date.now() + 600_000).toISOString(),
+        },
+      );
+      expect(engine.removeConfig).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(200_000);
+
+      expect(engine.removeConfig).toHaveBeenCalledExactlyOnceWith("renewal-1");
+
+      await releaseLock(lock);
+
+      expect(engine.removeConfig).toHaveBeenCalledWith("lock-id");
+      expect(engine.removeConfig).toHaveBeenCalledWith("renewal-2");
+
+      await vi.advanceTimersByTimeAsync(600_000);
+
+      expect(engine.createConfig).toHaveBeenCalledTimes(2);
+    });
+
+    it("should warn if the lock cannot be renewed", async () => {
+      vi.mocked(engine.createConfig).mockRejectedValue(new Error("down"));
+
+      renewLock(lock, settings);
+      await vi.advanceTimersByTimeAsync(200_000);
+      await releaseLock(lock);
+
+      expect(core.warning).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'Failed to renew the deployment lock "test-deployment-lock"',
+        ),
+      );
+    });
+  });
+
+  describe("releaseLock", () => {
+    it("should remove the lock by its ID", async () => {
+      await releaseLock({
+        id: "lock-id",
+        name: "test-deployment-lock",
+        owner: "matchory/app#42.2",
+      });
+
+      expect(engine.removeConfig).toHaveBeenCalledWith("lock-id");
+    });
+
+    it("should warn instead of failing if the lock cannot be removed", async () => {
+      vi.mocked(engine.removeConfig).mockRejectedValue(new Error("gone"));
+
+      await expect(
+        releaseLock({ id: "lock-id", name: "test-deployment-lock", owner: "" }),
+      ).resolves.toBeUndefined();
+      expect(core.warning).toHaveBeenCalledWith(
+        expect.stringContaining("Other deployments of the stack will wait"),
+      );
+    });
+
+    it("should do nothing without a lock", async () => {
+      await releaseLock(undefined);
+
+      expect(engine.removeConfig).not.toHaveBeenCalled();
+    });
+  });
+});
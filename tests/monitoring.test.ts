@@ -8,6 +8,8 @@ import {
   isServiceStuck,
   isServiceUpdateComplete,
   monitorDeployment,
+  monitorRollback,
+  waitForConditions,
 } from "../src/monitoring.js";
 import { defineSettings } from "../src/settings.js";
 import * as utilsModule from "../src/utils.js";
@@ -1477,4 +1479,270 @@ describe("Monitoring", () => {
       expect(core.error).toHaveBeenCalledWith(expect.stringContaining('"api"'));
     });
   });
+
+  describe("monitorRollback", () => {
+    it("should wait until every service has been rolled back", async () => {
+      vi.useFakeTimers();
+
+      const listServices = vi
+        .spyOn(engine, "listServices")
+        .mockResolvedValueOnce([
+          {
+            ID: "web",
+            Spec: { Name: "test_web" },
+            UpdateStatus: { State: "rollback_started" },
+          },
+          {
+            ID: "api",
+            Spec: { Name: "test_api" },
+            UpdateStatus: { State: "rollback_completed" },
+          },
+        ] as ServiceWithMetadata[])
+        .mockResolvedValueOnce([
+          {
+            ID: "web",
+            Spec: { Name: "test_web" },
+            UpdateStatus: { State: "rollback_completed" },
+          },
+        ] as ServiceWithMetadata[]);
+
+      const promise = monitorRollback(settings, ["web", "api"]);
+      await vi.runAllTimersAsync();
+      const outcomes = await promise;
+
+      expect(listServices).toHaveBeenNthCalledWith(
+        1,
+        { id: ["web", "api"] },
+        true,
+      );
+      expect(listServices).toHaveBeenNthCalledWith(2, { id: ["web"] }, true);
+      expect(outcomes).toEqual(
+        new Map([
+          ["api", undefined],
+          ["web", undefined],
+        ]),
+      );
+    });
+
+    it("should report a paused rollback as failed", async () => {
+      vi.spyOn(engine, "listServices").mockResolvedValue([
+        {
+          ID: "web",
+          Spec: { Name: "test_web" },
+          UpdateStatus: {
+            State: "rollback_paused",
+            Message: "task failed to start",
+          },
+        },
+      ] as ServiceWithMetadata[]);
+
+      const outcomes = await monitorRollback(settings, ["web"]);
+
+      expect(outcomes.get("web")).toEqual(expect.any(String));
+    });
+
+    it("should only count updates started since the spec was restored", async () => {
+      vi.useFakeTimers();
+      vi.spyOn(engine, "listServices")
+        .mockResolvedValueOnce([
+          {
+            ID: "web",
+            Spec: { Name: "test_web" },
+            UpdateStatus: {
+              State: "completed",
+              StartedAt: "2024-01-01T00:00:00Z",
+            },
+          },
+        ] as ServiceWithMetadata[])
+        .mockResolvedValueOnce([
+          {
+            ID: "web",
+            Spec: { Name: "test_web" },
+            UpdateStatus: {
+              State: "completed",
+              StartedAt: "2024-01-01T00:05:00Z",
+            },
+          },
+        ] as ServiceWithMetadata[]);
+
+      const promise = monitorRollback(
+        settings,
+        ["web"],
+        new Date("2024-01-01T00:05:00Z"),
+      );
+      await vi.runAllTimersAsync();
+
+      expect(await promise).toEqual(new Map([["web", undefined]]));
+      expect(engine.listServices).toHaveBeenCalledTimes(2);
+    });
+
+    it("should give up once the monitoring timeout has passed", async () => {
+      vi.useFakeTimers();
+      vi.spyOn(engine, "listServices").mockResolvedValue([
+        {
+          ID: "web",
+          Spec: { Name: "test_web" },
+          UpdateStatus: { State: "rollback_started" },
+        },
+      ] as ServiceWithMetadata[]);
+
+      const promise = monitorRollback(settings, ["web"]);
+      await vi.runAllTimersAsync();
+
+      expect((await promise).get("web")).toBe(
+        "Rollback did not converge within 300s",
+      );
+    });
+  });
+
+  describe("waitForConditions", () => {
+    function task(CurrentState: string): TaskStatus {
+      return {
+        ID: "task",
+        Name: "testso_db.1",
+        Image: "postgres",
+        Node: "node1",
+        DesiredState: "Running",
+        CurrentState,
+        Error: "",
+        Ports: "",
+      };
+    }
+
+    it("should wait until every service meets its conditions", async () => {
+      vi.useFakeTimers();
+      vi.spyOn(engine, "listServices").mockResolvedValue([
+        { ID: "db", Spec: { Name: "testso_db" }, Replicas: "1/1" },
+        { ID: "migrate", Spec: { Name: "testso_migrate" } },
+      ] as ServiceWithMetadata[]);
+      vi.spyOn(engine, "listServiceTasks")
+        .mockResolvedValueOnce([task("Running 3 seconds ago")])
+        .mockResolvedValueOnce([task("Running 1 second ago")])
+        .mockResolvedValueOnce([task("Complete 1 second ago")]);
+
+      const promise = waitForConditions(
+        settings,
+        new Map([
+          ["db", new Set(["service_started", "service_healthy"] as const)],
+          ["migrate", new Set(["service_completed_successfully"] as const)],
+        ]),
+      );
+      await vi.runAllTimersAsync();
+      await promise;
+
+      expect(engine.listServices).toHaveBeenCalledTimes(2);
+      expect(engine.listServices).toHaveBeenCalledWith(
+        { labels: { "com.docker.stack.namespace": "testso" } },
+        true,
+      );
+    });
+
+    it("should fail once all tasks of a service failed", async () => {
+      vi.spyOn(engine, "listServices").mockResolvedValue([
+        { ID: "db", Spec: { Name: "testso_db" } },
+      ] as ServiceWithMetadata[]);
+      vi.spyOn(engine, "listServiceTasks").mockResolvedValue([
+        task("Failed 2 seconds ago"),
+      ]);
+
+      await expect(
+        waitForConditions(
+          settings,
+          new Map([["db", new Set(["service_healthy"] as const)]]),
+        ),
+      ).rejects.toThrow(
+        'Service "db" failed: all tasks are in a failed state, so the ' +
+          "services that depend on it have not been deployed",
+      );
+    });
+
+    it("should only count tasks created since the deployment", async () => {
+      vi.useFakeTimers();
+      const deployedAt = new Date("2025-01-01T12:00:00Z");
+      vi.spyOn(engine, "listServices").mockResolvedValue([
+        {
+          ID: "migrate",
+          Spec: {
+            Name: "testso_migrate",
+            TaskTemplate: { ContainerSpec: { Image: "api:2" } },
+          },
+          PreviousSpec: {
+            Name: "testso_migrate",
+            TaskTemplate: { ContainerSpec: { Image: "api:1" } },
+          },
+        },
+      ] as ServiceWithMetadata[]);
+      vi.spyOn(engine, "listServiceTasks")
+        .mockResolvedValueOnce([{ ...task("Complete 1 hour ago"), ID: "old" }])
+        .mockResolvedValueOnce([
+          { ...task("Complete 1 hour ago"), ID: "old" },
+          { ...task("Complete 1 second ago"), ID: "new" },
+        ]);
+      vi.spyOn(engine, "inspectTasks").mockImplementation(async (ids) =>
+        ids.map((ID) => ({
+          ID,
+          ServiceID: "migrate",
+          CreatedAt:
+            ID === "old" ? "2025-01-01T11:00:00Z" : "2025-01-01T12:00:05Z",
+        })),
+      );
+
+      const promise = waitForConditions(
+        settings,
+        new Map([
+          ["migrate", new Set(["service_completed_successfully"] as const)],
+        ]),
+        undefined,
+        deployedAt,
+      );
+      await vi.runAllTimersAsync();
+      await promise;
+
+      expect(engine.listServiceTasks).toHaveBeenCalledTimes(2);
+    });
+
+    it("should count all tasks if the deployment kept them", async () => {
+      vi.spyOn(engine, "listServices").mockResolvedValue([
+        {
+          ID: "db",
+          Spec: {
+            Name: "testso_db",
+            TaskTemplate: { ContainerSpec: { Image: "postgres" } },
+          },
+          PreviousSpec: {
+            Name: "testso_db",
+            TaskTemplate: { ContainerSpec: { Image: "postgres" } },
+          },
+        },
+      ] as ServiceWithMetadata[]);
+      vi.spyOn(engine, "listServiceTasks").mockResolvedValue([
+        task("Running 1 hour ago"),
+      ]);
+      vi.spyOn(engine, "inspectTasks");
+
+      await waitForConditions(
+        settings,
+        new Map([["db", new Set(["service_started"] as const)]]),
+        undefined,
+        new Date(),
+      );
+
+      expect(engine.inspectTasks).not.toHaveBeenCalled();
+    });
+
+    it("should give up once the monitoring timeout has passed", async () => {
+      vi.useFakeTimers();
+      vi.spyOn(engine, "listServices").mockResolvedValue([]);
+
+      const promise = waitForConditions(
+        settings,
+        new Map([["db", new Set(["service_started"] as const)]]),
+      );
+      const expectation = expect(promise).rejects.toThrow(
+        'Timed out after 300s waiting for "db" (service_started).',
+      );
+      await vi.runAllTimersAsync();
+      await expectation;
+    });
+  });
 });
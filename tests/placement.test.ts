@@ -0,0 +1,203 @@
+import * as core from "@actions/core";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { defineComposeSpec } from "../src/compose.js";
+import type { Node } from "../src/engine.js";
+import * as engine from "../src/engine.js";
+import {
+  checkPlacement,
+  matchConstraint,
+  parseConstraint,
+} from "../src/placement.js";
+
+vi.mock("@actions/core");
+vi.mock("../src/engine.js", async (importOriginal) => ({
+  ...(await importOriginal()),
+  listNodes: vi.fn(),
+}));
+
+function node(
+  hostname: string,
+  {
+    role = "worker",
+    availability = "active",
+    state = "ready",
+    labels = {},
+    arch = "x86_64",
+  }: {
+    role?: Node["Spec"]["Role"];
+    availability?: Node["Spec"]["Availability"];
+    state?: string;
+    labels?: Record<string, string>;
+    arch?: string;
+  } = {},
+): Node {
+  return {
+    ID: `${hostname}-id`,
+    Spec: { Role: role, Availability: availability, Labels: labels },
+    Description: {
+      Hostname: hostname,
+      Platform: { Architecture: arch, OS: "linux" },
+    },
+    Status: { State: state },
+  };
+}
+
+describe("Placement", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(engine.listNodes).mockResolvedValue([
+      node("manager-1", { role: "manager" }),
+      node("db-1", { labels: { tier: "db" } }),
+      node("db-2", { labels: { tier: "db" }, availability: "drain" }),
+      node("arm-1", { arch: "aarch64", state: "down" }),
+    ]);
+  });
+
+  describe("checkPlacement", () => {
+    it("should pass if every service can be scheduled", async () => {
+      const spec = defineComposeSpec({
+        services: {
+          web: { image: "nginx" },
+          db: {
+            image: "postgres",
+            deploy: {
+              placement: {
+                constraints: ["node.labels.tier == db", "node.role!=manager"],
+              },
+            },
+          },
+        },
+      });
+
+      await expect(
+        checkPlacement(spec, { checkPlacement: "fail" }),
+      ).resolves.toBeUndefined();
+      expect(core.info).toHaveBeenCalledWith(
+        "db-1 (db-1-id): worker, linux/x86_64, active, ready, labels: tier=db",
+      );
+    });
+
+    it("should fail if no available node matches the constraints", async () => {
+      const spec = defineComposeSpec({
+        services: {
+          arm: {
+            image: "nginx",
+            deploy: {
+              placement: { constraints: ["node.platform.arch==arm64"] },
+            },
+          },
+          cache: {
+            image: "redis",
+            deploy: {
+              placement: { constraints: ["node.labels.tier==cache"] },
+            },
+          },
+        },
+      });
+
+      await expect(
+        checkPlacement(spec, { checkPlacement: "fail" }),
+      ).rejects.toThrow(
+        '2 service(s) cannot be scheduled on the Swarm: Service "arm" ' +
+          "matches none of the 2 available node(s) with its constraints: " +
+          'node.platform.arch==arm64. Service "cache" matches none',
+      );
+    });
+
+    it("should only warn if configured to", async () => {
+      const spec = defineComposeSpec({
+        services: {
+          cache: {
+            image: "redis",
+            deploy: {
+              placement: { constraints: ["node.labels.tier==cache"] },
+            },
+          },
+        },
+      });
+
+      await expect(
+        checkPlacement(spec, { checkPlacement: "warn" }),
+      ).resolves.toBeUndefined();
+      expect(core.warning).toHaveBeenCalledWith(
+        expect.stringContaining('Service "cache" matches none'),
+      );
+    });
+
+    it("should check the replicas fit within max_replicas_per_node", async () => {
+      const spec = defineComposeSpec({
+        services: {
+          db: {
+            image: "postgres",
+            deploy: {
+              replicas: 3,
+              placement: {
+                constraints: ["node.labels.tier==db"],
+                max_replicas_per_node: 2,
+              },
+            },
+          },
+        },
+      });
+
+      await expect(
+        checkPlacement(spec, { checkPlacement: "fail" }),
+      ).rejects.toThrow(
+        'Service "db" needs 3 replica(s) with at most 2 per node, but only ' +
+          "1 node(s) are eligible, which fit 2.",
+      );
+    });
+
+    it("should report invalid constraints", async () => {
+      const spec = defineComposeSpec({
+        services: {
+          web: {
+            image: "nginx",
+            deploy: {
+              placement: { constraints: ["node.label.tier==db"] },
+            },
+          },
+        },
+      });
+
+      await expect(
+        checkPlacement(spec, { checkPlacement: "fail" }),
+      ).rejects.toThrow(
+        'Service "web": unknown constraint attribute "node.label.tier"',
+      );
+    });
+  });
+
+  describe("parseConstraint", () => {
+    it("should reject constraints without an operator", () => {
+      expect(parseConstraint("node.role=manager")).toBe(
+        'invalid constraint "node.role=manager"; use "key==value" or ' +
+          '"key!=value".',
+      );
+    });
+  });
+
+  describe("matchConstraint", () => {
+    const db = node("db-1", { labels: { tier: "db" } });
+
+    it.each([
+      ["node.labels.tier==DB", true],
+      ["node.labels.tier!=db", false],
+      ["node.labels.zone==a", false],
+      ["node.labels.zone!=a", true],
+      ["node.hostname==db-1", true],
+      ["node.platform.arch==amd64", true],
+      ["node.platform.os==windows", false],
+    ])("should evaluate %s as %s", (constraint, expected) => {
+      expect(
+        matchConstraint(
+          parseConstraint(constraint) as Exclude<
+            ReturnType<typeof parseConstraint>,
+            string
+          >,
+          db,
+        ),
+      ).toBe(expected);
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import * as core from "@actions/core";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { defineComposeSpec } from "../src/compose.js";
+import type { ServiceMetadata } from "../src/engine.js";
+import * as engine from "../src/engine.js";
+import { planDeployment, reportPlan } from "../src/plan.js";
+import {
+  hashLabel,
+  nameLabel,
+  stackLabel,
+  versionLabel,
+} from "../src/variables.js";
+
+vi.mock("@actions/core");
+vi.mock("../src/engine.js", async (importOriginal) => ({
+  ...(await importOriginal()),
+  listServices: vi.fn(),
+  listSecrets: vi.fn(),
+  listConfigs: vi.fn(),
+}));
+
+function labels(name: string, hash: string) {
+  return {
+    [nameLabel]: name,
+    [hashLabel]: hash,
+    [stackLabel]: "test",
+    [versionLabel]: "1.0.0",
+  };
+}
+
+function stored(id: string, name: string, hash: string) {
+  return {
+    ID: id,
+    Name: name,
+    Labels: labels(name.split("-")[1], hash),
+    CreatedAt: new Date().toISOString(),
+    UpdatedAt: new Date().toISOString(),
+  };
+}
+
+describe("Plan", () => {
+  const flags = {
+    prune: true,
+    resolveImage: "always" as const,
+    withRegistryAuth: false,
+  };
+  const settings = { stack: "test", ...flags };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(engine.listServices).mockResolvedValue([]);
+    vi.mocked(engine.listSecrets).mockResolvedValue([]);
+    vi.mocked(engine.listConfigs).mockResolvedValue([]);
+    vi.mocked(core.summary.addHeading).mockReturnValue(core.summary);
+    vi.mocked(core.summary.addRaw).mockReturnValue(core.summary);
+    vi.mocked(core.summary.addTable).mockReturnValue(core.summary);
+  });
+
+  describe("planDeployment", () => {
+    it("should classify services as created, updated, or removed", async () => {
+      vi.mocked(engine.listServices).mockResolvedValue([
+        { ID: "1", Name: "test_web" },
+        { ID: "2", Name: "test_worker" },
+      ] as ServiceMetadata[]);
+
+      const plan = await planDeployment(
+        defineComposeSpec({
+          services: { web: { image: "nginx" }, api: { image: "api" } },
+        }),
+        settings,
+      );
+
+      expect(engine.listServices).toHaveBeenCalledWith({
+        labels: { "com.docker.stack.namespace": "test" },
+      });
+      expect(plan.services).toEqual({
+        create: ["api"],
+        update: ["web"],
+        remove: ["worker"],
+        keep: [],
+      });
+    });
+
+    it("should keep services missing from the spec without pruning", async () => {
+      vi.mocked(engine.listServices).mockResolvedValue([
+        { ID: "2", Name: "test_worker" },
+      ] as ServiceMetadata[]);
+
+      const plan = await planDeployment(defineComposeSpec({ services: {} }), {
+        ...settings,
+        prune: false,
+      });
+
+      expect(plan.services).toEqual({
+        create: [],
+        update: [],
+        remove: [],
+        keep: ["worker"],
+      });
+      expect(plan.flags).toEqual({ ...flags, prune: false });
+    });
+
+    it("should classify secrets by their hashed name", async () => {
+      vi.mocked(engine.listSecrets).mockResolvedValue([
+        stored("1", "test-foo-aaaaaaa", "aaaaaaaa"),
+        stored("2", "test-bar-bbbbbbb", "bbbbbbbb"),
+      ]);
+
+      const plan = await planDeployment(
+        defineComposeSpec({
+          services: {},
+          secrets: {
+            foo: {
+              name: "test-foo-aaaaaaa",
+              labels: labels("foo", "aaaaaaaa"),
+            },
+            bar: {
+              name: "test-bar-ccccccc",
+              labels: labels("bar", "cccccccc"),
+            },
+            external: { name: "shared", external: true },
+          },
+        }),
+        settings,
+      );
+
+      expect(engine.listSecrets).toHaveBeenCalledWith({
+        labels: { [stackLabel]: "test" },
+      });
+      expect(plan.secrets).toEqual({
+        create: ["test-bar-ccccccc"],
+        reuse: ["test-foo-aaaaaaa"],
+        prune: ["test-bar-bbbbbbb"],
+      });
+    });
+
+    it("should plan to prune every config if the spec defines none", async () => {
+      vi.mocked(engine.listConfigs).mockResolvedValue([
+        stored("1", "test-foo-aaaaaaa", "aaaaaaaa"),
+      ]);
+
+      const plan = await planDeployment(
+        defineComposeSpec({ services: {} }),
+        settings,
+      );
+
+      expect(plan.configs).toEqual({
+        create: [],
+        reuse: [],
+        prune: ["test-foo-aaaaaaa"],
+      });
+    });
+  });
+
+  describe("reportPlan", () => {
+    it("should write the plan to the output and job summary", async () => {
+      const plan = {
+        stack: "test",
+        services: {
+          create: ["api"],
+          update: [],
+          remove: ["worker"],
+          keep: ["legacy"],
+        },
+        secrets: { create: ["test-foo-aaaaaaa"], reuse: [], prune: [] },
+        configs: { create: [], reuse: [], prune: ["test-bar-bbbbbbb"] },
+        flags: { ...flags, resolveImage: "never" as const },
+      };
+
+      await reportPlan(plan);
+
+      expect(core.setOutput).toHaveBeenCalledWith("plan", JSON.stringify(plan));
+      expect(core.summary.addTable).toHaveBeenCalledWith([
+        expect.any(Array),
+        [{ data: "Service" }, { data: "api" }, { data: "create" }],
+        [{ data: "Service" }, { data: "worker" }, { data: "remove" }],
+        [{ data: "Service" }, { data: "legacy" }, { data: "keep" }],
+        [{ data: "Secret" }, { data: "test-foo-aaaaaaa" }, { data: "create" }],
+        [{ data: "Config" }, { data: "test-bar-bbbbbbb" }, { data: "prune" }],
+      ]);
+      expect(core.summary.addTable).toHaveBeenCalledWith(
+        expect.arrayContaining([
+          [
+            { data: "<code>--resolve-image</code>" },
+            { data: "never" },
+            { data: "<code>resolve-image</code>" },
+          ],
+        ]),
+      );
+      expect(core.summary.write).toHaveBeenCalled();
+    });
+
+    it("should report an empty plan as having no changes", async () => {
+      await reportPlan({
+        stack: "test",
+        services: { create: [], update: [], remove: [], keep: [] },
+        secrets: { create: [], reuse: [], prune: [] },
+        configs: { create: [], reuse: [], prune: [] },
+        flags,
+      });
+
+      expect(core.info).toHaveBeenCalledWith("No changes");
+    });
+  });
+});
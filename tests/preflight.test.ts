@@ -0,0 +1,77 @@
+import * as core from "@actions/core";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { defineComposeSpec } from "../src/compose.js";
+import * as engine from "../src/engine.js";
+import { checkImages } from "../src/preflight.js";
+
+vi.mock("@actions/core");
+vi.mock("../src/engine.js", async (importOriginal) => ({
+  ...(await importOriginal()),
+  inspectImageDigest: vi.fn(),
+}));
+
+describe("Preflight", () => {
+  const spec = defineComposeSpec({
+    services: {
+      web: { image: "nginx:1.27" },
+      proxy: { image: "nginx:1.27" },
+      api: { image: "registry.example.com/api:v2" },
+      worker: { image: "registry.example.com/wrker:v2" },
+      app: { build: "." },
+    },
+  });
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe("checkImages", () => {
+    it("should resolve every image once", async () => {
+      vi.mocked(engine.inspectImageDigest).mockImplementation(
+        async (image) => `sha256:${image.length}`,
+      );
+
+      const digests = await checkImages(spec);
+
+      expect(engine.inspectImageDigest).toHaveBeenCalledTimes(3);
+      expect(digests).toEqual(
+        new Map([
+          ["nginx:1.27", "sha256:10"],
+          ["registry.example.com/api:v2", "sha256:27"],
+          ["registry.example.com/wrker:v2", "sha256:29"],
+        ]),
+      );
+    });
+
+    it("should name the services using an unresolvable image", async () => {
+      vi.mocked(engine.inspectImageDigest).mockImplementation(async (image) => {
+        if (image.startsWith("registry.example.com")) {
+          return "sha256:abc";
+        }
+
+        throw new Error("manifest unknown");
+      });
+
+      await expect(checkImages(spec)).rejects.toThrow(
+        "1 image(s) cannot be resolved with the runner's registry " +
+          "credentials: nginx:1.27 (used by web, proxy).",
+      );
+      expect(core.error).toHaveBeenCalledWith(
+        'Image "nginx:1.27" cannot be resolved: manifest unknown',
+      );
+    });
+
+    it("should report all unresolvable images at once", async () => {
+      vi.mocked(engine.inspectImageDigest).mockRejectedValue(
+        new Error("unauthorized"),
+      );
+
+      await expect(checkImages(spec)).rejects.toThrow(
+        "3 image(s) cannot be resolved with the runner's registry " +
+          "credentials: nginx:1.27 (used by web, proxy); " +
+          "registry.example.com/api:v2 (used by api); " +
+          "registry.example.com/wrker:v2 (used by worker).",
+      );
+    });
+  });
+});
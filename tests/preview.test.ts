@@ -0,0 +1,148 @@
+import * as core from "@actions/core";
+import { describe, expect, it, vi } from "vitest";
+import { defineComposeSpec } from "../src/compose.js";
+import { rewriteForPreview } from "../src/preview.js";
+
+vi.mock("@actions/core");
+
+describe("Preview", () => {
+  describe("rewriteForPreview", () => {
+    it("should leave the spec alone outside of previews", () => {
+      const spec = defineComposeSpec({
+        services: { web: { image: "nginx", ports: ["80:80"] } },
+      });
+
+      expect(rewriteForPreview(spec, { pullRequest: undefined })).toBe(spec);
+    });
+
+    it("should drop published ports", () => {
+      const spec = defineComposeSpec({
+        services: {
+          web: {
+            image: "nginx",
+            ports: [
+              {
+                target: 80,
+                published: "8080",
+                protocol: "tcp",
+                mode: "ingress",
+              },
+              "127.0.0.1:9090:90/udp",
+              "443",
+            ],
+          },
+        },
+      });
+
+      const rewritten = rewriteForPreview(spec, { pullRequest: 42 });
+
+      expect(rewritten.services.web.ports).toEqual([
+        { target: 80, protocol: "tcp", mode: "ingress" },
+        "90/udp",
+        "443",
+      ]);
+      expect(spec.services.web.ports).toHaveLength(3);
+    });
+
+    it("should suffix Traefik names and prefix router hosts", () => {
+      const spec = defineComposeSpec({
+        services: {
+          web: {
+            image: "nginx",
+            deploy: {
+              labels: {
+                "traefik.enable": "true",
+                "traefik.http.routers.web.rule":
+                  "Host(`app.example.com`) || Host(`*`)",
+                "traefik.http.routers.web.service": "web",
+                "traefik.http.routers.web.middlewares": "auth, compress@file",
+                "traefik.http.services.web.loadbalancer.server.port": "80",
+                "traefik.http.middlewares.auth.basicauth.users": "a:b",
+              },
+            },
+          },
+          db: {
+            image: "postgres",
+            labels: [
+              "traefik.tcp.routers.db.rule=HostSNI(`db.example.com`)",
+              "com.example.team=data",
+            ],
+          },
+        },
+      });
+
+      const rewritten = rewriteForPreview(spec, { pullRequest: 42 });
+
+      expect(rewritten.services.web.deploy?.labels).toEqual({
+        "traefik.enable": "true",
+        "traefik.http.routers.web-pr-42.rule":
+          "Host(`pr-42.app.example.com`) || Host(`*`)",
+        "traefik.http.routers.web-pr-42.service": "web-pr-42",
+        "traefik.http.routers.web-pr-42.middlewares":
+          "auth-pr-42,compress@file",
+        "traefik.http.services.web-pr-42.loadbalancer.server.port": "80",
+        "traefik.http.middlewares.auth-pr-42.basicauth.users": "a:b",
+      });
+      expect(rewritten.services.db.labels).toEqual([
+        "traefik.tcp.routers.db-pr-42.rule=HostSNI(`pr-42.db.example.com`)",
+        "com.example.team=data",
+      ]);
+    });
+
+    it("should prefix host patterns of regular expression matchers", () => {
+      const spec = defineComposeSpec({
+        services: {
+          web: {
+            image: "nginx",
+            deploy: {
+              labels: {
+                "traefik.http.routers.v3.rule":
+                  "HostRegexp(`^(www|app)\\.example\\.com$`)",
+                "traefik.http.routers.v2.rule":
+                  "HostRegexp(`{sub:[a-z]+}.example.com`)",
+                "traefik.tcp.routers.db.rule":
+                  "HostSNIRegexp(`^.+\\.db\\.example\\.com$`)",
+              },
+            },
+          },
+        },
+      });
+
+      const rewritten = rewriteForPreview(spec, { pullRequest: 42 });
+
+      expect(rewritten.services.web.deploy?.labels).toEqual({
+        "traefik.http.routers.v3-pr-42.rule":
+          "HostRegexp(`^pr-42\\.(www|app)\\.example\\.com$`)",
+        "traefik.http.routers.v2-pr-42.rule":
+          "HostRegexp(`pr-42.{sub:[a-z]+}.example.com`)",
+        "traefik.tcp.routers.db-pr-42.rule":
+          "HostSNIRegexp(`^pr-42\\..+\\.db\\.example\\.com$`)",
+      });
+      expect(core.warning).not.toHaveBeenCalled();
+    });
+
+    it("should warn about host matchers it cannot rewrite", () => {
+      const spec = defineComposeSpec({
+        services: {
+          web: {
+            image: "nginx",
+            deploy: {
+              labels: {
+                "traefik.http.routers.web.rule": "Host(app.example.com)",
+              },
+            },
+          },
+        },
+      });
+
+      rewriteForPreview(spec, { pullRequest: 42 });
+
+      expect(core.warning).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'The rule of Traefik router "web" has host matchers that cannot be ' +
+            "rewritten for the preview",
+        ),
+      );
+    });
+  });
+});
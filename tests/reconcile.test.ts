@@ -178,6 +178,50 @@ describe("reconcileSwarmCompatibility", () => {
       );
     });
 
+    it("keeps the conditions as labels for staged deployment", async () => {
+      const s = spec({
+        api: {
+          image: "nginx",
+          depends_on: {
+            db: { condition: "service_healthy" },
+            cache: {},
+          },
+          deploy: { labels: ["com.example.team=api"] },
+        },
+        web: {
+          image: "nginx",
+          depends_on: { api: { condition: "service_started" } },
+        },
+        db: { image: "postgres" },
+        cache: { image: "redis" },
+      });
+      await reconcileSwarmCompatibility(s, {
+        strictCompatibility: false,
+        stagedDeployment: true,
+      });
+      expect(s.services.api).toEqual({
+        image: "nginx",
+        depends_on: ["db", "cache"],
+        deploy: {
+          labels: [
+            "com.example.team=api",
+            "com.matchory.deployment.depends-on.db=service_healthy",
+            "com.matchory.deployment.depends-on.cache=service_started",
+          ],
+        },
+      });
+      expect(s.services.web).toEqual({
+        image: "nginx",
+        depends_on: ["api"],
+        deploy: {
+          labels: {
+            "com.matchory.deployment.depends-on.api": "service_started",
+          },
+        },
+      });
+      expect(core.warning).not.toHaveBeenCalled();
+    });
+
     it("leaves list form unchanged and does not warn", async () => {
       const s = spec({
         api: { image: "nginx", depends_on: ["db"] },
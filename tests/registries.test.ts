@@ -0,0 +1,121 @@
+import {
+  lstat,
+  mkdir,
+  mkdtemp,
+  readFile,
+  rm,
+  writeFile,
+} from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import * as core from "@actions/core";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as engine from "../src/engine.js";
+import { loginToRegistries, removeRegistryConfig } from "../src/registries.js";
+import { exists } from "../src/utils.js";
+
+vi.mock("@actions/core");
+vi.mock("../src/engine.js", async (importOriginal) => ({
+  ...(await importOriginal()),
+  loginToRegistry: vi.fn(),
+  useDockerConfig: vi.fn(),
+}));
+
+describe("Registries", () => {
+  const registries = [
+    { registry: "ghcr.io", username: "octocat", password: "hunter2" },
+    { registry: "registry.example.com", username: "ci", password: "s3cret" },
+  ];
+  let root: string;
+  let source: string;
+
+  beforeEach(async () => {
+    vi.resetAllMocks();
+    root = await mkdtemp(join(tmpdir(), "registries-test-"));
+    source = join(root, "docker");
+    await mkdir(join(source, "contexts"), { recursive: true });
+    await writeFile(
+      join(source, "config.json"),
+      JSON.stringify({
+        auths: { "ghcr.io": { auth: "cnVubmVyOnRva2Vu" } },
+        currentContext: "production",
+      }),
+    );
+    vi.stubEnv("DOCKER_CONFIG", source);
+    vi.stubEnv("RUNNER_TEMP", root);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  describe("loginToRegistries", () => {
+    it("should do nothing without registries", async () => {
+      await expect(loginToRegistries({ registries: [] })).resolves.toBe(
+        undefined,
+      );
+
+      expect(engine.useDockerConfig).not.toHaveBeenCalled();
+      expect(engine.loginToRegistry).not.toHaveBeenCalled();
+    });
+
+    it("should log in to every registry in a separate configuration", async () => {
+      const directory = await loginToRegistries({ registries });
+
+      expect(directory).toMatch(new RegExp(`^${root}/docker-config-`));
+      expect(engine.useDockerConfig).toHaveBeenCalledWith(directory);
+      expect(engine.loginToRegistry).toHaveBeenCalledTimes(2);
+      expect(engine.loginToRegistry).toHaveBeenCalledWith(registries[0]);
+      expect(engine.loginToRegistry).toHaveBeenCalledWith(registries[1]);
+      expect(core.info).toHaveBeenCalledWith(
+        'Logged in to registry "ghcr.io" as "octocat"',
+      );
+    });
+
+    it("should keep the contexts, but not the credentials of the runner", async () => {
+      const directory = (await loginToRegistries({ registries })) as string;
+
+      expect(
+        JSON.parse(await readFile(join(directory, "config.json"), "utf-8")),
+      ).toEqual({ currentContext: "production" });
+      expect((await lstat(join(directory, "contexts"))).isSymbolicLink()).toBe(
+        true,
+      );
+      expect(await exists(join(directory, "cli-plugins"))).toBe(false);
+    });
+
+    it("should clean up if a login fails", async () => {
+      vi.mocked(engine.loginToRegistry).mockRejectedValueOnce(
+        new Error('Failed to log in to registry "ghcr.io" as "octocat"'),
+      );
+
+      await expect(loginToRegistries({ registries })).rejects.toThrow(
+        'Failed to log in to registry "ghcr.io" as "octocat"',
+      );
+
+      const directory = vi.mocked(engine.useDockerConfig).mock.calls[0][0];
+
+      expect(engine.useDockerConfig).toHaveBeenLastCalledWith(undefined);
+      expect(await exists(directory as string)).toBe(false);
+    });
+  });
+
+  describe("removeRegistryConfig", () => {
+    it("should remove the configuration, but not the linked entries", async () => {
+      const directory = (await loginToRegistries({ registries })) as string;
+
+      await removeRegistryConfig(directory);
+
+      expect(engine.useDockerConfig).toHaveBeenLastCalledWith(undefined);
+      expect(await exists(directory)).toBe(false);
+      expect(await exists(join(source, "contexts"))).toBe(true);
+    });
+
+    it("should do nothing without a configuration", async () => {
+      await removeRegistryConfig(undefined);
+
+      expect(engine.useDockerConfig).not.toHaveBeenCalled();
+    });
+  });
+});
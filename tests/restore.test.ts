@@ -0,0 +1,218 @@
+import * as core from "@actions/core";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import * as bluegreen from "../src/bluegreen.js";
+import type { ComposeSpec } from "../src/compose.js";
+import * as diff from "../src/diff.js";
+import type { ConfigMetadata, SecretMetadata } from "../src/engine.js";
+import * as engine from "../src/engine.js";
+import * as history from "../src/history.js";
+import * as monitoring from "../src/monitoring.js";
+import * as registries from "../src/registries.js";
+import { referenceVariables, restoreDeployment } from "../src/restore.js";
+import * as rollback from "../src/rollback.js";
+import { defineSettings } from "../src/settings.js";
+
+vi.mock("@actions/core");
+vi.mock("../src/engine.js");
+
+describe("Restore", () => {
+  const settings = defineSettings({
+    diff: false,
+    dryRun: false,
+    monitor: true,
+    rollbackOnFailure: true,
+    rollbackTo: "previous",
+    routingLabel: "com.matchory.deployment.active",
+    secretValues: new Map([["API_KEY", "s3cret"]]),
+    stack: "app",
+    strategy: "rolling",
+    variables: new Map(),
+    version: "1.2.0",
+  });
+
+  // As recorded by a deployment of version 1.1.0
+  const recordedSpec: ComposeSpec = {
+    services: {
+      web: {
+        image: "nginx:1.27",
+        environment: { API_KEY: "${API_KEY}", MODE: "production" },
+        secrets: ["db"],
+        configs: ["nginx"],
+      },
+    },
+    secrets: {
+      db: {
+        name: "app-db-abc1234",
+        file: "./db.0b6a.generated.secret",
+        labels: { "com.matchory.deployment.stack": "app" },
+      },
+    },
+    configs: {
+      nginx: {
+        name: "app-nginx-def5678",
+        file: "./nginx.1c7b.generated.secret",
+      },
+    },
+  };
+
+  function mockVariables(secrets: string[], configs: string[]) {
+    vi.mocked(engine.listSecrets).mockResolvedValue(
+      secrets.map((Name) => ({ ID: Name, Name }) as SecretMetadata),
+    );
+    vi.mocked(engine.listConfigs).mockResolvedValue(
+      configs.map((Name) => ({ ID: Name, Name }) as ConfigMetadata),
+    );
+  }
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.spyOn(history, "readDeploymentRecord").mockResolvedValue({
+      stack: "app",
+      version: "1.1.0",
+      deployedAt: "2026-01-01T00:00:00.000Z",
+      spec: recordedSpec,
+      replaces: "1.0.0",
+    });
+    vi.spyOn(history, "recordDeployment").mockResolvedValue();
+    vi.spyOn(registries, "loginToRegistries").mockResolvedValue(undefined);
+    vi.spyOn(registries, "removeRegistryConfig").mockResolvedValue();
+    vi.spyOn(rollback, "snapshotStack").mockResolvedValue(new Map());
+    vi.spyOn(monitoring, "monitorDeployment").mockResolvedValue();
+    mockVariables(["app-db-abc1234"], ["app-nginx-def5678"]);
+  });
+
+  describe("restoreDeployment", () => {
+    it("should redeploy the recorded spec with the existing variables", async () => {
+      const { spec, version } = await restoreDeployment(settings);
+
+      expect(version).toBe("1.1.0");
+      expect(spec).toEqual({
+        services: {
+          web: {
+            image: "nginx:1.27",
+            environment: { API_KEY: "s3cret", MODE: "production" },
+            secrets: ["db"],
+            configs: ["nginx"],
+          },
+        },
+        secrets: { db: { name: "app-db-abc1234", external: true } },
+        configs: { nginx: { name: "app-nginx-def5678", external: true } },
+      });
+      expect(engine.listSecrets).toHaveBeenCalledWith({
+        name: ["app-db-abc1234"],
+      });
+      expect(engine.deployStack).toHaveBeenCalledWith(spec, settings);
+      expect(monitoring.monitorDeployment).toHaveBeenCalledWith(settings, spec);
+      expect(history.recordDeployment).toHaveBeenCalledWith(
+        spec,
+        { ...settings, version: "1.1.0" },
+        "app",
+        expect.objectContaining({ version: "1.1.0", replaces: "1.0.0" }),
+      );
+    });
+
+    it("should list every variable that no longer exists", async () => {
+      // The name filter matches prefixes
+      mockVariables(["app-db-abc1234567"], []);
+
+      await expect(restoreDeployment(settings)).rejects.toThrow(
+        "Cannot roll back to version 1.1.0, as 2 of the secrets and configs " +
+          "it uses no longer exist:\n" +
+          '  - secret "app-db-abc1234"\n' +
+          '  - config "app-nginx-def5678"\n',
+      );
+      expect(engine.deployStack).not.toHaveBeenCalled();
+    });
+
+    it("should list every redacted secret that is not passed", async () => {
+      await expect(
+        restoreDeployment({ ...settings, secretValues: new Map() }),
+      ).rejects.toThrow(
+        "Cannot roll back to version 1.1.0, as the values of 1 secret(s) " +
+          'were redacted from its record, and are not passed via the "secrets" ' +
+          "input:\n  - API_KEY\n",
+      );
+      expect(engine.deployStack).not.toHaveBeenCalled();
+    });
+
+    it("should roll the rollback back if monitoring fails", async () => {
+      const error = new Error("Service web failed");
+
+      vi.mocked(monitoring.monitorDeployment).mockRejectedValue(error);
+      vi.spyOn(rollback, "rollbackDeployment").mockRejectedValue(
+        new Error("Rolled back"),
+      );
+
+      await expect(restoreDeployment(settings)).rejects.toThrow("Rolled back");
+      expect(rollback.rollbackDeployment).toHaveBeenCalledWith(
+        settings,
+        new Map(),
+        error,
+      );
+      expect(history.recordDeployment).not.toHaveBeenCalled();
+    });
+
+    it("should only report the difference in a dry run", async () => {
+      vi.spyOn(diff, "diffStack").mockResolvedValue([]);
+      vi.spyOn(diff, "reportDiff").mockResolvedValue();
+
+      await restoreDeployment({ ...settings, dryRun: true });
+
+      expect(diff.reportDiff).toHaveBeenCalledWith([], "app");
+      expect(engine.deployStack).not.toHaveBeenCalled();
+      expect(core.info).toHaveBeenCalledWith(
+        'Dry run: skipping the rollback of stack "app" to version 1.1.0',
+      );
+    });
+
+    it("should roll back as another color in blue/green deployments", async () => {
+      vi.spyOn(bluegreen, "resolveColors").mockResolvedValue({
+        active: "green",
+        next: "blue",
+        retired: ["app-green"],
+      });
+      vi.spyOn(bluegreen, "switchColor").mockResolvedValue();
+
+      const { spec } = await restoreDeployment({
+        ...settings,
+        strategy: "blue-green",
+      });
+
+      expect(engine.deployStack).toHaveBeenCalledWith(
+        spec,
+        expect.objectContaining({ stack: "app-blue" }),
+      );
+      expect(
+        (spec.services.web as { deploy: { labels: Record<string, string> } })
+          .deploy.labels,
+      ).toEqual({
+        [bluegreen.colorLabel]: "blue",
+        "com.matchory.deployment.active": "false",
+      });
+      expect(bluegreen.switchColor).toHaveBeenCalled();
+      expect(rollback.snapshotStack).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("referenceVariables", () => {
+    it("should keep the names of external and unnamed variables", () => {
+      const spec = referenceVariables(
+        {
+          services: {},
+          secrets: {
+            tls: { external: true },
+            legacy: { external: { name: "legacy-cert" } },
+            plain: { file: "./plain.txt" },
+          },
+        },
+        "app-green",
+      );
+
+      expect(spec.secrets).toEqual({
+        tls: { name: "tls", external: true },
+        legacy: { name: "legacy-cert", external: true },
+        plain: { name: "app-green_plain", external: true },
+      });
+    });
+  });
+});
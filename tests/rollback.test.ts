@@ -0,0 +1,256 @@
+import * as core from "@actions/core";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { ServiceWithMetadata } from "../src/engine.js";
+import * as engine from "../src/engine.js";
+import * as monitoring from "../src/monitoring.js";
+import { rollbackDeployment, snapshotStack } from "../src/rollback.js";
+import { defineSettings } from "../src/settings.js";
+
+vi.mock("@actions/core");
+vi.mock("../src/engine.js", async (importOriginal) => ({
+  ...(await importOriginal()),
+  listServices: vi.fn(),
+  readEngineTime: vi.fn(),
+  replaceServiceSpec: vi.fn(),
+  rollbackService: vi.fn(),
+}));
+vi.mock("../src/monitoring.js", async (importOriginal) => ({
+  ...(await importOriginal()),
+  monitorRollback: vi.fn(),
+}));
+
+function service(
+  id: string,
+  index: number,
+  extra: Partial<ServiceWithMetadata> = {},
+) {
+  return {
+    ID: id,
+    Name: `test_${id}`,
+    Version: { Index: index },
+    Spec: { Name: `test_${id}`, Labels: {}, TaskTemplate: {} },
+    ...extra,
+  } as ServiceWithMetadata;
+}
+
+describe("Rollback", () => {
+  const settings = defineSettings({
+    envVarPrefix: "APP",
+    keyInterpolation: false,
+    manageVariables: true,
+    monitor: true,
+    monitorInterval: 5,
+    monitorTimeout: 300,
+    rollbackOnFailure: true,
+    stack: "test",
+    strictVariables: false,
+    variables: new Map(),
+    version: "1.0.0",
+  });
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(core.summary.addHeading).mockReturnValue(core.summary);
+    vi.mocked(core.summary.addRaw).mockReturnValue(core.summary);
+    vi.mocked(core.summary.addTable).mockReturnValue(core.summary);
+    vi.mocked(monitoring.monitorRollback).mockImplementation(
+      async (_, ids) => new Map(ids.map((id) => [id, undefined])),
+    );
+  });
+
+  describe("snapshotStack", () => {
+    it("should record the version and spec of every service in the stack", async () => {
+      vi.mocked(engine.listServices).mockResolvedValue([
+        service("web", 10),
+        service("api", 12),
+      ]);
+
+      const snapshot = await snapshotStack(settings);
+
+      expect(engine.listServices).toHaveBeenCalledWith(
+        { labels: { "com.docker.stack.namespace": "test" } },
+        true,
+      );
+      expect(snapshot).toEqual(
+        new Map([
+          ["web", { version: 10, spec: service("web", 10).Spec }],
+          ["api", { version: 12, spec: service("api", 12).Spec }],
+        ]),
+      );
+    });
+  });
+
+  describe("rollbackDeployment", () => {
+    it("should roll back only the services the deployment changed", async () => {
+      const previousSpec = {
+        Name: "test_web",
+        Labels: {},
+        TaskTemplate: { ContainerSpec: { Image: "web:1" } },
+      };
+      vi.mocked(engine.listServices).mockResolvedValue([
+        service("web", 11, { PreviousSpec: previousSpec }),
+        service("api", 12, { PreviousSpec: previousSpec }),
+      ]);
+
+      await expect(
+        rollbackDeployment(
+          settings,
+          new Map([
+            ["web", { version: 10, spec: previousSpec }],
+            ["api", { version: 12, spec: previousSpec }],
+          ]),
+          new Error("Service stuck"),
+        ),
+      ).rejects.toThrow(
+        "Deployment failed and was rolled back: Service stuck. Restored the " +
+          "previous version of test_web.",
+      );
+
+      expect(engine.rollbackService).toHaveBeenCalledExactlyOnceWith("web");
+      expect(monitoring.monitorRollback).toHaveBeenCalledWith(
+        settings,
+        ["web"],
+        undefined,
+      );
+      expect(core.summary.addTable).toHaveBeenCalledWith([
+        expect.any(Array),
+        [{ data: "test_web" }, { data: "web:1" }, { data: "Rolled back" }],
+      ]);
+      expect(core.summary.write).toHaveBeenCalled();
+    });
+
+    it("should restore the spec of promoted canaries", async () => {
+      const since = new Date("2024-01-01T00:00:00Z");
+      const deployedSpec = {
+        Name: "test_web",
+        Labels: {},
+        TaskTemplate: { ContainerSpec: { Image: "web:1" } },
+      };
+      const canarySpec = {
+        Name: "test_web",
+        Labels: {},
+        TaskTemplate: { ContainerSpec: { Image: "web:2" } },
+        UpdateConfig: { Parallelism: 1, Delay: 0 },
+      };
+      vi.mocked(engine.listServices).mockResolvedValue([
+        service("web", 13, {
+          Spec: { ...canarySpec, UpdateConfig: { Parallelism: 2 } },
+          PreviousSpec: canarySpec,
+        }),
+      ]);
+      vi.mocked(engine.readEngineTime).mockResolvedValue(since);
+
+      await expect(
+        rollbackDeployment(
+          settings,
+          new Map([["web", { version: 10, spec: deployedSpec }]]),
+          new Error("Service stuck"),
+        ),
+      ).rejects.toThrow(
+        "Deployment failed and was rolled back: Service stuck. Restored the " +
+          "previous version of test_web.",
+      );
+
+      expect(engine.rollbackService).not.toHaveBeenCalled();
+      expect(engine.replaceServiceSpec).toHaveBeenCalledExactlyOnceWith(
+        "web",
+        deployedSpec,
+      );
+      expect(monitoring.monitorRollback).toHaveBeenCalledWith(
+        settings,
+        ["web"],
+        since,
+      );
+      expect(core.summary.addTable).toHaveBeenCalledWith([
+        expect.any(Array),
+        [{ data: "test_web" }, { data: "web:1" }, { data: "Rolled back" }],
+      ]);
+    });
+
+    it("should keep services created by the deployment", async () => {
+      vi.mocked(engine.listServices).mockResolvedValue([service("new", 1)]);
+
+      await expect(
+        rollbackDeployment(settings, new Map(), new Error("Timed out")),
+      ).rejects.toThrow("No service had a previous version to restore.");
+
+      expect(engine.rollbackService).not.toHaveBeenCalled();
+      expect(core.summary.addTable).toHaveBeenCalledWith([
+        expect.any(Array),
+        [
+          { data: "test_new" },
+          { data: "-" },
+          { data: "Created by this deployment; kept" },
+        ],
+      ]);
+    });
+
+    it("should not roll back services Swarm is already rolling back", async () => {
+      vi.mocked(engine.listServices).mockResolvedValue([
+        service("web", 11, {
+          PreviousSpec: { Name: "test_web", Labels: {}, TaskTemplate: {} },
+          UpdateStatus: { State: "rollback_started" },
+        }),
+      ]);
+
+      await expect(
+        rollbackDeployment(
+          settings,
+          new Map([["web", { version: 10 }]]),
+          "failed",
+        ),
+      ).rejects.toThrow("Deployment failed and was rolled back: failed.");
+
+      expect(engine.rollbackService).not.toHaveBeenCalled();
+      expect(monitoring.monitorRollback).toHaveBeenCalledWith(
+        settings,
+        ["web"],
+        undefined,
+      );
+    });
+
+    it("should report services whose rollback did not converge", async () => {
+      vi.mocked(engine.listServices).mockResolvedValue([
+        service("web", 11, {
+          PreviousSpec: { Name: "test_web", Labels: {}, TaskTemplate: {} },
+        }),
+      ]);
+      vi.mocked(monitoring.monitorRollback).mockResolvedValue(
+        new Map([["web", "Rollback did not converge within 300s"]]),
+      );
+
+      await expect(
+        rollbackDeployment(
+          settings,
+          new Map([["web", { version: 10 }]]),
+          new Error("x"),
+        ),
+      ).rejects.toThrow(
+        "1 service(s) could not be rolled back: test_web (Rollback did not " +
+          "converge within 300s)",
+      );
+    });
+
+    it("should report a rollback that could not be started", async () => {
+      vi.mocked(engine.listServices).mockResolvedValue([
+        service("web", 11, {
+          PreviousSpec: { Name: "test_web", Labels: {}, TaskTemplate: {} },
+        }),
+      ]);
+      vi.mocked(engine.rollbackService).mockRejectedValue(
+        new Error("connection refused"),
+      );
+
+      await expect(
+        rollbackDeployment(
+          settings,
+          new Map([["web", { version: 10 }]]),
+          new Error("x"),
+        ),
+      ).rejects.toThrow(
+        "Deployment failed (x), and rolling it back failed as well: " +
+          "connection refused.",
+      );
+    });
+  });
+});
@@ -1,6 +1,10 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { env } from "node:process";
 import * as core from "@actions/core";
-import { beforeEach, describe, expect, it, vi } from "vitest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { interpolateSpec } from "../src/compose.js";
 import { parseSettings } from "../src/settings.js";
 
 vi.mock("@actions/core", { spy: true });
@@ -29,6 +33,7 @@ describe("settings", () => {
     expect(settings.stack).toBe("unknown");
     expect(settings.version).toBe("unknown");
     expect(settings.composeFiles).toEqual([]);
+    expect(settings.environment).toBeUndefined();
     expect(settings.envVarPrefix).toBe("DEPLOYMENT");
     expect(settings.healthCheckWarnings).toBe(true);
     expect(settings.keyInterpolation).toBe(false);
@@ -36,10 +41,34 @@ describe("settings", () => {
     expect(settings.manageVariables).toBe(true);
     expect(settings.strictVariables).toBe(true);
     expect(settings.strictCompatibility).toBe(false);
+    expect(settings.strictInterpolation).toBe(false);
     expect(settings.monitor).toBe(false);
     expect(settings.monitorTimeout).toBe(300);
     expect(settings.monitorInterval).toBe(5);
     expect(settings.uploadComposeSpec).toBe(true);
+    expect(settings.dryRun).toBe(false);
+    expect(settings.diff).toBe(false);
+    expect(settings.rollbackOnFailure).toBe(false);
+    expect(settings.lock).toBe(false);
+    expect(settings.lockTimeout).toBe(600);
+    expect(settings.lockTtl).toBe(1800);
+    expect(settings.action).toBe("deploy");
+    expect(settings.preview).toBe(false);
+    expect(settings.pinImageDigests).toBe(false);
+    expect(settings.checkImages).toBe(false);
+    expect(settings.checkPlacement).toBe("off");
+    expect(settings.checkCapacity).toBe("off");
+    expect(settings.prune).toBe(true);
+    expect(settings.resolveImage).toBe("always");
+    expect(settings.withRegistryAuth).toBe(true);
+    expect(settings.registries).toEqual([]);
+    expect(settings.retryDeploy).toBe(false);
+    expect(settings.stagedDeployment).toBe(false);
+    expect(settings.strategy).toBe("rolling");
+    expect(settings.historyLimit).toBe(10);
+    expect(settings.routingLabel).toBe("com.matchory.deployment.active");
+    expect(settings.ingressService).toBeUndefined();
+    expect(settings.pullRequest).toBeUndefined();
   });
 
   it("should parse settings with provided inputs", () => {
@@ -56,6 +85,7 @@ describe("settings", () => {
         })[name] || "",
     );
     booleanInputs["upload-compose-spec"] = false;
+    booleanInputs["dry-run"] = true;
 
     const settings = parseSettings(env);
 
@@ -72,6 +102,7 @@ describe("settings", () => {
     expect(settings.monitorTimeout).toBe(600);
     expect(settings.monitorInterval).toBe(10);
     expect(settings.uploadComposeSpec).toBe(false);
+    expect(settings.dryRun).toBe(true);
   });
 
   it("should infer version from GITHUB_REF", () => {
@@ -256,6 +287,398 @@ describe("settings", () => {
     expect(settings.strictCompatibility).toBe(true);
   });
 
+  it("parses strict-interpolation input when set", () => {
+    booleanInputs["strict-interpolation"] = true;
+
+    const settings = parseSettings({ GITHUB_REPOSITORY: "matchory/app" });
+    expect(settings.strictInterpolation).toBe(true);
+  });
+
+  it("should default to the Docker CLI as engine client", () => {
+    expect(parseSettings({}).engineClient).toBe("cli");
+  });
+
+  it("should reject unknown engine clients", () => {
+    vi.spyOn(core, "getInput").mockImplementation((name) =>
+      name === "engine-client" ? "grpc" : "",
+    );
+
+    expect(() => parseSettings({})).toThrow(
+      'The "engine-client" input must be either "cli" or "api"',
+    );
+  });
+
+  it("should parse the lock timeout and TTL if locking is enabled", () => {
+    booleanInputs.lock = true;
+    vi.spyOn(core, "getInput").mockImplementation(
+      (name) => ({ "lock-timeout": "120", "lock-ttl": "900" })[name] ?? "",
+    );
+
+    const settings = parseSettings({});
+
+    expect(settings.lock).toBe(true);
+    expect(settings.lockTimeout).toBe(120);
+    expect(settings.lockTtl).toBe(900);
+  });
+
+  it("should reject an invalid lock timeout if locking is enabled", () => {
+    booleanInputs.lock = true;
+    vi.spyOn(core, "getInput").mockImplementation((name) =>
+      name === "lock-timeout" ? "10m" : "",
+    );
+
+    expect(() => parseSettings({})).toThrow(
+      'The "lock-timeout" input must be a positive whole number of seconds',
+    );
+  });
+
+  it("should reject unknown actions", () => {
+    vi.spyOn(core, "getInput").mockImplementation((name) =>
+      name === "action" ? "destroy" : "",
+    );
+
+    expect(() => parseSettings({})).toThrow(
+      'The "action" input must be one of "deploy", "rollback", or "remove"',
+    );
+  });
+
+  it("should parse the environment to deploy", () => {
+    vi.spyOn(core, "getInput").mockImplementation((name) =>
+      name === "environment" ? "staging" : "",
+    );
+
+    expect(parseSettings({}).environment).toBe("staging");
+  });
+
+  it("should reject environments that are not plain names", () => {
+    vi.spyOn(core, "getInput").mockImplementation((name) =>
+      name === "environment" ? "../staging" : "",
+    );
+
+    expect(() => parseSettings({})).toThrow(
+      'The "environment" input must be a name made of letters, digits, dots, ' +
+        'dashes, and underscores, but received "../staging".',
+    );
+  });
+
+  it("should reject environments combined with compose files", () => {
+    vi.spyOn(core, "getInput").mockImplementation((name) =>
+      name === "environment" ? "staging" : "",
+    );
+
+    expect(() => parseSettings({ COMPOSE_FILE: "compose.yaml" })).toThrow(
+      'The "environment" input selects the Compose files to deploy by itself',
+    );
+  });
+
+  it("should roll back to the previous version by default", () => {
+    vi.spyOn(core, "getInput").mockImplementation((name) =>
+      name === "action" ? "rollback" : "",
+    );
+
+    const settings = parseSettings({});
+
+    expect(settings.action).toBe("rollback");
+    expect(settings.rollbackTo).toBe("previous");
+  });
+
+  it("should parse the version to roll back to", () => {
+    vi.spyOn(core, "getInput").mockImplementation(
+      (name) => ({ action: "rollback", "rollback-to": "1.1.0" })[name] ?? "",
+    );
+
+    expect(parseSettings({}).rollbackTo).toBe("1.1.0");
+  });
+
+  it("should accept teardown as an alias of remove", () => {
+    vi.spyOn(core, "getInput").mockImplementation((name) =>
+      name === "action" ? "teardown" : "",
+    );
+
+    expect(parseSettings({}).action).toBe("remove");
+  });
+
+  it("should reject unknown placement check modes", () => {
+    vi.spyOn(core, "getInput").mockImplementation((name) =>
+      name === "check-placement" ? "true" : "",
+    );
+
+    expect(() => parseSettings({})).toThrow(
+      'The "check-placement" input must be one of "off", "warn", or "fail"',
+    );
+  });
+
+  it("should parse the deploy flags", () => {
+    vi.spyOn(core, "getInput").mockImplementation((name) =>
+      name === "resolve-image" ? "never" : "",
+    );
+    booleanInputs.prune = false;
+    booleanInputs["with-registry-auth"] = false;
+
+    const settings = parseSettings({});
+
+    expect(settings.prune).toBe(false);
+    expect(settings.resolveImage).toBe("never");
+    expect(settings.withRegistryAuth).toBe(false);
+  });
+
+  it("should reject unknown image resolution modes", () => {
+    vi.spyOn(core, "getInput").mockImplementation((name) =>
+      name === "resolve-image" ? "sometimes" : "",
+    );
+
+    expect(() => parseSettings({})).toThrow(
+      'The "resolve-image" input must be one of "always", "changed", or "never"',
+    );
+  });
+
+  it("should parse the blue/green inputs", () => {
+    vi.spyOn(core, "getInput").mockImplementation(
+      (name) =>
+        ({
+          strategy: "blue-green",
+          "routing-label": "traefik.enable",
+          "ingress-service": "proxy_nginx",
+        })[name] ?? "",
+    );
+
+    const settings = parseSettings({});
+
+    expect(settings.strategy).toBe("blue-green");
+    expect(settings.routingLabel).toBe("traefik.enable");
+    expect(settings.ingressService).toBe("proxy_nginx");
+  });
+
+  it("should parse the history limit", () => {
+    vi.spyOn(core, "getInput").mockImplementation((name) =>
+      name === "history-limit" ? "0" : "",
+    );
+
+    expect(parseSettings({}).historyLimit).toBe(0);
+  });
+
+  it("should reject invalid history limits", () => {
+    vi.spyOn(core, "getInput").mockImplementation((name) =>
+      name === "history-limit" ? "-1" : "",
+    );
+
+    expect(() => parseSettings({})).toThrow(
+      'The "history-limit" input must be a whole number of deployments, but ' +
+        'received "-1".',
+    );
+  });
+
+  it("should reject unknown strategies", () => {
+    vi.spyOn(core, "getInput").mockImplementation((name) =>
+      name === "strategy" ? "canary" : "",
+    );
+
+    expect(() => parseSettings({})).toThrow(
+      'The "strategy" input must be either "rolling" or "blue-green", but ' +
+        'received "canary".',
+    );
+  });
+
+  describe("registries", () => {
+    function parseRegistries(registries: string) {
+      vi.spyOn(core, "getInput").mockImplementation((name) =>
+        name === "registries" ? registries : "",
+      );
+
+      return parseSettings({}).registries;
+    }
+
+    it("should parse a list of credentials, and mask the passwords", () => {
+      const registries = parseRegistries(
+        JSON.stringify([
+          { registry: "ghcr.io", username: "octocat", password: "hunter2" },
+        ]),
+      );
+
+      expect(registries).toEqual([
+        { registry: "ghcr.io", username: "octocat", password: "hunter2" },
+      ]);
+      expect(core.setSecret).toHaveBeenCalledWith("hunter2");
+    });
+
+    it("should parse a Docker config.json", () => {
+      const auth = Buffer.from("octocat:hun:ter2").toString("base64");
+      const registries = parseRegistries(
+        JSON.stringify({
+          auths: {
+            "ghcr.io": { auth },
+            "registry.example.com": { username: "ci", password: "s3cret" },
+          },
+        }),
+      );
+
+      expect(registries).toEqual([
+        { registry: "ghcr.io", username: "octocat", password: "hun:ter2" },
+        {
+          registry: "registry.example.com",
+          username: "ci",
+          password: "s3cret",
+        },
+      ]);
+      expect(core.setSecret).toHaveBeenCalledWith(auth);
+      expect(core.setSecret).toHaveBeenCalledWith("hun:ter2");
+      expect(core.setSecret).toHaveBeenCalledWith("s3cret");
+    });
+
+    it("should reject invalid JSON", () => {
+      expect(() => parseRegistries("ghcr.io octocat hunter2")).toThrow(
+        'The "registries" input must be valid JSON',
+      );
+    });
+
+    it("should reject other JSON values", () => {
+      expect(() => parseRegistries('{"ghcr.io": "hunter2"}')).toThrow(
+        'or the contents of a Docker config.json file with an "auths" object',
+      );
+    });
+
+    it("should reject incomplete credentials", () => {
+      expect(() =>
+        parseRegistries(JSON.stringify([{ registry: "ghcr.io" }])),
+      ).toThrow(
+        'Registry "ghcr.io" in the "registries" input must have a "registry", ' +
+          '"username", and "password".',
+      );
+    });
+  });
+
+  describe("preview", () => {
+    beforeEach(() => {
+      booleanInputs.preview = true;
+    });
+
+    it("should derive the stack name from the pull request ref", () => {
+      const settings = parseSettings({
+        GITHUB_REPOSITORY: "matchory/app",
+        GITHUB_REF: "refs/pull/42/merge",
+      });
+
+      expect(settings.pullRequest).toBe(42);
+      expect(settings.stack).toBe("app-pr-42");
+      expect(settings.variables.get("MATCHORY_DEPLOYMENT_STACK")).toBe(
+        "app-pr-42",
+      );
+      expect(settings.variables.get("MATCHORY_DEPLOYMENT_PULL_REQUEST")).toBe(
+        "42",
+      );
+    });
+
+    it("should suffix an explicit stack name", () => {
+      vi.spyOn(core, "getInput").mockImplementation((name) =>
+        name === "stack-name" ? "shop" : "",
+      );
+
+      expect(parseSettings({ GITHUB_REF: "refs/pull/7/merge" }).stack).toBe(
+        "shop-pr-7",
+      );
+    });
+
+    it("should read the pull request from the event payload", async () => {
+      const directory = await mkdtemp(join(tmpdir(), "settings-"));
+      const path = join(directory, "event.json");
+      await writeFile(path, JSON.stringify({ pull_request: { number: 13 } }));
+
+      try {
+        const settings = parseSettings({
+          GITHUB_REPOSITORY: "matchory/app",
+          GITHUB_REF: "refs/heads/main",
+          GITHUB_EVENT_PATH: path,
+        });
+
+        expect(settings.stack).toBe("app-pr-13");
+      } finally {
+        await rm(directory, { recursive: true, force: true });
+      }
+    });
+
+    it("should fail outside of pull requests", () => {
+      expect(() => parseSettings({ GITHUB_REF: "refs/heads/main" })).toThrow(
+        'The "preview" input requires a pull request',
+      );
+    });
+  });
+
+  describe("remote host", () => {
+    function withInputs(inputs: Record<string, string>) {
+      vi.spyOn(core, "getInput").mockImplementation(
+        (name) => inputs[name] ?? "",
+      );
+    }
+
+    it("should use the local engine by default", () => {
+      const settings = parseSettings({});
+
+      expect(settings.dockerHost).toBeUndefined();
+      expect(settings.sshKey).toBeUndefined();
+    });
+
+    it("should parse an SSH host and mask its key", () => {
+      withInputs({
+        "docker-host": "ssh://deploy@manager",
+        "ssh-key": "private-key",
+        "ssh-known-hosts": "manager ssh-ed25519 AAAA",
+      });
+
+      const settings = parseSettings({});
+
+      expect(settings.dockerHost).toBe("ssh://deploy@manager");
+      expect(settings.sshKey).toBe("private-key");
+      expect(settings.sshKnownHosts).toBe("manager ssh-ed25519 AAAA");
+      expect(core.setSecret).toHaveBeenCalledWith("private-key");
+    });
+
+    it("should parse a TCP host with TLS certificates", () => {
+      withInputs({
+        "docker-host": "tcp://manager:2376",
+        "tls-ca-cert": "CA",
+        "tls-cert": "CERT",
+        "tls-key": "KEY",
+      });
+
+      const settings = parseSettings({});
+
+      expect(settings.tlsCaCert).toBe("CA");
+      expect(settings.tlsCert).toBe("CERT");
+      expect(settings.tlsKey).toBe("KEY");
+      expect(core.setSecret).toHaveBeenCalledWith("KEY");
+    });
+
+    it("should reject unsupported addresses", () => {
+      withInputs({ "docker-host": "manager:2376" });
+
+      expect(() => parseSettings({})).toThrow(
+        'The "docker-host" input must be an ssh:// or tcp:// address',
+      );
+    });
+
+    it("should reject credentials for the other kind of host", () => {
+      withInputs({ "docker-host": "tcp://manager:2376", "ssh-key": "key" });
+
+      expect(() => parseSettings({})).toThrow(
+        'The "ssh-key" and "ssh-known-hosts" inputs require an ssh:// address',
+      );
+
+      withInputs({ "tls-ca-cert": "CA" });
+
+      expect(() => parseSettings({})).toThrow(
+        'The "tls-ca-cert", "tls-cert", and "tls-key" inputs require a tcp://',
+      );
+    });
+
+    it("should reject a client certificate without its key", () => {
+      withInputs({ "docker-host": "tcp://manager:2376", "tls-cert": "CERT" });
+
+      expect(() => parseSettings({})).toThrow(
+        'The "tls-cert" and "tls-key" inputs must be given together.',
+      );
+    });
+  });
+
   describe("edge cases and environment variable handling", () => {
     it("should skip VARIABLES key in environment", () => {
       vi.stubEnv("VARIABLES", "should-skip");
@@ -814,6 +1237,123 @@ VAR2=value2}`;
     });
   });
 
+  describe("env-file input", () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), "settings-"));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    function withEnvFiles(files: string[], variables = "") {
+      vi.spyOn(core, "getInput").mockImplementation(
+        (name) =>
+          ({
+            "env-file": files.join("\n"),
+            variables,
+          })[name] || "",
+      );
+    }
+
+    it("should merge env files between the environment and the variables input", async () => {
+      const defaults = join(directory, ".env");
+      const staging = join(directory, ".env.staging");
+
+      await writeFile(
+        defaults,
+        "export HOST=example.com\nURL=https://${HOST}\nMODE=development\n",
+      );
+      await writeFile(staging, 'MODE="staging"\nNAME=${MODE}-${ENV_VAR}\n');
+      withEnvFiles([defaults, staging], "URL=https://override.test");
+
+      const settings = parseSettings({ ENV_VAR: "env", HOST: "localhost" });
+
+      expect(settings.variables.get("HOST")).toBe("example.com");
+      expect(settings.variables.get("URL")).toBe("https://override.test");
+      expect(settings.variables.get("MODE")).toBe("staging");
+      expect(settings.variables.get("NAME")).toBe("staging-env");
+    });
+
+    it("should log the source of each variable", async () => {
+      const path = join(directory, ".env");
+
+      await writeFile(path, "FROM_FILE=1\nOVERRIDDEN=1\n");
+      withEnvFiles([path], "OVERRIDDEN=2");
+
+      parseSettings({ FROM_ENV: "1" });
+
+      expect(core.debug).toHaveBeenCalledWith(
+        "Variables from the environment: FROM_ENV",
+      );
+      expect(core.debug).toHaveBeenCalledWith(
+        `Variables from the env-file "${path}": FROM_FILE`,
+      );
+      expect(core.debug).toHaveBeenCalledWith(
+        'Variables from the "variables" input: OVERRIDDEN',
+      );
+    });
+
+    it("should keep literal dollar signs through to the Compose file", async () => {
+      const defaults = join(directory, ".env");
+      const local = join(directory, ".env.local");
+
+      await writeFile(
+        defaults,
+        "PASSWORD='pa$word'\n" +
+          'ESCAPED="cost: \\$5"\n' +
+          "COPY=${PASSWORD}\n" +
+          "OVERRIDDEN='$HOST'\n",
+      );
+      await writeFile(local, "NESTED=${ESCAPED}!\n");
+      withEnvFiles([defaults, local], "OVERRIDDEN=${HOST}");
+
+      const settings = parseSettings({ HOST: "localhost", word: "oops" });
+      const spec = interpolateSpec(
+        {
+          services: {
+            app: {
+              image: "app",
+              environment: {
+                PASSWORD: "${PASSWORD}",
+                ESCAPED: "${ESCAPED}",
+                COPY: "${COPY}",
+                NESTED: "${NESTED}",
+                OVERRIDDEN: "${OVERRIDDEN}",
+              },
+            },
+          },
+        },
+        settings,
+      );
+
+      expect(settings.variables.get("PASSWORD")).toBe("pa$word");
+      expect(spec.services.app).toEqual({
+        image: "app",
+        environment: {
+          PASSWORD: "pa$word",
+          ESCAPED: "cost: $5",
+          COPY: "pa$word",
+          NESTED: "cost: $5!",
+          // Values of the variables input are interpolated recursively
+          OVERRIDDEN: "localhost",
+        },
+      });
+    });
+
+    it("should fail on missing env files", () => {
+      const path = join(directory, "missing.env");
+
+      withEnvFiles([path]);
+
+      expect(() => parseSettings({})).toThrow(
+        `Failed to read the env-file "${path}"`,
+      );
+    });
+  });
+
   describe("Variable exclusion", () => {
     it("should exclude specified variables", () => {
       const variablesJson = JSON.stringify({
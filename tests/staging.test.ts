@@ -0,0 +1,196 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { defineComposeSpec } from "../src/compose.js";
+import * as engine from "../src/engine.js";
+import * as monitoring from "../src/monitoring.js";
+import { defineSettings } from "../src/settings.js";
+import {
+  dependsOnLabelPrefix,
+  deployInWaves,
+  resolveWaves,
+} from "../src/staging.js";
+
+vi.mock("@actions/core");
+vi.mock("../src/engine.js", async (importOriginal) => ({
+  ...(await importOriginal()),
+  deployStack: vi.fn(),
+  readEngineTime: vi.fn(),
+}));
+
+describe("Staging", () => {
+  const spec = defineComposeSpec({
+    services: {
+      web: {
+        image: "nginx",
+        depends_on: ["api"],
+      },
+      api: {
+        image: "api",
+        depends_on: ["db", "migrate"],
+        deploy: {
+          labels: {
+            "com.example.team": "api",
+            [`${dependsOnLabelPrefix}db`]: "service_healthy",
+            [`${dependsOnLabelPrefix}migrate`]:
+              "service_completed_successfully",
+          },
+        },
+      },
+      migrate: {
+        image: "api",
+        depends_on: ["db"],
+        deploy: { labels: [`${dependsOnLabelPrefix}db=service_healthy`] },
+      },
+      db: { image: "postgres" },
+    },
+  });
+
+  const deployedAt = new Date("2025-01-01T12:00:00Z");
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(engine.readEngineTime).mockResolvedValue(deployedAt);
+  });
+
+  describe("resolveWaves", () => {
+    it("should order the services by their dependencies", () => {
+      const { waves } = resolveWaves(spec);
+
+      expect(waves).toEqual([
+        {
+          services: ["db"],
+          conditions: new Map([["db", new Set(["service_healthy"])]]),
+        },
+        {
+          services: ["migrate"],
+          conditions: new Map([
+            ["migrate", new Set(["service_completed_successfully"])],
+          ]),
+        },
+        {
+          services: ["api"],
+          conditions: new Map([["api", new Set(["service_started"])]]),
+        },
+        { services: ["web"], conditions: new Map() },
+      ]);
+    });
+
+    it("should remove the condition labels", () => {
+      const { spec: stripped } = resolveWaves(spec);
+
+      expect(stripped.services.api.deploy).toEqual({
+        labels: { "com.example.team": "api" },
+      });
+      expect(stripped.services.migrate.deploy).toEqual({ labels: [] });
+      expect(spec.services.migrate.deploy).toEqual({
+        labels: [`${dependsOnLabelPrefix}db=service_healthy`],
+      });
+    });
+
+    it("should deploy services without dependencies together", () => {
+      const { waves } = resolveWaves({
+        services: { web: { image: "nginx" }, db: { image: "postgres" } },
+      });
+
+      expect(waves).toEqual([
+        { services: ["web", "db"], conditions: new Map() },
+      ]);
+    });
+
+    it("should ignore dependencies on services outside the stack", () => {
+      const { waves } = resolveWaves({
+        services: { web: { image: "nginx", depends_on: ["cache"] } },
+      });
+
+      expect(waves).toEqual([{ services: ["web"], conditions: new Map() }]);
+    });
+
+    it("should report dependency cycles", () => {
+      expect(() =>
+        resolveWaves({
+          services: {
+            web: { image: "nginx", depends_on: ["api"] },
+            api: { image: "api", depends_on: ["worker"] },
+            worker: { image: "api", depends_on: ["api"] },
+          },
+        }),
+      ).toThrow(
+        "The services of the stack depend on each other in a cycle: " +
+          "api → worker → api.",
+      );
+    });
+
+    it("should reject unknown conditions", () => {
+      expect(() =>
+        resolveWaves({
+          services: {
+            web: {
+              image: "nginx",
+              depends_on: ["db"],
+              deploy: {
+                labels: { [`${dependsOnLabelPrefix}db`]: "service_ready" },
+              },
+            },
+            db: { image: "postgres" },
+          },
+        }),
+      ).toThrow(
+        'Service "web" depends on "db" with the unknown condition ' +
+          '"service_ready"',
+      );
+    });
+  });
+
+  describe("deployInWaves", () => {
+    const settings = defineSettings({
+      monitorInterval: 5,
+      monitorTimeout: 300,
+      prune: true,
+      stack: "test-stack",
+    });
+
+    it("should deploy every wave once the previous one is ready", async () => {
+      const { spec: stripped, waves } = resolveWaves(spec);
+      vi.spyOn(monitoring, "waitForConditions").mockResolvedValue();
+
+      await deployInWaves(stripped, waves, settings);
+
+      const calls = vi.mocked(engine.deployStack).mock.calls;
+
+      expect(calls.map(([deployed]) => Object.keys(deployed.services))).toEqual(
+        [
+          ["db"],
+          ["migrate", "db"],
+          ["api", "migrate", "db"],
+          ["web", "api", "migrate", "db"],
+        ],
+      );
+      expect(calls.map(([, options]) => options.prune)).toEqual([
+        false,
+        false,
+        false,
+        true,
+      ]);
+      expect(calls[3][0]).toBe(stripped);
+      expect(monitoring.waitForConditions).toHaveBeenCalledTimes(3);
+      expect(monitoring.waitForConditions).toHaveBeenNthCalledWith(
+        1,
+        settings,
+        waves[0].conditions,
+        stripped,
+        deployedAt,
+      );
+    });
+
+    it("should not release the next wave if a dependency fails", async () => {
+      const { spec: stripped, waves } = resolveWaves(spec);
+      vi.spyOn(monitoring, "waitForConditions").mockRejectedValue(
+        new Error('Service "db" failed'),
+      );
+
+      await expect(deployInWaves(stripped, waves, settings)).rejects.toThrow(
+        'Service "db" failed',
+      );
+      expect(engine.deployStack).toHaveBeenCalledOnce();
+    });
+  });
+});
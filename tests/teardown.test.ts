@@ -0,0 +1,204 @@
+import * as core from "@actions/core";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { ServiceWithMetadata, TaskStatus } from "../src/engine.js";
+import * as engine from "../src/engine.js";
+import { teardownStack } from "../src/teardown.js";
+import * as utils from "../src/utils.js";
+import { stackLabel } from "../src/variables.js";
+
+vi.mock("@actions/core");
+vi.mock("../src/engine.js", async (importOriginal) => ({
+  ...(await importOriginal()),
+  listConfigs: vi.fn(),
+  listNetworks: vi.fn(),
+  listSecrets: vi.fn(),
+  listServices: vi.fn(),
+  listStackTasks: vi.fn(),
+  removeConfig: vi.fn(),
+  removeSecret: vi.fn(),
+  removeStack: vi.fn(),
+}));
+vi.mock("../src/utils.js", async (importOriginal) => ({
+  ...(await importOriginal()),
+  sleep: vi.fn(),
+}));
+
+function task(name: string, state: string) {
+  return {
+    ID: name,
+    Name: name,
+    Image: "nginx",
+    Node: "n1",
+    DesiredState: "Remove",
+    CurrentState: state,
+    Error: "",
+    Ports: "",
+  } satisfies TaskStatus;
+}
+
+function variable(id: string) {
+  return {
+    ID: id,
+    Name: `app-pr-42-${id}`,
+    Labels: { [stackLabel]: "app-pr-42" },
+    CreatedAt: "",
+    UpdatedAt: "",
+  };
+}
+
+function network(name: string) {
+  return {
+    ID: name,
+    Name: name,
+    Driver: "overlay",
+    Scope: "swarm",
+    Labels: {},
+  };
+}
+
+describe("Teardown", () => {
+  const settings = {
+    stack: "app-pr-42",
+    monitorInterval: 5,
+    monitorTimeout: 60,
+  };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(core.summary.addHeading).mockReturnValue(core.summary);
+    vi.mocked(core.summary.addRaw).mockReturnValue(core.summary);
+    vi.mocked(core.summary.addTable).mockReturnValue(core.summary);
+    vi.mocked(engine.listServices).mockResolvedValue([]);
+    vi.mocked(engine.listNetworks).mockResolvedValue([]);
+    vi.mocked(engine.listStackTasks).mockResolvedValue([]);
+    vi.mocked(engine.listSecrets).mockResolvedValue([variable("s1")]);
+    vi.mocked(engine.listConfigs).mockResolvedValue([variable("c1")]);
+  });
+
+  it("should remove the stack and its variables", async () => {
+    await teardownStack(settings);
+
+    expect(engine.removeStack).toHaveBeenCalledWith("app-pr-42");
+    expect(engine.listSecrets).toHaveBeenCalledWith({
+      labels: { [stackLabel]: "app-pr-42" },
+    });
+    expect(engine.removeSecret).toHaveBeenCalledWith("s1");
+    expect(engine.removeConfig).toHaveBeenCalledWith("c1");
+  });
+
+  it("should report what was removed in the job summary", async () => {
+    vi.mocked(engine.listServices).mockResolvedValue([
+      {
+        ID: "w",
+        Name: "app-pr-42_web",
+        Mode: "replicated",
+        Replicas: "1/1",
+        Image: "nginx",
+        Ports: "",
+      },
+    ]);
+    vi.mocked(engine.listNetworks).mockResolvedValueOnce([
+      network("app-pr-42_default"),
+    ]);
+
+    await teardownStack(settings);
+
+    expect(core.summary.addHeading).toHaveBeenCalledWith(
+      "Stack removed: app-pr-42",
+      2,
+    );
+    expect(core.summary.addTable).toHaveBeenCalledWith([
+      [
+        { data: "Resource", header: true },
+        { data: "Name", header: true },
+      ],
+      [{ data: "Service" }, { data: "app-pr-42_web" }],
+      [{ data: "Network" }, { data: "app-pr-42_default" }],
+      [{ data: "Secret" }, { data: "app-pr-42-s1" }],
+      [{ data: "Config" }, { data: "app-pr-42-c1" }],
+    ]);
+    expect(core.summary.write).toHaveBeenCalled();
+  });
+
+  it("should keep variables that services of other stacks still use", async () => {
+    vi.mocked(engine.listServices).mockImplementation(async (_, inspect) =>
+      inspect
+        ? [
+            {
+              ID: "g",
+              Name: "app-green_web",
+              Spec: {
+                Name: "app-green_web",
+                Labels: {},
+                TaskTemplate: {
+                  ContainerSpec: {
+                    Secrets: [{ SecretName: "app-pr-42-s1" }],
+                    Configs: [{ ConfigName: "app-pr-42-s1" }],
+                  },
+                },
+              },
+            } as ServiceWithMetadata,
+          ]
+        : [],
+    );
+
+    await teardownStack(settings);
+
+    expect(engine.listServices).toHaveBeenCalledWith({}, true);
+    expect(engine.removeSecret).not.toHaveBeenCalled();
+    expect(engine.removeConfig).toHaveBeenCalledWith("c1");
+    expect(core.info).toHaveBeenCalledWith(
+      'Keeping "app-pr-42-s1" of stack "app-pr-42", as it is still used by ' +
+        "service(s) app-green_web",
+    );
+  });
+
+  it("should wait for the networks of the stack to be removed", async () => {
+    vi.mocked(engine.listNetworks)
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([network("app-pr-42_default")])
+      .mockResolvedValueOnce([]);
+
+    await teardownStack(settings);
+
+    expect(utils.sleep).toHaveBeenCalledOnce();
+    expect(engine.listNetworks).toHaveBeenLastCalledWith({
+      labels: { "com.docker.stack.namespace": "app-pr-42" },
+    });
+  });
+
+  it("should wait for all tasks to stop before removing variables", async () => {
+    vi.mocked(engine.listStackTasks)
+      .mockResolvedValueOnce([
+        task("web.1", "Running 1 minute ago"),
+        task("web.2", "Shutdown 2 seconds ago"),
+      ])
+      .mockResolvedValueOnce([task("web.1", "Shutdown 1 second ago")]);
+
+    await teardownStack(settings);
+
+    expect(utils.sleep).toHaveBeenCalledExactlyOnceWith(5_000);
+    expect(engine.listStackTasks).toHaveBeenCalledTimes(2);
+    expect(engine.removeSecret).toHaveBeenCalledAfter(
+      vi.mocked(engine.listStackTasks),
+    );
+  });
+
+  it("should keep the variables if tasks do not stop in time", async () => {
+    const now = Date.now();
+    vi.spyOn(Date, "now")
+      .mockReturnValueOnce(now)
+      .mockReturnValue(now + 61_000);
+    vi.mocked(engine.listStackTasks).mockResolvedValue([
+      task("web.1", "Running 1 minute ago"),
+    ]);
+
+    await expect(teardownStack(settings)).rejects.toThrow(
+      'Timed out after 60s waiting for stack "app-pr-42" to be removed: ' +
+        "web.1 still exist(s)",
+    );
+    expect(engine.removeSecret).not.toHaveBeenCalled();
+    expect(engine.removeConfig).not.toHaveBeenCalled();
+    vi.mocked(Date.now).mockRestore();
+  });
+});
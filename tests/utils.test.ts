@@ -337,6 +337,42 @@ describe("Utilities", () => {
       });
     });
 
+    describe("Nesting", () => {
+      it("should resolve nested default values", () => {
+        const variables = new Map([["B", "from B"]]);
+        expect(interpolateString("${A:-${B:-c}}", variables)).toBe("from B");
+        expect(interpolateString("${A:-${C:-c}}", variables)).toBe("c");
+      });
+
+      it("should not evaluate the default of defined variables", () => {
+        const variables = new Map([["A", "a"]]);
+        expect(interpolateString("${A:-${B:?is required}}", variables)).toBe(
+          "a",
+        );
+      });
+
+      it("should allow balanced braces in default values", () => {
+        const variables = new Map<string, string>();
+        expect(
+          interpolateString('${CONFIG:-{"retries": {"max": 3}}}', variables),
+        ).toBe('{"retries": {"max": 3}}');
+      });
+
+      it("should resolve nested alternative values and messages", () => {
+        const variables = new Map([
+          ["TLS", "true"],
+          ["PORT", "443"],
+          ["STAGE", "production"],
+        ]);
+        expect(
+          interpolateString("${TLS:+https://host:${PORT}}", variables),
+        ).toBe("https://host:443");
+        expect(() =>
+          interpolateString("${TOKEN:?needed in ${STAGE}}", variables),
+        ).toThrow("it is required but has no value: needed in production");
+      });
+    });
+
     describe("Strict mode", () => {
       it("should throw error in strict mode when variable is undefined", () => {
         const variables = new Map<string, string>();
@@ -377,7 +413,14 @@ describe("Utilities", () => {
         const variables = new Map<string, string>();
         expect(() =>
           interpolateString("Hello $NAME $SURNAME", variables, true),
-        ).toThrow('Variable "NAME" is not defined.');
+        ).toThrow('Variables "NAME" and "SURNAME" are not defined.');
+      });
+
+      it("should list undefined variables of nested default values", () => {
+        const variables = new Map<string, string>();
+        expect(() =>
+          interpolateString("${A:-$B} ${C-} $D $B", variables, true),
+        ).toThrow('Variables "B" and "D" are not defined. Set them via');
       });
     });
 
@@ -393,8 +436,20 @@ describe("Utilities", () => {
       });
 
       it("should handle malformed variable syntax", () => {
-        const variables = new Map<string, string>();
+        const variables = new Map([["VAR", "value"]]);
         expect(interpolateString("${", variables)).toBe("${");
+        expect(interpolateString("${VAR} ${VAR", variables)).toBe(
+          "value ${VAR",
+        );
+        expect(interpolateString("${A:-${B", variables)).toBe("${A:-${B");
+      });
+
+      it("should reject malformed variable syntax in strict mode", () => {
+        const variables = new Map<string, string>();
+        expect(() => interpolateString("${", variables, true)).toThrow(
+          'Invalid interpolation format in "${": the "${" at position 1 ' +
+            "must be followed by a variable name.",
+        );
       });
 
       it("should handle variables with special characters (should not match)", () => {
@@ -582,8 +637,8 @@ describe("Utilities", () => {
         const variables = new Map<string, string>();
         expect(() => interpolateString("$UNDEFINED", variables, true)).toThrow(
           'Variable "UNDEFINED" is not defined. Set it via the "variables" ' +
-            'or "secrets" input, or in the workflow environment, or set ' +
-            '"strict-variables: false" to substitute an empty string instead.',
+            'or "secrets" input, or in the workflow environment, or give it ' +
+            'a default, like "${NAME:-}".',
         );
       });
     });